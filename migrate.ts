@@ -0,0 +1,45 @@
+import "dotenv/config";
+import { openDatabase, DATABASE_PATH } from "./src/database.ts";
+import { appliedMigrations, pendingMigrations, runMigrations } from "./src/migrations/index.ts";
+import { getKeyRing, reencryptAll, reindexSearch } from "./src/services/encryption.ts";
+
+// Usage: npm run migrate [-- status | reencrypt]
+const command = process.argv[2] || "up";
+const db = openDatabase(DATABASE_PATH, { migrate: false });
+
+if (command === "status") {
+  for (const m of appliedMigrations(db)) {
+    console.log(`applied  ${String(m.version).padStart(3, "0")}_${m.name}  (${m.applied_at})`);
+  }
+  const pending = pendingMigrations(db);
+  for (const m of pending) {
+    console.log(`pending  ${String(m.version).padStart(3, "0")}_${m.name}`);
+  }
+  if (pending.length === 0) console.log(`${DATABASE_PATH} is up to date.`);
+} else if (command === "up") {
+  const applied = runMigrations(db);
+  for (const m of applied) {
+    console.log(`applied  ${String(m.version).padStart(3, "0")}_${m.name}`);
+  }
+  console.log(applied.length ? `Applied ${applied.length} migration(s) to ${DATABASE_PATH}.` : `${DATABASE_PATH} is up to date.`);
+} else if (command === "reencrypt") {
+  // Seals plaintext rows and moves rows and search tokens off retired keys,
+  // then vacuums so the old values don't linger in free pages.
+  runMigrations(db);
+  const ring = getKeyRing();
+  const counts = reencryptAll(db, ring);
+  for (const [table, rows] of Object.entries(counts)) {
+    console.log(`${table.padEnd(16)} ${rows} row(s) re-encrypted`);
+  }
+  // Search tokens are keyed too, so they are rebuilt under the current key.
+  for (const [source, rows] of Object.entries(reindexSearch(db, ring))) {
+    console.log(`${`${source} search`.padEnd(16)} ${rows} row(s) re-indexed`);
+  }
+  db.exec("VACUUM");
+  console.log(`Every encrypted column in ${DATABASE_PATH} now uses key version ${ring.current}.`);
+} else {
+  console.error(`Unknown command "${command}". Use "up", "status" or "reencrypt".`);
+  process.exitCode = 1;
+}
+
+db.close();
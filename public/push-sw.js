@@ -0,0 +1,21 @@
+/* global self, clients, URL */
+// Shows reminders sent by the server's Web Push channel and opens the app
+// at the notice's url when one is clicked. Registered by src/lib/push.ts.
+
+self.addEventListener('push', (event) => {
+  const notice = event.data ? event.data.json() : { title: 'MyHealthAI', body: '' };
+  event.waitUntil(self.registration.showNotification(notice.title, {
+    body: notice.body,
+    tag: notice.tag,
+    data: { url: notice.url || '/' },
+  }));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+  event.waitUntil(clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+    const open = windows.find((client) => new URL(client.url).origin === self.location.origin);
+    return open ? open.navigate(url).then((client) => client && client.focus()) : clients.openWindow(url);
+  }));
+});
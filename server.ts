@@ -1,122 +1,1568 @@
-import express from "express";
+import "dotenv/config";
+import express, { type NextFunction, type Request, type Response } from "express";
 import { createServer as createViteServer } from "vite";
-import jwt from "jsonwebtoken";
+import jwt, { type JwtPayload } from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import multer from "multer";
+import { SqliteError } from "better-sqlite3";
+import path from "path";
+import { pathToFileURL } from "url";
+import crypto from "crypto";
+import type { z } from "zod";
 import db from "./src/db.ts";
-import dotenv from "dotenv";
-
-dotenv.config();
+import {
+  IdParams, RegisterBody, LoginBody, RefreshBody, EmailTokenBody, EmailBody, ResetPasswordBody, UpdateProfileBody,
+  CreateSessionBody, UpdateSessionBody, HistoryQuery, CreateHistoryBody, ChatBody, TitleBody, UploadReportBody,
+  MarkerParams, SearchQuery, ActivityQuery, AuditExportQuery, DeleteAccountBody, VisitSummaryQuery,
+  ConditionBody, AllergyBody, MedicationBody, SurgeryBody, MedicationCheckBody,
+  ReminderBody, OccurrencesQuery, OccurrenceActionBody, AdherenceQuery, PushSubscriptionBody, PushEndpointBody,
+  VitalBody, VitalsImportBody, VitalsQuery, VitalsSummaryQuery, InterviewBody, InterviewsQuery, REGION_LABELS,
+  type AccountDeletion, type ActivityEntry, type AiUsage, type AuditLogRow, type ChatHistoryRow, type ChatResponse, type ChatSession, type CitationsResponse, type LabResultRow, type LoginResponse,
+  type InterviewResponse, type MarkerSummary, type MedicalHistory, type MessageHit, type NotificationRow, type NotificationsResponse, type OccurrenceRow, type ProfileRow, type PushConfig,
+  type ReminderRow, type ReportRow, type ReportSummary, type SearchResults, type SeriesPoint, type SessionRef, type Success, type TokenPair, type VisitSummary,
+  type BodyRegion, type SymptomInterviewRow, type TriageLevel, type VitalRow, type VitalType, type VitalsImportResult,
+} from "./src/contracts/index.ts";
+import { sendError, sendRateLimited, errorHandler } from "./src/http/errors.ts";
+import { route, type ApiRequest, type ApiResponse, type TokenUser } from "./src/http/validate.ts";
+import { auditTrail, type AuditEntry } from "./src/http/audit.ts";
+import { ACCESS_TOKEN_TTL, REFRESH_TOKEN_TTL_DAYS, EMAIL_TOKEN_TTL, resolveJwtSecret, generateRefreshToken, hashToken, isAdminEmail, type EmailTokenPurpose } from "./src/services/auth.ts";
+import { sendMail } from "./src/services/mail/index.ts";
+import { verificationEmail, passwordResetEmail, accountDeletionEmail } from "./src/services/mail/templates.ts";
+import { chatWithAI, streamChatWithAI, analyzeReport, generateSessionTitle, getProvider, type ReportAnalysis } from "./src/services/ai.ts";
+import type { LabResult } from "./src/services/labs.ts";
+import { extractPdfPages, type PageText } from "./src/services/pdf.ts";
+import { saveReportFile, readReportFile, resolveReportFile } from "./src/services/storage.ts";
+import { AUTH_RATE_LIMITS, LOGIN_LOCKOUT, aiQuotaFromEnv, estimateTokens, estimateDocumentTokens, usageDay, nextUsageDay, secondsUntilNextDay, type RateLimitRule } from "./src/services/limits.ts";
+import { searchTerms, matchText } from "./src/services/search.ts";
+import { seal, unseal, sealNumber, unsealNumber, getKeyRing, indexForSearch, reindexSearch, searchCandidates, ENCRYPTED_COLUMNS, type SearchSource } from "./src/services/encryption.ts";
+import { describeAuditEntry, toCsv } from "./src/services/audit.ts";
+import { deletionGraceDays, purgeDueAccounts } from "./src/services/accounts.ts";
+import { createZipWriter } from "./src/services/archive.ts";
+import { buildPatientContext, isCurrentMedication } from "./src/services/context.ts";
+import { checkInteractions, findDrugs, interactionNote, type InteractionCheck } from "./src/services/interactions/index.ts";
+import { doseAdherence, rescheduleReminder, runReminderTick, toSqlTime, fromSqlTime, MISSED_AFTER_HOURS, REMINDER_TICK_MS, type Adherence, type OccurrenceStatus } from "./src/services/reminders.ts";
+import { getChannels, vapidKeysFromEnv } from "./src/services/notifications/index.ts";
+import { assessVital, summarizeVitals, vitalsContext, type VitalSummary } from "./src/services/vitals.ts";
+import { assessInterview, assessmentText, interviewTranscript } from "./src/services/interview.ts";
+import { triageMessage, triageFallbackReply, type TriageResult, type TriageSeverity } from "./src/services/triage/index.ts";
 
 const app = express();
 const PORT = 3000;
-const JWT_SECRET = process.env.JWT_SECRET || "super-secret-key";
+
+let JWT_SECRET: string;
+try {
+  JWT_SECRET = resolveJwtSecret();
+  getKeyRing();
+} catch (error) {
+  console.error(`Refusing to start: ${(error as Error).message}`);
+  process.exit(1);
+}
+
+// Behind a load balancer req.ip is the proxy unless we trust its X-Forwarded-For
+// (e.g. TRUST_PROXY=1 for one hop); per-IP rate limits depend on it.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
 
 app.use(express.json());
 
-// Auth Middleware
-const authenticateToken = (req: any, res: any, next: any) => {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
+const findLiveAuthSession = db.prepare(`
+  SELECT id FROM auth_sessions
+  WHERE id = ? AND user_id = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+`);
 
-  if (!token) return res.sendStatus(401);
+// Auth Middleware
+// Expired access tokens get a 401 so the client knows to refresh; the session
+// behind the token must also still be live, which is what makes logout stick.
+const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.split(' ')[1];
+  if (!token) return sendError(res, "unauthorized", "Please sign in to continue.");
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) return res.sendStatus(403);
-    req.user = user;
+  jwt.verify(token, JWT_SECRET, (err, decoded) => {
+    if (err) {
+      return err.name === "TokenExpiredError"
+        ? sendError(res, "token_expired", "Your session has expired.")
+        : sendError(res, "forbidden", "Invalid access token.");
+    }
+    const payload = decoded as Partial<TokenUser>;
+    if (!payload.id || !payload.email || !payload.sid || !findLiveAuthSession.get(payload.sid, payload.id)) {
+      return sendError(res, "unauthorized", "You have been signed out.");
+    }
+    (req as ApiRequest).user = { id: payload.id, email: payload.email, sid: payload.sid };
     next();
   });
 };
 
+const signAccessToken = (user: { id: number, email: string }, sessionId: number) =>
+  jwt.sign({ id: user.id, email: user.email, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+const insertAuthSession = db.prepare(`
+  INSERT INTO auth_sessions (user_id, refresh_token_hash, user_agent, expires_at)
+  VALUES (?, ?, ?, datetime('now', ?))
+`);
+
+function startAuthSession(user: { id: number, email: string }, userAgent?: string) {
+  const refreshToken = generateRefreshToken();
+  const info = insertAuthSession.run(user.id, hashToken(refreshToken), userAgent || null, `+${REFRESH_TOKEN_TTL_DAYS} days`);
+  return { token: signAccessToken(user, Number(info.lastInsertRowid)), refreshToken };
+}
+
+// --- Rate Limits ---
+const hitRateLimit = db.prepare(`
+  INSERT INTO rate_limits (key, hits, window_ends_at) VALUES (@key, 1, @windowEndsAt)
+  ON CONFLICT (key) DO UPDATE SET
+    hits = CASE WHEN window_ends_at <= @now THEN 1 ELSE hits + 1 END,
+    window_ends_at = CASE WHEN window_ends_at <= @now THEN @windowEndsAt ELSE window_ends_at END
+  RETURNING hits, window_ends_at
+`);
+
+/** Counts one hit against `key`. Returns the seconds until the window resets once over the limit, else 0. */
+function takeRateLimit(key: string, rule: RateLimitRule) {
+  const now = Math.floor(Date.now() / 1000);
+  const row = hitRateLimit.get({ key, now, windowEndsAt: now + rule.windowSeconds }) as { hits: number, window_ends_at: number };
+  return row.hits > rule.limit ? row.window_ends_at - now : 0;
+}
+
+// Requests without a key (e.g. no email in the body) fall through to validation.
+const rateLimit = (name: string, rule: RateLimitRule, keyOf: (req: Request) => string | undefined) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const key = keyOf(req);
+    const retryAfter = key ? takeRateLimit(`${name}:${key}`, rule) : 0;
+    if (retryAfter > 0) return sendRateLimited(res, "Too many attempts. Please wait a few minutes and try again.", retryAfter);
+    next();
+  };
+
+const bodyEmail = (req: Request) =>
+  typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined;
+
+const limitByIp = rateLimit("ip", AUTH_RATE_LIMITS.ip, req => req.ip);
+const limitLogins = rateLimit("login", AUTH_RATE_LIMITS.login, bodyEmail);
+const limitEmails = rateLimit("email", AUTH_RATE_LIMITS.email, bodyEmail);
+// Password re-checks for a signed-in user share their sign-in bucket, so a stolen token can't be used to guess.
+const limitPasswordChecks = rateLimit("login", AUTH_RATE_LIMITS.login, req => (req as ApiRequest).user?.email.toLowerCase());
+
+const aiQuota = aiQuotaFromEnv();
+const selectAiUsage = db.prepare("SELECT requests, tokens FROM ai_usage WHERE user_id = ? AND day = ?");
+const upsertAiUsage = db.prepare(`
+  INSERT INTO ai_usage (user_id, day, requests, tokens) VALUES (?, ?, ?, ?)
+  ON CONFLICT (user_id, day) DO UPDATE SET requests = requests + excluded.requests, tokens = tokens + excluded.tokens
+`);
+
+function getAiUsage(userId: number): AiUsage {
+  const now = new Date();
+  const row = selectAiUsage.get(userId, usageDay(now)) as { requests: number, tokens: number } | undefined;
+  return {
+    requests: { used: row?.requests ?? 0, limit: aiQuota.requests },
+    tokens: { used: row?.tokens ?? 0, limit: aiQuota.tokens },
+    resetsAt: nextUsageDay(now).toISOString(),
+  };
+}
+
+/** Seconds until the user's daily AI allowance resets once it is used up, else 0. */
+function aiQuotaRetryAfter(userId: number) {
+  const { requests, tokens } = getAiUsage(userId);
+  return requests.used >= requests.limit || tokens.used >= tokens.limit ? secondsUntilNextDay() : 0;
+}
+
+const recordAiUsage = (userId: number, tokens: number) => upsertAiUsage.run(userId, usageDay(), 1, tokens);
+
+const AI_QUOTA_MESSAGE = "You've reached today's AI usage limit. It resets at midnight UTC.";
+
+const requireAiQuota = (req: Request, res: Response, next: NextFunction) => {
+  const retryAfter = aiQuotaRetryAfter((req as ApiRequest).user.id);
+  if (retryAfter > 0) return sendRateLimited(res, AI_QUOTA_MESSAGE, retryAfter);
+  next();
+};
+
 // --- Auth Routes ---
-app.post("/api/auth/register", async (req, res) => {
+const appUrl = (req: Pick<Request, "protocol" | "get">) => (process.env.APP_URL || `${req.protocol}://${req.get("host")}`).replace(/\/+$/, "");
+
+/**
+ * Signs a single-use token for an emailed link. Issuing a new one retires any
+ * earlier unused token for the same purpose, so only the latest link works.
+ */
+function issueEmailToken(userId: number, purpose: EmailTokenPurpose) {
+  const jti = crypto.randomUUID();
+  const ttl = EMAIL_TOKEN_TTL[purpose];
+  db.transaction(() => {
+    db.prepare("UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND purpose = ? AND used_at IS NULL").run(userId, purpose);
+    db.prepare("INSERT INTO email_tokens (jti, user_id, purpose, expires_at) VALUES (?, ?, ?, datetime('now', ?))").run(jti, userId, purpose, `+${ttl} seconds`);
+  })();
+  return jwt.sign({ sub: String(userId), purpose }, JWT_SECRET, { jwtid: jti, expiresIn: ttl });
+}
+
+/** Marks the token used and returns its user id, or null if it is invalid, expired or spent. */
+function consumeEmailToken(token: string, purpose: EmailTokenPurpose): number | null {
+  let payload: JwtPayload & { purpose?: EmailTokenPurpose };
+  try {
+    payload = jwt.verify(token, JWT_SECRET) as JwtPayload;
+  } catch {
+    return null;
+  }
+  if (payload.purpose !== purpose || !payload.jti) return null;
+  const info = db.prepare(`
+    UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP
+    WHERE jti = ? AND purpose = ? AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+  `).run(payload.jti, purpose);
+  return info.changes === 1 ? Number(payload.sub) : null;
+}
+
+// Mail failures are logged rather than surfaced, so responses don't reveal which addresses exist.
+async function sendVerificationEmail(req: Pick<Request, "protocol" | "get">, user: { id: number, email: string, first_name: string }) {
+  const link = `${appUrl(req)}/?verify=${encodeURIComponent(issueEmailToken(user.id, "verify_email"))}`;
+  try {
+    await sendMail(verificationEmail(user.email, user.first_name, link));
+  } catch (error) {
+    console.error("Verification Email Error:", error);
+  }
+}
+
+app.post("/api/auth/register", limitByIp, ...route({ body: RegisterBody }, async (req, res: ApiResponse<{ id: number }>) => {
   const { email, password, firstName, lastName } = req.body;
   try {
     const hashedPassword = await bcrypt.hash(password, 10);
     const stmt = db.prepare("INSERT INTO users (email, password, first_name, last_name) VALUES (?, ?, ?, ?)");
     const info = stmt.run(email, hashedPassword, firstName, lastName);
-    res.status(201).json({ id: info.lastInsertRowid });
-  } catch (error: any) {
-    if (error.message && error.message.includes('UNIQUE constraint failed')) {
-      res.status(400).json({ error: "An account with this email already exists. Please sign in instead." });
+    await sendVerificationEmail(req, { id: Number(info.lastInsertRowid), email, first_name: firstName });
+    res.status(201).json({ id: Number(info.lastInsertRowid) });
+  } catch (error) {
+    if (error instanceof SqliteError && error.code === "SQLITE_CONSTRAINT_UNIQUE") {
+      sendError(res, "email_taken", "An account with this email already exists. Please sign in instead.");
     } else {
-      res.status(500).json({ error: error.message });
+      console.error("Registration Error:", error);
+      sendError(res, "internal", "Could not create the account");
     }
   }
-});
+}));
+
+const recordFailedLogin = db.prepare(`
+  UPDATE users SET
+    failed_logins = CASE WHEN failed_logins + 1 >= @maxFailures THEN 0 ELSE failed_logins + 1 END,
+    locked_until = CASE WHEN failed_logins + 1 >= @maxFailures THEN datetime('now', @lockout) ELSE locked_until END
+  WHERE id = @id
+`);
+const clearFailedLogins = db.prepare("UPDATE users SET failed_logins = 0, locked_until = NULL WHERE id = ?");
+const failLogin = (id: number) => recordFailedLogin.run({ id, maxFailures: LOGIN_LOCKOUT.maxFailures, lockout: `+${LOGIN_LOCKOUT.seconds} seconds` });
+
+/** The users columns the account routes read; the health fields are sealed and go through loadProfile. */
+interface UserRow {
+  id: number;
+  email: string;
+  password: string;
+  first_name: string;
+  last_name: string;
+  email_verified_at: string | null;
+  /** From LOCKED_FOR: seconds until the lockout lifts, zero or less once it has. */
+  locked_for: number | null;
+}
+
+// Seconds the account stays locked, as a column of a users query.
+const LOCKED_FOR = "CAST(strftime('%s', locked_until) - strftime('%s', 'now') AS INTEGER) AS locked_for";
 
-app.post("/api/auth/login", async (req, res) => {
+// Compared against when the email is unknown, so response times don't reveal which addresses have accounts.
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString("hex"), 10);
+
+const LOGIN_FAILED = "Invalid email or password. After repeated failures, sign-in is paused for a while; resetting your password lifts the pause.";
+
+// Emails are matched case-insensitively; older accounts may have been stored with capitals.
+// Repeated wrong passwords lock the account for a while, even against the right one. An
+// unknown email, a wrong password and a locked account all get the same answer.
+app.post("/api/auth/login", limitByIp, limitLogins, ...route({ body: LoginBody }, async (req, res: ApiResponse<LoginResponse>) => {
   const { email, password } = req.body;
-  const user: any = db.prepare("SELECT * FROM users WHERE email = ?").get(email);
+  const user = db.prepare(`
+    SELECT id, email, password, first_name, last_name, email_verified_at, ${LOCKED_FOR}
+    FROM users WHERE email = ? COLLATE NOCASE
+  `).get(email) as UserRow | undefined;
 
-  if (!user || !(await bcrypt.compare(password, user.password))) {
-    return res.status(401).json({ error: "Invalid credentials" });
+  const passwordMatches = await bcrypt.compare(password, user?.password ?? DUMMY_PASSWORD_HASH);
+  const locked = user !== undefined && user.locked_for !== null && user.locked_for > 0;
+  if (!user || locked || !passwordMatches) {
+    if (user && !locked) failLogin(user.id);
+    return sendError(res, "unauthorized", LOGIN_FAILED);
+  }
+  clearFailedLogins.run(user.id);
+  if (!user.email_verified_at) {
+    return sendError(res, "email_unverified", "Please verify your email address before signing in.");
   }
 
-  const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET);
-  res.json({ token, user: { id: user.id, email: user.email, firstName: user.first_name, lastName: user.last_name } });
-});
+  const { token, refreshToken } = startAuthSession(user, req.get("user-agent"));
+  res.json({
+    token,
+    refreshToken,
+    user: { id: user.id, email: user.email, firstName: user.first_name, lastName: user.last_name, isAdmin: isAdminEmail(user.email) },
+  });
+}));
 
-// --- User Profile Routes ---
-app.get("/api/user/profile", authenticateToken, (req: any, res) => {
-  const user = db.prepare("SELECT id, email, first_name, last_name, mobile, blood_group, personal_notes FROM users WHERE id = ?").get(req.user.id);
-  res.json(user);
-});
+// Rotates the refresh token. Presenting one that was already rotated out means
+// it was copied, so that session is revoked — unless the rotation was moments
+// ago, which is just two tabs refreshing at once.
+app.post("/api/auth/refresh", ...route({ body: RefreshBody }, (req, res: ApiResponse<TokenPair>) => {
+  const { refreshToken } = req.body;
+  const hash = hashToken(refreshToken);
+  const session = db.prepare(`
+    SELECT s.id, u.id AS user_id, u.email FROM auth_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.refresh_token_hash = ? AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP
+  `).get(hash) as { id: number, user_id: number, email: string } | undefined;
 
-app.put("/api/user/profile", authenticateToken, (req: any, res) => {
-  const { firstName, lastName, mobile, bloodGroup, personalNotes } = req.body;
+  if (!session) {
+    db.prepare(`
+      UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE previous_token_hash = ? AND revoked_at IS NULL AND last_used_at < datetime('now', '-30 seconds')
+    `).run(hash);
+    return sendError(res, "unauthorized", "Your session has expired. Please sign in again.");
+  }
+
+  const next = generateRefreshToken();
   db.prepare(`
-    UPDATE users 
-    SET first_name = ?, last_name = ?, mobile = ?, blood_group = ?, personal_notes = ?
+    UPDATE auth_sessions
+    SET previous_token_hash = refresh_token_hash, refresh_token_hash = ?, last_used_at = CURRENT_TIMESTAMP
     WHERE id = ?
-  `).run(firstName, lastName, mobile, bloodGroup, personalNotes, req.user.id);
+  `).run(hashToken(next), session.id);
+  res.json({ token: signAccessToken({ id: session.user_id, email: session.email }, session.id), refreshToken: next });
+}));
+
+app.post("/api/auth/verify-email", limitByIp, ...route({ body: EmailTokenBody }, (req, res: ApiResponse<Success>) => {
+  const userId = consumeEmailToken(req.body.token, "verify_email");
+  if (!userId) return sendError(res, "invalid_link", "This verification link is invalid or has expired.");
+  db.prepare("UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = ?").run(userId);
+  res.json({ success: true });
+}));
+
+app.post("/api/auth/resend-verification", limitByIp, limitEmails, ...route({ body: EmailBody }, async (req, res: ApiResponse<Success>) => {
+  const user = db.prepare("SELECT id, email, first_name, email_verified_at FROM users WHERE email = ? COLLATE NOCASE").get(req.body.email) as
+    Pick<UserRow, "id" | "email" | "first_name" | "email_verified_at"> | undefined;
+  if (user && !user.email_verified_at) await sendVerificationEmail(req, user);
+  res.json({ success: true });
+}));
+
+app.post("/api/auth/forgot-password", limitByIp, limitEmails, ...route({ body: EmailBody }, async (req, res: ApiResponse<Success>) => {
+  const user = db.prepare("SELECT id, email, first_name FROM users WHERE email = ? COLLATE NOCASE").get(req.body.email) as
+    Pick<UserRow, "id" | "email" | "first_name"> | undefined;
+  if (user) {
+    const link = `${appUrl(req)}/?reset=${encodeURIComponent(issueEmailToken(user.id, "reset_password"))}`;
+    try {
+      await sendMail(passwordResetEmail(user.email, user.first_name, link));
+    } catch (error) {
+      console.error("Password Reset Email Error:", error);
+    }
+  }
+  res.json({ success: true });
+}));
+
+// A completed reset proves control of the inbox, so it also verifies the
+// email and lifts any lockout, and it signs out every existing session.
+app.post("/api/auth/reset-password", limitByIp, ...route({ body: ResetPasswordBody }, async (req, res: ApiResponse<Success>) => {
+  const { token, password } = req.body;
+  const userId = consumeEmailToken(token, "reset_password");
+  if (!userId) return sendError(res, "invalid_link", "This reset link is invalid or has expired.");
+
+  const hashedPassword = await bcrypt.hash(password, 10);
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE users SET password = ?, email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP), failed_logins = 0, locked_until = NULL
+      WHERE id = ?
+    `).run(hashedPassword, userId);
+    db.prepare("UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL").run(userId);
+  })();
+  res.json({ success: true });
+}));
+
+app.post("/api/auth/logout", authenticateToken, ...route({}, (req, res: ApiResponse<Success>) => {
+  db.prepare("UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL").run(req.user.sid);
+  res.json({ success: true });
+}));
+
+app.post("/api/auth/logout-all", authenticateToken, ...route({}, (req, res: ApiResponse<Success & { revoked: number }>) => {
+  const info = db.prepare("UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL").run(req.user.id);
+  res.json({ success: true, revoked: info.changes });
+}));
+
+// --- Audit Log ---
+const insertAuditEntry = db.prepare(`
+  INSERT INTO audit_log (actor_id, action, resource, resource_id, status, ip, user_agent)
+  VALUES (@actorId, @action, @resource, @resourceId, @status, @ip, @userAgent)
+`);
+
+// Registered ahead of the audit trail: looking at your own activity isn't itself recorded.
+app.get("/api/user/activity", authenticateToken, ...route({ query: ActivityQuery }, (req, res: ApiResponse<ActivityEntry[]>) => {
+  const entries = db.prepare(`
+    SELECT id, action, resource, resource_id, status, ip, user_agent, created_at FROM audit_log
+    WHERE actor_id = ? ORDER BY id DESC LIMIT ?
+  `).all(req.user.id, req.query.limit) as ActivityEntry[];
+  res.json(entries);
+}));
+
+app.use(["/api/user", "/api/chat", "/api/ai", "/api/reports", "/api/reminders", "/api/notifications", "/api/push", "/api/search", "/api/admin"], auditTrail((entry: AuditEntry) => insertAuditEntry.run(entry)));
+
+// --- User Profile Routes ---
+// The health columns (blood group, notes, date of birth, sex, height and
+// weight) are encrypted at rest (see src/services/encryption.ts), so height
+// and weight are stored as text and turned back into numbers here.
+const SEALED_PROFILE_COLUMNS = ENCRYPTED_COLUMNS.users.columns;
+
+type StoredProfile = Omit<ProfileRow, typeof SEALED_PROFILE_COLUMNS[number]>
+  & Record<typeof SEALED_PROFILE_COLUMNS[number], string | null> & { key_version: number | null };
+
+const loadProfile = (userId: number) => {
+  const row = db.prepare(`SELECT id, email, first_name, last_name, mobile, ${SEALED_PROFILE_COLUMNS.join(", ")}, deletion_scheduled_at, key_version FROM users WHERE id = ?`)
+    .get(userId) as StoredProfile | undefined;
+  if (!row) return undefined;
+  const { key_version, ...profile } = row;
+  const opened = Object.fromEntries(SEALED_PROFILE_COLUMNS.map(column => [column, unseal("users", column, userId, profile[column], key_version)]));
+  const toNumber = (value: string | null) => value === null ? null : Number(value);
+  return { ...profile, ...opened, height_cm: toNumber(opened.height_cm), weight_kg: toNumber(opened.weight_kg) } as ProfileRow;
+};
+
+app.get("/api/user/profile", authenticateToken, ...route({}, (req, res: ApiResponse<ProfileRow>) => {
+  res.json(loadProfile(req.user.id));
+}));
+
+const PROFILE_COLUMNS = {
+  firstName: "first_name",
+  lastName: "last_name",
+  mobile: "mobile",
+  bloodGroup: "blood_group",
+  personalNotes: "personal_notes",
+  dateOfBirth: "date_of_birth",
+  sex: "sex",
+  heightCm: "height_cm",
+  weightKg: "weight_kg",
+} as const;
+
+// Fields missing from the body keep their current value. The encrypted
+// columns share the row's key version, so changing any of them reseals all.
+app.put("/api/user/profile", authenticateToken, ...route({ body: UpdateProfileBody }, (req, res: ApiResponse<Success>) => {
+  const fields = Object.entries(req.body).filter(([, value]) => value !== undefined) as [keyof typeof PROFILE_COLUMNS, string | number | null][];
+  const columns: Record<string, string | number | null> = Object.fromEntries(fields.map(([field, value]) => [PROFILE_COLUMNS[field], value]));
+
+  if (SEALED_PROFILE_COLUMNS.some(column => column in columns)) {
+    const current = loadProfile(req.user.id);
+    for (const column of SEALED_PROFILE_COLUMNS) {
+      const value = column in columns ? columns[column] : current[column];
+      columns[column] = seal("users", column, req.user.id, value === null ? null : String(value));
+    }
+    columns.key_version = getKeyRing().current;
+  }
+
+  const entries = Object.entries(columns);
+  if (entries.length > 0) {
+    const assignments = entries.map(([column]) => `${column} = ?`).join(", ");
+    db.prepare(`UPDATE users SET ${assignments} WHERE id = ?`).run(...entries.map(([, value]) => value), req.user.id);
+  }
   res.json({ success: true });
+}));
+
+// --- Medical History Routes ---
+// Request fields by column for each history table. Everything but the status
+// and severity enums is encrypted at rest with the row's key version.
+const HISTORY_TABLES = {
+  conditions: { body: ConditionBody, fields: { name: "name", status: "status", diagnosedOn: "diagnosed_on", notes: "notes" } },
+  allergies: { body: AllergyBody, fields: { substance: "substance", reaction: "reaction", severity: "severity" } },
+  medications: { body: MedicationBody, fields: { name: "name", dose: "dose", frequency: "frequency", startedOn: "started_on", stoppedOn: "stopped_on", notes: "notes" } },
+  surgeries: { body: SurgeryBody, fields: { procedure: "procedure", performedOn: "performed_on", notes: "notes" } },
+} as const;
+
+type HistoryTable = keyof typeof HISTORY_TABLES;
+type HistoryEntry<T extends HistoryTable> = MedicalHistory[T][number];
+
+const isSealedColumn = (table: HistoryTable, column: string) => (ENCRYPTED_COLUMNS[table].columns as readonly string[]).includes(column);
+
+// Every sealed history column is text, so a stored row has the same shape as an opened one.
+type StoredHistoryEntry<T extends HistoryTable> = HistoryEntry<T> & { key_version: number | null };
+
+const openHistoryEntry = <T extends HistoryTable>(table: T, { key_version, ...row }: StoredHistoryEntry<T>) => Object.fromEntries(
+  Object.entries(row).map(([column, value]) => [column, isSealedColumn(table, column) ? unseal(table, column as never, row.user_id, value, key_version) : value])
+) as HistoryEntry<T>;
+
+const listHistory = <T extends HistoryTable>(userId: number, table: T) =>
+  (db.prepare(`SELECT * FROM ${table} WHERE user_id = ? ORDER BY created_at ASC, id ASC`).all(userId) as StoredHistoryEntry<T>[])
+    .map(row => openHistoryEntry(table, row));
+
+const findHistoryEntry = <T extends HistoryTable>(userId: number, table: T, id: number) => {
+  const row = db.prepare(`SELECT * FROM ${table} WHERE id = ? AND user_id = ?`).get(id, userId) as StoredHistoryEntry<T> | undefined;
+  return row && openHistoryEntry(table, row);
+};
+
+const loadMedicalHistory = (userId: number): MedicalHistory => ({
+  conditions: listHistory(userId, "conditions"),
+  allergies: listHistory(userId, "allergies"),
+  medications: listHistory(userId, "medications"),
+  surgeries: listHistory(userId, "surgeries"),
+});
+
+// Column values in `fields` order, sealed where the column is encrypted.
+const historyValues = (table: HistoryTable, userId: number, body: Record<string, string | null>) =>
+  Object.entries(HISTORY_TABLES[table].fields).map(([field, column]) =>
+    isSealedColumn(table, column) ? seal(table, column as never, userId, body[field]) : body[field]);
+
+app.get("/api/user/history", authenticateToken, ...route({}, (req, res: ApiResponse<MedicalHistory>) => {
+  res.json(loadMedicalHistory(req.user.id));
+}));
+
+// The same four routes for each table: list, add, replace and delete.
+for (const table of Object.keys(HISTORY_TABLES) as HistoryTable[]) {
+  const { body, fields } = HISTORY_TABLES[table];
+  const columns: string[] = Object.values(fields);
+  const insert = db.prepare(`INSERT INTO ${table} (user_id, ${columns.join(", ")}, key_version) VALUES (?, ${columns.map(() => "?").join(", ")}, ?)`);
+  const update = db.prepare(`UPDATE ${table} SET ${columns.map(c => `${c} = ?`).join(", ")}, key_version = ? WHERE id = ? AND user_id = ?`);
+  const notFound = `${table.charAt(0).toUpperCase()}${table.slice(1, -1)} not found`;
+
+  app.get(`/api/user/${table}`, authenticateToken, ...route({}, (req, res: ApiResponse<HistoryEntry<typeof table>[]>) => {
+    res.json(listHistory(req.user.id, table));
+  }));
+
+  app.post(`/api/user/${table}`, authenticateToken, ...route({ body }, (req, res: ApiResponse<HistoryEntry<typeof table>>) => {
+    const info = insert.run(req.user.id, ...historyValues(table, req.user.id, req.body), getKeyRing().current);
+    res.json(findHistoryEntry(req.user.id, table, Number(info.lastInsertRowid)));
+  }));
+
+  app.put(`/api/user/${table}/:id`, authenticateToken, ...route({ params: IdParams, body }, (req, res: ApiResponse<HistoryEntry<typeof table>>) => {
+    const info = update.run(...historyValues(table, req.user.id, req.body), getKeyRing().current, req.params.id, req.user.id);
+    if (info.changes === 0) return sendError(res, "not_found", notFound);
+    res.json(findHistoryEntry(req.user.id, table, req.params.id));
+  }));
+
+  app.delete(`/api/user/${table}/:id`, authenticateToken, ...route({ params: IdParams }, (req, res: ApiResponse<Success>) => {
+    const info = db.prepare(`DELETE FROM ${table} WHERE id = ? AND user_id = ?`).run(req.params.id, req.user.id);
+    if (info.changes === 0) return sendError(res, "not_found", notFound);
+    res.json({ success: true });
+  }));
+}
+
+// What new medicines are checked against: current medications (stopped ones
+// drop out) and every recorded allergy. See src/services/interactions.
+const medicationSafetyList = (userId: number, excludeId?: number) => ({
+  medications: listHistory(userId, "medications").filter(m => m.id !== excludeId && isCurrentMedication(m)).map(m => m.name),
+  allergies: listHistory(userId, "allergies").map(a => a.substance),
 });
 
+// Every current medication against the others and the allergies.
+app.get("/api/user/medications/interactions", authenticateToken, ...route({}, (req, res: ApiResponse<InteractionCheck>) => {
+  const { medications, allergies } = medicationSafetyList(req.user.id);
+  res.json(checkInteractions(medications, { medications: [], allergies }));
+}));
+
+// A medicine the user is about to add or change to, checked before it is saved.
+app.post("/api/user/medications/check", authenticateToken, ...route({ body: MedicationCheckBody }, (req, res: ApiResponse<InteractionCheck>) => {
+  res.json(checkInteractions([req.body.name], medicationSafetyList(req.user.id, req.body.excludeId)));
+}));
+
+// --- Vitals Routes ---
+// Readings are stored in the unit they were entered in; flags and summaries
+// come from src/services/vitals.ts at read time.
+type StoredVital = Omit<VitalRow, "flag"> & { key_version: number | null };
+
+const VITALS_CONTEXT_DAYS = 30;
+
+const openVital = ({ key_version, ...row }: StoredVital): VitalRow => {
+  const opened = {
+    ...row,
+    label: unseal("vitals", "label", row.user_id, row.label, key_version),
+    notes: unseal("vitals", "notes", row.user_id, row.notes, key_version),
+    value: unsealNumber("vitals", "value", row.user_id, row.value, key_version),
+    value2: unsealNumber("vitals", "value2", row.user_id, row.value2, key_version),
+  };
+  return { ...opened, flag: assessVital(opened) };
+};
+
+const listVitals = (userId: number, days: number, type?: VitalType) =>
+  (db.prepare(`
+    SELECT * FROM vitals WHERE user_id = ? AND measured_at >= ? ${type ? "AND type = ?" : ""}
+    ORDER BY measured_at ASC, id ASC
+  `).all(userId, toSqlTime(new Date(Date.now() - days * 24 * 60 * 60 * 1000)), ...(type ? [type] : [])) as StoredVital[]).map(openVital);
+
+const insertVital = db.prepare(`
+  INSERT INTO vitals (user_id, type, value, value2, unit, label, notes, measured_at, source, key_version)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+// A reading without a time was taken now.
+const measuredAt = (reading: z.output<typeof VitalBody>) => toSqlTime(reading.measuredAt ? new Date(reading.measuredAt) : new Date());
+
+// Only symptoms are named.
+const storeVital = (userId: number, reading: z.output<typeof VitalBody>, measured: string, source: VitalRow["source"]) => insertVital.run(
+  userId, reading.type, sealNumber("vitals", "value", userId, reading.value), sealNumber("vitals", "value2", userId, reading.value2), reading.unit,
+  seal("vitals", "label", userId, reading.type === "symptom" ? reading.label : null),
+  seal("vitals", "notes", userId, reading.notes),
+  measured, source, getKeyRing().current,
+);
+
+const vitalKey = (reading: { type: string, value: number, value2: number | null, unit: string, label: string | null, measured_at: string }) =>
+  [reading.type, reading.measured_at, reading.value, reading.value2, reading.unit, reading.label?.toLowerCase()].join("|");
+
+app.get("/api/user/vitals", authenticateToken, ...route({ query: VitalsQuery }, (req, res: ApiResponse<VitalRow[]>) => {
+  res.json(listVitals(req.user.id, req.query.days, req.query.type));
+}));
+
+app.post("/api/user/vitals", authenticateToken, ...route({ body: VitalBody }, (req, res: ApiResponse<VitalRow>) => {
+  const info = storeVital(req.user.id, req.body, measuredAt(req.body), "manual");
+  res.json(openVital(db.prepare("SELECT * FROM vitals WHERE id = ?").get(info.lastInsertRowid) as StoredVital));
+}));
+
+// All or nothing: one invalid entry rejects the file, with its index in the error path.
+// Readings already stored (same type, time, values and symptom) are skipped, so re-importing is safe.
+app.post("/api/user/vitals/import", authenticateToken, ...route({ body: VitalsImportBody }, (req, res: ApiResponse<VitalsImportResult>) => {
+  const userId = req.user.id;
+  const entries = req.body.entries.map(entry => ({ entry, measured_at: measuredAt(entry), label: entry.type === "symptom" ? entry.label : null }));
+  const times = entries.map(e => e.measured_at).sort();
+  const existing = (db.prepare("SELECT * FROM vitals WHERE user_id = ? AND measured_at BETWEEN ? AND ?")
+    .all(userId, times[0], times[times.length - 1]) as StoredVital[]).map(openVital);
+  const seen = new Set(existing.map(vitalKey));
+
+  const imported = db.transaction(() => {
+    let count = 0;
+    for (const { entry, measured_at, label } of entries) {
+      const key = vitalKey({ ...entry, label, measured_at });
+      if (seen.has(key)) continue;
+      seen.add(key);
+      storeVital(userId, entry, measured_at, "import");
+      count++;
+    }
+    return count;
+  })();
+  res.json({ imported, skipped: entries.length - imported });
+}));
+
+app.get("/api/user/vitals/summary", authenticateToken, ...route({ query: VitalsSummaryQuery }, (req, res: ApiResponse<VitalSummary[]>) => {
+  res.json(summarizeVitals(listVitals(req.user.id, req.query.days)));
+}));
+
+app.delete("/api/user/vitals/:id", authenticateToken, ...route({ params: IdParams }, (req, res: ApiResponse<Success>) => {
+  const info = db.prepare("DELETE FROM vitals WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+  if (info.changes === 0) return sendError(res, "not_found", "Reading not found");
+  res.json({ success: true });
+}));
+
+// --- Reminder Routes ---
+// Reminders are definitions; occurrences are the scheduler's persisted jobs
+// (see src/services/reminders.ts), which startServer runs on a timer.
+const openReminder = ({ key_version, ...row }: ReminderRow & { key_version: number | null }): ReminderRow => ({
+  ...row,
+  title: unseal("reminders", "title", row.user_id, row.title, key_version)!,
+  notes: unseal("reminders", "notes", row.user_id, row.notes, key_version),
+});
+
+const findReminder = (userId: number, id: number) => {
+  const row = db.prepare("SELECT * FROM reminders WHERE id = ? AND user_id = ?").get(id, userId) as (ReminderRow & { key_version: number | null }) | undefined;
+  return row && openReminder(row);
+};
+
+const REMINDER_COLUMNS = ["kind", "title", "notes", "medication_id", "times", "timezone", "due_at", "lead_minutes", "active"];
+
+// Column values in REMINDER_COLUMNS order; fields another kind uses are cleared.
+const reminderValues = (userId: number, body: z.output<typeof ReminderBody>) => [
+  body.kind,
+  seal("reminders", "title", userId, body.title),
+  seal("reminders", "notes", userId, body.notes),
+  body.kind === "appointment" ? null : body.medicationId,
+  body.kind === "dose" ? body.times.join(",") : null,
+  body.timezone,
+  body.kind === "dose" ? null : toSqlTime(new Date(body.dueAt)),
+  body.kind === "dose" ? 0 : body.leadMinutes,
+  body.active ? 1 : 0,
+];
+
+const ownsMedication = (userId: number, body: z.output<typeof ReminderBody>) =>
+  body.kind === "appointment" || body.medicationId === null ||
+  !!db.prepare("SELECT 1 FROM medications WHERE id = ? AND user_id = ?").get(body.medicationId, userId);
+
+const insertReminder = db.prepare(`
+  INSERT INTO reminders (user_id, ${REMINDER_COLUMNS.join(", ")}, key_version) VALUES (?, ${REMINDER_COLUMNS.map(() => "?").join(", ")}, ?)
+`);
+const updateReminder = db.prepare(`UPDATE reminders SET ${REMINDER_COLUMNS.map(c => `${c} = ?`).join(", ")}, key_version = ? WHERE id = ? AND user_id = ?`);
+
+app.get("/api/reminders", authenticateToken, ...route({}, (req, res: ApiResponse<ReminderRow[]>) => {
+  const rows = db.prepare("SELECT * FROM reminders WHERE user_id = ? ORDER BY created_at ASC, id ASC").all(req.user.id) as (ReminderRow & { key_version: number | null })[];
+  res.json(rows.map(openReminder));
+}));
+
+app.post("/api/reminders", authenticateToken, ...route({ body: ReminderBody }, (req, res: ApiResponse<ReminderRow>) => {
+  if (!ownsMedication(req.user.id, req.body)) return sendError(res, "not_found", "Medication not found");
+  const info = insertReminder.run(req.user.id, ...reminderValues(req.user.id, req.body), getKeyRing().current);
+  rescheduleReminder(db, Number(info.lastInsertRowid));
+  res.json(findReminder(req.user.id, Number(info.lastInsertRowid)));
+}));
+
+// Replacing a reminder requeues its unanswered future occurrences; answered ones stay in the history.
+app.put("/api/reminders/:id", authenticateToken, ...route({ params: IdParams, body: ReminderBody }, (req, res: ApiResponse<ReminderRow>) => {
+  if (!ownsMedication(req.user.id, req.body)) return sendError(res, "not_found", "Medication not found");
+  const info = updateReminder.run(...reminderValues(req.user.id, req.body), getKeyRing().current, req.params.id, req.user.id);
+  if (info.changes === 0) return sendError(res, "not_found", "Reminder not found");
+  rescheduleReminder(db, req.params.id);
+  res.json(findReminder(req.user.id, req.params.id));
+}));
+
+// Occurrences go with the reminder; their notifications stay in the inbox.
+app.delete("/api/reminders/:id", authenticateToken, ...route({ params: IdParams }, (req, res: ApiResponse<Success>) => {
+  const info = db.prepare("DELETE FROM reminders WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+  if (info.changes === 0) return sendError(res, "not_found", "Reminder not found");
+  res.json({ success: true });
+}));
+
+const openOccurrence = ({ key_version, user_id, ...row }: OccurrenceRow & { user_id: number, key_version: number | null }): OccurrenceRow => ({
+  ...row,
+  title: unseal("reminders", "title", user_id, row.title, key_version)!,
+});
+
+const OCCURRENCE_SELECT = `
+  SELECT o.id, o.reminder_id, o.user_id, r.kind, r.title, r.key_version, o.scheduled_for, o.notify_at, o.status, o.snoozes, o.notified_at, o.responded_at
+  FROM reminder_occurrences o JOIN reminders r ON r.id = o.reminder_id
+`;
+
+// Queued and past occurrences due between `from` and `to`, e.g. the user's local day.
+app.get("/api/reminders/occurrences", authenticateToken, ...route({ query: OccurrencesQuery }, (req, res: ApiResponse<OccurrenceRow[]>) => {
+  const rows = db.prepare(`${OCCURRENCE_SELECT} WHERE o.user_id = ? AND o.scheduled_for >= ? AND o.scheduled_for < ? ORDER BY o.scheduled_for ASC, o.id ASC`)
+    .all(req.user.id, toSqlTime(new Date(req.query.from)), toSqlTime(new Date(req.query.to))) as (OccurrenceRow & { user_id: number, key_version: number | null })[];
+  res.json(rows.map(openOccurrence));
+}));
+
+// Taken and skipped are answers (a missed dose can still be marked taken late);
+// snoozing puts it back in the queue. Either way its notifications are read.
+app.patch("/api/reminders/occurrences/:id", authenticateToken, ...route({ params: IdParams, body: OccurrenceActionBody }, (req, res: ApiResponse<OccurrenceRow>) => {
+  const occurrence = db.prepare("SELECT status, scheduled_for FROM reminder_occurrences WHERE id = ? AND user_id = ?")
+    .get(req.params.id, req.user.id) as { status: OccurrenceStatus, scheduled_for: string } | undefined;
+  if (!occurrence) return sendError(res, "not_found", "Reminder not found");
+
+  const now = toSqlTime(new Date());
+  const action = req.body;
+  if (action.action === "snooze") {
+    if (occurrence.status !== "pending" && occurrence.status !== "sent") return sendError(res, "validation_failed", "Only an unanswered reminder can be snoozed.");
+    const until = new Date(Date.now() + action.minutes * 60 * 1000);
+    // Past this point the scheduler would mark it missed before reminding again.
+    if (until.getTime() > fromSqlTime(occurrence.scheduled_for).getTime() + MISSED_AFTER_HOURS * 60 * 60 * 1000) {
+      return sendError(res, "validation_failed", "It is too late to snooze this reminder. Mark it taken or skip it.");
+    }
+    db.prepare("UPDATE reminder_occurrences SET status = 'pending', notify_at = ?, snoozes = snoozes + 1 WHERE id = ?").run(toSqlTime(until), req.params.id);
+  } else {
+    db.prepare("UPDATE reminder_occurrences SET status = ?, responded_at = ? WHERE id = ?").run(action.action === "take" ? "taken" : "skipped", now, req.params.id);
+  }
+  db.prepare("UPDATE notifications SET read_at = ? WHERE occurrence_id = ? AND read_at IS NULL").run(now, req.params.id);
+
+  const row = db.prepare(`${OCCURRENCE_SELECT} WHERE o.id = ?`).get(req.params.id) as OccurrenceRow & { user_id: number, key_version: number | null };
+  res.json(openOccurrence(row));
+}));
+
+app.get("/api/reminders/adherence", authenticateToken, ...route({ query: AdherenceQuery }, (req, res: ApiResponse<Adherence>) => {
+  res.json(doseAdherence(db, req.user.id, req.query.days));
+}));
+
+// --- Notification Routes ---
+const NOTIFICATIONS_SHOWN = 30;
+
+const openNotification = ({ user_id, key_version, ...row }: NotificationRow & { user_id: number, key_version: number | null }): NotificationRow => ({
+  ...row,
+  title: unseal("notifications", "title", user_id, row.title, key_version)!,
+  body: unseal("notifications", "body", user_id, row.body, key_version),
+});
+
+app.get("/api/notifications", authenticateToken, ...route({}, (req, res: ApiResponse<NotificationsResponse>) => {
+  const rows = db.prepare("SELECT * FROM notifications WHERE user_id = ? ORDER BY id DESC LIMIT ?")
+    .all(req.user.id, NOTIFICATIONS_SHOWN) as (NotificationRow & { user_id: number, key_version: number | null })[];
+  const { unread } = db.prepare("SELECT COUNT(*) AS unread FROM notifications WHERE user_id = ? AND read_at IS NULL").get(req.user.id) as { unread: number };
+  res.json({
+    notifications: rows.map(openNotification),
+    unread,
+  });
+}));
+
+app.post("/api/notifications/read", authenticateToken, ...route({}, (req, res: ApiResponse<Success>) => {
+  db.prepare("UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL").run(req.user.id);
+  res.json({ success: true });
+}));
+
+app.get("/api/push/config", authenticateToken, ...route({}, (req, res: ApiResponse<PushConfig>) => {
+  res.json({ publicKey: vapidKeysFromEnv()?.publicKey ?? null });
+}));
+
+// A browser resubscribing (or handed to another account) takes over its endpoint.
+app.post("/api/push/subscriptions", authenticateToken, ...route({ body: PushSubscriptionBody }, (req, res: ApiResponse<Success>) => {
+  db.prepare(`
+    INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (endpoint) DO UPDATE SET user_id = excluded.user_id, p256dh = excluded.p256dh, auth = excluded.auth, user_agent = excluded.user_agent
+  `).run(req.user.id, req.body.endpoint, req.body.keys.p256dh, req.body.keys.auth, req.get("user-agent") || null);
+  res.json({ success: true });
+}));
+
+app.delete("/api/push/subscriptions", authenticateToken, ...route({ body: PushEndpointBody }, (req, res: ApiResponse<Success>) => {
+  db.prepare("DELETE FROM push_subscriptions WHERE endpoint = ? AND user_id = ?").run(req.body.endpoint, req.user.id);
+  res.json({ success: true });
+}));
+
 // --- Chat History Routes ---
-app.get("/api/chat/sessions", authenticateToken, (req: any, res) => {
-  const sessions = db.prepare("SELECT * FROM chat_sessions WHERE user_id = ? ORDER BY created_at DESC").all(req.user.id);
+const findSession = (userId: number, sessionId: number) =>
+  db.prepare("SELECT * FROM chat_sessions WHERE id = ? AND user_id = ?").get(sessionId, userId) as ChatSession | undefined;
+
+// Message content is encrypted at rest; rows come back with it decrypted and without key_version.
+const openMessage = <T extends { content: string, key_version: number | null }>(userId: number, { key_version, ...row }: T) =>
+  ({ ...row, content: unseal("chat_history", "content", userId, row.content, key_version) });
+
+const insertMessage = db.prepare("INSERT INTO chat_history (user_id, role, content, session_id, key_version) VALUES (?, ?, ?, ?, ?)");
+
+const saveMessage = (userId: number, role: "user" | "assistant", content: string, sessionId: number) => {
+  const info = insertMessage.run(userId, role, seal("chat_history", "content", userId, content), sessionId, getKeyRing().current);
+  indexForSearch(db, "message", userId, Number(info.lastInsertRowid), content);
+  return info;
+};
+
+app.get("/api/chat/sessions", authenticateToken, ...route({}, (req, res: ApiResponse<ChatSession[]>) => {
+  const sessions = db.prepare("SELECT * FROM chat_sessions WHERE user_id = ? ORDER BY pinned DESC, created_at DESC").all(req.user.id) as ChatSession[];
   res.json(sessions);
-});
+}));
 
-app.post("/api/chat/sessions", authenticateToken, (req: any, res) => {
+app.post("/api/chat/sessions", authenticateToken, ...route({ body: CreateSessionBody }, (req, res: ApiResponse<{ id: number }>) => {
   const { title } = req.body;
   const info = db.prepare("INSERT INTO chat_sessions (user_id, title) VALUES (?, ?)").run(req.user.id, title);
-  res.json({ id: info.lastInsertRowid });
-});
+  res.json({ id: Number(info.lastInsertRowid) });
+}));
+
+app.patch("/api/chat/sessions/:id", authenticateToken, ...route({ params: IdParams, body: UpdateSessionBody }, (req, res: ApiResponse<ChatSession>) => {
+  if (!findSession(req.user.id, req.params.id)) return sendError(res, "not_found", "Session not found");
+
+  const { title, pinned, archived } = req.body;
+  db.prepare(`
+    UPDATE chat_sessions
+    SET title = COALESCE(?, title), pinned = COALESCE(?, pinned), archived = COALESCE(?, archived)
+    WHERE id = ?
+  `).run(
+    title ?? null,
+    pinned === undefined ? null : (pinned ? 1 : 0),
+    archived === undefined ? null : (archived ? 1 : 0),
+    req.params.id
+  );
+  res.json(findSession(req.user.id, req.params.id));
+}));
 
-app.get("/api/chat/history", authenticateToken, (req: any, res) => {
+// Messages and triage events go with the session (see the chat_sessions delete trigger).
+app.delete("/api/chat/sessions/:id", authenticateToken, ...route({ params: IdParams }, (req, res: ApiResponse<Success>) => {
+  const info = db.prepare("DELETE FROM chat_sessions WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+  if (info.changes === 0) return sendError(res, "not_found", "Session not found");
+  res.json({ success: true });
+}));
+
+app.get("/api/chat/history", authenticateToken, ...route({ query: HistoryQuery }, (req, res: ApiResponse<ChatHistoryRow[]>) => {
   const { sessionId } = req.query;
   let history;
   if (sessionId) {
-    history = db.prepare("SELECT * FROM chat_history WHERE user_id = ? AND session_id = ? ORDER BY created_at ASC").all(req.user.id, sessionId);
+    if (!findSession(req.user.id, sessionId)) return sendError(res, "not_found", "Session not found");
+    history = db.prepare("SELECT * FROM chat_history WHERE user_id = ? AND session_id = ? ORDER BY created_at ASC, id ASC").all(req.user.id, sessionId);
   } else {
-    history = db.prepare("SELECT * FROM chat_history WHERE user_id = ? ORDER BY created_at ASC").all(req.user.id);
+    history = db.prepare("SELECT * FROM chat_history WHERE user_id = ? ORDER BY created_at ASC, id ASC").all(req.user.id);
   }
-  res.json(history);
-});
+  res.json((history as (ChatHistoryRow & { key_version: number | null })[]).map(row => openMessage(req.user.id, row)));
+}));
 
-app.post("/api/chat/history", authenticateToken, (req: any, res) => {
+app.post("/api/chat/history", authenticateToken, ...route({ body: CreateHistoryBody }, (req, res: ApiResponse<Success>) => {
   const { role, content, sessionId } = req.body;
-  db.prepare("INSERT INTO chat_history (user_id, role, content, session_id) VALUES (?, ?, ?, ?)").run(req.user.id, role, content, sessionId);
+  if (!findSession(req.user.id, sessionId)) return sendError(res, "not_found", "Session not found");
+  saveMessage(req.user.id, role, content, sessionId);
   res.json({ success: true });
+}));
+
+// --- AI Routes ---
+// Provider errors can quote the upstream response or a local path, so they are
+// logged and the client gets a fixed message.
+const aiFailure = (context: string, error: unknown) => {
+  console.error(`${context}:`, error);
+  return "The AI service is unavailable right now. Please try again in a moment.";
+};
+
+// What the model is told about the patient (see src/services/context.ts for
+// what is left out), their recent vitals, and any interaction warnings raised for this turn.
+const getPatientContext = (userId: number, interactions: InteractionCheck) => {
+  const profile = loadProfile(userId);
+  const parts = [
+    profile && buildPatientContext(profile, loadMedicalHistory(userId)),
+    vitalsContext(listVitals(userId, VITALS_CONTEXT_DAYS), VITALS_CONTEXT_DAYS),
+    interactionNote(interactions),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join("\n\n") : null;
+};
+
+const NO_INTERACTIONS: InteractionCheck = { severity: "none", warnings: [], unrecognized: [] };
+
+// Checks any medicines named in the message against the user's medications and allergies.
+const medicationTurn = (userId: number, message: string): InteractionCheck => {
+  const mentioned = findDrugs(message).map(drug => drug.name);
+  return mentioned.length > 0 ? checkInteractions(mentioned, medicationSafetyList(userId)) : NO_INTERACTIONS;
+};
+
+// Returns the caller's session, creating one when no id is given. Null means the id is not theirs.
+const resolveSession = async (userId: number, sessionId: number | null | undefined, makeTitle: () => Promise<string>): Promise<SessionRef | null> => {
+  if (sessionId) {
+    const session = findSession(userId, sessionId);
+    return session ? { id: session.id, title: session.title, created: false } : null;
+  }
+  const title = await makeTitle();
+  const info = db.prepare("INSERT INTO chat_sessions (user_id, title) VALUES (?, ?)").run(userId, title);
+  return { id: Number(info.lastInsertRowid), title, created: true };
+};
+
+const insertReply = db.prepare(`
+  INSERT INTO chat_history (user_id, role, content, session_id, partial, severity, provider, model, report_id, interview_id, key_version)
+  VALUES (?, 'assistant', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+type ReplySource = { name: string, model: string | null };
+const TRIAGE_SOURCE: ReplySource = { name: "triage", model: null };
+
+// Assistant rows record which provider and model produced them, and the triage level of the turn.
+const saveReply = (userId: number, sessionId: number, content: string, meta: { partial?: boolean, severity?: TriageSeverity, source?: ReplySource, reportId?: number, interviewId?: number } = {}) => {
+  const { name, model } = meta.source ?? getProvider();
+  const info = insertReply.run(
+    userId, seal("chat_history", "content", userId, content), sessionId, meta.partial ? 1 : 0,
+    meta.severity ?? "none", name, model, meta.reportId ?? null, meta.interviewId ?? null, getKeyRing().current
+  );
+  indexForSearch(db, "message", userId, Number(info.lastInsertRowid), content);
+};
+
+const insertTriageEvent = db.prepare("INSERT INTO triage_events (user_id, session_id, severity, matches, key_version) VALUES (?, ?, ?, ?, ?)");
+
+// Runs the red-flag rules on an incoming message and logs any hit against the session.
+const triageTurn = (userId: number, sessionId: number, message: string): TriageResult => {
+  const triage = triageMessage(message);
+  if (triage.severity !== "none") {
+    insertTriageEvent.run(userId, sessionId, triage.severity, seal("triage_events", "matches", userId, JSON.stringify(triage.matches)), getKeyRing().current);
+  }
+  return triage;
+};
+
+const loadSessionMessages = (userId: number, sessionId: number) =>
+  (db.prepare("SELECT role, content, key_version FROM chat_history WHERE user_id = ? AND session_id = ? ORDER BY created_at ASC, id ASC")
+    .all(userId, sessionId) as { role: string, content: string, key_version: number | null }[])
+    .map(row => openMessage(userId, row));
+
+const insertLabResult = db.prepare(`
+  INSERT INTO lab_results (report_id, user_id, test_name, marker, value, value_text, unit, reference_range, reference_low, reference_high, out_of_range, specimen_date, page, key_version)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+const saveLabResults = (userId: number, reportId: number, results: LabResult[]) => {
+  for (const r of results) {
+    insertLabResult.run(
+      reportId, userId, r.testName, r.marker, sealNumber("lab_results", "value", userId, r.value), seal("lab_results", "value_text", userId, r.valueText),
+      r.unit, r.referenceRange, r.referenceLow, r.referenceHigh, r.outOfRange ? 1 : 0, r.specimenDate, r.page, getKeyRing().current
+    );
+  }
+};
+
+// The result itself is sealed; the marker, unit, flag and dates stay plaintext for the trend queries.
+const openLabResult = (userId: number, { key_version, ...row }: LabResultRow & { key_version: number | null }): LabResultRow => ({
+  ...row,
+  value: unsealNumber("lab_results", "value", userId, row.value, key_version),
+  value_text: unseal("lab_results", "value_text", userId, row.value_text, key_version),
 });
 
+// Charged as one AI request plus the estimated tokens of everything sent and received.
+const recordChatUsage = (userId: number, messages: { content: string }[], patientContext: string | null, reply: string) =>
+  recordAiUsage(userId, estimateTokens(patientContext ?? "", ...messages.map(m => m.content), reply));
+
+// Once the daily quota is spent, red-flag messages are still answered with the
+// triage advice (without calling the model); everything else gets a 429.
+app.post("/api/ai/chat", authenticateToken, ...route({ body: ChatBody }, async (req, res: ApiResponse<ChatResponse>) => {
+  const { message, sessionId } = req.body;
+  const overQuota = aiQuotaRetryAfter(req.user.id);
+  if (overQuota > 0 && triageMessage(message).severity === "none") return sendRateLimited(res, AI_QUOTA_MESSAGE, overQuota);
+
+  try {
+    const session = await resolveSession(req.user.id, sessionId, async () => overQuota ? "New Chat" : generateSessionTitle(message));
+    if (!session) return sendError(res, "not_found", "Session not found");
+
+    const triage = triageTurn(req.user.id, session.id, message);
+    const interactions = medicationTurn(req.user.id, message);
+    const messages = [...loadSessionMessages(req.user.id, session.id), { role: "user", content: message }];
+    const patientContext = getPatientContext(req.user.id, interactions);
+
+    let reply: string;
+    let source: ReplySource | undefined;
+    try {
+      if (overQuota > 0) throw new Error(AI_QUOTA_MESSAGE);
+      reply = (await chatWithAI(messages, patientContext)) || "I'm sorry, I couldn't process that.";
+      recordChatUsage(req.user.id, messages, patientContext, reply);
+    } catch (error) {
+      // A flagged message still gets its urgent-care advice when the model is down or over quota.
+      if (triage.severity === "none") throw error;
+      reply = triageFallbackReply(triage);
+      source = TRIAGE_SOURCE;
+    }
+
+    db.transaction(() => {
+      saveMessage(req.user.id, "user", message, session.id);
+      saveReply(req.user.id, session.id, reply, { severity: triage.severity, source });
+    })();
+
+    res.json({ reply, session, triage, interactions });
+  } catch (error) {
+    sendError(res, "ai_unavailable", aiFailure("AI Chat Error", error));
+  }
+}));
+
+// Server-Sent Events over a POST response: `session`, `triage` if a red flag matched,
+// `interactions` if a medicine in the message was flagged, then `delta`s, then `done` or `error`.
+// Closing the connection stops generation; whatever arrived is saved as a partial reply.
+app.post("/api/ai/chat/stream", authenticateToken, ...route({ body: ChatBody }, async (req, res: Response) => {
+  const { message, sessionId } = req.body;
+  const overQuota = aiQuotaRetryAfter(req.user.id);
+  if (overQuota > 0 && triageMessage(message).severity === "none") return sendRateLimited(res, AI_QUOTA_MESSAGE, overQuota);
+
+  let session: SessionRef | null;
+  try {
+    session = await resolveSession(req.user.id, sessionId, async () => overQuota ? "New Chat" : generateSessionTitle(message));
+  } catch (error) {
+    return sendError(res, "ai_unavailable", aiFailure("AI Chat Error", error));
+  }
+  if (!session) return sendError(res, "not_found", "Session not found");
+
+  const triage = triageTurn(req.user.id, session.id, message);
+  const interactions = medicationTurn(req.user.id, message);
+  const messages = [...loadSessionMessages(req.user.id, session.id), { role: "user", content: message }];
+  const patientContext = getPatientContext(req.user.id, interactions);
+  saveMessage(req.user.id, "user", message, session.id);
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+  });
+  const send = (event: string, data: unknown) => {
+    if (!controller.signal.aborted) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  send("session", session);
+  if (triage.severity !== "none") send("triage", triage);
+  if (interactions.severity !== "none") send("interactions", interactions);
+
+  let reply = "";
+  let failed = false;
+  let source: ReplySource | undefined;
+  try {
+    if (overQuota > 0) throw new Error(AI_QUOTA_MESSAGE);
+    try {
+      for await (const text of streamChatWithAI(messages, patientContext, controller.signal)) {
+        reply += text;
+        send("delta", { text });
+      }
+    } finally {
+      recordChatUsage(req.user.id, messages, patientContext, reply);
+    }
+  } catch (error) {
+    if (!reply && triage.severity !== "none") {
+      reply = triageFallbackReply(triage);
+      source = TRIAGE_SOURCE;
+      send("delta", { text: reply });
+    } else {
+      failed = true;
+      send("error", { error: aiFailure("AI Stream Error", error), code: "ai_unavailable" });
+    }
+  }
+
+  const partial = controller.signal.aborted || failed;
+  if (reply) {
+    saveReply(req.user.id, session.id, reply, { partial, severity: triage.severity, source });
+  }
+  send("done", { reply, partial, severity: triage.severity });
+  if (!controller.signal.aborted) res.end();
+}));
+
+app.post("/api/ai/title", authenticateToken, requireAiQuota, ...route({ body: TitleBody }, async (req, res: ApiResponse<{ title: string }>) => {
+  const { message } = req.body;
+  const title = await generateSessionTitle(message);
+  recordAiUsage(req.user.id, estimateTokens(message, title));
+  res.json({ title });
+}));
+
+app.get("/api/ai/usage", authenticateToken, ...route({}, (req, res: ApiResponse<AiUsage>) => {
+  res.json(getAiUsage(req.user.id));
+}));
+
+// --- Symptom Check Routes ---
+// The browser steps through the interview in src/services/interview.ts and
+// posts the answers once it is finished. The server assesses them again, with
+// any red flags in the complaint's wording, keeps the record on the session and
+// writes the exchange into the chat so later turns and exports can read it.
+type StoredInterview = Omit<SymptomInterviewRow, "answers" | "reasons"> & { user_id: number, answers: string, reasons: string, key_version: number | null };
+
+const openInterview = ({ user_id, key_version, ...row }: StoredInterview): SymptomInterviewRow => ({
+  ...row,
+  answers: JSON.parse(unseal("symptom_interviews", "answers", user_id, row.answers, key_version)!),
+  reasons: JSON.parse(unseal("symptom_interviews", "reasons", user_id, row.reasons, key_version)!),
+});
+
+const insertInterview = db.prepare(`
+  INSERT INTO symptom_interviews (user_id, session_id, answers, reasons, triage_level, care_setting, key_version)
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+`);
+
+const INTERVIEW_SOURCE: ReplySource = { name: "interview", model: null };
+const INTERVIEW_SEVERITY: Record<TriageLevel, TriageSeverity> = { emergency: "emergency", urgent: "urgent", routine: "none", self_care: "none" };
+
+// Session titles are stored in plaintext, so a new session is named after the
+// body region rather than the complaint, which is sealed with the answers.
+const interviewTitle = (location: BodyRegion) => `Symptom check: ${REGION_LABELS[location].toLowerCase()}`;
+
+app.post("/api/chat/interviews", authenticateToken, ...route({ body: InterviewBody }, async (req, res: ApiResponse<InterviewResponse>) => {
+  const { answers, sessionId } = req.body;
+  const session = await resolveSession(req.user.id, sessionId, async () => interviewTitle(answers.location));
+  if (!session) return sendError(res, "not_found", "Session not found");
+
+  const wording = triageTurn(req.user.id, session.id, answers.complaint);
+  const assessment = assessInterview(answers, wording.matches);
+  const transcript = interviewTranscript(answers);
+  const summary = assessmentText(assessment);
+
+  const interviewId = db.transaction(() => {
+    const info = insertInterview.run(
+      req.user.id, session.id,
+      seal("symptom_interviews", "answers", req.user.id, JSON.stringify(answers)),
+      seal("symptom_interviews", "reasons", req.user.id, JSON.stringify(assessment.reasons)),
+      assessment.level, assessment.careSetting, getKeyRing().current
+    );
+    const id = Number(info.lastInsertRowid);
+    saveMessage(req.user.id, "user", transcript, session.id);
+    saveReply(req.user.id, session.id, summary, { severity: INTERVIEW_SEVERITY[assessment.level], source: INTERVIEW_SOURCE, interviewId: id });
+    return id;
+  })();
+
+  const interview = openInterview(db.prepare("SELECT * FROM symptom_interviews WHERE id = ?").get(interviewId) as StoredInterview);
+  res.json({ session, interview, transcript, summary });
+}));
+
+app.get("/api/chat/interviews", authenticateToken, ...route({ query: InterviewsQuery }, (req, res: ApiResponse<SymptomInterviewRow[]>) => {
+  if (!findSession(req.user.id, req.query.sessionId)) return sendError(res, "not_found", "Session not found");
+  const rows = db.prepare("SELECT * FROM symptom_interviews WHERE user_id = ? AND session_id = ? ORDER BY id ASC").all(req.user.id, req.query.sessionId) as StoredInterview[];
+  res.json(rows.map(openInterview));
+}));
+
 // --- Medical Report Routes ---
-const upload = multer({ storage: multer.memoryStorage() });
+const REPORT_MIME_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/webp", "image/heic"];
 
-app.post("/api/reports/upload", authenticateToken, upload.single('report'), (req: any, res) => {
-  const { analysis } = req.body;
-  const filename = req.file?.originalname || "report.pdf";
-  db.prepare("INSERT INTO medical_reports (user_id, filename, analysis) VALUES (?, ?, ?)").run(req.user.id, filename, analysis);
-  res.json({ success: true });
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => cb(null, REPORT_MIME_TYPES.includes(file.mimetype)),
 });
 
-app.get("/api/reports", authenticateToken, (req: any, res) => {
-  const reports = db.prepare("SELECT * FROM medical_reports WHERE user_id = ? ORDER BY created_at DESC").all(req.user.id);
-  res.json(reports);
+const REPORT_COLUMNS = "id, user_id, session_id, filename, analysis, citations, mime_type, size_bytes, sha256, created_at, analyzed_at, key_version";
+
+// analysis, citations and page text are encrypted at rest; rows come back decrypted and without key_version.
+const openReport = <T extends { user_id: number, analysis: string, citations: string | null, key_version: number | null }>({ key_version, ...row }: T) => ({
+  ...row,
+  analysis: unseal("medical_reports", "analysis", row.user_id, row.analysis, key_version),
+  citations: unseal("medical_reports", "citations", row.user_id, row.citations, key_version),
 });
 
+const storeAnalysis = (userId: number, reportId: number, result: ReportAnalysis) => {
+  db.prepare("UPDATE medical_reports SET analysis = ?, citations = ?, key_version = ?, analyzed_at = CURRENT_TIMESTAMP WHERE id = ?").run(
+    seal("medical_reports", "analysis", userId, result.analysis),
+    seal("medical_reports", "citations", userId, JSON.stringify(result.citations)),
+    getKeyRing().current,
+    reportId
+  );
+  indexForSearch(db, "report", userId, reportId, result.analysis);
+  db.prepare("DELETE FROM lab_results WHERE report_id = ?").run(reportId);
+  saveLabResults(userId, reportId, result.labResults);
+};
+
+const storePages = (reportId: number, pages: PageText[] | null) => {
+  db.prepare("DELETE FROM report_pages WHERE report_id = ?").run(reportId);
+  const insert = db.prepare("INSERT INTO report_pages (report_id, page, text, key_version) VALUES (?, ?, ?, ?)");
+  for (const p of pages ?? []) insert.run(reportId, p.page, seal("report_pages", "text", reportId, p.text), getKeyRing().current);
+};
+
+const loadPages = (reportId: number) =>
+  (db.prepare("SELECT page, text, key_version FROM report_pages WHERE report_id = ? ORDER BY page ASC").all(reportId) as (PageText & { key_version: number | null })[])
+    .map(p => ({ page: p.page, text: unseal("report_pages", "text", reportId, p.text, p.key_version) }));
+
+// Text-based PDFs are sent as extracted pages, which is far smaller than the
+// binary and lets the model cite pages. Scans and images go as the file.
+const prepareReport = async (buffer: Buffer, mimeType: string) => {
+  const pages = mimeType === "application/pdf" ? await extractPdfPages(buffer) : null;
+  const document = pages
+    ? { kind: "pages" as const, pages }
+    : { kind: "file" as const, data: buffer.toString("base64"), mimeType };
+  return { document, pages };
+};
+
+const findReport = (userId: number, reportId: number) => {
+  const row = db.prepare("SELECT * FROM medical_reports WHERE id = ? AND user_id = ?").get(reportId, userId) as (ReportRow & { stored_path: string | null, key_version: number | null }) | undefined;
+  return row && openReport(row);
+};
+
+// Stores the original file, analyzes it and records the exchange in the chat session.
+// If the model fails the report is still kept, with an empty analysis to re-run later.
+const uploadReport = async (req: ApiRequest<z.output<typeof UploadReportBody>>, res: Response) => {
+  if (!req.file) return sendError(res, "validation_failed", "A PDF or image report is required");
+  const filename = req.file.originalname || "report.pdf";
+
+  try {
+    const session = await resolveSession(req.user.id, req.body.sessionId, async () => `Report: ${filename}`);
+    if (!session) return sendError(res, "not_found", "Session not found");
+
+    const stored = await saveReportFile(req.user.id, req.file.buffer, filename);
+    const info = db.prepare(`
+      INSERT INTO medical_reports (user_id, session_id, filename, analysis, stored_path, mime_type, size_bytes, sha256, key_version)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      req.user.id, session.id, filename, seal("medical_reports", "analysis", req.user.id, ""),
+      stored.storedPath, req.file.mimetype, stored.size, stored.sha256, getKeyRing().current
+    );
+    const reportId = Number(info.lastInsertRowid);
+
+    const { document, pages } = await prepareReport(req.file.buffer, req.file.mimetype);
+    storePages(reportId, pages);
+
+    let result;
+    try {
+      result = await analyzeReport(document);
+      recordAiUsage(req.user.id, estimateDocumentTokens(document) + estimateTokens(JSON.stringify(result)));
+    } catch (error) {
+      console.error("Report analysis failed:", error);
+      return sendError(res, "ai_unavailable", "The report was saved, but it couldn't be analyzed. Try again from the Reports page.", { reportId, session });
+    }
+    result.analysis ||= "I'm sorry, I couldn't analyze that report.";
+    const note = `Uploaded report: ${filename}`;
+
+    db.transaction(() => {
+      saveMessage(req.user.id, "user", note, session.id);
+      saveReply(req.user.id, session.id, result.analysis, { reportId });
+      storeAnalysis(req.user.id, reportId, result);
+    })();
+
+    res.json({ ...result, note, session, reportId });
+  } catch (error) {
+    console.error("Report Upload Error:", error);
+    sendError(res, "internal", "Could not store the report");
+  }
+};
+
+// The quota is checked before multer buffers the file.
+app.post("/api/reports/upload", authenticateToken, requireAiQuota, upload.single('report'), ...route({ body: UploadReportBody }, uploadReport));
+// Kept for clients written against the original AI proxy route.
+app.post("/api/ai/analyze-report", authenticateToken, requireAiQuota, upload.single('report'), ...route({ body: UploadReportBody }, uploadReport));
+
+app.get("/api/reports", authenticateToken, ...route({}, (req, res: ApiResponse<ReportSummary[]>) => {
+  const reports = db.prepare(`
+    SELECT ${REPORT_COLUMNS},
+      (SELECT COUNT(*) FROM lab_results r WHERE r.report_id = m.id) AS result_count,
+      (SELECT COUNT(*) FROM lab_results r WHERE r.report_id = m.id AND r.out_of_range = 1) AS out_of_range_count
+    FROM medical_reports m
+    WHERE user_id = ?
+    ORDER BY created_at DESC
+  `).all(req.user.id) as (ReportSummary & { key_version: number | null })[];
+  res.json(reports.map(openReport));
+}));
+
+// One row per marker the user has results for, with its latest reading.
+app.get("/api/reports/markers", authenticateToken, ...route({}, (req, res: ApiResponse<MarkerSummary[]>) => {
+  const markers = db.prepare(`
+    SELECT marker, test_name, unit, value, out_of_range, specimen_date, count, key_version
+    FROM (
+      SELECT *, COUNT(*) OVER (PARTITION BY marker) AS count,
+        ROW_NUMBER() OVER (PARTITION BY marker ORDER BY COALESCE(specimen_date, created_at) DESC, id DESC) AS rn
+      FROM lab_results WHERE user_id = ?
+    )
+    WHERE rn = 1
+    ORDER BY marker ASC
+  `).all(req.user.id) as (MarkerSummary & { key_version: number | null })[];
+  res.json(markers.map(({ key_version, ...marker }) => ({ ...marker, value: unsealNumber("lab_results", "value", req.user.id, marker.value, key_version) })));
+}));
+
+// Every reading of one marker in date order, with the report it came from.
+app.get("/api/reports/markers/:name/series", authenticateToken, ...route({ params: MarkerParams }, (req, res: ApiResponse<SeriesPoint[]>) => {
+  const series = db.prepare(`
+    SELECT r.id, r.report_id, m.filename, r.test_name, r.value, r.value_text, r.unit,
+      r.reference_range, r.reference_low, r.reference_high, r.out_of_range, r.key_version,
+      COALESCE(r.specimen_date, date(r.created_at)) AS date
+    FROM lab_results r
+    JOIN medical_reports m ON m.id = r.report_id
+    WHERE r.user_id = ? AND r.marker = ? AND r.value IS NOT NULL
+    ORDER BY date ASC, r.id ASC
+  `).all(req.user.id, req.params.name) as (SeriesPoint & { key_version: number | null })[];
+  // The query only returns results with a value.
+  res.json(series.map(({ key_version, ...point }) => ({
+    ...point,
+    value: unsealNumber("lab_results", "value", req.user.id, point.value, key_version)!,
+    value_text: unseal("lab_results", "value_text", req.user.id, point.value_text, key_version),
+  })));
+}));
+
+app.get("/api/reports/:id", authenticateToken, ...route({ params: IdParams }, (req, res: ApiResponse<ReportRow>) => {
+  const report = db.prepare(`SELECT ${REPORT_COLUMNS} FROM medical_reports WHERE id = ? AND user_id = ?`).get(req.params.id, req.user.id) as (ReportRow & { key_version: number | null }) | undefined;
+  if (!report) return sendError(res, "not_found", "Report not found");
+  res.json(openReport(report));
+}));
+
+// Citations with the full text of each cited page, so the client can show a quote in context.
+app.get("/api/reports/:id/citations", authenticateToken, ...route({ params: IdParams }, (req, res: ApiResponse<CitationsResponse>) => {
+  const report = findReport(req.user.id, req.params.id);
+  if (!report) return sendError(res, "not_found", "Report not found");
+
+  const citations = JSON.parse(report.citations || "[]");
+  const pages = loadPages(report.id);
+  const cited = new Set(citations.map((c: CitationsResponse["citations"][number]) => c.page));
+  res.json({ citations, pages: pages.filter(p => cited.has(p.page)) });
+}));
+
+app.get("/api/reports/:id/file", authenticateToken, ...route({ params: IdParams }, (req, res: Response) => {
+  const report = findReport(req.user.id, req.params.id);
+  if (!report) return sendError(res, "not_found", "Report not found");
+  if (!report.stored_path) return sendError(res, "gone", "The original file was not kept for this report");
+
+  res.type(report.mime_type || path.extname(report.filename));
+  res.download(resolveReportFile(report.stored_path), report.filename, (err) => {
+    if (err && !res.headersSent) sendError(res, "not_found", "The original file is missing");
+  });
+}));
+
+app.post("/api/reports/:id/reanalyze", authenticateToken, requireAiQuota, ...route({ params: IdParams }, async (req, res: ApiResponse<ReportAnalysis>) => {
+  const report = findReport(req.user.id, req.params.id);
+  if (!report) return sendError(res, "not_found", "Report not found");
+  if (!report.stored_path) return sendError(res, "gone", "The original file was not kept for this report");
+
+  let file: Buffer;
+  try {
+    file = await readReportFile(report.stored_path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return sendError(res, "gone", "The original file is missing");
+    console.error("Report File Error:", error);
+    return sendError(res, "internal", "Could not read the original file");
+  }
+
+  try {
+    const { document, pages } = await prepareReport(file, report.mime_type);
+    const result = await analyzeReport(document);
+    recordAiUsage(req.user.id, estimateDocumentTokens(document) + estimateTokens(JSON.stringify(result)));
+    result.analysis ||= "I'm sorry, I couldn't analyze that report.";
+    db.transaction(() => {
+      storePages(report.id, pages);
+      storeAnalysis(req.user.id, report.id, result);
+    })();
+    res.json(result);
+  } catch (error) {
+    sendError(res, "ai_unavailable", aiFailure("Report analysis failed", error));
+  }
+}));
+
+app.get("/api/reports/:id/lab-results", authenticateToken, ...route({ params: IdParams }, (req, res: ApiResponse<LabResultRow[]>) => {
+  if (!findReport(req.user.id, req.params.id)) return sendError(res, "not_found", "Report not found");
+  const results = db.prepare("SELECT * FROM lab_results WHERE report_id = ? ORDER BY id ASC").all(req.params.id) as (LabResultRow & { key_version: number | null })[];
+  res.json(results.map(result => openLabResult(req.user.id, result)));
+}));
+
+// --- Search Routes ---
+const SEARCH_LIMIT = 20;
+// Rows decrypted per search and source at most; the newest candidates win.
+const SEARCH_CANDIDATES = 200;
+
+// Content is encrypted, so the blind index only narrows the search to rows
+// holding every term's prefix; those are decrypted and matched in memory.
+const searchRows = <T extends { created_at: string }>(rows: T[], text: (row: T) => string, terms: string[]) =>
+  rows
+    .map(row => ({ row, match: matchText(text(row), terms) }))
+    .filter(hit => hit.match)
+    .sort((a, b) => b.match.score - a.match.score || b.row.created_at.localeCompare(a.row.created_at))
+    .slice(0, SEARCH_LIMIT);
+
+// Candidate ids are bound as a JSON array, so one statement serves any number of them.
+const selectSearchableMessages = db.prepare(`
+  SELECT h.id, h.session_id, h.role, h.created_at, h.content, h.key_version, s.title AS session_title
+  FROM chat_history h
+  LEFT JOIN chat_sessions s ON s.id = h.session_id
+  WHERE h.user_id = ? AND h.id IN (SELECT value FROM json_each(?))
+`);
+
+const selectSearchableReports = db.prepare(`
+  SELECT id, user_id, filename, created_at, analysis, citations, key_version FROM medical_reports
+  WHERE user_id = ? AND id IN (SELECT value FROM json_each(?))
+`);
+
+app.get("/api/search", authenticateToken, ...route({ query: SearchQuery }, (req, res: ApiResponse<SearchResults>) => {
+  const terms = searchTerms(req.query.q);
+  if (!terms) return res.json({ messages: [], reports: [] });
+
+  const candidates = (source: SearchSource) => JSON.stringify(searchCandidates(db, source, req.user.id, terms, SEARCH_CANDIDATES));
+  const messages = (selectSearchableMessages.all(req.user.id, candidates("message")) as (MessageHit & { content: string, key_version: number | null })[])
+    .map(row => openMessage(req.user.id, row));
+  const reports = (selectSearchableReports.all(req.user.id, candidates("report")) as (ReportRow & { key_version: number | null })[]).map(openReport);
+
+  res.json({
+    messages: searchRows(messages, m => m.content, terms).map(({ row, match }) => ({
+      id: row.id, session_id: row.session_id, role: row.role, created_at: row.created_at, session_title: row.session_title, snippet: match.snippet,
+    })),
+    reports: searchRows(reports, r => r.analysis, terms).map(({ row, match }) => ({ id: row.id, filename: row.filename, created_at: row.created_at, snippet: match.snippet })),
+  });
+}));
+
+// --- Visit Summary Routes ---
+// The chats and reports a user picked for their doctor, decrypted, with lab
+// results; the client lays them out as a PDF. Sessions with no messages in
+// the date range are left out.
+app.get("/api/user/visit-summary", authenticateToken, ...route({ query: VisitSummaryQuery }, (req, res: ApiResponse<VisitSummary>) => {
+  const userId = req.user.id;
+  const { from, to, sessionIds, reportIds } = req.query;
+  const range = { userId, from: from ?? null, to: to ?? null };
+  const inRange = (column: string) => `(@from IS NULL OR ${column} >= @from) AND (@to IS NULL OR ${column} < date(@to, '+1 day'))`;
+  const picked = (ids: number[] | undefined) => (row: { id: number }) => !ids || ids.includes(row.id);
+
+  const sessions = (db.prepare("SELECT * FROM chat_sessions WHERE user_id = ? ORDER BY created_at ASC, id ASC").all(userId) as ChatSession[])
+    .filter(picked(sessionIds));
+  const messages = (db.prepare(`SELECT * FROM chat_history WHERE user_id = @userId AND ${inRange("created_at")} ORDER BY created_at ASC, id ASC`)
+    .all(range) as (ChatHistoryRow & { key_version: number | null })[])
+    .map(row => openMessage(userId, row));
+  const reports = (db.prepare(`SELECT ${REPORT_COLUMNS} FROM medical_reports WHERE user_id = @userId AND ${inRange("created_at")} ORDER BY created_at ASC, id ASC`)
+    .all(range) as (ReportRow & { key_version: number | null })[])
+    .filter(picked(reportIds))
+    .map(openReport);
+  const labResults = (db.prepare("SELECT * FROM lab_results WHERE user_id = ? ORDER BY id ASC").all(userId) as (LabResultRow & { key_version: number | null })[])
+    .map(result => openLabResult(userId, result));
+
+  res.json({
+    profile: loadProfile(userId),
+    history: loadMedicalHistory(userId),
+    from: range.from,
+    to: range.to,
+    sessions: sessions
+      .map(session => ({ ...session, messages: messages.filter(m => m.session_id === session.id) }))
+      .filter(session => session.messages.length > 0),
+    reports: reports.map(report => ({ ...report, lab_results: labResults.filter(r => r.report_id === report.id) })),
+  });
+}));
+
+// --- Account Data Routes ---
+// Everything held about the user, decrypted, with the original report files.
+// Entries are written as they are read so the archive streams out.
+app.get("/api/user/export", authenticateToken, ...route({}, async (req, res: Response) => {
+  const userId = req.user.id;
+  const sessions = db.prepare("SELECT * FROM chat_sessions WHERE user_id = ? ORDER BY created_at ASC, id ASC").all(userId) as ChatSession[];
+  const messages = (db.prepare("SELECT * FROM chat_history WHERE user_id = ? ORDER BY created_at ASC, id ASC").all(userId) as (ChatHistoryRow & { key_version: number | null })[])
+    .map(row => openMessage(userId, row));
+  const triageEvents = (db.prepare("SELECT * FROM triage_events WHERE user_id = ? ORDER BY id ASC").all(userId) as { session_id: number | null, matches: string, key_version: number | null }[])
+    .map(({ key_version, ...event }) => ({ ...event, matches: unseal("triage_events", "matches", userId, event.matches, key_version) }));
+  const interviews = (db.prepare("SELECT * FROM symptom_interviews WHERE user_id = ? ORDER BY id ASC").all(userId) as StoredInterview[]).map(openInterview);
+  const reports = (db.prepare("SELECT * FROM medical_reports WHERE user_id = ? ORDER BY created_at ASC, id ASC").all(userId) as (ReportRow & { stored_path: string | null, key_version: number | null })[])
+    .map(openReport);
+  const labResults = (db.prepare("SELECT * FROM lab_results WHERE user_id = ? ORDER BY id ASC").all(userId) as (LabResultRow & { key_version: number | null })[])
+    .map(result => openLabResult(userId, result));
+  const activity = db.prepare("SELECT id, action, resource, resource_id, status, ip, user_agent, created_at FROM audit_log WHERE actor_id = ? ORDER BY id ASC").all(userId) as ActivityEntry[];
+  const vitals = (db.prepare("SELECT * FROM vitals WHERE user_id = ? ORDER BY measured_at ASC, id ASC").all(userId) as StoredVital[]).map(openVital);
+  const reminders = (db.prepare("SELECT * FROM reminders WHERE user_id = ? ORDER BY id ASC").all(userId) as (ReminderRow & { key_version: number | null })[]).map(openReminder);
+  const occurrences = (db.prepare(`${OCCURRENCE_SELECT} WHERE o.user_id = ? ORDER BY o.scheduled_for ASC, o.id ASC`).all(userId) as (OccurrenceRow & { user_id: number, key_version: number | null })[])
+    .map(openOccurrence);
+  const notifications = (db.prepare("SELECT * FROM notifications WHERE user_id = ? ORDER BY id ASC").all(userId) as (NotificationRow & { user_id: number, key_version: number | null })[])
+    .map(openNotification);
+
+  res.attachment(`myhealthai-export-${new Date().toISOString().slice(0, 10)}.zip`);
+  res.type("application/zip");
+  const zip = createZipWriter(res);
+  try {
+    zip.addJson("profile.json", loadProfile(userId));
+    zip.addJson("medical-history.json", loadMedicalHistory(userId));
+    zip.addJson("vitals.json", vitals);
+    zip.addJson("reminders.json", reminders.map(reminder => ({ ...reminder, occurrences: occurrences.filter(o => o.reminder_id === reminder.id) })));
+    zip.addJson("notifications.json", notifications);
+    zip.addJson("chats.json", sessions.map(session => ({
+      ...session,
+      messages: messages.filter(m => m.session_id === session.id),
+      triage_events: triageEvents.filter(t => t.session_id === session.id),
+      symptom_checks: interviews.filter(i => i.session_id === session.id),
+    })));
+    zip.addJson("reports.json", reports.map(({ stored_path, ...report }) => ({
+      ...report,
+      file: stored_path ? `reports/${report.id}-${path.basename(report.filename)}` : null,
+      lab_results: labResults.filter(r => r.report_id === report.id),
+    })));
+    zip.addJson("activity.json", activity);
+    for (const report of reports) {
+      if (!report.stored_path) continue;
+      try {
+        zip.addFile(`reports/${report.id}-${path.basename(report.filename)}`, await readReportFile(report.stored_path));
+      } catch (error) {
+        console.error(`Export: report ${report.id} file unreadable:`, error);
+      }
+    }
+    await zip.finish();
+  } catch (error) {
+    // Headers are gone by now; cutting the connection leaves the client a visibly broken download.
+    console.error("Export Error:", error);
+    res.destroy(error as Error);
+  }
+}));
+
+// The account stays usable for the grace period and can be restored by
+// signing in again; every session is ended so other devices are signed out.
+// Asking again keeps the original date.
+// The password check is rate limited and counts toward the sign-in lockout.
+app.delete("/api/user", limitByIp, authenticateToken, limitPasswordChecks, ...route({ body: DeleteAccountBody }, async (req, res: ApiResponse<AccountDeletion>) => {
+  const user = db.prepare(`SELECT id, email, first_name, password, ${LOCKED_FOR} FROM users WHERE id = ?`).get(req.user.id) as
+    Pick<UserRow, "id" | "email" | "first_name" | "password" | "locked_for"> | undefined;
+  if (!user) return sendError(res, "not_found", "Account not found");
+  if (user.locked_for !== null && user.locked_for > 0) {
+    return sendRateLimited(res, "Too many wrong passwords. Please try again later.", user.locked_for);
+  }
+  if (!(await bcrypt.compare(req.body.password, user.password))) {
+    failLogin(user.id);
+    return sendError(res, "forbidden", "Incorrect password.");
+  }
+  clearFailedLogins.run(user.id);
+
+  const { deletion_scheduled_at } = db.transaction(() => {
+    db.prepare("UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL").run(user.id);
+    return db.prepare(`
+      UPDATE users SET deletion_scheduled_at = COALESCE(deletion_scheduled_at, datetime('now', ?))
+      WHERE id = ? RETURNING deletion_scheduled_at
+    `).get(`+${deletionGraceDays()} days`, user.id) as { deletion_scheduled_at: string };
+  })();
+
+  const date = new Date(`${deletion_scheduled_at.replace(" ", "T")}Z`).toLocaleDateString("en-GB", { dateStyle: "long", timeZone: "UTC" });
+  try {
+    await sendMail(accountDeletionEmail(user.email, user.first_name, date, `${appUrl(req)}/`));
+  } catch (error) {
+    console.error("Account Deletion Email Error:", error);
+  }
+  res.json({ deletionScheduledAt: deletion_scheduled_at });
+}));
+
+app.post("/api/user/cancel-deletion", authenticateToken, ...route({}, (req, res: ApiResponse<Success>) => {
+  db.prepare("UPDATE users SET deletion_scheduled_at = NULL WHERE id = ?").run(req.user.id);
+  res.json({ success: true });
+}));
+
+// --- Admin Routes ---
+const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const user = db.prepare("SELECT email FROM users WHERE id = ?").get((req as ApiRequest).user.id) as { email: string } | undefined;
+  if (!user || !isAdminEmail(user.email)) return sendError(res, "forbidden", "Only administrators can do that.");
+  next();
+};
+
+// The full audit log, oldest first, as CSV (default) or JSON.
+app.get("/api/admin/audit-log", authenticateToken, requireAdmin, ...route({ query: AuditExportQuery }, (req, res: Response) => {
+  const { format, actorId, from, to } = req.query;
+  const rows = db.prepare(`
+    SELECT a.id, a.created_at, a.actor_id, u.email AS actor_email, a.action, a.resource, a.resource_id, a.status, a.ip, a.user_agent
+    FROM audit_log a
+    LEFT JOIN users u ON u.id = a.actor_id
+    WHERE (@actorId IS NULL OR a.actor_id = @actorId)
+      AND (@from IS NULL OR a.created_at >= @from)
+      AND (@to IS NULL OR a.created_at < date(@to, '+1 day'))
+    ORDER BY a.id ASC
+  `).all({ actorId: actorId ?? null, from: from ?? null, to: to ?? null }) as AuditLogRow[];
+  const entries = rows.map(row => ({ ...row, description: describeAuditEntry(row) }));
+
+  const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.attachment(filename);
+  if (format === "json") return res.json(entries);
+  res.type("text/csv").send(toCsv(entries));
+}));
+
+// Anything else under /api is a mistake, not a page for the SPA to render.
+app.use("/api", (_req, res) => sendError(res, "not_found", "No such endpoint"));
+app.use(errorHandler);
+
 // --- Vite Middleware ---
 async function startServer() {
   if (process.env.NODE_ENV !== "production") {
@@ -127,9 +1573,48 @@ async function startServer() {
     app.use(vite.middlewares);
   }
 
+  // Accounts past their deletion grace period are purged at startup and hourly after.
+  const purge = async () => {
+    try {
+      const purged = await purgeDueAccounts(db);
+      if (purged > 0) console.log(`Purged ${purged} deleted account(s)`);
+    } catch (error) {
+      console.error("Account Purge Error:", error);
+    }
+  };
+  purge();
+  setInterval(purge, 60 * 60 * 1000).unref();
+
+  // Messages and analyses saved before the search index existed are indexed once.
+  const indexed = reindexSearch(db);
+  if (indexed.message + indexed.report > 0) console.log(`Indexed ${indexed.message} message(s) and ${indexed.report} report(s) for search`);
+
+  // Reminders are queued and delivered from the database, so nothing is lost
+  // across restarts; a tick still running when the next is due is skipped.
+  const channels = getChannels(db);
+  let ticking = false;
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runReminderTick(db, channels);
+    } catch (error) {
+      console.error("Reminder Scheduler Error:", error);
+    } finally {
+      ticking = false;
+    }
+  };
+  tick();
+  setInterval(tick, REMINDER_TICK_MS).unref();
+
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
 }
 
-startServer();
+// Tests import the app without starting the listener, the scheduler or Vite.
+if (process.argv[1] && import.meta.url === pathToFileURL(path.resolve(process.argv[1])).href) {
+  startServer();
+}
+
+export { app };
@@ -13,31 +13,93 @@ import {
   Plus,
   Stethoscope,
   Download,
-  MessageSquare
+  MessageSquare,
+  Square,
+  AlertTriangle,
+  Phone,
+  X,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Pencil,
+  Trash2,
+  ClipboardList
 } from 'lucide-react';
-import { chatWithAI, analyzeReport, generateSessionTitle } from './services/gemini';
-import { cn, formatTime } from './lib/utils';
-import { jsPDF } from 'jspdf';
+import { cn, formatTime, readEventStream } from './lib/utils';
+import { authFetch, storeTokens, clearAuth, SESSION_EXPIRED_EVENT } from './lib/api';
+import type { TriageResult, TriageSeverity } from './services/triage';
+import type { InteractionCheck } from './services/interactions';
+import { HealthTrends } from './components/HealthTrends';
+import { ReportsView } from './components/ReportsView';
+import { SearchBox } from './components/SearchBox';
+import { AuthScreen } from './components/AuthScreen';
+import { AiUsageCard } from './components/AiUsageCard';
+import { RecentActivity } from './components/RecentActivity';
+import { AccountDataCard, formatDeletionDate } from './components/AccountDataCard';
+import {
+  BLOOD_GROUPS, type AccountDeletion, type AuthUser, type ChatHistoryRow, type ChatSession, type InterviewAnswers, type InterviewRequest, type InterviewResponse,
+  type LoginResponse, type SymptomInterviewRow, type UpdateProfileRequest, type UpdateSessionRequest,
+} from './contracts';
+import { CitationModal } from './components/Citations';
+import { Markdown } from './components/Markdown';
+import { VisitSummaryDialog, downloadVisitSummary } from './components/VisitSummaryDialog';
+import { MedicalHistoryCard } from './components/MedicalHistoryCard';
+import { InteractionBanner } from './components/InteractionWarnings';
+import { RemindersView } from './components/RemindersView';
+import { NotificationBell } from './components/NotificationBell';
+import { AdherenceCard } from './components/AdherenceCard';
+import { VitalsCard } from './components/VitalsCard';
+import { SymptomInterview, InterviewSummary } from './components/SymptomInterview';
+import { disablePush } from './lib/push';
 
 // --- Types ---
 interface Message {
+  /** Present once the message is saved; search results link to it. */
+  id?: number;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  streaming?: boolean;
+  partial?: boolean;
+  severity?: TriageSeverity;
+  /** Set on report analyses, whose `[[n]]` markers cite that report's pages. */
+  reportId?: number;
+  /** Set on a symptom check's summary, which is shown as a card rather than text. */
+  interview?: SymptomInterviewRow;
 }
 
-interface UserProfile {
-  firstName: string;
-  lastName: string;
-  email: string;
-  mobile?: string;
-  bloodGroup?: string;
-  personalNotes?: string;
+// Chrome's prefixed speech recognition, which the DOM types leave out; only what the mic button uses.
+interface SpeechRecognition {
+  onstart: () => void;
+  onend: () => void;
+  onresult: (event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void;
+  start(): void;
 }
 
+declare global {
+  interface Window {
+    webkitSpeechRecognition?: new () => SpeechRecognition;
+  }
+}
+
+// The signed-in user as returned at sign-in, plus any profile edits made since.
+type UserProfile = AuthUser & UpdateProfileRequest;
+
+// The chat's severity tag for a symptom check: only emergency and urgent results are flagged.
+const interviewSeverity = ({ triage_level }: SymptomInterviewRow): TriageSeverity | undefined =>
+  triage_level === 'emergency' || triage_level === 'urgent' ? triage_level : undefined;
+
 // --- Components ---
 
-const Navbar = ({ user, onLogout, activeTab, setActiveTab }: any) => (
+const Navbar = ({ user, onLogout, activeTab, setActiveTab, onOpenMessage, onOpenReport }: {
+  user: UserProfile,
+  onLogout: () => void,
+  activeTab: Tab,
+  setActiveTab: (tab: Tab) => void,
+  onOpenMessage: (sessionId: number, messageId: number) => void,
+  onOpenReport: (reportId: number) => void
+}) => (
   <nav className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between sticky top-0 z-50">
     <div className="flex items-center gap-2">
       <div className="bg-blue-600 p-2 rounded-lg">
@@ -45,6 +107,8 @@ const Navbar = ({ user, onLogout, activeTab, setActiveTab }: any) => (
       </div>
       <h1 className="text-xl font-bold text-slate-900 tracking-tight">MyHealthAI</h1>
     </div>
+
+    <SearchBox onOpenMessage={onOpenMessage} onOpenReport={onOpenReport} />
     
     <div className="flex items-center gap-6">
       <button 
@@ -59,6 +123,19 @@ const Navbar = ({ user, onLogout, activeTab, setActiveTab }: any) => (
       >
         Dashboard
       </button>
+      <button 
+        onClick={() => setActiveTab('reports')}
+        className={cn("text-sm font-medium transition-colors", activeTab === 'reports' ? "text-blue-600" : "text-slate-500 hover:text-slate-900")}
+      >
+        Reports
+      </button>
+      <button 
+        onClick={() => setActiveTab('reminders')}
+        className={cn("text-sm font-medium transition-colors", activeTab === 'reminders' ? "text-blue-600" : "text-slate-500 hover:text-slate-900")}
+      >
+        Reminders
+      </button>
+      <NotificationBell onOpenReminders={() => setActiveTab('reminders')} />
       <div className="h-4 w-[1px] bg-slate-200" />
       <div className="flex items-center gap-3">
         <div className="text-right hidden sm:block">
@@ -78,25 +155,13 @@ const Navbar = ({ user, onLogout, activeTab, setActiveTab }: any) => (
   </nav>
 );
 
-const MessageBubble = ({ msg }: { msg: Message }) => {
+const MessageBubble = ({ msg, onStop, highlighted }: { msg: Message, onStop?: () => void, highlighted?: boolean }) => {
   const isAssistant = msg.role === 'assistant';
-  
-  // Simple markdown-like parser for bold and lists
-  const renderContent = (content: string) => {
-    return content.split('\n').map((line, i) => {
-      let processed = line;
-      // Bold
-      processed = processed.replace(/\*\*(.*?)\*\*/g, '<strong class="font-bold text-blue-900">$1</strong>');
-      // Lists
-      if (processed.trim().startsWith('* ')) {
-        return <li key={i} className="ml-4 list-disc" dangerouslySetInnerHTML={{ __html: processed.trim().substring(2) }} />;
-      }
-      return <p key={i} className="mb-2" dangerouslySetInnerHTML={{ __html: processed }} />;
-    });
-  };
+  const [openCitation, setOpenCitation] = useState<number | null>(null);
 
   return (
     <motion.div
+      id={msg.id ? `message-${msg.id}` : undefined}
       initial={{ opacity: 0, y: 10, scale: 0.95 }}
       animate={{ opacity: 1, y: 0, scale: 1 }}
       className={cn(
@@ -106,6 +171,7 @@ const MessageBubble = ({ msg }: { msg: Message }) => {
     >
       <div className={cn(
         "p-5 rounded-3xl shadow-md transition-all duration-300",
+        highlighted && "ring-4 ring-yellow-300",
         msg.role === 'user' 
           ? "bg-gradient-to-br from-blue-600 to-indigo-700 text-white rounded-tr-none" 
           : "bg-white text-slate-800 rounded-tl-none border border-slate-100 relative overflow-hidden bg-gradient-to-br from-white to-blue-50/30"
@@ -117,13 +183,75 @@ const MessageBubble = ({ msg }: { msg: Message }) => {
         )}
 
         <div className="text-sm leading-relaxed relative z-10">
-          {renderContent(msg.content)}
+          {msg.interview
+            ? <InterviewSummary interview={msg.interview} />
+            : <Markdown content={msg.content} onCite={msg.reportId ? setOpenCitation : undefined} inverted={!isAssistant} />}
+          {msg.streaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-blue-400 animate-pulse" />}
         </div>
       </div>
       <span className="text-[10px] text-slate-400 mt-1.5 px-3 flex items-center gap-1">
         {isAssistant && <Activity className="w-3 h-3 text-blue-400" />}
         {formatTime(msg.timestamp)}
+        {isAssistant && msg.severity && msg.severity !== 'none' && (
+          <span className={cn(
+            "ml-1 px-1.5 py-0.5 rounded-full font-semibold uppercase tracking-wider",
+            msg.severity === 'emergency' ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-700"
+          )}>
+            {msg.severity}
+          </span>
+        )}
+        {msg.partial && <span className="italic">· Response stopped</span>}
+        {msg.streaming && onStop && (
+          <button
+            onClick={onStop}
+            className="ml-2 flex items-center gap-1 px-2 py-0.5 border border-slate-200 rounded-full text-slate-500 hover:text-red-600 hover:border-red-200 transition-colors"
+          >
+            <Square className="w-2.5 h-2.5 fill-current" />
+            Stop
+          </button>
+        )}
       </span>
+      <AnimatePresence>
+        {openCitation !== null && msg.reportId && (
+          <CitationModal reportId={msg.reportId} citationId={openCitation} onClose={() => setOpenCitation(null)} />
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
+
+const TriageBanner = ({ triage, onDismiss }: { triage: TriageResult, onDismiss: () => void }) => {
+  const isEmergency = triage.severity === 'emergency';
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      role="alert"
+      className={cn(
+        "sticky top-0 z-20 p-4 rounded-2xl border shadow-md flex items-start gap-3",
+        isEmergency ? "bg-red-50 border-red-200 text-red-900" : "bg-amber-50 border-amber-200 text-amber-900"
+      )}
+    >
+      <AlertTriangle className={cn("w-6 h-6 shrink-0", isEmergency ? "text-red-600" : "text-amber-600")} />
+      <div className="flex-1 space-y-2">
+        <p className="font-bold text-sm">
+          {isEmergency ? "This may be a medical emergency" : "These symptoms need prompt medical attention"}
+        </p>
+        <ul className="text-xs space-y-1">
+          {triage.matches.map(m => (
+            <li key={m.ruleId}><span className="font-semibold">{m.label}:</span> {m.advice}</li>
+          ))}
+        </ul>
+        {isEmergency && (
+          <a href="tel:911" className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-red-600 text-white rounded-lg text-xs font-bold hover:bg-red-700 transition-colors">
+            <Phone className="w-3.5 h-3.5" />
+            Call 911
+          </a>
+        )}
+      </div>
+      <button onClick={onDismiss} className="p-1 rounded-full opacity-60 hover:opacity-100 transition-opacity" title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
     </motion.div>
   );
 };
@@ -140,13 +268,59 @@ const ChatInterface = ({
   startSpeechRecognition,
   messagesEndRef,
   fileInputRef,
-  onNewChat
-}: any) => {
+  onNewChat,
+  onStop,
+  triage,
+  onDismissTriage,
+  interactions,
+  onDismissInteractions,
+  focusMessageId,
+  isInterviewing,
+  onStartInterview,
+  onCancelInterview,
+  onCompleteInterview
+}: {
+  user: UserProfile,
+  messages: Message[],
+  isLoading: boolean,
+  isRecording: boolean,
+  input: string,
+  setInput: (input: string) => void,
+  handleSend: (text?: string) => void,
+  handleFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void,
+  startSpeechRecognition: () => void,
+  messagesEndRef: React.RefObject<HTMLDivElement | null>,
+  fileInputRef: React.RefObject<HTMLInputElement | null>,
+  onNewChat: () => void,
+  onStop: () => void,
+  triage: TriageResult | null,
+  onDismissTriage: () => void,
+  interactions: InteractionCheck | null,
+  onDismissInteractions: () => void,
+  focusMessageId: number | null,
+  isInterviewing: boolean,
+  onStartInterview: () => void,
+  onCancelInterview: () => void,
+  onCompleteInterview: (answers: InterviewAnswers) => Promise<void>
+}) => {
+  const isStreaming = messages[messages.length - 1]?.streaming;
+
   return (
     <div className="flex flex-col h-[calc(100vh-73px)] bg-[#F8FAFC]">
       <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-6">
+        {triage && <TriageBanner triage={triage} onDismiss={onDismissTriage} />}
+        {interactions && <InteractionBanner check={interactions} onDismiss={onDismissInteractions} />}
         {messages.length > 0 && (
-          <div className="flex justify-end mb-4">
+          <div className="flex justify-end gap-2 mb-4">
+            {!isInterviewing && (
+              <button
+                onClick={onStartInterview}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-colors text-xs font-medium"
+              >
+                <ClipboardList className="w-3 h-3" />
+                Check symptoms
+              </button>
+            )}
             <button 
               onClick={onNewChat}
               className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-colors text-xs font-medium"
@@ -156,7 +330,7 @@ const ChatInterface = ({
             </button>
           </div>
         )}
-        {messages.length === 0 && (
+        {messages.length === 0 && !isInterviewing && (
           <div className="h-full flex flex-col items-center justify-center text-center space-y-8 max-w-lg mx-auto">
             <motion.div 
               initial={{ scale: 0.8, opacity: 0 }}
@@ -180,7 +354,7 @@ const ChatInterface = ({
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 w-full">
               {[
-                { icon: Activity, text: "Check my symptoms", query: "I have some symptoms I'd like to check." },
+                { icon: Activity, text: "Check my symptoms", query: null },
                 { icon: FileText, text: "Analyze a report", query: "Can you help me understand a medical report?" },
                 { icon: Plus, text: "Wellness advice", query: "Give me some general wellness and lifestyle tips." },
                 { icon: History, text: "Yoga & Diet", query: "Suggest some yoga and diet plans for general health." }
@@ -189,7 +363,7 @@ const ChatInterface = ({
                   key={idx}
                   whileHover={{ y: -4, scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
-                  onClick={() => handleSend(item.query)}
+                  onClick={() => item.query ? handleSend(item.query) : onStartInterview()}
                   className="flex items-center gap-4 p-5 bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md hover:border-blue-200 transition-all text-left"
                 >
                   <div className="bg-blue-50 p-3 rounded-xl">
@@ -203,12 +377,14 @@ const ChatInterface = ({
         )}
 
         <AnimatePresence initial={false}>
-          {messages.map((msg, i) => (
-            <MessageBubble key={i} msg={msg} />
+          {messages.map((msg: Message, i: number) => (
+            <MessageBubble key={i} msg={msg} onStop={onStop} highlighted={msg.id !== undefined && msg.id === focusMessageId} />
           ))}
         </AnimatePresence>
+
+        {isInterviewing && <SymptomInterview onComplete={onCompleteInterview} onCancel={onCancelInterview} />}
         
-        {isLoading && (
+        {isLoading && !isStreaming && (
           <motion.div 
             initial={{ opacity: 0, x: -10 }}
             animate={{ opacity: 1, x: 0 }}
@@ -284,47 +460,54 @@ const ChatInterface = ({
   );
 };
 
-const Dashboard = ({ user, onUpdateProfile, sessions, onSessionClick }: { user: UserProfile, onUpdateProfile: (data: any) => void, sessions: any[], onSessionClick: (id: number) => void }) => {
+const Dashboard = ({ user, onUpdateProfile, sessions, onSessionClick, onNewChat, onUpdateSession, onDeleteSession, onLogoutAll, onAccountDeleted, onOpenReminders }: {
+  user: UserProfile,
+  onUpdateProfile: (data: UpdateProfileRequest) => void,
+  sessions: ChatSession[],
+  onSessionClick: (id: number) => void,
+  onNewChat: () => void,
+  onUpdateSession: (id: number, update: UpdateSessionRequest) => void,
+  onDeleteSession: (id: number) => void,
+  onLogoutAll: () => void,
+  onAccountDeleted: (deletion: AccountDeletion) => void,
+  onOpenReminders: () => void
+}) => {
   const [profile, setProfile] = useState(user);
   const [isEditing, setIsEditing] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+
+  const visibleSessions = sessions.filter(s => !!s.archived === showArchived);
+  const archivedCount = sessions.filter(s => s.archived).length;
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    const session = sessions.find(s => s.id === renamingId);
+    const title = draftTitle.trim();
+    if (session && title && title !== session.title) onUpdateSession(session.id, { title });
+    setRenamingId(null);
+  };
+
+  const confirmDelete = (session: ChatSession) => {
+    if (confirm(`Delete "${session.title}" and all of its messages? This cannot be undone.`)) {
+      onDeleteSession(session.id);
+    }
+  };
 
   const handleSave = () => {
     onUpdateProfile(profile);
     setIsEditing(false);
   };
 
-  const downloadSessionPDF = async (sessionId: number, title: string) => {
-    const token = localStorage.getItem('token');
-    if (!token) return;
+  const downloadSessionPDF = async (session: ChatSession) => {
     try {
-      const res = await fetch(`/api/chat/history?sessionId=${sessionId}`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-      if (res.ok) {
-        const data = await res.json();
-        const doc = new jsPDF();
-        doc.setFontSize(20);
-        doc.text(`Chat History: ${title}`, 20, 20);
-        doc.setFontSize(12);
-        
-        let y = 40;
-        data.forEach((msg: any) => {
-          const role = msg.role === 'user' ? 'You' : 'AI Assistant';
-          const time = formatTime(new Date(msg.created_at));
-          const text = `${role} (${time}): ${msg.content}`;
-          const splitText = doc.splitTextToSize(text, 170);
-          
-          if (y + splitText.length * 7 > 280) {
-            doc.addPage();
-            y = 20;
-          }
-          
-          doc.text(splitText, 20, y);
-          y += splitText.length * 7 + 5;
-        });
-        
-        doc.save(`chat-history-${title.toLowerCase().replace(/\s+/g, '-')}.pdf`);
-      }
+      await downloadVisitSummary({ sessionIds: String(session.id), reportIds: '' }, `Chat: ${session.title}`);
     } catch (err) {
       console.error("Failed to download PDF:", err);
     }
@@ -338,6 +521,19 @@ const Dashboard = ({ user, onUpdateProfile, sessions, onSessionClick }: { user:
           <p className="text-slate-500">Manage your profile and health records.</p>
         </div>
         <div className="flex gap-3">
+          <button
+            onClick={() => setIsSummaryOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors text-sm font-medium"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Visit summary
+          </button>
+          <button
+            onClick={onLogoutAll}
+            className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors text-sm font-medium"
+          >
+            Sign out all devices
+          </button>
           <button 
             onClick={() => isEditing ? handleSave() : setIsEditing(true)}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
@@ -398,38 +594,96 @@ const Dashboard = ({ user, onUpdateProfile, sessions, onSessionClick }: { user:
             </div>
           </div>
 
+          <MedicalHistoryCard />
+
+          <VitalsCard />
+
+          <HealthTrends />
+
           <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-6">
             <div className="flex items-center justify-between border-b border-slate-100 pb-4">
               <div className="flex items-center gap-2 text-slate-900 font-semibold">
                 <MessageSquare className="w-5 h-5 text-blue-600" />
                 Chat History
               </div>
-              <button 
-                onClick={() => {
-                  setMessages([]);
-                  setCurrentSessionId(null);
-                  setActiveTab('chat');
-                }}
-                className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors text-xs font-semibold"
-              >
-                <Plus className="w-3.5 h-3.5" />
-                New Chat
-              </button>
+              <div className="flex items-center gap-2">
+                {archivedCount > 0 && (
+                  <button
+                    onClick={() => setShowArchived(!showArchived)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-slate-500 rounded-lg hover:bg-slate-100 transition-colors text-xs font-semibold"
+                  >
+                    <Archive className="w-3.5 h-3.5" />
+                    {showArchived ? 'Active' : `Archived (${archivedCount})`}
+                  </button>
+                )}
+                <button 
+                  onClick={onNewChat}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors text-xs font-semibold"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  New Chat
+                </button>
+              </div>
             </div>
             <div className="space-y-3 max-h-[500px] overflow-y-auto pr-2 custom-scrollbar">
-              {sessions.length === 0 ? (
-                <p className="text-slate-500 text-sm italic">No chat history yet.</p>
+              {visibleSessions.length === 0 ? (
+                <p className="text-slate-500 text-sm italic">{showArchived ? 'No archived chats.' : 'No chat history yet.'}</p>
               ) : (
-                sessions.map((session: any) => (
+                visibleSessions.map(session => (
                   <div key={session.id} className="group flex items-center justify-between p-4 rounded-xl border border-slate-100 bg-slate-50 hover:bg-white hover:border-blue-200 hover:shadow-md transition-all cursor-pointer">
-                    <div className="flex-1" onClick={() => onSessionClick(session.id)}>
-                      <h4 className="font-semibold text-slate-900 group-hover:text-blue-600 transition-colors">{session.title}</h4>
-                      <p className="text-[10px] text-slate-400 mt-1">{new Date(session.created_at).toLocaleDateString()} at {formatTime(new Date(session.created_at))}</p>
-                    </div>
+                    {renamingId === session.id ? (
+                      <input
+                        autoFocus
+                        className="flex-1 mr-2 p-2 bg-white border border-blue-200 rounded-lg text-sm"
+                        value={draftTitle}
+                        onChange={e => setDraftTitle(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                      />
+                    ) : (
+                      <div className="flex-1" onClick={() => onSessionClick(session.id)}>
+                        <h4 className="font-semibold text-slate-900 group-hover:text-blue-600 transition-colors flex items-center gap-1.5">
+                          {!!session.pinned && <Pin className="w-3.5 h-3.5 text-blue-600" />}
+                          {session.title}
+                        </h4>
+                        <p className="text-[10px] text-slate-400 mt-1">{new Date(session.created_at).toLocaleDateString()} at {formatTime(new Date(session.created_at))}</p>
+                      </div>
+                    )}
+                    <button
+                      onClick={() => onUpdateSession(session.id, { pinned: !session.pinned })}
+                      className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                      title={session.pinned ? 'Unpin' : 'Pin'}
+                    >
+                      {session.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => startRename(session)}
+                      className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                      title="Rename"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onUpdateSession(session.id, { archived: !session.archived })}
+                      className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                      title={session.archived ? 'Unarchive' : 'Archive'}
+                    >
+                      {session.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => confirmDelete(session)}
+                      className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
                     <button 
                       onClick={(e) => {
                         e.stopPropagation();
-                        downloadSessionPDF(session.id, session.title);
+                        downloadSessionPDF(session);
                       }}
                       className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
                       title="Download PDF"
@@ -453,10 +707,10 @@ const Dashboard = ({ user, onUpdateProfile, sessions, onSessionClick }: { user:
               <select 
                 className="w-full p-2 bg-blue-500 border border-blue-400 rounded-lg text-sm text-white"
                 value={profile.bloodGroup || ''}
-                onChange={e => setProfile({...profile, bloodGroup: e.target.value})}
+                onChange={e => setProfile({...profile, bloodGroup: e.target.value as UserProfile['bloodGroup']})}
               >
                 <option value="">Select</option>
-                {['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'].map(bg => (
+                {BLOOD_GROUPS.map(bg => (
                   <option key={bg} value={bg}>{bg}</option>
                 ))}
               </select>
@@ -465,38 +719,33 @@ const Dashboard = ({ user, onUpdateProfile, sessions, onSessionClick }: { user:
             )}
           </div>
 
-          <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
-            <h3 className="font-semibold text-slate-900 flex items-center gap-2">
-              <History className="w-4 h-4 text-blue-600" />
-              Recent Activity
-            </h3>
-            <div className="space-y-3">
-              {[1, 2].map(i => (
-                <div key={i} className="flex items-start gap-3 p-3 bg-slate-50 rounded-xl">
-                  <div className="w-2 h-2 mt-1.5 rounded-full bg-blue-400" />
-                  <div>
-                    <p className="text-xs font-medium text-slate-800">Symptom Check</p>
-                    <p className="text-[10px] text-slate-500">2 days ago</p>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
+          <AdherenceCard onOpenReminders={onOpenReminders} />
+
+          <AiUsageCard />
+
+          <RecentActivity isAdmin={user.isAdmin} />
+
+          <AccountDataCard onDeleted={onAccountDeleted} />
         </div>
       </div>
+
+      <AnimatePresence>
+        {isSummaryOpen && <VisitSummaryDialog sessions={sessions} onClose={() => setIsSummaryOpen(false)} />}
+      </AnimatePresence>
     </div>
   );
 };
 
 // --- Main App Component ---
 
+type Tab = 'chat' | 'dashboard' | 'reports' | 'reminders';
+
 export default function App() {
-  const [user, setUser] = useState<any>(null);
-  const [activeTab, setActiveTab] = useState<'chat' | 'dashboard'>('chat');
+  const [user, setUser] = useState<UserProfile | null>(null);
+  // Reminder notifications link to /?tab=reminders.
+  const [activeTab, setActiveTab] = useState<Tab>(() => new URLSearchParams(window.location.search).get('tab') === 'reminders' ? 'reminders' : 'chat');
   const [isAuthLoading, setIsAuthLoading] = useState(true);
-  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
-  const [authForm, setAuthForm] = useState({ email: '', password: '', firstName: '', lastName: '' });
-  const [sessions, setSessions] = useState<any[]>([]);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<number | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
@@ -504,124 +753,178 @@ export default function App() {
   const [isRecording, setIsRecording] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
+  const [triage, setTriage] = useState<TriageResult | null>(null);
+  const [interactions, setInteractions] = useState<InteractionCheck | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
+  const [focusReportId, setFocusReportId] = useState<number | null>(null);
+  const [isInterviewing, setIsInterviewing] = useState(false);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  useEffect(scrollToBottom, [messages]);
+  useEffect(() => {
+    const target = focusMessageId !== null && document.getElementById(`message-${focusMessageId}`);
+    if (target) {
+      target.scrollIntoView({ behavior: "smooth", block: "center" });
+    } else {
+      scrollToBottom();
+    }
+  }, [messages, focusMessageId]);
+
+  useEffect(() => {
+    if (focusMessageId === null) return;
+    const timer = setTimeout(() => setFocusMessageId(null), 4000);
+    return () => clearTimeout(timer);
+  }, [focusMessageId]);
+
+  // The server creates the session on the first turn; mirror it into local state.
+  const adoptSession = (session: { id: number, title: string, created: boolean }) => {
+    setCurrentSessionId(session.id);
+    if (session.created) {
+      setSessions(prev => [{ id: session.id, user_id: user.id, title: session.title, created_at: new Date().toISOString(), pinned: 0, archived: 0 }, ...prev]);
+    }
+  };
 
   const handleSend = async (text?: string) => {
     const messageText = text || input;
     if (!messageText.trim() || isLoading) return;
 
-    let sessionId = currentSessionId;
     const token = localStorage.getItem('token');
-
-    // Create session if it doesn't exist
-    if (!sessionId && token) {
-      setIsLoading(true);
-      try {
-        const title = await generateSessionTitle(messageText);
-        const res = await fetch('/api/chat/sessions', {
-          method: 'POST',
-          headers: { 
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({ title })
-        });
-        const data = await res.json();
-        sessionId = data.id;
-        setCurrentSessionId(sessionId);
-        setSessions(prev => [{ id: sessionId, title, created_at: new Date().toISOString() }, ...prev]);
-      } catch (err) {
-        console.error("Failed to create session:", err);
-      } finally {
-        setIsLoading(false);
-      }
-    }
+    if (!token) return;
 
     const userMessage: Message = { role: 'user', content: messageText, timestamp: new Date() };
     setMessages(prev => [...prev, userMessage]);
-    saveToHistory('user', messageText, sessionId);
     setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+    let reply = '';
+    let severity: TriageSeverity | undefined;
+
+    // Replaces the in-progress assistant bubble at the end of the list.
+    const updateReply = (patch: Partial<Message>) => {
+      setMessages(prev => {
+        const last = prev[prev.length - 1];
+        if (last?.role !== 'assistant' || !last.streaming) {
+          return [...prev, { role: 'assistant', content: reply, timestamp: new Date(), streaming: true, ...patch }];
+        }
+        return [...prev.slice(0, -1), { ...last, content: reply, ...patch }];
+      });
+    };
+
     try {
-      const response = await chatWithAI([...messages, userMessage].map(m => ({ role: m.role, content: m.content })), user);
-      const assistantMessage: Message = { 
-        role: 'assistant', 
-        content: response || "I'm sorry, I couldn't process that.", 
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, assistantMessage]);
-      saveToHistory('assistant', response || "I'm sorry, I couldn't process that.", sessionId);
+      const res = await authFetch('/api/ai/chat/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: messageText, sessionId: currentSessionId }),
+        signal: controller.signal
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        if (data.code === 'rate_limited') alert(data.error);
+        throw new Error(data.error);
+      }
+
+      for await (const { event, data } of readEventStream(res)) {
+        if (event === 'session') {
+          adoptSession(data);
+        } else if (event === 'triage') {
+          setTriage(data);
+        } else if (event === 'interactions') {
+          setInteractions(data);
+        } else if (event === 'delta') {
+          reply += data.text;
+          updateReply({});
+        } else if (event === 'done') {
+          severity = data.severity;
+        } else if (event === 'error') {
+          throw new Error(data.error);
+        }
+      }
+      updateReply({ streaming: false, content: reply || "I'm sorry, I couldn't process that.", severity });
     } catch (error) {
-      console.error(error);
+      if (!controller.signal.aborted) console.error(error);
+      if (reply) updateReply({ streaming: false, partial: true });
     } finally {
+      streamControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Saves a finished symptom check on the current session (or a new one) and shows it as a chat exchange.
+  const completeInterview = async (answers: InterviewAnswers) => {
+    const body: InterviewRequest = { answers, sessionId: currentSessionId };
+    const res = await authFetch('/api/chat/interviews', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+
+    const { session, interview, transcript, summary } = data as InterviewResponse;
+    adoptSession(session);
+    setIsInterviewing(false);
+    setMessages(prev => [
+      ...prev,
+      { role: 'user', content: transcript, timestamp: new Date() },
+      { role: 'assistant', content: summary, timestamp: new Date(), severity: interviewSeverity(interview), interview },
+    ]);
+  };
+
+  const stopStreaming = () => {
+    streamControllerRef.current?.abort();
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    e.target.value = '';
 
-    let sessionId = currentSessionId;
     const token = localStorage.getItem('token');
+    if (!token) return;
 
     setIsLoading(true);
 
-    // Create session if it doesn't exist
-    if (!sessionId && token) {
-      try {
-        const title = `Report: ${file.name}`;
-        const res = await fetch('/api/chat/sessions', {
-          method: 'POST',
-          headers: { 
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({ title })
-        });
-        const data = await res.json();
-        sessionId = data.id;
-        setCurrentSessionId(sessionId);
-        setSessions(prev => [{ id: sessionId, title, created_at: new Date().toISOString() }, ...prev]);
-      } catch (err) {
-        console.error("Failed to create session:", err);
-      }
-    }
+    const formData = new FormData();
+    formData.append('report', file);
+    if (currentSessionId) formData.append('sessionId', String(currentSessionId));
 
-    const reader = new FileReader();
-    reader.onload = async () => {
-      const base64 = (reader.result as string).split(',')[1];
-      try {
-        const analysis = await analyzeReport(base64, file.type);
-        const userMsg: Message = { role: 'user', content: `Uploaded report: ${file.name}`, timestamp: new Date() };
-        const assistantMsg: Message = { role: 'assistant', content: analysis, timestamp: new Date() };
-        setMessages(prev => [...prev, userMsg, assistantMsg]);
-        saveToHistory('user', `Uploaded report: ${file.name}`, sessionId);
-        saveToHistory('assistant', analysis, sessionId);
-      } catch (err) {
-        console.error(err);
-      } finally {
-        setIsLoading(false);
+    try {
+      const res = await authFetch('/api/reports/upload', {
+        method: 'POST',
+        body: formData
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        if (data.reportId) alert("Your report was saved, but the analysis failed. You can re-run it from the Reports page.");
+        else if (data.code === 'rate_limited') alert(data.error);
+        throw new Error(data.error);
       }
-    };
-    reader.readAsDataURL(file);
+
+      adoptSession(data.session);
+      const userMsg: Message = { role: 'user', content: data.note, timestamp: new Date() };
+      const assistantMsg: Message = { role: 'assistant', content: data.analysis, timestamp: new Date(), reportId: data.reportId };
+      setMessages(prev => [...prev, userMsg, assistantMsg]);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const startSpeechRecognition = () => {
-    if (!('webkitSpeechRecognition' in window)) {
+    if (!window.webkitSpeechRecognition) {
       alert("Speech recognition not supported in this browser.");
       return;
     }
-    const recognition = new (window as any).webkitSpeechRecognition();
+    const recognition = new window.webkitSpeechRecognition();
     recognition.onstart = () => setIsRecording(true);
     recognition.onend = () => setIsRecording(false);
-    recognition.onresult = (event: any) => {
+    recognition.onresult = (event) => {
       const transcript = event.results[0][0].transcript;
       handleSend(transcript);
     };
@@ -632,9 +935,7 @@ export default function App() {
     const token = localStorage.getItem('token');
     if (!token) return;
     try {
-      const res = await fetch('/api/chat/sessions', {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
+      const res = await authFetch('/api/chat/sessions');
       if (res.ok) {
         const data = await res.json();
         setSessions(data);
@@ -644,23 +945,36 @@ export default function App() {
     }
   };
 
-  const fetchSessionMessages = async (sessionId: number) => {
+  const fetchInterviews = async (sessionId: number): Promise<SymptomInterviewRow[]> => {
+    const res = await authFetch(`/api/chat/interviews?sessionId=${sessionId}`);
+    return res.ok ? res.json() : [];
+  };
+
+  const fetchSessionMessages = async (sessionId: number, focusId: number | null = null) => {
     const token = localStorage.getItem('token');
     if (!token) return;
     setIsLoading(true);
     try {
-      const res = await fetch(`/api/chat/history?sessionId=${sessionId}`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
+      const res = await authFetch(`/api/chat/history?sessionId=${sessionId}`);
       if (res.ok) {
-        const data = await res.json();
-        const formattedMessages = data.map((h: any) => ({
+        const data = await res.json() as ChatHistoryRow[];
+        const interviews = data.some(h => h.interview_id) ? await fetchInterviews(sessionId) : [];
+        const formattedMessages = data.map(h => ({
+          id: h.id,
           role: h.role,
           content: h.content,
-          timestamp: new Date(h.created_at)
+          timestamp: new Date(h.created_at),
+          partial: !!h.partial,
+          severity: h.severity || undefined,
+          reportId: h.report_id || undefined,
+          interview: interviews.find(i => i.id === h.interview_id)
         }));
         setMessages(formattedMessages);
         setCurrentSessionId(sessionId);
+        setFocusMessageId(focusId);
+        setTriage(null);
+        setInteractions(null);
+        setIsInterviewing(false);
         setActiveTab('chat');
       }
     } catch (err) {
@@ -670,8 +984,47 @@ export default function App() {
     }
   };
 
+  const openReport = (reportId: number) => {
+    setFocusReportId(reportId);
+    setActiveTab('reports');
+  };
+
+  const updateSession = async (sessionId: number, update: UpdateSessionRequest) => {
+    try {
+      const res = await authFetch(`/api/chat/sessions/${sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      if (res.ok) fetchSessions();
+    } catch (err) {
+      console.error("Failed to update session:", err);
+    }
+  };
+
+  const deleteSession = async (sessionId: number) => {
+    try {
+      const res = await authFetch(`/api/chat/sessions/${sessionId}`, { method: 'DELETE' });
+      if (!res.ok) return;
+      if (sessionId === currentSessionId) {
+        streamControllerRef.current?.abort();
+        setMessages([]);
+        setTriage(null);
+        setInteractions(null);
+        setCurrentSessionId(null);
+      }
+      fetchSessions();
+    } catch (err) {
+      console.error("Failed to delete session:", err);
+    }
+  };
+
   const startNewChat = () => {
+    streamControllerRef.current?.abort();
     setMessages([]);
+    setTriage(null);
+    setInteractions(null);
+    setIsInterviewing(false);
     setCurrentSessionId(null);
     setActiveTab('chat');
   };
@@ -686,78 +1039,73 @@ export default function App() {
       }
     } catch (err) {
       console.error("Failed to parse saved user:", err);
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
+      clearAuth();
     } finally {
       setIsAuthLoading(false);
     }
   }, []);
 
-  const saveToHistory = async (role: string, content: string, sessionId?: number | null) => {
-    const token = localStorage.getItem('token');
-    if (!token) return;
+  useEffect(() => {
+    const onExpired = () => {
+      streamControllerRef.current?.abort();
+      setUser(null);
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, onExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, onExpired);
+  }, []);
+
+  const handleSignedIn = (data: LoginResponse) => {
+    storeTokens(data);
+    localStorage.setItem('user', JSON.stringify(data.user));
+    setUser(data.user);
+    fetchSessions();
+  };
+
+  const resetSession = () => {
+    clearAuth();
+    setUser(null);
+    setMessages([]);
+    setSessions([]);
+    setCurrentSessionId(null);
+  };
+
+  // This browser stops receiving the account's push notifications before the session ends.
+  const signOut = async (endpoint: string) => {
+    streamControllerRef.current?.abort();
     try {
-      await fetch('/api/chat/history', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({ role, content, sessionId })
-      });
+      await disablePush();
     } catch (err) {
-      console.error("Failed to save history:", err);
+      console.error("Failed to turn off notifications:", err);
     }
-  };
-
-  const handleAuth = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const endpoint = authMode === 'login' ? '/api/auth/login' : '/api/auth/register';
     try {
-      const res = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(authForm)
-      });
-      const data = await res.json();
-      if (res.ok) {
-        if (authMode === 'login') {
-          localStorage.setItem('token', data.token);
-          localStorage.setItem('user', JSON.stringify(data.user));
-          setUser(data.user);
-        } else {
-          setAuthMode('login');
-          alert("Registration successful! Please login.");
-        }
-      } else {
-        alert(data.error);
-        if (authMode === 'register' && data.error.includes('already exists')) {
-          setAuthMode('login');
-        }
-      }
+      await authFetch(endpoint, { method: 'POST' });
     } catch (err) {
-      console.error(err);
+      console.error("Failed to revoke session:", err);
     }
+    resetSession();
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    setUser(null);
+  const handleLogout = () => signOut('/api/auth/logout');
+
+  const handleLogoutAll = () => {
+    if (confirm("Sign out on every device, including this one?")) signOut('/api/auth/logout-all');
   };
 
-  const handleUpdateProfile = async (profileData: any) => {
-    const token = localStorage.getItem('token');
+  // The server has already revoked every session, so there is nothing left to sign out of.
+  const handleAccountDeleted = ({ deletionScheduledAt }: AccountDeletion) => {
+    streamControllerRef.current?.abort();
+    alert(`Your account will be permanently deleted on ${formatDeletionDate(deletionScheduledAt)}. Sign in before then to cancel.`);
+    resetSession();
+  };
+
+  const handleUpdateProfile = async (profileData: UpdateProfileRequest) => {
     try {
-      const res = await fetch('/api/user/profile', {
+      const res = await authFetch('/api/user/profile', {
         method: 'PUT',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(profileData)
       });
-      if (res.ok) {
+      if (res.ok && user) {
         const updatedUser = { ...user, ...profileData };
         setUser(updatedUser);
         localStorage.setItem('user', JSON.stringify(updatedUser));
@@ -769,85 +1117,7 @@ export default function App() {
 
   if (isAuthLoading) return null;
 
-  if (!user) {
-    return (
-      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
-        <motion.div 
-          initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: 1, scale: 1 }}
-          className="bg-white p-8 rounded-3xl shadow-xl w-full max-w-md border border-slate-200"
-        >
-          <div className="flex flex-col items-center text-center mb-8">
-            <div className="bg-blue-600 p-3 rounded-2xl mb-4">
-              <Stethoscope className="text-white w-8 h-8" />
-            </div>
-            <h1 className="text-2xl font-bold text-slate-900">MyHealthAI</h1>
-            <p className="text-slate-500 mt-1">Your intelligent medical companion</p>
-          </div>
-
-          <form onSubmit={handleAuth} className="space-y-4">
-            {authMode === 'register' && (
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-1">
-                  <label className="text-xs font-semibold text-slate-500 uppercase">First Name</label>
-                  <input 
-                    required
-                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
-                    value={authForm.firstName}
-                    onChange={e => setAuthForm({...authForm, firstName: e.target.value})}
-                  />
-                </div>
-                <div className="space-y-1">
-                  <label className="text-xs font-semibold text-slate-500 uppercase">Last Name</label>
-                  <input 
-                    required
-                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
-                    value={authForm.lastName}
-                    onChange={e => setAuthForm({...authForm, lastName: e.target.value})}
-                  />
-                </div>
-              </div>
-            )}
-            <div className="space-y-1">
-              <label className="text-xs font-semibold text-slate-500 uppercase">Email Address</label>
-              <input 
-                type="email"
-                required
-                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
-                value={authForm.email}
-                onChange={e => setAuthForm({...authForm, email: e.target.value})}
-              />
-            </div>
-            <div className="space-y-1">
-              <label className="text-xs font-semibold text-slate-500 uppercase">Password</label>
-              <input 
-                type="password"
-                required
-                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
-                value={authForm.password}
-                onChange={e => setAuthForm({...authForm, password: e.target.value})}
-              />
-            </div>
-            <button 
-              type="submit"
-              className="w-full py-4 bg-blue-600 text-white rounded-2xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200 mt-4"
-            >
-              {authMode === 'login' ? 'Sign In' : 'Create Account'}
-            </button>
-          </form>
-
-          <div className="mt-6 text-center">
-            <button 
-              onClick={() => setAuthMode(authMode === 'login' ? 'register' : 'login')}
-              className="text-sm text-blue-600 font-semibold hover:underline"
-            >
-              {authMode === 'login' ? "Don't have an account? Sign Up" : "Already have an account? Sign In"}
-            </button>
-          </div>
-        </motion.div>
-      </div>
-    );
-  }
+  if (!user) return <AuthScreen onSignedIn={handleSignedIn} />;
 
   return (
     <div className="min-h-screen bg-slate-50 font-sans">
@@ -856,6 +1126,8 @@ export default function App() {
         onLogout={handleLogout} 
         activeTab={activeTab} 
         setActiveTab={setActiveTab} 
+        onOpenMessage={fetchSessionMessages}
+        onOpenReport={openReport}
       />
       
       <main className="h-[calc(100vh-73px)] overflow-hidden">
@@ -873,7 +1145,25 @@ export default function App() {
             messagesEndRef={messagesEndRef}
             fileInputRef={fileInputRef}
             onNewChat={startNewChat}
+            onStop={stopStreaming}
+            triage={triage}
+            onDismissTriage={() => setTriage(null)}
+            interactions={interactions}
+            onDismissInteractions={() => setInteractions(null)}
+            focusMessageId={focusMessageId}
+            isInterviewing={isInterviewing}
+            onStartInterview={() => setIsInterviewing(true)}
+            onCancelInterview={() => setIsInterviewing(false)}
+            onCompleteInterview={completeInterview}
           />
+        ) : activeTab === 'reports' ? (
+          <div className="h-full overflow-y-auto">
+            <ReportsView focusReportId={focusReportId} />
+          </div>
+        ) : activeTab === 'reminders' ? (
+          <div className="h-full overflow-y-auto">
+            <RemindersView />
+          </div>
         ) : (
           <div className="h-full overflow-y-auto">
             <Dashboard 
@@ -881,6 +1171,12 @@ export default function App() {
               onUpdateProfile={handleUpdateProfile} 
               sessions={sessions}
               onSessionClick={fetchSessionMessages}
+              onNewChat={startNewChat}
+              onUpdateSession={updateSession}
+              onDeleteSession={deleteSession}
+              onLogoutAll={handleLogoutAll}
+              onAccountDeleted={handleAccountDeleted}
+              onOpenReminders={() => setActiveTab('reminders')}
             />
           </div>
         )}
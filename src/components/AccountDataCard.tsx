@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ShieldCheck, Download, Trash2, X, AlertTriangle } from 'lucide-react';
+import { authFetch } from '../lib/api';
+import type { AccountDeletion, DeleteAccountRequest, ProfileRow } from '../contracts';
+
+const CONFIRM_PHRASE = 'DELETE';
+
+// deletion_scheduled_at is SQLite UTC without a zone marker.
+export const formatDeletionDate = (timestamp: string) =>
+  new Date(`${timestamp.replace(' ', 'T')}Z`).toLocaleDateString([], { dateStyle: 'long' });
+
+async function downloadExport() {
+  const res = await authFetch('/api/user/export');
+  if (!res.ok) {
+    alert((await res.json()).error);
+    return;
+  }
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `myhealthai-export-${new Date().toISOString().slice(0, 10)}.zip`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const DeleteAccountModal = ({ onClose, onScheduled }: { onClose: () => void, onScheduled: (deletion: AccountDeletion) => void }) => {
+  const [password, setPassword] = useState('');
+  const [phrase, setPhrase] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const body: DeleteAccountRequest = { password };
+      const res = await authFetch('/api/user', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (res.ok) onScheduled(data);
+      else setError(data.error);
+    } catch (err) {
+      console.error("Failed to delete account:", err);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={submit}
+        className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-red-600" />
+            Delete your account
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded-full">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-600 leading-relaxed">
+          Your profile, chats, reports and uploaded files will be permanently deleted after a grace period.
+          You will be signed out everywhere; signing in again before then lets you cancel.
+          Consider exporting your data first.
+        </p>
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-500 uppercase">Password</label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            className="w-full p-2 border border-slate-200 rounded-lg text-sm"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-500 uppercase">Type {CONFIRM_PHRASE} to confirm</label>
+          <input
+            className="w-full p-2 border border-slate-200 rounded-lg text-sm"
+            value={phrase}
+            onChange={e => setPhrase(e.target.value)}
+          />
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!password || phrase !== CONFIRM_PHRASE || isSubmitting}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors text-sm font-medium"
+          >
+            {isSubmitting ? 'Deleting...' : 'Delete account'}
+          </button>
+        </div>
+      </form>
+    </motion.div>
+  );
+};
+
+/**
+ * Export everything held about the user, or schedule the account for
+ * deletion. `onDeleted` runs once deletion is scheduled, by which point the
+ * server has already ended every session.
+ */
+export const AccountDataCard = ({ onDeleted }: { onDeleted: (deletion: AccountDeletion) => void }) => {
+  const [scheduledAt, setScheduledAt] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    authFetch('/api/user/profile')
+      .then(res => res.ok ? res.json() : null)
+      .then((profile: ProfileRow | null) => setScheduledAt(profile?.deletion_scheduled_at ?? null))
+      .catch(err => console.error("Failed to fetch profile:", err));
+  }, []);
+
+  const exportData = async () => {
+    if (!confirm("Download a ZIP of your profile, chats, reports and uploaded files? It contains sensitive health information, so keep it somewhere safe.")) return;
+    setIsExporting(true);
+    try {
+      await downloadExport();
+    } catch (err) {
+      console.error("Failed to export data:", err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const cancelDeletion = async () => {
+    try {
+      const res = await authFetch('/api/user/cancel-deletion', { method: 'POST' });
+      if (res.ok) setScheduledAt(null);
+    } catch (err) {
+      console.error("Failed to cancel deletion:", err);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+      <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+        <ShieldCheck className="w-4 h-4 text-blue-600" />
+        Your Data
+      </h3>
+      {scheduledAt && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-xl space-y-2">
+          <p className="text-xs text-red-700">
+            This account is scheduled for permanent deletion on <strong>{formatDeletionDate(scheduledAt)}</strong>.
+          </p>
+          <button
+            onClick={cancelDeletion}
+            className="w-full px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-xs font-medium"
+          >
+            Keep my account
+          </button>
+        </div>
+      )}
+      <button
+        onClick={exportData}
+        disabled={isExporting}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 disabled:opacity-50 transition-colors text-xs font-medium"
+      >
+        <Download className="w-3 h-3" />
+        {isExporting ? 'Preparing export...' : 'Export all my data (ZIP)'}
+      </button>
+      {!scheduledAt && (
+        <button
+          onClick={() => setIsDeleting(true)}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors text-xs font-medium"
+        >
+          <Trash2 className="w-3 h-3" />
+          Delete my account
+        </button>
+      )}
+      <AnimatePresence>
+        {isDeleting && <DeleteAccountModal onClose={() => setIsDeleting(false)} onScheduled={onDeleted} />}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { CalendarCheck } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { authFetch } from '../lib/api';
+import type { Adherence } from '../services/reminders';
+
+const DAYS = 30;
+
+const tone = (percentage: number) => percentage >= 90 ? 'bg-emerald-500' : percentage >= 70 ? 'bg-amber-500' : 'bg-red-500';
+
+/** Doses taken against doses due over the last 30 days, overall and per reminder. */
+export const AdherenceCard = ({ onOpenReminders }: { onOpenReminders: () => void }) => {
+  const [adherence, setAdherence] = useState<Adherence | null>(null);
+
+  useEffect(() => {
+    authFetch(`/api/reminders/adherence?days=${DAYS}`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setAdherence)
+      .catch(err => console.error("Failed to fetch adherence:", err));
+  }, []);
+
+  if (!adherence) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+      <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+        <CalendarCheck className="w-4 h-4 text-blue-600" />
+        Medication Adherence
+      </h3>
+      {adherence.percentage === null ? (
+        <p className="text-xs text-slate-500">
+          No doses recorded in the last {DAYS} days.{' '}
+          <button onClick={onOpenReminders} className="text-blue-600 font-semibold hover:underline">Set up dose reminders</button>
+        </p>
+      ) : (
+        <>
+          <div>
+            <p className="text-4xl font-bold text-slate-900">{adherence.percentage}%</p>
+            <p className="text-xs text-slate-500">
+              {adherence.taken} taken, {adherence.skipped} skipped, {adherence.missed} missed in the last {DAYS} days
+            </p>
+          </div>
+          <div className="space-y-3">
+            {adherence.reminders.map(r => r.percentage !== null && (
+              <div key={r.reminderId} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium text-slate-600 truncate">{r.title}</span>
+                  <span className="text-slate-500">{r.percentage}%</span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className={cn("h-full rounded-full", tone(r.percentage))} style={{ width: `${r.percentage}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { Gauge } from 'lucide-react';
+import { cn, formatTime } from '../lib/utils';
+import { authFetch } from '../lib/api';
+import type { AiUsage, QuotaCounter } from '../contracts';
+
+const UsageBar = ({ label, counter }: { label: string, counter: QuotaCounter }) => {
+  const remaining = Math.max(counter.limit - counter.used, 0);
+  const share = Math.min(counter.used / counter.limit, 1);
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-slate-600">{label}</span>
+        <span className="text-slate-500">{remaining.toLocaleString()} of {counter.limit.toLocaleString()} left</span>
+      </div>
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div
+          className={cn("h-full rounded-full", share >= 1 ? "bg-red-500" : share >= 0.8 ? "bg-amber-500" : "bg-blue-500")}
+          style={{ width: `${share * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+/** Today's remaining AI allowance, as enforced by the server's daily quota. */
+export const AiUsageCard = () => {
+  const [usage, setUsage] = useState<AiUsage | null>(null);
+
+  useEffect(() => {
+    authFetch('/api/ai/usage')
+      .then(res => res.ok ? res.json() : null)
+      .then(setUsage)
+      .catch(err => console.error("Failed to fetch AI usage:", err));
+  }, []);
+
+  if (!usage) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+      <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+        <Gauge className="w-4 h-4 text-blue-600" />
+        AI Usage Today
+      </h3>
+      <UsageBar label="Requests" counter={usage.requests} />
+      <UsageBar label="Tokens (estimated)" counter={usage.tokens} />
+      <p className="text-[10px] text-slate-400">Resets at {formatTime(new Date(usage.resetsAt))}</p>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Stethoscope, MailCheck } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { ApiErrorBody, LoginResponse } from '../contracts';
+
+type AuthMode = 'login' | 'register' | 'forgot' | 'reset' | 'check-email';
+
+interface Notice {
+  kind: 'success' | 'error';
+  text: string;
+}
+
+const inputClass = "w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all";
+const submitClass = "w-full py-4 bg-blue-600 text-white rounded-2xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200 mt-4 disabled:opacity-60";
+const linkClass = "text-sm text-blue-600 font-semibold hover:underline";
+
+// `data` is the success body when `ok`, otherwise the error body.
+const postJson = async <T = unknown,>(url: string, body: unknown): Promise<{ ok: boolean, data: T & Partial<ApiErrorBody> }> => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { ok: res.ok, data: await res.json() };
+};
+
+/**
+ * Sign-in, registration, password reset and email verification. Emailed
+ * links land here as `?verify=<token>` or `?reset=<token>`.
+ */
+export const AuthScreen = ({ onSignedIn }: { onSignedIn: (data: LoginResponse) => void }) => {
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [form, setForm] = useState({ email: '', password: '', firstName: '', lastName: '' });
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const verifyToken = params.get('verify');
+    const reset = params.get('reset');
+    if (!verifyToken && !reset) return;
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (reset) {
+      setResetToken(reset);
+      setMode('reset');
+      return;
+    }
+    postJson('/api/auth/verify-email', { token: verifyToken })
+      .then(({ ok, data }) => setNotice(ok
+        ? { kind: 'success', text: 'Your email is verified. You can sign in now.' }
+        : { kind: 'error', text: data.error }))
+      .catch(err => console.error("Failed to verify email:", err));
+  }, []);
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setNotice(null);
+  };
+
+  const resendVerification = async () => {
+    await postJson('/api/auth/resend-verification', { email: form.email });
+    setNotice({ kind: 'success', text: 'We sent a new verification link.' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setNotice(null);
+    try {
+      if (mode === 'login') {
+        const { ok, data } = await postJson<LoginResponse>('/api/auth/login', form);
+        if (ok) return onSignedIn(data);
+        if (data.code === 'email_unverified') return setMode('check-email');
+        setNotice({ kind: 'error', text: data.error });
+      } else if (mode === 'register') {
+        const { ok, data } = await postJson('/api/auth/register', form);
+        if (ok) return setMode('check-email');
+        setNotice({ kind: 'error', text: data.error });
+        if (data.code === 'email_taken') setMode('login');
+      } else if (mode === 'forgot') {
+        await postJson('/api/auth/forgot-password', { email: form.email });
+        setNotice({ kind: 'success', text: `If an account exists for ${form.email}, a reset link is on its way.` });
+      } else if (mode === 'reset') {
+        const { ok, data } = await postJson('/api/auth/reset-password', { token: resetToken, password: form.password });
+        if (!ok) return setNotice({ kind: 'error', text: data.error });
+        setForm({ ...form, password: '' });
+        setMode('login');
+        setNotice({ kind: 'success', text: 'Your password has been changed. Sign in with your new password.' });
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitLabel = {
+    login: 'Sign In',
+    register: 'Create Account',
+    forgot: 'Send Reset Link',
+    reset: 'Set New Password',
+    'check-email': ''
+  }[mode];
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white p-8 rounded-3xl shadow-xl w-full max-w-md border border-slate-200"
+      >
+        <div className="flex flex-col items-center text-center mb-8">
+          <div className="bg-blue-600 p-3 rounded-2xl mb-4">
+            <Stethoscope className="text-white w-8 h-8" />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900">MyHealthAI</h1>
+          <p className="text-slate-500 mt-1">Your intelligent medical companion</p>
+        </div>
+
+        {notice && (
+          <p className={cn(
+            "mb-4 p-3 rounded-xl text-sm",
+            notice.kind === 'success' ? "bg-emerald-50 text-emerald-800" : "bg-red-50 text-red-700"
+          )}>
+            {notice.text}
+          </p>
+        )}
+
+        {mode === 'check-email' ? (
+          <div className="text-center space-y-4">
+            <MailCheck className="w-10 h-10 text-blue-600 mx-auto" />
+            <h2 className="font-semibold text-slate-900">Verify your email</h2>
+            <p className="text-sm text-slate-500">
+              We sent a link to <span className="font-semibold text-slate-700">{form.email}</span>. Open it to activate your account, then sign in.
+            </p>
+            <button onClick={resendVerification} className={linkClass}>Resend the link</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'register' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <label className="text-xs font-semibold text-slate-500 uppercase">First Name</label>
+                  <input
+                    required
+                    className={inputClass}
+                    value={form.firstName}
+                    onChange={e => setForm({...form, firstName: e.target.value})}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-semibold text-slate-500 uppercase">Last Name</label>
+                  <input
+                    required
+                    className={inputClass}
+                    value={form.lastName}
+                    onChange={e => setForm({...form, lastName: e.target.value})}
+                  />
+                </div>
+              </div>
+            )}
+            {mode !== 'reset' && (
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-500 uppercase">Email Address</label>
+                <input
+                  type="email"
+                  required
+                  className={inputClass}
+                  value={form.email}
+                  onChange={e => setForm({...form, email: e.target.value})}
+                />
+              </div>
+            )}
+            {mode !== 'forgot' && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-semibold text-slate-500 uppercase">{mode === 'reset' ? 'New Password' : 'Password'}</label>
+                  {mode === 'login' && (
+                    <button type="button" onClick={() => switchMode('forgot')} className="text-xs text-blue-600 font-semibold hover:underline">
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <input
+                  type="password"
+                  required
+                  minLength={mode === 'login' ? undefined : 8}
+                  className={inputClass}
+                  value={form.password}
+                  onChange={e => setForm({...form, password: e.target.value})}
+                />
+              </div>
+            )}
+            <button type="submit" disabled={isSubmitting} className={submitClass}>
+              {submitLabel}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          {mode === 'login' ? (
+            <button onClick={() => switchMode('register')} className={linkClass}>
+              Don't have an account? Sign Up
+            </button>
+          ) : (
+            <button onClick={() => switchMode('login')} className={linkClass}>
+              {mode === 'register' ? 'Already have an account? Sign In' : 'Back to Sign In'}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import { useState, useEffect, Fragment } from 'react';
+import { motion } from 'framer-motion';
+import { Quote, X, AlertTriangle } from 'lucide-react';
+import { authFetch } from '../lib/api';
+import { CITATION_MARKER } from '../lib/markdown';
+
+import type { CitationsResponse } from '../contracts';
+
+const citationChipClass = "inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-text-top rounded-md bg-blue-100 text-blue-700 text-[10px] font-bold hover:bg-blue-200 cursor-pointer";
+
+export const CitationChip = ({ id, onCite }: { id: number, onCite: (id: number) => void }) => (
+  <button type="button" onClick={() => onCite(id)} className={citationChipClass}>{id}</button>
+);
+
+/** Plain text with `[[n]]` markers turned into clickable chips. */
+export const CitedText = ({ text, onCite }: { text: string, onCite: (id: number) => void }) => (
+  <>
+    {text.split(CITATION_MARKER).map((part, i) =>
+      i % 2 === 1
+        ? <CitationChip key={i} id={Number(part)} onCite={onCite} />
+        : <Fragment key={i}>{part}</Fragment>
+    )}
+  </>
+);
+
+const highlight = (pageText: string, quote: string) => {
+  const index = pageText.toLowerCase().indexOf(quote.toLowerCase());
+  if (index === -1) return pageText;
+  return (
+    <>
+      {pageText.slice(0, index)}
+      <mark className="bg-yellow-200 rounded px-0.5">{pageText.slice(index, index + quote.length)}</mark>
+      {pageText.slice(index + quote.length)}
+    </>
+  );
+};
+
+export const CitationModal = ({ reportId, citationId, onClose }: { reportId: number, citationId: number, onClose: () => void }) => {
+  const [data, setData] = useState<CitationsResponse | null>(null);
+
+  useEffect(() => {
+    authFetch(`/api/reports/${reportId}/citations`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setData)
+      .catch(err => console.error("Failed to load citations:", err));
+  }, [reportId]);
+
+  const citation = data?.citations.find(c => c.id === citationId);
+  const page = citation && data?.pages.find(p => p.page === citation.page);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] bg-slate-900/40 flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[80vh] overflow-y-auto p-6 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <Quote className="w-4 h-4 text-blue-600" />
+            Source {citationId}{citation ? ` · Page ${citation.page}` : ''}
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded-full">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {!data ? (
+          <p className="text-sm text-slate-500 italic">Loading source...</p>
+        ) : !citation ? (
+          <p className="text-sm text-slate-500 italic">This citation is not available.</p>
+        ) : (
+          <>
+            <blockquote className="border-l-4 border-blue-400 pl-4 text-sm text-slate-800 italic">"{citation.quote}"</blockquote>
+            {!citation.verified && (
+              <p className="flex items-center gap-1.5 text-xs text-amber-700">
+                <AlertTriangle className="w-3.5 h-3.5" />
+                This quote could not be found word-for-word in the report text.
+              </p>
+            )}
+            {page && (
+              <div className="p-4 bg-slate-50 rounded-xl text-xs text-slate-600 whitespace-pre-wrap leading-relaxed">
+                {highlight(page.text, citation.quote)}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { TrendingUp, FileText, Download, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { authFetch } from '../lib/api';
+import type { MarkerSummary, SeriesPoint } from '../contracts';
+import { downloadReportFile } from './ReportsView';
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 28, left: 44 };
+
+const TrendChart = ({ points, onPointClick }: { points: SeriesPoint[], onPointClick: (p: SeriesPoint) => void }) => {
+  // Labs differ slightly in their ranges; the band follows the most recent one.
+  const latestRange = [...points].reverse().find(p => p.reference_low !== null || p.reference_high !== null);
+  const bandLow = latestRange?.reference_low ?? null;
+  const bandHigh = latestRange?.reference_high ?? null;
+
+  const values = points.map(p => p.value);
+  const bounds = [...values, ...(bandLow !== null ? [bandLow] : []), ...(bandHigh !== null ? [bandHigh] : [])];
+  let yMin = Math.min(...bounds);
+  let yMax = Math.max(...bounds);
+  const margin = (yMax - yMin) * 0.15 || Math.abs(yMax) * 0.1 || 1;
+  yMin -= margin;
+  yMax += margin;
+
+  const times = points.map(p => new Date(p.date).getTime());
+  const tMin = Math.min(...times);
+  const tMax = Math.max(...times);
+
+  const x = (t: number) => tMax === tMin
+    ? PAD.left + (WIDTH - PAD.left - PAD.right) / 2
+    : PAD.left + ((t - tMin) / (tMax - tMin)) * (WIDTH - PAD.left - PAD.right);
+  const y = (v: number) => PAD.top + (1 - (v - yMin) / (yMax - yMin)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const bandTop = y(bandHigh ?? yMax);
+  const bandBottom = y(bandLow ?? yMin);
+  const ticks = [0, 1, 2, 3].map(i => yMin + ((yMax - yMin) * i) / 3);
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${x(times[i])} ${y(p.value)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      {latestRange && (
+        <rect
+          x={PAD.left}
+          y={bandTop}
+          width={WIDTH - PAD.left - PAD.right}
+          height={Math.max(bandBottom - bandTop, 0)}
+          className="fill-emerald-100"
+        >
+          <title>Reference range: {latestRange.reference_range}</title>
+        </rect>
+      )}
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} className="stroke-slate-100" />
+          <text x={PAD.left - 6} y={y(t)} textAnchor="end" dominantBaseline="middle" className="fill-slate-400 text-[10px]">
+            {Number(t.toFixed(2))}
+          </text>
+        </g>
+      ))}
+      <text x={x(times[0])} y={HEIGHT - 8} textAnchor={points.length > 1 ? 'start' : 'middle'} className="fill-slate-400 text-[10px]">
+        {new Date(points[0].date).toLocaleDateString()}
+      </text>
+      {points.length > 1 && (
+        <text x={x(times[times.length - 1])} y={HEIGHT - 8} textAnchor="end" className="fill-slate-400 text-[10px]">
+          {new Date(points[points.length - 1].date).toLocaleDateString()}
+        </text>
+      )}
+      <path d={path} fill="none" className="stroke-blue-500" strokeWidth={2} />
+      {points.map((p, i) => (
+        <circle
+          key={p.id}
+          cx={x(times[i])}
+          cy={y(p.value)}
+          r={6}
+          onClick={() => onPointClick(p)}
+          className={cn(
+            "cursor-pointer stroke-white transition-all hover:opacity-80",
+            p.out_of_range ? "fill-red-500" : "fill-blue-600"
+          )}
+          strokeWidth={2}
+        >
+          <title>{`${p.value} ${p.unit || ''} — ${new Date(p.date).toLocaleDateString()} (${p.filename})`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const ReportModal = ({ reportId, onClose }: { reportId: number, onClose: () => void }) => {
+  const [report, setReport] = useState<any>(null);
+
+  useEffect(() => {
+    authFetch(`/api/reports/${reportId}`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setReport)
+      .catch(err => console.error("Failed to load report:", err));
+  }, [reportId]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[80vh] overflow-y-auto p-6 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <FileText className="w-4 h-4 text-blue-600" />
+            {report?.filename || 'Report'}
+          </h3>
+          <div className="flex items-center gap-1">
+            {report && (
+              <button onClick={() => downloadReportFile(report)} className="p-1 text-slate-400 hover:text-blue-600 rounded-full" title="Download original">
+                <Download className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded-full">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {report ? (
+          <>
+            <p className="text-[10px] text-slate-400">Uploaded {new Date(report.created_at).toLocaleDateString()}</p>
+            <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">{report.analysis}</p>
+          </>
+        ) : (
+          <p className="text-sm text-slate-500 italic">Loading report...</p>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export const HealthTrends = () => {
+  const [markers, setMarkers] = useState<MarkerSummary[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [series, setSeries] = useState<SeriesPoint[]>([]);
+  const [openReportId, setOpenReportId] = useState<number | null>(null);
+
+  useEffect(() => {
+    authFetch('/api/reports/markers')
+      .then(res => res.ok ? res.json() : [])
+      .then((data: MarkerSummary[]) => {
+        setMarkers(data);
+        setSelected(prev => prev ?? data[0]?.marker ?? null);
+      })
+      .catch(err => console.error("Failed to fetch markers:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!selected) return;
+    authFetch(`/api/reports/markers/${encodeURIComponent(selected)}/series`)
+      .then(res => res.ok ? res.json() : [])
+      .then(setSeries)
+      .catch(err => console.error("Failed to fetch marker series:", err));
+  }, [selected]);
+
+  const current = markers.find(m => m.marker === selected);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center gap-2 text-slate-900 font-semibold border-b border-slate-100 pb-4">
+        <TrendingUp className="w-5 h-5 text-blue-600" />
+        Health Trends
+      </div>
+
+      {markers.length === 0 ? (
+        <p className="text-slate-500 text-sm italic">Upload a lab report to start tracking your results over time.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {markers.map(m => (
+              <button
+                key={m.marker}
+                onClick={() => setSelected(m.marker)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors",
+                  m.marker === selected ? "bg-blue-600 text-white" : "bg-slate-50 text-slate-600 hover:bg-blue-50 hover:text-blue-600"
+                )}
+              >
+                {m.test_name}
+                {m.out_of_range ? <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-red-400 align-middle" /> : null}
+              </button>
+            ))}
+          </div>
+
+          {series.length > 0 && (
+            <div className="space-y-2">
+              <TrendChart points={series} onPointClick={p => setOpenReportId(p.report_id)} />
+              <div className="flex items-center gap-4 text-[10px] text-slate-500">
+                <span className="flex items-center gap-1"><span className="w-3 h-2 bg-emerald-100 rounded-sm" /> Reference range</span>
+                <span className="flex items-center gap-1"><span className="w-2 h-2 bg-red-500 rounded-full" /> Out of range</span>
+                {current?.unit && <span className="ml-auto">Unit: {current.unit}</span>}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <AnimatePresence>
+        {openReportId !== null && <ReportModal reportId={openReportId} onClose={() => setOpenReportId(null)} />}
+      </AnimatePresence>
+    </div>
+  );
+};
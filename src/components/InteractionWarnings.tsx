@@ -0,0 +1,60 @@
+import { motion } from 'framer-motion';
+import { Pill, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { InteractionCheck, InteractionSeverity, InteractionWarning } from '../services/interactions';
+
+const SEVERITY_LABELS: Record<Exclude<InteractionSeverity, 'none'>, string> = {
+  contraindicated: 'Do not combine',
+  major: 'Major',
+  moderate: 'Moderate',
+};
+
+const isSerious = (severity: InteractionSeverity) => severity === 'contraindicated' || severity === 'major';
+
+const warningTitle = (w: InteractionWarning) =>
+  w.kind === 'allergy' ? `${w.drug} and your allergy to ${w.conflictsWith}` : `${w.drug} with ${w.conflictsWith}`;
+
+/** The warnings from one check, most severe first, with a note for names the checker didn't know. */
+export const InteractionWarnings = ({ check }: { check: InteractionCheck }) => (
+  <div className="space-y-2">
+    {check.warnings.map(w => (
+      <div
+        key={`${w.ruleId}-${w.drug}-${w.conflictsWith}`}
+        className={cn("p-3 rounded-xl border text-xs space-y-1", isSerious(w.severity) ? "bg-red-50 border-red-200 text-red-900" : "bg-amber-50 border-amber-200 text-amber-900")}
+      >
+        <p className="font-semibold flex items-center gap-2">
+          <span className={cn("px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wider text-white", isSerious(w.severity) ? "bg-red-600" : "bg-amber-600")}>
+            {SEVERITY_LABELS[w.severity]}
+          </span>
+          {warningTitle(w)}
+        </p>
+        <p>{w.effect} {w.advice}</p>
+      </div>
+    ))}
+    {check.unrecognized.length > 0 && (
+      <p className="text-xs text-slate-500">
+        {check.unrecognized.join(', ')} {check.unrecognized.length === 1 ? 'is' : 'are'} not in the app's interaction list, so {check.unrecognized.length === 1 ? 'it was' : 'they were'} not checked. Ask a pharmacist.
+      </p>
+    )}
+  </div>
+);
+
+/** Shown above the chat when a message names a medicine that conflicts with the user's medications or allergies. */
+export const InteractionBanner = ({ check, onDismiss }: { check: InteractionCheck, onDismiss: () => void }) => (
+  <motion.div
+    initial={{ opacity: 0, y: -10 }}
+    animate={{ opacity: 1, y: 0 }}
+    role="alert"
+    className="sticky top-0 z-20 p-4 rounded-2xl border border-slate-200 bg-white shadow-md flex items-start gap-3"
+  >
+    <Pill className={cn("w-6 h-6 shrink-0", isSerious(check.severity) ? "text-red-600" : "text-amber-600")} />
+    <div className="flex-1 space-y-2">
+      <p className="font-bold text-sm text-slate-900">Check with your doctor or pharmacist before taking this</p>
+      <InteractionWarnings check={{ ...check, unrecognized: [] }} />
+      <p className="text-[10px] text-slate-400">From the app's built-in interaction list, which covers common medicines only.</p>
+    </div>
+    <button onClick={onDismiss} className="p-1 rounded-full opacity-60 hover:opacity-100 transition-opacity" title="Dismiss">
+      <X className="w-4 h-4" />
+    </button>
+  </motion.div>
+);
@@ -0,0 +1,78 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Siren } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { CITATION_MARKER, remarkEmergencyCallouts } from '../lib/markdown';
+import { CitationChip } from './Citations';
+
+const CITATION_HREF = /^#citation-(\d+)$/;
+
+/**
+ * Renders chat Markdown (GFM: headings, lists, tables, links, code and
+ * blockquotes) straight to React elements. Raw HTML in the text is shown as
+ * text, never parsed, and unsafe link protocols are dropped. `[[n]]` report
+ * citations become chips when `onCite` is given.
+ */
+export const Markdown = ({ content, onCite, inverted = false }: {
+  content: string,
+  onCite?: (id: number) => void,
+  /** Light text for dark backgrounds, such as the user's own bubbles. */
+  inverted?: boolean
+}) => {
+  const source = onCite ? content.replace(CITATION_MARKER, (_, id) => `[${id}](#citation-${id})`) : content;
+
+  const components: Components = {
+    h1: ({ children }) => <h3 className="text-lg font-bold mt-4 mb-2 first:mt-0">{children}</h3>,
+    h2: ({ children }) => <h4 className="text-base font-bold mt-4 mb-2 first:mt-0">{children}</h4>,
+    h3: ({ children }) => <h5 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h5>,
+    h4: ({ children }) => <h6 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h6>,
+    h5: ({ children }) => <h6 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h6>,
+    h6: ({ children }) => <h6 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h6>,
+    p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+    strong: ({ children }) => <strong className={cn("font-bold", !inverted && "text-blue-900")}>{children}</strong>,
+    ul: ({ children }) => <ul className="ml-5 mb-2 list-disc space-y-1">{children}</ul>,
+    ol: ({ children }) => <ol className="ml-5 mb-2 list-decimal space-y-1">{children}</ol>,
+    a: ({ href, children }) => {
+      const citation = href?.match(CITATION_HREF);
+      if (citation && onCite) return <CitationChip id={Number(citation[1])} onCite={onCite} />;
+      if (!href) return <>{children}</>;
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className={cn("underline underline-offset-2", inverted ? "text-white" : "text-blue-700 hover:text-blue-900")}>
+          {children}
+        </a>
+      );
+    },
+    code: ({ children }) => (
+      <code className={cn("px-1 py-0.5 rounded font-mono text-[0.85em]", inverted ? "bg-white/20" : "bg-slate-100 text-slate-800")}>{children}</code>
+    ),
+    pre: ({ children }) => (
+      <pre className={cn("mb-2 p-3 rounded-xl overflow-x-auto text-xs [&_code]:p-0 [&_code]:bg-transparent", inverted ? "bg-white/10" : "bg-slate-100")}>{children}</pre>
+    ),
+    blockquote: ({ node, children }) => node?.properties?.dataCallout === 'emergency' ? (
+      <div role="note" aria-label="Emergency warning" className="my-3 flex gap-3 p-3 rounded-xl border border-red-200 bg-red-50 text-red-800">
+        <Siren className="w-5 h-5 shrink-0 text-red-600" />
+        <div className="[&_strong]:text-red-900">{children}</div>
+      </div>
+    ) : (
+      <blockquote className={cn("my-2 pl-3 border-l-4 italic", inverted ? "border-white/40" : "border-blue-200 text-slate-600")}>{children}</blockquote>
+    ),
+    table: ({ children }) => (
+      <div className="my-2 overflow-x-auto">
+        <table className="w-full text-xs border-collapse">{children}</table>
+      </div>
+    ),
+    th: ({ children, style }) => (
+      <th style={style} className={cn("px-2 py-1.5 text-left font-semibold border-b", inverted ? "border-white/30" : "border-slate-200 bg-slate-50")}>{children}</th>
+    ),
+    td: ({ children, style }) => (
+      <td style={style} className={cn("px-2 py-1.5 border-b", inverted ? "border-white/20" : "border-slate-100")}>{children}</td>
+    ),
+    hr: () => <hr className={cn("my-3", inverted ? "border-white/30" : "border-slate-200")} />,
+  };
+
+  return (
+    <ReactMarkdown remarkPlugins={[remarkGfm, remarkEmergencyCallouts]} components={components}>
+      {source}
+    </ReactMarkdown>
+  );
+};
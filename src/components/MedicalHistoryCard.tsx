@@ -0,0 +1,397 @@
+import React, { useState, useEffect, type ReactNode } from 'react';
+import { HeartPulse, Plus, Pencil, Trash2, X } from 'lucide-react';
+import { authFetch } from '../lib/api';
+import { cn } from '../lib/utils';
+import { ALLERGY_SEVERITIES, CONDITION_STATUSES, SEXES, type MedicalHistory, type MedicationCheckRequest, type ProfileRow, type UpdateProfileRequest } from '../contracts';
+import type { InteractionCheck } from '../services/interactions';
+import { InteractionWarnings } from './InteractionWarnings';
+
+type HistoryKind = keyof MedicalHistory;
+type Entry = MedicalHistory[HistoryKind][number];
+
+interface Field {
+  name: string,
+  column: string,
+  label: string,
+  type?: 'date' | 'select',
+  options?: readonly string[],
+  required?: boolean,
+  /** Dates may be later than today, e.g. when a course of medicine ends. */
+  future?: boolean
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+const formatDay = (date: string | null) => date ? new Date(`${date}T00:00:00`).toLocaleDateString([], { dateStyle: 'medium' }) : '';
+const today = () => new Date().toISOString().slice(0, 10);
+
+type MedicationCheck = (name: string, excludeId?: number) => Promise<InteractionCheck>;
+
+const checkMedication: MedicationCheck = async (name, excludeId) => {
+  const body: MedicationCheckRequest = { name, excludeId };
+  const res = await authFetch('/api/user/medications/check', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+};
+
+// Each list's form fields (request name and row column) and how an entry reads in the list.
+const LISTS: { kind: HistoryKind, title: string, noun: string, fields: Field[], describe: (entry: any) => [string, string], check?: MedicationCheck }[] = [
+  {
+    kind: 'allergies', title: 'Allergies', noun: 'allergy',
+    fields: [
+      { name: 'substance', column: 'substance', label: 'Substance', required: true },
+      { name: 'reaction', column: 'reaction', label: 'Reaction' },
+      { name: 'severity', column: 'severity', label: 'Severity', type: 'select', options: ALLERGY_SEVERITIES },
+    ],
+    describe: a => [a.substance, [a.severity && capitalize(a.severity), a.reaction].filter(Boolean).join(' · ')],
+  },
+  {
+    kind: 'conditions', title: 'Conditions', noun: 'condition',
+    fields: [
+      { name: 'name', column: 'name', label: 'Condition', required: true },
+      { name: 'status', column: 'status', label: 'Status', type: 'select', options: CONDITION_STATUSES, required: true },
+      { name: 'diagnosedOn', column: 'diagnosed_on', label: 'Diagnosed', type: 'date' },
+      { name: 'notes', column: 'notes', label: 'Notes' },
+    ],
+    describe: c => [c.name, [capitalize(c.status), c.diagnosed_on && `since ${formatDay(c.diagnosed_on)}`, c.notes].filter(Boolean).join(' · ')],
+  },
+  {
+    kind: 'medications', title: 'Medications', noun: 'medication',
+    fields: [
+      { name: 'name', column: 'name', label: 'Medication', required: true },
+      { name: 'dose', column: 'dose', label: 'Dose' },
+      { name: 'frequency', column: 'frequency', label: 'How often' },
+      { name: 'startedOn', column: 'started_on', label: 'Started', type: 'date' },
+      { name: 'stoppedOn', column: 'stopped_on', label: 'Stopped', type: 'date', future: true },
+      { name: 'notes', column: 'notes', label: 'Notes' },
+    ],
+    describe: m => [m.name, [
+      m.dose,
+      m.frequency,
+      m.stopped_on ? `${m.stopped_on > today() ? 'until' : 'stopped'} ${formatDay(m.stopped_on)}` : m.started_on && `since ${formatDay(m.started_on)}`,
+    ].filter(Boolean).join(' · ')],
+    check: checkMedication,
+  },
+  {
+    kind: 'surgeries', title: 'Surgeries', noun: 'surgery',
+    fields: [
+      { name: 'procedure', column: 'procedure', label: 'Procedure', required: true },
+      { name: 'performedOn', column: 'performed_on', label: 'Date', type: 'date' },
+      { name: 'notes', column: 'notes', label: 'Notes' },
+    ],
+    describe: s => [s.procedure, [formatDay(s.performed_on), s.notes].filter(Boolean).join(' · ')],
+  },
+];
+
+const inputClass = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm";
+
+const FieldInput = ({ field, value, onChange }: { field: Field, value: string, onChange: (value: string) => void }) => (
+  <div className="space-y-1">
+    <label className="text-xs font-medium text-slate-500 uppercase tracking-wider">{field.label}</label>
+    {field.type === 'select' ? (
+      <select className={inputClass} value={value} onChange={e => onChange(e.target.value)}>
+        {!field.required && <option value="">Not specified</option>}
+        {field.options?.map(option => <option key={option} value={option}>{capitalize(option)}</option>)}
+      </select>
+    ) : (
+      <input
+        type={field.type ?? 'text'}
+        className={inputClass}
+        value={value}
+        max={field.type === 'date' && !field.future ? today() : undefined}
+        onChange={e => onChange(e.target.value)}
+      />
+    )}
+  </div>
+);
+
+// Add or edit one entry. Every field is sent, since PUT replaces the entry.
+// With `check`, a name that raises interaction warnings is only saved once
+// the user has seen them and pressed Save again.
+const EntryForm = ({ fields, entry, onSave, onCancel, check }: {
+  fields: Field[],
+  entry: Entry | null,
+  onSave: (values: Record<string, string>) => Promise<string | null>,
+  onCancel: () => void,
+  check?: MedicationCheck
+}) => {
+  const [values, setValues] = useState<Record<string, string>>(() => Object.fromEntries(
+    fields.map(f => [f.name, (entry as Record<string, any> | null)?.[f.column] ?? (f.required && f.options ? f.options[0] : '')])
+  ));
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [warnings, setWarnings] = useState<{ name: string, result: InteractionCheck } | null>(null);
+
+  const name = values.name?.trim() ?? '';
+  const isStopped = !!values.stoppedOn && values.stoppedOn <= today();
+  const needsCheck = !!check && !isStopped && warnings?.name !== name;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    try {
+      if (needsCheck) {
+        const result = await check(name, entry?.id);
+        setWarnings({ name, result });
+        if (result.warnings.length > 0) return;
+      }
+      setError((await onSave(values)) ?? '');
+    } catch (err) {
+      console.error("Failed to check medication:", err);
+      setError('Could not check this medication for interactions. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hasWarnings = !!warnings && warnings.name === name && warnings.result.warnings.length > 0;
+
+  return (
+    <form onSubmit={submit} className="p-4 rounded-xl border border-blue-100 bg-blue-50/40 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map(field => (
+          <FieldInput key={field.name} field={field} value={values[field.name]} onChange={value => setValues({ ...values, [field.name]: value })} />
+        ))}
+      </div>
+      {hasWarnings && <InteractionWarnings check={warnings.result} />}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors text-xs font-medium">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || fields.some(f => f.required && !values[f.name].trim())}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-xs font-medium"
+        >
+          {isSaving ? 'Saving...' : hasWarnings ? 'Save anyway' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const HistoryList = ({ list, entries, onChange, footer }: {
+  list: typeof LISTS[number],
+  entries: Entry[],
+  onChange: (entries: Entry[]) => void,
+  footer?: ReactNode
+}) => {
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+
+  const save = async (values: Record<string, string>) => {
+    const isNew = editing === 'new';
+    try {
+      const res = await authFetch(isNew ? `/api/user/${list.kind}` : `/api/user/${list.kind}/${editing}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values)
+      });
+      const data = await res.json();
+      if (!res.ok) return data.error as string;
+      onChange(isNew ? [...entries, data] : entries.map(e => e.id === data.id ? data : e));
+      setEditing(null);
+      return null;
+    } catch (err) {
+      console.error(`Failed to save ${list.noun}:`, err);
+      return 'Something went wrong. Please try again.';
+    }
+  };
+
+  const remove = async (entry: Entry) => {
+    if (!confirm(`Remove this ${list.noun} from your history?`)) return;
+    try {
+      const res = await authFetch(`/api/user/${list.kind}/${entry.id}`, { method: 'DELETE' });
+      if (res.ok) onChange(entries.filter(e => e.id !== entry.id));
+    } catch (err) {
+      console.error(`Failed to delete ${list.noun}:`, err);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">{list.title}</p>
+        {editing === null && (
+          <button onClick={() => setEditing('new')} className="flex items-center gap-1 text-xs font-semibold text-blue-600 hover:text-blue-800">
+            <Plus className="w-3.5 h-3.5" />
+            Add
+          </button>
+        )}
+      </div>
+      {entries.length === 0 && editing !== 'new' && <p className="text-sm text-slate-400 italic">None recorded.</p>}
+      {entries.map(entry => editing === entry.id ? (
+        <EntryForm key={entry.id} fields={list.fields} entry={entry} onSave={save} onCancel={() => setEditing(null)} check={list.check} />
+      ) : (
+        <div key={entry.id} className="group flex items-center justify-between p-3 rounded-xl border border-slate-100 bg-slate-50">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-slate-900 truncate">{list.describe(entry)[0]}</p>
+            {list.describe(entry)[1] && <p className="text-xs text-slate-500 truncate">{list.describe(entry)[1]}</p>}
+          </div>
+          <div className="flex shrink-0">
+            <button onClick={() => setEditing(entry.id)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg" title="Edit">
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => remove(entry)} className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg" title="Delete">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+      {editing === 'new' && <EntryForm fields={list.fields} entry={null} onSave={save} onCancel={() => setEditing(null)} check={list.check} />}
+      {footer}
+    </div>
+  );
+};
+
+type Basics = Pick<ProfileRow, 'date_of_birth' | 'sex' | 'height_cm' | 'weight_kg'>;
+
+// Date of birth, sex, height and weight live on the profile but are edited here with the rest of the history.
+const BasicsEditor = ({ basics, onSaved }: { basics: Basics, onSaved: (basics: Basics) => void }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({ dateOfBirth: '', sex: '', heightCm: '', weightKg: '' });
+  const [error, setError] = useState('');
+
+  const startEditing = () => {
+    setDraft({
+      dateOfBirth: basics.date_of_birth ?? '',
+      sex: basics.sex ?? '',
+      heightCm: basics.height_cm?.toString() ?? '',
+      weightKg: basics.weight_kg?.toString() ?? '',
+    });
+    setError('');
+    setIsEditing(true);
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body: UpdateProfileRequest = {
+      dateOfBirth: draft.dateOfBirth,
+      sex: draft.sex as UpdateProfileRequest['sex'],
+      heightCm: draft.heightCm ? Number(draft.heightCm) : null,
+      weightKg: draft.weightKg ? Number(draft.weightKg) : null,
+    };
+    try {
+      const res = await authFetch('/api/user/profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) return setError((await res.json()).error);
+      onSaved({ date_of_birth: draft.dateOfBirth || null, sex: (draft.sex || null) as Basics['sex'], height_cm: body.heightCm ?? null, weight_kg: body.weightKg ?? null });
+      setIsEditing(false);
+    } catch (err) {
+      console.error("Failed to save health details:", err);
+    }
+  };
+
+  const facts: [string, string][] = [
+    ['Date of birth', formatDay(basics.date_of_birth)],
+    ['Sex', basics.sex ? capitalize(basics.sex) : ''],
+    ['Height', basics.height_cm ? `${basics.height_cm} cm` : ''],
+    ['Weight', basics.weight_kg ? `${basics.weight_kg} kg` : ''],
+  ];
+
+  if (!isEditing) {
+    return (
+      <div className="flex items-start justify-between gap-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 flex-1">
+          {facts.map(([label, value]) => (
+            <div key={label} className="space-y-1">
+              <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">{label}</p>
+              <p className={cn("text-sm font-medium", value ? "text-slate-900" : "text-slate-400")}>{value || 'Not set'}</p>
+            </div>
+          ))}
+        </div>
+        <button onClick={startEditing} className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg" title="Edit">
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <FieldInput field={{ name: 'dateOfBirth', column: 'date_of_birth', label: 'Date of birth', type: 'date' }} value={draft.dateOfBirth} onChange={dateOfBirth => setDraft({ ...draft, dateOfBirth })} />
+        <FieldInput field={{ name: 'sex', column: 'sex', label: 'Sex', type: 'select', options: SEXES }} value={draft.sex} onChange={sex => setDraft({ ...draft, sex })} />
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-500 uppercase tracking-wider">Height (cm)</label>
+          <input type="number" min="1" step="0.1" className={inputClass} value={draft.heightCm} onChange={e => setDraft({ ...draft, heightCm: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-500 uppercase tracking-wider">Weight (kg)</label>
+          <input type="number" min="1" step="0.1" className={inputClass} value={draft.weightKg} onChange={e => setDraft({ ...draft, weightKg: e.target.value })} />
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setIsEditing(false)} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg" title="Cancel">
+          <X className="w-4 h-4" />
+        </button>
+        <button type="submit" className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-xs font-medium">
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * The structured health profile: body basics plus allergies, conditions,
+ * medications and surgeries. A summary of it goes to the assistant with
+ * every chat, so advice can account for it.
+ */
+export const MedicalHistoryCard = () => {
+  const [basics, setBasics] = useState<Basics | null>(null);
+  const [history, setHistory] = useState<MedicalHistory | null>(null);
+  const [interactions, setInteractions] = useState<InteractionCheck | null>(null);
+
+  useEffect(() => {
+    authFetch('/api/user/profile')
+      .then(res => res.ok ? res.json() : null)
+      .then((profile: ProfileRow | null) => profile && setBasics(profile))
+      .catch(err => console.error("Failed to fetch profile:", err));
+    authFetch('/api/user/history')
+      .then(res => res.ok ? res.json() : null)
+      .then(setHistory)
+      .catch(err => console.error("Failed to fetch medical history:", err));
+  }, []);
+
+  // Re-checked whenever the medications or allergies change.
+  useEffect(() => {
+    if (!history) return;
+    authFetch('/api/user/medications/interactions')
+      .then(res => res.ok ? res.json() : null)
+      .then(setInteractions)
+      .catch(err => console.error("Failed to check medication interactions:", err));
+  }, [history?.medications, history?.allergies]);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-6">
+      <div className="border-b border-slate-100 pb-4">
+        <div className="flex items-center gap-2 text-slate-900 font-semibold">
+          <HeartPulse className="w-5 h-5 text-blue-600" />
+          Medical History
+        </div>
+        <p className="text-xs text-slate-500 mt-1">Shared with the assistant so its advice accounts for your allergies, conditions and medications.</p>
+      </div>
+      {basics && <BasicsEditor basics={basics} onSaved={setBasics} />}
+      {history && LISTS.map(list => (
+        <HistoryList
+          key={list.kind}
+          list={list}
+          entries={history[list.kind]}
+          onChange={entries => setHistory({ ...history, [list.kind]: entries })}
+          footer={list.kind === 'medications' && interactions && (interactions.warnings.length > 0 || interactions.unrecognized.length > 0)
+            ? <InteractionWarnings check={interactions} />
+            : undefined}
+        />
+      ))}
+    </div>
+  );
+};
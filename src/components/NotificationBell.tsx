@@ -0,0 +1,81 @@
+import { useState, useEffect, useRef } from 'react';
+import { Bell } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { authFetch } from '../lib/api';
+import type { NotificationsResponse } from '../contracts';
+
+const POLL_MS = 60 * 1000;
+
+// Notification timestamps are SQLite UTC without a zone marker.
+const parseUtc = (timestamp: string) => new Date(`${timestamp.replace(' ', 'T')}Z`);
+
+/** The in-app inbox: polls for reminders and marks them read once the list is opened. */
+export const NotificationBell = ({ onOpenReminders }: { onOpenReminders: () => void }) => {
+  const [inbox, setInbox] = useState<NotificationsResponse | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const load = () => authFetch('/api/notifications')
+    .then(res => res.ok ? res.json() : null)
+    .then(data => data && setInbox(data))
+    .catch(err => console.error("Failed to fetch notifications:", err));
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const toggle = async () => {
+    setIsOpen(!isOpen);
+    if (!isOpen && inbox?.unread) {
+      await authFetch('/api/notifications/read', { method: 'POST' });
+      setInbox({ ...inbox, unread: 0 });
+    }
+  };
+
+  const open = () => {
+    setIsOpen(false);
+    onOpenReminders();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button onClick={toggle} className="relative p-2 hover:bg-slate-100 rounded-full text-slate-500 transition-colors" title="Notifications">
+        <Bell className="w-5 h-5" />
+        {!!inbox?.unread && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] font-bold flex items-center justify-center">
+            {inbox.unread > 9 ? '9+' : inbox.unread}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white border border-slate-200 rounded-2xl shadow-lg z-50">
+          {!inbox?.notifications.length ? (
+            <p className="p-4 text-sm text-slate-500 text-center">No notifications yet.</p>
+          ) : inbox.notifications.map(n => (
+            <button
+              key={n.id}
+              onClick={open}
+              className={cn("w-full text-left px-4 py-3 border-b border-slate-100 last:border-0 hover:bg-slate-50 transition-colors", !n.read_at && "bg-blue-50/50")}
+            >
+              <p className="text-sm font-semibold text-slate-900">{n.title}</p>
+              {n.body && <p className="text-xs text-slate-600 whitespace-pre-line">{n.body}</p>}
+              <p className="text-[10px] text-slate-400 mt-1">{parseUtc(n.created_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
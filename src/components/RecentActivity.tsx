@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { History, Download } from 'lucide-react';
+import { authFetch } from '../lib/api';
+import { describeAuditEntry } from '../services/audit';
+import type { ActivityEntry } from '../contracts';
+
+const SHOWN_ENTRIES = 8;
+
+// audit_log timestamps are SQLite UTC without a zone marker.
+const parseUtc = (timestamp: string) => new Date(`${timestamp.replace(' ', 'T')}Z`);
+
+const timeAgo = (date: Date) => {
+  const seconds = Math.max(0, Math.round((Date.now() - date.getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  const units: [number, Intl.RelativeTimeFormatUnit][] = [[86400, 'day'], [3600, 'hour'], [60, 'minute']];
+  const [size, unit] = units.find(([size]) => seconds >= size)!;
+  return new Intl.RelativeTimeFormat([], { numeric: 'auto' }).format(-Math.floor(seconds / size), unit);
+};
+
+interface ActivityGroup {
+  entry: ActivityEntry;
+  count: number;
+}
+
+// Opening the app repeats the same reads; runs of one action collapse into a single line.
+const groupRepeats = (entries: ActivityEntry[]) =>
+  entries.reduce<ActivityGroup[]>((groups, entry) => {
+    const last = groups[groups.length - 1];
+    if (last && describeAuditEntry(last.entry) === describeAuditEntry(entry) && last.entry.ip === entry.ip) {
+      last.count++;
+    } else {
+      groups.push({ entry, count: 1 });
+    }
+    return groups;
+  }, []);
+
+async function downloadAuditLog() {
+  const res = await authFetch('/api/admin/audit-log?format=csv');
+  if (!res.ok) {
+    alert((await res.json()).error);
+    return;
+  }
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** The user's own entries from the audit log, newest first. */
+export const RecentActivity = ({ isAdmin = false }: { isAdmin?: boolean }) => {
+  const [entries, setEntries] = useState<ActivityEntry[] | null>(null);
+
+  useEffect(() => {
+    authFetch('/api/user/activity')
+      .then(res => res.ok ? res.json() : [])
+      .then(setEntries)
+      .catch(err => console.error("Failed to fetch activity:", err));
+  }, []);
+
+  const groups = groupRepeats(entries ?? []).slice(0, SHOWN_ENTRIES);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+      <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+        <History className="w-4 h-4 text-blue-600" />
+        Recent Activity
+      </h3>
+      <div className="space-y-3">
+        {entries === null ? (
+          <p className="text-xs text-slate-500 italic">Loading activity...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-xs text-slate-500 italic">No activity recorded yet.</p>
+        ) : (
+          groups.map(({ entry, count }) => (
+            <div key={entry.id} className="flex items-start gap-3 p-3 bg-slate-50 rounded-xl">
+              <div className={`w-2 h-2 mt-1.5 rounded-full ${entry.status >= 400 ? 'bg-red-400' : entry.action === 'read' ? 'bg-blue-400' : 'bg-emerald-400'}`} />
+              <div>
+                <p className="text-xs font-medium text-slate-800">
+                  {describeAuditEntry(entry)}
+                  {count > 1 && <span className="text-slate-400 font-normal"> ×{count}</span>}
+                  {entry.status >= 400 && <span className="text-red-500 font-normal"> (failed)</span>}
+                </p>
+                <p className="text-[10px] text-slate-500" title={entry.user_agent ?? undefined}>
+                  {timeAgo(parseUtc(entry.created_at))}{entry.ip ? ` · ${entry.ip}` : ''}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+      {isAdmin && (
+        <button
+          onClick={downloadAuditLog}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors text-xs font-medium"
+        >
+          <Download className="w-3 h-3" />
+          Export full audit log (CSV)
+        </button>
+      )}
+    </div>
+  );
+};
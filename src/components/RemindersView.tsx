@@ -0,0 +1,471 @@
+import React, { useState, useEffect } from 'react';
+import { AlarmClock, BellRing, CalendarClock, Check, Pause, Pencil, Pill, Play, Plus, RotateCcw, SkipForward, Trash2, X } from 'lucide-react';
+import { cn, formatTime } from '../lib/utils';
+import { authFetch } from '../lib/api';
+import { pushSupported, isPushEnabled, enablePush, disablePush } from '../lib/push';
+import type { MedicationRow, OccurrenceActionRequest, OccurrenceRow, ReminderRequest, ReminderRow } from '../contracts';
+import type { ReminderKind } from '../services/reminders';
+
+const KINDS: { kind: ReminderKind, label: string, icon: typeof Pill }[] = [
+  { kind: 'dose', label: 'Medication dose', icon: Pill },
+  { kind: 'refill', label: 'Refill', icon: RotateCcw },
+  { kind: 'appointment', label: 'Appointment', icon: CalendarClock },
+];
+
+const LEAD_TIMES = [[0, 'At the time'], [15, '15 minutes before'], [60, '1 hour before'], [120, '2 hours before'], [24 * 60, '1 day before'], [2 * 24 * 60, '2 days before']] as const;
+
+const POLL_MS = 60 * 1000;
+
+// Reminder and occurrence times are SQLite UTC without a zone marker.
+const parseUtc = (timestamp: string) => new Date(`${timestamp.replace(' ', 'T')}Z`);
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const startOfDay = (offsetDays = 0) => {
+  const day = new Date();
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() + offsetDays);
+  return day;
+};
+
+// A Date as the value of a datetime-local input, in the browser's time zone.
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+const formatWhen = (date: Date) => date.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const describeSchedule = (reminder: ReminderRow) => {
+  if (reminder.kind === 'dose') {
+    const times = reminder.times?.split(',').join(', ') ?? '';
+    return reminder.timezone === browserTimeZone() ? `Daily at ${times}` : `Daily at ${times} (${reminder.timezone})`;
+  }
+  const due = reminder.due_at ? formatWhen(parseUtc(reminder.due_at)) : '';
+  const lead = LEAD_TIMES.find(([minutes]) => minutes === reminder.lead_minutes)?.[1];
+  return reminder.lead_minutes > 0 ? `${due} · reminder ${lead ?? `${reminder.lead_minutes} minutes before`}` : due;
+};
+
+interface Draft {
+  kind: ReminderKind,
+  title: string,
+  medicationId: string,
+  times: string[],
+  due: string,
+  leadMinutes: number,
+  notes: string,
+  active: boolean
+}
+
+const emptyDraft = (): Draft => ({ kind: 'dose', title: '', medicationId: '', times: ['08:00'], due: '', leadMinutes: 60, notes: '', active: true });
+
+const draftFrom = (reminder: ReminderRow): Draft => ({
+  kind: reminder.kind,
+  title: reminder.title,
+  medicationId: reminder.medication_id ? String(reminder.medication_id) : '',
+  times: reminder.times?.split(',') ?? ['08:00'],
+  due: reminder.due_at ? toLocalInput(parseUtc(reminder.due_at)) : '',
+  leadMinutes: reminder.lead_minutes,
+  notes: reminder.notes ?? '',
+  active: !!reminder.active,
+});
+
+const toRequest = (draft: Draft, timezone: string): ReminderRequest => {
+  const base = { title: draft.title, notes: draft.notes, timezone, active: draft.active };
+  const medicationId = draft.medicationId ? Number(draft.medicationId) : null;
+  const dueAt = draft.due ? new Date(draft.due).toISOString() : '';
+  switch (draft.kind) {
+    case 'dose':
+      return { kind: 'dose', ...base, medicationId, times: draft.times.filter(Boolean) };
+    case 'refill':
+      return { kind: 'refill', ...base, medicationId, dueAt, leadMinutes: draft.leadMinutes };
+    case 'appointment':
+      return { kind: 'appointment', ...base, dueAt, leadMinutes: draft.leadMinutes };
+  }
+};
+
+async function saveReminder(id: number | null, body: ReminderRequest): Promise<ReminderRow> {
+  const res = await authFetch(id === null ? '/api/reminders' : `/api/reminders/${id}`, {
+    method: id === null ? 'POST' : 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+const inputClass = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm";
+const labelClass = "text-xs font-medium text-slate-500 uppercase tracking-wider";
+
+// Times are saved in the browser's time zone, so a dose at 08:00 stays at 08:00 local time.
+const ReminderForm = ({ reminder, medications, onSaved, onCancel }: {
+  reminder: ReminderRow | null,
+  medications: MedicationRow[],
+  onSaved: (reminder: ReminderRow) => void,
+  onCancel: () => void
+}) => {
+  const [draft, setDraft] = useState<Draft>(() => reminder ? draftFrom(reminder) : emptyDraft());
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const isOnce = draft.kind !== 'dose';
+
+  const pickMedication = (medicationId: string) => {
+    const medication = medications.find(m => String(m.id) === medicationId);
+    const title = medication && !draft.title.trim() ? [medication.name, medication.dose].filter(Boolean).join(' ') : draft.title;
+    setDraft({ ...draft, medicationId, title });
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    try {
+      onSaved(await saveReminder(reminder?.id ?? null, toRequest(draft, browserTimeZone())));
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="p-4 rounded-2xl border border-blue-100 bg-blue-50/40 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className={labelClass}>Type</label>
+          <select className={inputClass} value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as ReminderKind, leadMinutes: e.target.value === 'appointment' ? 60 : 0 })}>
+            {KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+          </select>
+        </div>
+        {draft.kind !== 'appointment' && (
+          <div className="space-y-1">
+            <label className={labelClass}>Medication</label>
+            <select className={inputClass} value={draft.medicationId} onChange={e => pickMedication(e.target.value)}>
+              <option value="">Not linked</option>
+              {medications.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Title</label>
+          <input
+            className={inputClass}
+            value={draft.title}
+            placeholder={draft.kind === 'appointment' ? 'e.g. Dr Patel, cardiology' : 'e.g. Metformin 500mg'}
+            onChange={e => setDraft({ ...draft, title: e.target.value })}
+          />
+        </div>
+        {isOnce ? (
+          <>
+            <div className="space-y-1">
+              <label className={labelClass}>{draft.kind === 'refill' ? 'Refill due' : 'Date and time'}</label>
+              <input type="datetime-local" className={inputClass} value={draft.due} min={toLocalInput(new Date())} onChange={e => setDraft({ ...draft, due: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Remind me</label>
+              <select className={inputClass} value={draft.leadMinutes} onChange={e => setDraft({ ...draft, leadMinutes: Number(e.target.value) })}>
+                {LEAD_TIMES.map(([minutes, label]) => <option key={minutes} value={minutes}>{label}</option>)}
+              </select>
+            </div>
+          </>
+        ) : (
+          <div className="space-y-1 col-span-2">
+            <label className={labelClass}>Times each day</label>
+            <div className="flex flex-wrap gap-2">
+              {draft.times.map((time, i) => (
+                <div key={i} className="flex items-center gap-1">
+                  <input
+                    type="time"
+                    className={cn(inputClass, "w-auto")}
+                    value={time}
+                    onChange={e => setDraft({ ...draft, times: draft.times.map((t, j) => j === i ? e.target.value : t) })}
+                  />
+                  {draft.times.length > 1 && (
+                    <button type="button" onClick={() => setDraft({ ...draft, times: draft.times.filter((_, j) => j !== i) })} className="p-1 text-slate-400 hover:text-red-600" title="Remove time">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {draft.times.length < 8 && (
+                <button type="button" onClick={() => setDraft({ ...draft, times: [...draft.times, '20:00'] })} className="flex items-center gap-1 text-xs font-semibold text-blue-600 hover:text-blue-800">
+                  <Plus className="w-3.5 h-3.5" />
+                  Add time
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Notes</label>
+          <input className={inputClass} value={draft.notes} placeholder="e.g. Take with food" onChange={e => setDraft({ ...draft, notes: e.target.value })} />
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors text-xs font-medium">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || !draft.title.trim() || (isOnce && !draft.due)}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-xs font-medium"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const STATUS_BADGES: Record<OccurrenceRow['status'], [string, string]> = {
+  pending: ['Upcoming', 'bg-slate-100 text-slate-600'],
+  sent: ['Due', 'bg-blue-50 text-blue-700'],
+  taken: ['Taken', 'bg-emerald-50 text-emerald-700'],
+  skipped: ['Skipped', 'bg-slate-100 text-slate-500'],
+  missed: ['Missed', 'bg-red-50 text-red-600'],
+};
+
+const actionClass = "flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium transition-colors";
+
+// One dose, refill or appointment with the answers that fit its state:
+// a due dose can be taken, skipped or snoozed, and a missed one taken late.
+const OccurrenceItem = ({ occurrence, onAction }: { occurrence: OccurrenceRow, onAction: (action: OccurrenceActionRequest) => void }) => {
+  const isDose = occurrence.kind === 'dose';
+  const isOpen = occurrence.status === 'pending' || occurrence.status === 'sent';
+  const isSnoozed = occurrence.status === 'pending' && occurrence.snoozes > 0;
+  const [label, badgeClass] = !isDose && occurrence.status === 'taken' ? ['Done', STATUS_BADGES.taken[1]]
+    : isSnoozed ? [`Snoozed until ${formatTime(parseUtc(occurrence.notify_at))}`, STATUS_BADGES.pending[1]]
+    : STATUS_BADGES[occurrence.status];
+  const Icon = KINDS.find(k => k.kind === occurrence.kind)!.icon;
+
+  return (
+    <div className="flex items-center gap-3 p-3 bg-white rounded-xl border border-slate-200">
+      <div className="bg-blue-50 p-2 rounded-lg">
+        <Icon className="w-4 h-4 text-blue-600" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-slate-900 truncate">{occurrence.title}</p>
+        <p className="text-xs text-slate-500">{isDose ? formatTime(parseUtc(occurrence.scheduled_for)) : formatWhen(parseUtc(occurrence.scheduled_for))}</p>
+      </div>
+      <span className={cn("px-2 py-0.5 rounded-lg text-[10px] font-semibold", badgeClass)}>{label}</span>
+      <div className="flex gap-1">
+        {(isOpen || (isDose && occurrence.status === 'missed')) && (
+          <button onClick={() => onAction({ action: 'take' })} className={cn(actionClass, "bg-emerald-600 text-white hover:bg-emerald-700")}>
+            <Check className="w-3.5 h-3.5" />
+            {isDose ? 'Taken' : 'Done'}
+          </button>
+        )}
+        {isOpen && isDose && (
+          <button onClick={() => onAction({ action: 'skip' })} className={cn(actionClass, "border border-slate-200 text-slate-600 hover:bg-slate-100")}>
+            <SkipForward className="w-3.5 h-3.5" />
+            Skip
+          </button>
+        )}
+        {occurrence.status === 'sent' && (
+          <button onClick={() => onAction({ action: 'snooze', minutes: isDose ? 10 : 60 })} className={cn(actionClass, "border border-slate-200 text-slate-600 hover:bg-slate-100")}>
+            <AlarmClock className="w-3.5 h-3.5" />
+            {isDose ? '10 min' : '1 hour'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PushToggle = () => {
+  const [enabled, setEnabled] = useState(false);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    isPushEnabled().then(setEnabled).catch(() => setEnabled(false));
+  }, []);
+
+  if (!pushSupported()) return null;
+
+  const toggle = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      if (enabled) await disablePush();
+      else await enablePush();
+      setEnabled(!enabled);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="text-right space-y-1">
+      <button
+        onClick={toggle}
+        disabled={isBusy}
+        className={cn("flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors disabled:opacity-50",
+          enabled ? "border border-slate-200 text-slate-600 hover:bg-slate-100" : "bg-blue-600 text-white hover:bg-blue-700")}
+      >
+        <BellRing className="w-4 h-4" />
+        {enabled ? 'Turn off browser notifications' : 'Turn on browser notifications'}
+      </button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export const RemindersView = () => {
+  const [reminders, setReminders] = useState<ReminderRow[]>([]);
+  const [occurrences, setOccurrences] = useState<OccurrenceRow[]>([]);
+  const [medications, setMedications] = useState<MedicationRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+
+  // Today plus the past week, so doses missed earlier can still be marked taken.
+  const fetchOccurrences = async () => {
+    const query = new URLSearchParams({ from: startOfDay(-7).toISOString(), to: startOfDay(1).toISOString() });
+    try {
+      const res = await authFetch(`/api/reminders/occurrences?${query}`);
+      if (res.ok) setOccurrences(await res.json());
+    } catch (err) {
+      console.error("Failed to fetch reminders:", err);
+    }
+  };
+
+  useEffect(() => {
+    const todayDate = new Date().toISOString().slice(0, 10);
+    Promise.all([
+      authFetch('/api/reminders').then(res => res.ok ? res.json() : []).then(setReminders),
+      authFetch('/api/user/medications').then(res => res.ok ? res.json() : [])
+        .then((rows: MedicationRow[]) => setMedications(rows.filter(m => !m.stopped_on || m.stopped_on > todayDate))),
+      fetchOccurrences(),
+    ])
+      .catch(err => console.error("Failed to fetch reminders:", err))
+      .finally(() => setIsLoading(false));
+    const timer = setInterval(fetchOccurrences, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const saved = (reminder: ReminderRow) => {
+    setReminders(editing === 'new' ? [...reminders, reminder] : reminders.map(r => r.id === reminder.id ? reminder : r));
+    setEditing(null);
+    fetchOccurrences();
+  };
+
+  const togglePaused = async (reminder: ReminderRow) => {
+    try {
+      const updated = await saveReminder(reminder.id, toRequest({ ...draftFrom(reminder), active: !reminder.active }, reminder.timezone));
+      setReminders(reminders.map(r => r.id === updated.id ? updated : r));
+      fetchOccurrences();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const remove = async (reminder: ReminderRow) => {
+    if (!confirm(`Delete the reminder "${reminder.title}" and its history?`)) return;
+    try {
+      const res = await authFetch(`/api/reminders/${reminder.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        setReminders(reminders.filter(r => r.id !== reminder.id));
+        setOccurrences(occurrences.filter(o => o.reminder_id !== reminder.id));
+      }
+    } catch (err) {
+      console.error("Failed to delete reminder:", err);
+    }
+  };
+
+  const answer = async (occurrence: OccurrenceRow, action: OccurrenceActionRequest) => {
+    try {
+      const res = await authFetch(`/api/reminders/occurrences/${occurrence.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setOccurrences(occurrences.map(o => o.id === data.id ? data : o));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const todayStart = startOfDay();
+  const today = occurrences.filter(o => parseUtc(o.scheduled_for) >= todayStart);
+  const earlier = occurrences.filter(o => parseUtc(o.scheduled_for) < todayStart).reverse();
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-900">Reminders</h2>
+          <p className="text-slate-500">Medication doses, refills and appointments, with a record of the doses you take.</p>
+        </div>
+        <PushToggle />
+      </div>
+
+      {isLoading ? (
+        <p className="text-slate-500 text-sm italic">Loading reminders...</p>
+      ) : (
+        <>
+          <section className="space-y-3">
+            <h3 className="font-semibold text-slate-900">Today</h3>
+            {today.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">Nothing scheduled today.</p>
+            ) : today.map(o => <OccurrenceItem key={o.id} occurrence={o} onAction={action => answer(o, action)} />)}
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-slate-900">Your reminders</h3>
+              {editing === null && (
+                <button onClick={() => setEditing('new')} className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-800">
+                  <Plus className="w-4 h-4" />
+                  New reminder
+                </button>
+              )}
+            </div>
+            {editing === 'new' && <ReminderForm reminder={null} medications={medications} onSaved={saved} onCancel={() => setEditing(null)} />}
+            {reminders.length === 0 && editing !== 'new' && (
+              <p className="text-sm text-slate-400 italic">No reminders yet.</p>
+            )}
+            {reminders.map(reminder => {
+              if (editing === reminder.id) {
+                return <ReminderForm key={reminder.id} reminder={reminder} medications={medications} onSaved={saved} onCancel={() => setEditing(null)} />;
+              }
+              const Icon = KINDS.find(k => k.kind === reminder.kind)!.icon;
+              return (
+                <div key={reminder.id} className={cn("flex items-center gap-3 p-4 bg-white rounded-2xl border border-slate-200 shadow-sm", !reminder.active && "opacity-60")}>
+                  <div className="bg-blue-50 p-2 rounded-lg">
+                    <Icon className="w-4 h-4 text-blue-600" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-slate-900 truncate">{reminder.title}{!reminder.active && ' (paused)'}</p>
+                    <p className="text-xs text-slate-500 truncate">{[describeSchedule(reminder), reminder.notes].filter(Boolean).join(' · ')}</p>
+                  </div>
+                  <button onClick={() => togglePaused(reminder)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg" title={reminder.active ? 'Pause' : 'Resume'}>
+                    {reminder.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => setEditing(reminder.id)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg" title="Edit">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => remove(reminder)} className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </section>
+
+          {earlier.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="font-semibold text-slate-900">Past 7 days</h3>
+              {earlier.map(o => <OccurrenceItem key={o.id} occurrence={o} onAction={action => answer(o, action)} />)}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { FileText, Download, FileDown, RefreshCw, ChevronDown, AlertTriangle } from 'lucide-react';
+import { cn, formatTime } from '../lib/utils';
+import { authFetch } from '../lib/api';
+import type { ReportSummary } from '../contracts';
+import { CitedText, CitationModal } from './Citations';
+import { downloadVisitSummary } from './VisitSummaryDialog';
+
+const formatSize = (bytes: number | null) => {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export async function downloadReportFile(report: { id: number, filename: string }) {
+  const res = await authFetch(`/api/reports/${report.id}/file`);
+  if (!res.ok) {
+    alert((await res.json()).error);
+    return;
+  }
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = report.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export const ReportsView = ({ focusReportId = null }: { focusReportId?: number | null }) => {
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [rerunningId, setRerunningId] = useState<number | null>(null);
+  const [openCitation, setOpenCitation] = useState<{ reportId: number, citationId: number } | null>(null);
+
+  const fetchReports = async () => {
+    try {
+      const res = await authFetch('/api/reports');
+      if (res.ok) setReports(await res.json());
+    } catch (err) {
+      console.error("Failed to fetch reports:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReports();
+  }, []);
+
+  useEffect(() => {
+    if (focusReportId !== null) setExpandedId(focusReportId);
+  }, [focusReportId]);
+
+  useEffect(() => {
+    if (!isLoading && focusReportId !== null) {
+      document.getElementById(`report-${focusReportId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [isLoading, focusReportId]);
+
+  const rerunAnalysis = async (report: ReportSummary) => {
+    setRerunningId(report.id);
+    try {
+      const res = await authFetch(`/api/reports/${report.id}/reanalyze`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      await fetchReports();
+      setExpandedId(report.id);
+    } catch (err: any) {
+      alert(`Re-analysis failed: ${err.message}`);
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-slate-900">Medical Reports</h2>
+        <p className="text-slate-500">Every report you have uploaded, with its analysis and original file.</p>
+      </div>
+
+      <div className="space-y-3">
+        {isLoading ? (
+          <p className="text-slate-500 text-sm italic">Loading reports...</p>
+        ) : reports.length === 0 ? (
+          <p className="text-slate-500 text-sm italic">No reports yet. Attach one from the chat to get started.</p>
+        ) : (
+          reports.map(report => {
+            const isExpanded = expandedId === report.id;
+            return (
+              <div key={report.id} id={`report-${report.id}`} className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="flex items-center gap-4 p-4">
+                  <div className="bg-blue-50 p-3 rounded-xl">
+                    <FileText className="w-5 h-5 text-blue-600" />
+                  </div>
+                  <button className="flex-1 text-left" onClick={() => setExpandedId(isExpanded ? null : report.id)}>
+                    <h4 className="font-semibold text-slate-900">{report.filename}</h4>
+                    <p className="text-[10px] text-slate-400 mt-1">
+                      {new Date(report.created_at).toLocaleDateString()} at {formatTime(new Date(report.created_at))}
+                      {report.size_bytes ? ` · ${formatSize(report.size_bytes)}` : ''}
+                      {report.result_count > 0 && ` · ${report.result_count} lab values`}
+                    </p>
+                  </button>
+                  {report.out_of_range_count > 0 && (
+                    <span className="flex items-center gap-1 px-2 py-1 bg-red-50 text-red-600 rounded-lg text-[10px] font-semibold">
+                      <AlertTriangle className="w-3 h-3" />
+                      {report.out_of_range_count} out of range
+                    </span>
+                  )}
+                  {!report.analysis && (
+                    <span className="px-2 py-1 bg-amber-50 text-amber-700 rounded-lg text-[10px] font-semibold">Not analyzed</span>
+                  )}
+                  <button
+                    onClick={() => downloadReportFile(report)}
+                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                    title="Download original"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => downloadVisitSummary({ reportIds: String(report.id), sessionIds: '' }, `Report: ${report.filename}`)}
+                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                    title="Export as PDF"
+                  >
+                    <FileDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => rerunAnalysis(report)}
+                    disabled={rerunningId !== null}
+                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all disabled:opacity-50"
+                    title="Re-run analysis"
+                  >
+                    <RefreshCw className={cn("w-4 h-4", rerunningId === report.id && "animate-spin")} />
+                  </button>
+                  <ChevronDown className={cn("w-4 h-4 text-slate-400 transition-transform", isExpanded && "rotate-180")} />
+                </div>
+                {isExpanded && (
+                  <div className="px-6 pb-6 pt-2 border-t border-slate-100">
+                    <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">
+                      {report.analysis
+                        ? <CitedText text={report.analysis} onCite={citationId => setOpenCitation({ reportId: report.id, citationId })} />
+                        : 'This report has not been analyzed yet. Use the re-run button to try again.'}
+                    </p>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <AnimatePresence>
+        {openCitation && (
+          <CitationModal {...openCitation} onClose={() => setOpenCitation(null)} />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import { useState, useEffect, useRef, Fragment } from 'react';
+import { Search, MessageSquare, FileText } from 'lucide-react';
+import { formatTime } from '../lib/utils';
+import { authFetch } from '../lib/api';
+import { HIGHLIGHT_START, HIGHLIGHT_END } from '../services/search';
+import { CITATION_MARKER } from '../lib/markdown';
+import type { SearchResults } from '../contracts';
+
+const Snippet = ({ text }: { text: string }) => {
+  const parts = text.replace(CITATION_MARKER, '').replace(/\*\*/g, '').split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_END}]`));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+          : <Fragment key={i}>{part}</Fragment>
+      )}
+    </>
+  );
+};
+
+export const SearchBox = ({ onOpenMessage, onOpenReport }: {
+  onOpenMessage: (sessionId: number, messageId: number) => void,
+  onOpenReport: (reportId: number) => void
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      authFetch(`/api/search?q=${encodeURIComponent(query)}`, { signal: controller.signal })
+        .then(res => res.ok ? res.json() : null)
+        .then(setResults)
+        .catch(err => {
+          if (err.name !== 'AbortError') console.error("Search failed:", err);
+        });
+    }, 250);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    return () => document.removeEventListener('mousedown', onClick);
+  }, []);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const isEmpty = results && results.messages.length === 0 && results.reports.length === 0;
+
+  return (
+    <div ref={containerRef} className="relative flex-1 max-w-sm mx-6 hidden md:block">
+      <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+      <input
+        type="search"
+        placeholder="Search chats and reports"
+        className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:border-blue-300 focus:bg-white"
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={e => e.key === 'Escape' && close()}
+      />
+      {isOpen && results && (
+        <div className="absolute top-full mt-2 w-full bg-white border border-slate-200 rounded-xl shadow-lg max-h-[60vh] overflow-y-auto py-2 text-left">
+          {isEmpty && <p className="px-4 py-2 text-sm text-slate-500 italic">No matches.</p>}
+          {results.messages.length > 0 && (
+            <p className="px-4 pt-1 pb-2 text-[10px] font-semibold uppercase tracking-widest text-slate-400">Messages</p>
+          )}
+          {results.messages.map(hit => (
+            <button
+              key={`m${hit.id}`}
+              onClick={() => {
+                onOpenMessage(hit.session_id, hit.id);
+                close();
+              }}
+              className="w-full px-4 py-2 text-left hover:bg-blue-50 transition-colors"
+            >
+              <p className="flex items-center gap-1.5 text-xs font-semibold text-slate-900">
+                <MessageSquare className="w-3 h-3 text-blue-600" />
+                {hit.session_title || 'Chat'}
+                <span className="font-normal text-slate-400">· {hit.role === 'user' ? 'You' : 'AI Assistant'}, {new Date(hit.created_at).toLocaleDateString()} {formatTime(new Date(hit.created_at))}</span>
+              </p>
+              <p className="text-xs text-slate-600 mt-0.5 line-clamp-2"><Snippet text={hit.snippet} /></p>
+            </button>
+          ))}
+          {results.reports.length > 0 && (
+            <p className="px-4 pt-3 pb-2 text-[10px] font-semibold uppercase tracking-widest text-slate-400">Reports</p>
+          )}
+          {results.reports.map(hit => (
+            <button
+              key={`r${hit.id}`}
+              onClick={() => {
+                onOpenReport(hit.id);
+                close();
+              }}
+              className="w-full px-4 py-2 text-left hover:bg-blue-50 transition-colors"
+            >
+              <p className="flex items-center gap-1.5 text-xs font-semibold text-slate-900">
+                <FileText className="w-3 h-3 text-blue-600" />
+                {hit.filename}
+                <span className="font-normal text-slate-400">· {new Date(hit.created_at).toLocaleDateString()}</span>
+              </p>
+              <p className="text-xs text-slate-600 mt-0.5 line-clamp-2"><Snippet text={hit.snippet} /></p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Check, ClipboardList, Phone, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import {
+  CARE_SETTINGS, DURATIONS, DURATION_LABELS, HISTORY_ITEMS, INTERVIEW_STEPS, ONSETS, ONSET_LABELS, REGION_LABELS, STEP_QUESTIONS, BODY_REGIONS,
+  associatedOptions,
+  type BodyRegion, type InterviewAnswers, type InterviewStep, type SymptomInterviewRow, type TriageLevel,
+} from '../contracts';
+import { answerProblem, answerStep, previousStep, startInterview } from '../services/interview';
+
+const LEVEL_STYLES: Record<TriageLevel, string> = {
+  emergency: "bg-red-50 border-red-200 text-red-900",
+  urgent: "bg-amber-50 border-amber-200 text-amber-900",
+  routine: "bg-blue-50 border-blue-200 text-blue-900",
+  self_care: "bg-emerald-50 border-emerald-200 text-emerald-900",
+};
+
+const SEVERITY_WORDS = ['No discomfort', 'Mild', 'Mild', 'Mild', 'Moderate', 'Moderate', 'Moderate', 'Severe', 'Severe', 'Very severe', 'Worst imaginable'];
+
+const choiceClass = (selected: boolean) => cn(
+  "px-4 py-2.5 rounded-xl border text-sm font-medium text-left transition-colors",
+  selected ? "bg-blue-600 border-blue-600 text-white" : "bg-white border-slate-200 text-slate-700 hover:border-blue-300 hover:bg-blue-50"
+);
+
+// Front view of a body; the arms and legs are one region each.
+const FIGURE: { region: BodyRegion, shape: React.ReactElement }[] = [
+  { region: 'head', shape: <circle cx={60} cy={22} r={16} /> },
+  { region: 'throat_neck', shape: <rect x={52} y={38} width={16} height={12} rx={3} /> },
+  { region: 'chest', shape: <rect x={36} y={51} width={48} height={38} rx={8} /> },
+  { region: 'abdomen', shape: <rect x={38} y={91} width={44} height={30} rx={6} /> },
+  { region: 'pelvis', shape: <rect x={38} y={123} width={44} height={22} rx={6} /> },
+  { region: 'arms_hands', shape: <rect x={18} y={53} width={15} height={84} rx={7} /> },
+  { region: 'arms_hands', shape: <rect x={87} y={53} width={15} height={84} rx={7} /> },
+  { region: 'legs_feet', shape: <rect x={40} y={147} width={18} height={88} rx={8} /> },
+  { region: 'legs_feet', shape: <rect x={62} y={147} width={18} height={88} rx={8} /> },
+];
+
+/** Pick where it hurts on the figure, or from the list for places it can't show. */
+const BodyRegionPicker = ({ value, onPick }: { value?: BodyRegion, onPick: (region: BodyRegion) => void }) => {
+  const [hovered, setHovered] = useState<BodyRegion | null>(null);
+  return (
+    <div className="flex gap-6 items-start">
+      <svg viewBox="0 0 120 240" className="w-28 shrink-0" aria-hidden="true">
+        {FIGURE.map(({ region, shape }, i) => React.cloneElement(shape, {
+          key: i,
+          onClick: () => onPick(region),
+          onMouseEnter: () => setHovered(region),
+          onMouseLeave: () => setHovered(null),
+          className: cn(
+            "cursor-pointer stroke-white stroke-2 transition-colors",
+            value === region ? "fill-blue-600" : hovered === region ? "fill-blue-300" : "fill-slate-200"
+          ),
+        } as React.SVGProps<SVGElement>))}
+      </svg>
+      <div className="grid grid-cols-2 gap-2 flex-1">
+        {BODY_REGIONS.map(region => (
+          <button
+            key={region}
+            onClick={() => onPick(region)}
+            onMouseEnter={() => setHovered(region)}
+            onMouseLeave={() => setHovered(null)}
+            className={choiceClass(value === region)}
+          >
+            {REGION_LABELS[region]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const MultiChoice = ({ options, value, onToggle }: { options: readonly { id: string, label: string }[], value: string[], onToggle: (id: string) => void }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+    {options.map(option => (
+      <button key={option.id} onClick={() => onToggle(option.id)} className={cn(choiceClass(value.includes(option.id)), "flex items-center gap-2")}>
+        <span className={cn("w-4 h-4 shrink-0 rounded border flex items-center justify-center", value.includes(option.id) ? "border-white" : "border-slate-300")}>
+          {value.includes(option.id) && <Check className="w-3 h-3" />}
+        </span>
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const toggle = <T extends string>(list: T[], id: T) => list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+/**
+ * The guided symptom check: one question card at a time, driven by the state
+ * machine in src/services/interview.ts. Once it reaches `done` the answers go
+ * to `onComplete`, which saves them and adds the result to the chat.
+ */
+export const SymptomInterview = ({ onComplete, onCancel }: { onComplete: (answers: InterviewAnswers) => Promise<void>, onCancel: () => void }) => {
+  const [state, setState] = useState(startInterview);
+  const [draft, setDraft] = useState<{ complaint: string, severity: number, associated: string[], history: string[] }>({ complaint: '', severity: 5, associated: [], history: [] });
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { step, answers } = state;
+
+  // Going back shows the earlier answer again.
+  useEffect(() => {
+    setDraft(d => ({
+      complaint: answers.complaint ?? d.complaint,
+      severity: answers.severity ?? d.severity,
+      associated: answers.associated ?? [],
+      history: answers.history ?? [],
+    }));
+    setError('');
+  }, [step]);
+
+  const submit = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await onComplete({ history: [], ...answers } as InterviewAnswers);
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  useEffect(() => {
+    if (step === 'done') submit();
+  }, [step]);
+
+  const answer = <S extends InterviewStep>(key: S, value: InterviewAnswers[S]) => {
+    const problem = answerProblem(key, value, answers);
+    if (problem) return setError(problem);
+    setState(answerStep(state, key, value));
+  };
+
+  const number = step === 'done' ? INTERVIEW_STEPS.length : INTERVIEW_STEPS.indexOf(step) + 1;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-2xl mx-auto w-full bg-white border border-slate-200 rounded-3xl shadow-md p-6 space-y-5"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-slate-900 font-semibold">
+          <ClipboardList className="w-5 h-5 text-blue-600" />
+          Symptom check
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-400">Question {number} of {INTERVIEW_STEPS.length}</span>
+          <button onClick={onCancel} className="p-1 rounded-full text-slate-400 hover:text-slate-700" title="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <div className="h-1 bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${(number / INTERVIEW_STEPS.length) * 100}%` }} />
+      </div>
+
+      {step === 'done' ? (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600">{isSaving ? 'Putting together your summary...' : error ? "Your answers couldn't be saved." : 'Done.'}</p>
+          {error && (
+            <button onClick={submit} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium">
+              Try again
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <h3 className="text-lg font-bold text-slate-900">{STEP_QUESTIONS[step]}</h3>
+
+          {step === 'complaint' && (
+            <textarea
+              autoFocus
+              value={draft.complaint}
+              onChange={e => setDraft({ ...draft, complaint: e.target.value })}
+              placeholder="e.g. A sore throat and a headache"
+              maxLength={500}
+              rows={3}
+              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm"
+            />
+          )}
+          {step === 'location' && <BodyRegionPicker value={answers.location} onPick={region => answer('location', region)} />}
+          {step === 'onset' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {ONSETS.map(onset => (
+                <button key={onset} onClick={() => answer('onset', onset)} className={choiceClass(answers.onset === onset)}>{ONSET_LABELS[onset]}</button>
+              ))}
+            </div>
+          )}
+          {step === 'duration' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {DURATIONS.map(duration => (
+                <button key={duration} onClick={() => answer('duration', duration)} className={choiceClass(answers.duration === duration)}>{DURATION_LABELS[duration]}</button>
+              ))}
+            </div>
+          )}
+          {step === 'severity' && (
+            <div className="space-y-2">
+              <input
+                type="range"
+                min={0}
+                max={10}
+                step={1}
+                value={draft.severity}
+                onChange={e => setDraft({ ...draft, severity: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-slate-400">
+                <span>0</span>
+                <span className="text-sm font-semibold text-slate-900">{draft.severity}/10 · {SEVERITY_WORDS[draft.severity]}</span>
+                <span>10</span>
+              </div>
+            </div>
+          )}
+          {step === 'associated' && answers.location && (
+            <MultiChoice
+              options={associatedOptions(answers.location)}
+              value={draft.associated}
+              onToggle={id => setDraft({ ...draft, associated: toggle(draft.associated, id) })}
+            />
+          )}
+          {step === 'history' && (
+            <MultiChoice options={HISTORY_ITEMS} value={draft.history} onToggle={id => setDraft({ ...draft, history: toggle(draft.history, id) })} />
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setState(previousStep(state))}
+              disabled={state.asked.length === 0}
+              className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-900 disabled:invisible"
+            >
+              <ArrowLeft className="w-3.5 h-3.5" />
+              Back
+            </button>
+            {step === 'complaint' && (
+              <button onClick={() => answer('complaint', draft.complaint.trim())} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium">
+                Next
+              </button>
+            )}
+            {step === 'severity' && (
+              <button onClick={() => answer('severity', draft.severity)} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium">
+                Next
+              </button>
+            )}
+            {(step === 'associated' || step === 'history') && (
+              <button
+                onClick={() => step === 'associated'
+                  ? answer('associated', draft.associated as InterviewAnswers['associated'])
+                  : answer('history', draft.history as InterviewAnswers['history'])}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+              >
+                {draft[step].length === 0 ? 'None of these' : 'Next'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      <p className="text-[10px] text-slate-400">A guide to where to get care, not a diagnosis. If you think it is an emergency, call 911 now.</p>
+    </motion.div>
+  );
+};
+
+/** A saved symptom check in the chat: where to get care, why, and the answers it was based on. */
+export const InterviewSummary = ({ interview }: { interview: SymptomInterviewRow }) => {
+  const care = CARE_SETTINGS[interview.triage_level];
+  const { answers } = interview;
+  const optionLabels = (ids: string[], options: readonly { id: string, label: string }[]) =>
+    ids.length > 0 ? ids.map(id => options.find(o => o.id === id)?.label ?? id).join(', ') : 'None';
+
+  const facts: [string, string][] = [
+    ['Main concern', answers.complaint],
+    ['Where', REGION_LABELS[answers.location]],
+    ['Started', ONSET_LABELS[answers.onset]],
+    ['For', DURATION_LABELS[answers.duration]],
+    ['Severity', `${answers.severity}/10`],
+    ['Also', optionLabels(answers.associated, associatedOptions(answers.location))],
+    ['History', optionLabels(answers.history, HISTORY_ITEMS)],
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className={cn("p-3 rounded-xl border space-y-2", LEVEL_STYLES[interview.triage_level])}>
+        <p className="font-bold">{care.label}</p>
+        <p className="text-xs">{care.advice}</p>
+        {interview.triage_level === 'emergency' && (
+          <a href="tel:911" className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-red-600 text-white rounded-lg text-xs font-bold hover:bg-red-700 transition-colors">
+            <Phone className="w-3.5 h-3.5" />
+            Call 911
+          </a>
+        )}
+      </div>
+      {interview.reasons.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Based on</p>
+          <ul className="ml-5 list-disc text-xs space-y-0.5">
+            {interview.reasons.map(reason => <li key={reason}>{reason}</li>)}
+          </ul>
+        </div>
+      )}
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        {facts.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="text-slate-800">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      <p className="text-[10px] text-slate-400">This check is a guide, not a diagnosis. If you are worried, contact a doctor.</p>
+    </div>
+  );
+};
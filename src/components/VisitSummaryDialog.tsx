@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ClipboardList, X } from 'lucide-react';
+import { authFetch } from '../lib/api';
+import { buildVisitSummaryPdf } from '../lib/pdf';
+import type { ChatSession, ReportSummary, VisitSummary, VisitSummaryRequest } from '../contracts';
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+
+/** Fetches the chosen records and saves them as a branded PDF. */
+export async function downloadVisitSummary(query: VisitSummaryRequest, title: string) {
+  const params = new URLSearchParams(Object.entries(query).filter(([, value]) => value !== undefined) as [string, string][]);
+  const res = await authFetch(`/api/user/visit-summary?${params}`);
+  if (!res.ok) {
+    alert((await res.json()).error);
+    return;
+  }
+  const summary: VisitSummary = await res.json();
+  buildVisitSummaryPdf(summary, title).save(`${slug(title)}-${new Date().toISOString().slice(0, 10)}.pdf`);
+}
+
+// created_at is 'YYYY-MM-DD HH:MM:SS', so its first ten characters compare as dates.
+const inRange = (createdAt: string, from: string, to: string) => {
+  const day = createdAt.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+};
+
+const Checklist = <T extends { id: number }>({ title, items, label, selected, onToggle }: {
+  title: string,
+  items: T[],
+  label: (item: T) => string,
+  selected: Set<number>,
+  onToggle: (id: number) => void
+}) => (
+  <div className="space-y-2">
+    <p className="text-xs font-medium text-slate-500 uppercase">{title}</p>
+    {items.length === 0 ? (
+      <p className="text-xs text-slate-400 italic">None in this period.</p>
+    ) : (
+      <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+        {items.map(item => (
+          <label key={item.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-slate-50 text-sm text-slate-700 cursor-pointer">
+            <input type="checkbox" checked={selected.has(item.id)} onChange={() => onToggle(item.id)} />
+            <span className="truncate">{label(item)}</span>
+          </label>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Picks a date range and the chats and reports within it, and turns them
+ * into one PDF for the user to take to an appointment.
+ */
+export const VisitSummaryDialog = ({ sessions, onClose }: { sessions: ChatSession[], onClose: () => void }) => {
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [excluded, setExcluded] = useState<{ sessions: Set<number>, reports: Set<number> }>({ sessions: new Set(), reports: new Set() });
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  useEffect(() => {
+    authFetch('/api/reports')
+      .then(res => res.ok ? res.json() : [])
+      .then(setReports)
+      .catch(err => console.error("Failed to fetch reports:", err));
+  }, []);
+
+  // A chat started before the range can still have messages inside it.
+  const visibleSessions = sessions.filter(s => !to || s.created_at.slice(0, 10) <= to);
+  const visibleReports = reports.filter(r => inRange(r.created_at, from, to));
+  const chosenSessions = visibleSessions.filter(s => !excluded.sessions.has(s.id));
+  const chosenReports = visibleReports.filter(r => !excluded.reports.has(r.id));
+
+  const toggle = (kind: 'sessions' | 'reports') => (id: number) => setExcluded(prev => {
+    const next = new Set(prev[kind]);
+    if (!next.delete(id)) next.add(id);
+    return { ...prev, [kind]: next };
+  });
+
+  const create = async () => {
+    setIsBuilding(true);
+    try {
+      await downloadVisitSummary({
+        from: from || undefined,
+        to: to || undefined,
+        sessionIds: chosenSessions.map(s => s.id).join(','),
+        reportIds: chosenReports.map(r => r.id).join(','),
+      }, 'Visit summary');
+      onClose();
+    } catch (err) {
+      console.error("Failed to create visit summary:", err);
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[85vh] overflow-y-auto p-6 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <ClipboardList className="w-4 h-4 text-blue-600" />
+            Visit summary for your doctor
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded-full">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-500">
+          A PDF with your profile and medical history, the lab results and analyses of the reports you pick, and the chats you pick.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-slate-500 uppercase">From</label>
+            <input type="date" className="w-full p-2 border border-slate-200 rounded-lg text-sm" value={from} max={to || undefined} onChange={e => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-slate-500 uppercase">To</label>
+            <input type="date" className="w-full p-2 border border-slate-200 rounded-lg text-sm" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <Checklist title="Reports" items={visibleReports} label={r => r.filename} selected={new Set(chosenReports.map(r => r.id))} onToggle={toggle('reports')} />
+        <Checklist title="Chats" items={visibleSessions} label={s => s.title} selected={new Set(chosenSessions.map(s => s.id))} onToggle={toggle('sessions')} />
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={create}
+            disabled={isBuilding || (chosenSessions.length === 0 && chosenReports.length === 0)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm font-medium"
+          >
+            {isBuilding ? 'Creating PDF...' : 'Create PDF'}
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
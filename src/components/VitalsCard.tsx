@@ -0,0 +1,392 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Activity, Plus, Trash2, Upload } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { authFetch } from '../lib/api';
+import { parseCsv } from '../lib/csv';
+import {
+  VITALS, VITAL_TYPE_IDS, canonicalUnit, convertVital,
+  type ApiErrorBody, type VitalFlag, type VitalRequest, type VitalRow, type VitalType, type VitalsImportRequest, type VitalsImportResult,
+} from '../contracts';
+import { formatVitalValue, seriesKey, summarizeVitals, type VitalSummary } from '../services/vitals';
+
+const DAYS = 90;
+const RECENT_SHOWN = 5;
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 16, right: 16, bottom: 28, left: 44 };
+
+// Readings are stored as SQLite UTC without a zone marker.
+const parseUtc = (timestamp: string) => new Date(`${timestamp.replace(' ', 'T')}Z`);
+
+const toLocalInput = (date: Date) => new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+
+const FLAG_STYLES: Record<VitalFlag, [string, string]> = {
+  very_low: ['Very low', 'bg-red-50 text-red-600'],
+  low: ['Low', 'bg-amber-50 text-amber-700'],
+  high: ['High', 'bg-amber-50 text-amber-700'],
+  very_high: ['Very high', 'bg-red-50 text-red-600'],
+};
+
+// Plots one series in `unit`, with the usual range as a band; blood pressure gets a diastolic line too.
+const VitalChart = ({ readings, unit }: { readings: VitalRow[], unit: string }) => {
+  const type = readings[0].type;
+  const { thresholds, paired } = VITALS[type];
+  const values = readings.map(r => convertVital(type, r.value, r.unit, unit));
+  const seconds = paired ? readings.map(r => r.value2 ?? 0) : [];
+  const bandLow = thresholds.low ?? thresholds.veryLow;
+  const bandHigh = thresholds.high;
+  const band = [bandLow, bandHigh].map(v => v === undefined ? undefined : convertVital(type, v, canonicalUnit(type), unit));
+
+  const bounds = [...values, ...seconds, ...band.filter((v): v is number => v !== undefined)];
+  let yMin = Math.min(...bounds);
+  let yMax = Math.max(...bounds);
+  const margin = (yMax - yMin) * 0.15 || Math.abs(yMax) * 0.1 || 1;
+  yMin -= margin;
+  yMax += margin;
+
+  const times = readings.map(r => parseUtc(r.measured_at).getTime());
+  const tMin = Math.min(...times);
+  const tMax = Math.max(...times);
+  const x = (t: number) => tMax === tMin
+    ? PAD.left + (WIDTH - PAD.left - PAD.right) / 2
+    : PAD.left + ((t - tMin) / (tMax - tMin)) * (WIDTH - PAD.left - PAD.right);
+  const y = (v: number) => PAD.top + (1 - (v - yMin) / (yMax - yMin)) * (HEIGHT - PAD.top - PAD.bottom);
+  const line = (series: number[]) => series.map((v, i) => `${i === 0 ? 'M' : 'L'} ${x(times[i])} ${y(v)}`).join(' ');
+  const ticks = [0, 1, 2, 3].map(i => yMin + ((yMax - yMin) * i) / 3);
+  const decimals = VITALS[type].decimals;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      {(band[0] !== undefined || band[1] !== undefined) && (
+        <rect
+          x={PAD.left}
+          y={y(band[1] ?? yMax)}
+          width={WIDTH - PAD.left - PAD.right}
+          height={Math.max(y(band[0] ?? yMin) - y(band[1] ?? yMax), 0)}
+          className="fill-emerald-100"
+        />
+      )}
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} className="stroke-slate-100" />
+          <text x={PAD.left - 6} y={y(t)} textAnchor="end" dominantBaseline="middle" className="fill-slate-400 text-[10px]">
+            {Number(t.toFixed(decimals))}
+          </text>
+        </g>
+      ))}
+      <text x={x(times[0])} y={HEIGHT - 8} textAnchor={readings.length > 1 ? 'start' : 'middle'} className="fill-slate-400 text-[10px]">
+        {new Date(times[0]).toLocaleDateString()}
+      </text>
+      {readings.length > 1 && (
+        <text x={x(times[times.length - 1])} y={HEIGHT - 8} textAnchor="end" className="fill-slate-400 text-[10px]">
+          {new Date(times[times.length - 1]).toLocaleDateString()}
+        </text>
+      )}
+      {paired && <path d={line(seconds)} fill="none" className="stroke-sky-300" strokeWidth={2} />}
+      <path d={line(values)} fill="none" className="stroke-blue-500" strokeWidth={2} />
+      {readings.map((r, i) => (
+        <circle key={r.id} cx={x(times[i])} cy={y(values[i])} r={5} strokeWidth={2} className={cn("stroke-white", r.flag ? "fill-red-500" : "fill-blue-600")}>
+          <title>{`${formatVitalValue(Number(values[i].toFixed(decimals)), r.value2, unit)} — ${parseUtc(r.measured_at).toLocaleString()}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+interface Draft {
+  type: VitalType,
+  value: string,
+  value2: string,
+  unit: string,
+  label: string,
+  measuredAt: string,
+  notes: string
+}
+
+const emptyDraft = (type: VitalType = 'blood_pressure'): Draft => ({
+  type, value: type === 'symptom' ? '5' : '', value2: '', unit: canonicalUnit(type), label: '', measuredAt: toLocalInput(new Date()), notes: '',
+});
+
+const inputClass = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm";
+const labelClass = "text-xs font-medium text-slate-500 uppercase tracking-wider";
+
+const QuickEntry = ({ symptoms, onSaved, onCancel }: { symptoms: string[], onSaved: (row: VitalRow) => void, onCancel: () => void }) => {
+  const [draft, setDraft] = useState<Draft>(() => emptyDraft());
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const vital = VITALS[draft.type];
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    const body: VitalRequest = {
+      type: draft.type,
+      value: Number(draft.value),
+      value2: vital.paired ? Number(draft.value2) : null,
+      unit: draft.unit,
+      label: draft.type === 'symptom' ? draft.label : null,
+      notes: draft.notes,
+      measuredAt: new Date(draft.measuredAt).toISOString(),
+    };
+    try {
+      const res = await authFetch('/api/user/vitals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      onSaved(data);
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="p-4 rounded-xl border border-blue-100 bg-blue-50/40 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className={labelClass}>Measurement</label>
+          <select className={inputClass} value={draft.type} onChange={e => setDraft({ ...emptyDraft(e.target.value as VitalType), measuredAt: draft.measuredAt })}>
+            {VITAL_TYPE_IDS.map(type => <option key={type} value={type}>{VITALS[type].label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Taken</label>
+          <input type="datetime-local" className={inputClass} value={draft.measuredAt} max={toLocalInput(new Date())} onChange={e => setDraft({ ...draft, measuredAt: e.target.value })} />
+        </div>
+        {draft.type === 'symptom' ? (
+          <>
+            <div className="space-y-1">
+              <label className={labelClass}>Symptom</label>
+              <input className={inputClass} list="logged-symptoms" value={draft.label} placeholder="e.g. Headache" onChange={e => setDraft({ ...draft, label: e.target.value })} />
+              <datalist id="logged-symptoms">
+                {symptoms.map(s => <option key={s} value={s} />)}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Severity: {draft.value}/10</label>
+              <input type="range" min={0} max={10} step={1} className="w-full" value={draft.value} onChange={e => setDraft({ ...draft, value: e.target.value })} />
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <label className={labelClass}>{vital.paired ? 'Systolic / diastolic' : 'Value'}</label>
+              <div className="flex items-center gap-2">
+                <input type="number" step="any" className={inputClass} value={draft.value} onChange={e => setDraft({ ...draft, value: e.target.value })} />
+                {vital.paired && (
+                  <>
+                    <span className="text-slate-400">/</span>
+                    <input type="number" step="any" className={inputClass} value={draft.value2} onChange={e => setDraft({ ...draft, value2: e.target.value })} />
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Unit</label>
+              <select className={inputClass} value={draft.unit} onChange={e => setDraft({ ...draft, unit: e.target.value })}>
+                {Object.keys(vital.units).map(unit => <option key={unit} value={unit}>{unit}</option>)}
+              </select>
+            </div>
+          </>
+        )}
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Notes</label>
+          <input className={inputClass} value={draft.notes} placeholder="e.g. After a run" onChange={e => setDraft({ ...draft, notes: e.target.value })} />
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors text-xs font-medium">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || draft.value === '' || (vital.paired && draft.value2 === '') || (draft.type === 'symptom' && !draft.label.trim())}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-xs font-medium"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CSV_COLUMNS = ['type', 'value', 'value2', 'unit', 'measured_at', 'label', 'notes'];
+
+// CSV rows as import entries. Times without a zone are read as local time.
+const csvEntries = (text: string): VitalRequest[] => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map(c => c.trim().toLowerCase());
+  const missing = ['type', 'value', 'unit', 'measured_at'].filter(c => !columns.includes(c));
+  if (missing.length > 0) throw new Error(`The file needs a header row with ${CSV_COLUMNS.join(', ')}. Missing: ${missing.join(', ')}.`);
+
+  return rows.map(cells => {
+    const cell = (name: string) => cells[columns.indexOf(name)]?.trim() ?? '';
+    const measured = new Date(cell('measured_at'));
+    return {
+      type: cell('type') as VitalType,
+      value: Number(cell('value')),
+      value2: cell('value2') ? Number(cell('value2')) : null,
+      unit: cell('unit'),
+      label: cell('label') || null,
+      notes: cell('notes') || null,
+      measuredAt: Number.isNaN(measured.getTime()) ? cell('measured_at') : measured.toISOString(),
+    };
+  });
+};
+
+// Server errors point at e.g. `entries.3.value`; the file's row is that index plus the header.
+const importError = (data: ApiErrorBody) => {
+  const row = data.details?.[0]?.path.match(/^entries\.(\d+)/)?.[1];
+  return row === undefined ? data.error : `Row ${Number(row) + 2}: ${data.error}`;
+};
+
+/** Logged vitals and symptoms: quick entry, CSV import and a chart per series over the last 90 days. */
+export const VitalsCard = () => {
+  const [readings, setReadings] = useState<VitalRow[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [notice, setNotice] = useState<{ text: string, isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = () => authFetch(`/api/user/vitals?days=${DAYS}`)
+    .then(res => res.ok ? res.json() : [])
+    .then(setReadings)
+    .catch(err => console.error("Failed to fetch vitals:", err));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const summaries = summarizeVitals(readings);
+  const current: VitalSummary | undefined = summaries.find(s => s.key === selected) ?? summaries[0];
+  const series = current ? readings.filter(r => seriesKey(r) === current.key) : [];
+  const symptoms = [...new Set(readings.filter(r => r.type === 'symptom').map(r => r.label!))];
+
+  const saved = (row: VitalRow) => {
+    setReadings([...readings, row].sort((a, b) => a.measured_at.localeCompare(b.measured_at)));
+    setSelected(seriesKey(row));
+    setIsAdding(false);
+  };
+
+  const remove = async (row: VitalRow) => {
+    if (!confirm('Delete this reading?')) return;
+    try {
+      const res = await authFetch(`/api/user/vitals/${row.id}`, { method: 'DELETE' });
+      if (res.ok) setReadings(readings.filter(r => r.id !== row.id));
+    } catch (err) {
+      console.error("Failed to delete reading:", err);
+    }
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setNotice(null);
+    try {
+      const body: VitalsImportRequest = { entries: csvEntries(await file.text()) };
+      const res = await authFetch('/api/user/vitals/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(importError(data));
+      const result = data as VitalsImportResult;
+      setNotice({ text: `Imported ${result.imported} reading${result.imported === 1 ? '' : 's'}${result.skipped ? `, skipped ${result.skipped} already logged` : ''}.`, isError: false });
+      load();
+    } catch (err: any) {
+      setNotice({ text: err.message, isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between border-b border-slate-100 pb-4">
+        <div className="flex items-center gap-2 text-slate-900 font-semibold">
+          <Activity className="w-5 h-5 text-blue-600" />
+          Vitals & Symptoms
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 text-xs font-semibold text-slate-500 hover:text-blue-600"
+            title={`CSV with columns ${CSV_COLUMNS.join(', ')}`}
+          >
+            <Upload className="w-3.5 h-3.5" />
+            Import CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={importFile} />
+          {!isAdding && (
+            <button onClick={() => setIsAdding(true)} className="flex items-center gap-1 text-xs font-semibold text-blue-600 hover:text-blue-800">
+              <Plus className="w-3.5 h-3.5" />
+              Log reading
+            </button>
+          )}
+        </div>
+      </div>
+
+      {notice && <p className={cn("text-xs", notice.isError ? "text-red-600" : "text-emerald-700")}>{notice.text}</p>}
+      {isAdding && <QuickEntry symptoms={symptoms} onSaved={saved} onCancel={() => setIsAdding(false)} />}
+
+      {!current ? (
+        !isAdding && <p className="text-slate-500 text-sm italic">Log blood pressure, glucose, weight, heart rate, temperature or how a symptom feels to see it over time.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {summaries.map(s => (
+              <button
+                key={s.key}
+                onClick={() => setSelected(s.key)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors",
+                  s.key === current.key ? "bg-blue-600 text-white" : "bg-slate-50 text-slate-600 hover:bg-blue-50 hover:text-blue-600"
+                )}
+              >
+                {s.label}
+                {s.latest.flag ? <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-red-400 align-middle" /> : null}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <VitalChart readings={series} unit={current.unit} />
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] text-slate-500">
+              <span>Latest {formatVitalValue(current.latest.value, current.latest.value2, current.unit)}</span>
+              <span>{current.count} reading{current.count === 1 ? '' : 's'} in {DAYS} days</span>
+              {current.trend && <span>Trend: {current.trend.direction}</span>}
+              {Object.keys(VITALS[current.type].thresholds).length > 0 && (
+                <span className="flex items-center gap-1"><span className="w-3 h-2 bg-emerald-100 rounded-sm" /> Usual adult range</span>
+              )}
+              <span className="flex items-center gap-1"><span className="w-2 h-2 bg-red-500 rounded-full" /> Outside it</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {[...series].reverse().slice(0, RECENT_SHOWN).map(r => (
+              <div key={r.id} className="group flex items-center justify-between p-3 rounded-xl border border-slate-100 bg-slate-50">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900">
+                    {formatVitalValue(r.value, r.value2, r.unit)}
+                    {r.flag && <span className={cn("ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold", FLAG_STYLES[r.flag][1])}>{FLAG_STYLES[r.flag][0]}</span>}
+                  </p>
+                  <p className="text-xs text-slate-500 truncate">{[parseUtc(r.measured_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }), r.notes].filter(Boolean).join(' · ')}</p>
+                </div>
+                <button onClick={() => remove(r)} className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg" title="Delete">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
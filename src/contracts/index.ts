@@ -0,0 +1,4 @@
+export * from './schemas.ts';
+export * from './interview.ts';
+export * from './vitals.ts';
+export type * from './types.ts';
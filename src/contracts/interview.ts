@@ -0,0 +1,141 @@
+// The symptom check's questions and answer options, and the triage levels and
+// care settings an assessment ends in. Request validation, the question cards
+// and src/services/interview.ts all read them from here.
+
+export const BODY_REGIONS = [
+  'head', 'eyes_ears_nose', 'throat_neck', 'chest', 'abdomen', 'pelvis', 'back', 'arms_hands', 'legs_feet', 'skin', 'whole_body',
+] as const;
+export type BodyRegion = typeof BODY_REGIONS[number];
+
+export const REGION_LABELS: Record<BodyRegion, string> = {
+  head: 'Head',
+  eyes_ears_nose: 'Eyes, ears or nose',
+  throat_neck: 'Throat or neck',
+  chest: 'Chest',
+  abdomen: 'Stomach area',
+  pelvis: 'Pelvis or groin',
+  back: 'Back',
+  arms_hands: 'Arms or hands',
+  legs_feet: 'Legs or feet',
+  skin: 'Skin',
+  whole_body: 'All over',
+};
+
+export const ONSETS = ['sudden', 'gradual'] as const;
+export type Onset = typeof ONSETS[number];
+
+export const ONSET_LABELS: Record<Onset, string> = {
+  sudden: 'Suddenly, within minutes',
+  gradual: 'Gradually, over hours or days',
+};
+
+export const DURATIONS = ['hours', 'days', 'week', 'weeks', 'months'] as const;
+export type Duration = typeof DURATIONS[number];
+
+export const DURATION_LABELS: Record<Duration, string> = {
+  hours: 'Less than a day',
+  days: '1-3 days',
+  week: '4-7 days',
+  weeks: '1-4 weeks',
+  months: 'More than a month',
+};
+
+/** The levels an answer can raise on its own. */
+export type FlagLevel = 'emergency' | 'urgent';
+
+export interface InterviewOption {
+  id: string;
+  label: string;
+  /** Only offered for these regions; offered everywhere when unset. */
+  regions?: BodyRegion[];
+  /** Reason to get help sooner on its own. */
+  flag?: FlagLevel;
+}
+
+export const ASSOCIATED_SYMPTOMS = [
+  { id: 'fever', label: 'Fever or chills' },
+  { id: 'nausea', label: 'Nausea or vomiting' },
+  { id: 'cough', label: 'Cough' },
+  { id: 'rash', label: 'Rash' },
+  { id: 'tiredness', label: 'Unusual tiredness' },
+  { id: 'breathless', label: 'Shortness of breath', flag: 'urgent' },
+  { id: 'fainting', label: 'Fainting or nearly fainting', flag: 'urgent' },
+  { id: 'confusion', label: 'Confusion or trouble speaking', flag: 'emergency' },
+  { id: 'one_sided_weakness', label: 'Numbness or weakness on one side', flag: 'emergency' },
+  { id: 'spreading_pain', label: 'Pain spreading to the arm, jaw or back', regions: ['chest', 'back', 'arms_hands'], flag: 'emergency' },
+  { id: 'cold_sweat', label: 'Cold sweat', regions: ['chest', 'abdomen'] },
+  { id: 'stiff_neck', label: 'Stiff neck', regions: ['head', 'throat_neck', 'whole_body'], flag: 'urgent' },
+  { id: 'vision', label: 'Changes in vision', regions: ['head', 'eyes_ears_nose'], flag: 'urgent' },
+  { id: 'throat_swelling', label: 'Swelling of the lips, tongue or throat', regions: ['throat_neck', 'eyes_ears_nose', 'skin', 'whole_body'], flag: 'emergency' },
+  { id: 'blood', label: 'Blood in vomit, stool or urine', regions: ['abdomen', 'pelvis', 'back'], flag: 'urgent' },
+  { id: 'urination', label: 'Pain or burning when urinating', regions: ['abdomen', 'pelvis', 'back'] },
+  { id: 'leg_swelling', label: 'Swelling in one leg', regions: ['legs_feet'], flag: 'urgent' },
+] as const satisfies readonly InterviewOption[];
+export type AssociatedSymptom = typeof ASSOCIATED_SYMPTOMS[number]['id'];
+
+export const HISTORY_ITEMS = [
+  { id: 'before', label: 'I have had this before' },
+  { id: 'long_term', label: 'A long-term condition (e.g. diabetes, heart or lung disease)' },
+  { id: 'immune', label: 'A weakened immune system (e.g. chemotherapy)' },
+  { id: 'pregnant', label: 'Pregnant or could be' },
+  { id: 'injury', label: 'A recent injury or fall' },
+  { id: 'new_medicine', label: 'Started a new medicine recently' },
+  { id: 'surgery_travel', label: 'Surgery or a long journey in the last month' },
+] as const satisfies readonly InterviewOption[];
+export type HistoryItem = typeof HISTORY_ITEMS[number]['id'];
+
+export interface InterviewAnswers {
+  /** In the user's own words. */
+  complaint: string;
+  location: BodyRegion;
+  onset: Onset;
+  duration: Duration;
+  /** 0-10. */
+  severity: number;
+  associated: AssociatedSymptom[];
+  history: HistoryItem[];
+}
+
+export type InterviewStep = keyof InterviewAnswers;
+
+export const INTERVIEW_STEPS: InterviewStep[] = ['complaint', 'location', 'onset', 'duration', 'severity', 'associated', 'history'];
+
+export const STEP_QUESTIONS: Record<InterviewStep, string> = {
+  complaint: "What's bothering you most?",
+  location: 'Where do you feel it?',
+  onset: 'How did it start?',
+  duration: 'How long has it been going on?',
+  severity: 'How bad is it right now?',
+  associated: 'Do you have any of these as well?',
+  history: 'Does any of this apply to you?',
+};
+
+/** The associated symptoms worth asking about for a region. */
+export const associatedOptions = (location: BodyRegion) =>
+  ASSOCIATED_SYMPTOMS.filter(option => !('regions' in option) || (option.regions as readonly BodyRegion[]).includes(location));
+
+export type TriageLevel = 'emergency' | 'urgent' | 'routine' | 'self_care';
+export type CareSetting = 'emergency_department' | 'urgent_care' | 'primary_care' | 'self_care';
+
+export const CARE_SETTINGS: Record<TriageLevel, { setting: CareSetting, label: string, advice: string }> = {
+  emergency: {
+    setting: 'emergency_department',
+    label: 'Emergency care now',
+    advice: 'Call 911 or go to the nearest emergency department now. Do not drive yourself.',
+  },
+  urgent: {
+    setting: 'urgent_care',
+    label: 'Urgent care today',
+    advice: 'See a doctor today, at an urgent care clinic or a same-day appointment. Call 911 if it gets worse quickly.',
+  },
+  routine: {
+    setting: 'primary_care',
+    label: 'See your doctor',
+    advice: 'Book an appointment with your doctor in the next few days, sooner if it gets worse.',
+  },
+  self_care: {
+    setting: 'self_care',
+    label: 'Self-care at home',
+    advice: 'This can usually be looked after at home. See a doctor if it gets worse or has not improved in a few days.',
+  },
+};
@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import { VITAL_TYPE_IDS, vitalProblem } from './vitals.ts';
+import { ASSOCIATED_SYMPTOMS, BODY_REGIONS, DURATIONS, HISTORY_ITEMS, ONSETS, associatedOptions } from './interview.ts';
+
+/**
+ * Request schemas for every API route. The server validates with them; the
+ * client imports the inferred types so both sides agree on request shapes.
+ */
+
+export const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'] as const;
+export const SEXES = ['female', 'male', 'intersex'] as const;
+export const CONDITION_STATUSES = ['active', 'resolved'] as const;
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+
+const id = z.coerce.number().int().positive();
+const email = z.string().trim().toLowerCase().pipe(z.email('Enter a valid email address'));
+const newPassword = z.string().min(8, 'Password must be at least 8 characters').max(200);
+const name = z.string().trim().min(1, 'Name is required').max(100);
+// Form fields arrive as '' when cleared; store that as null.
+const optionalText = (max: number) => z.string().trim().max(max).transform(v => v || null).nullable();
+const optionalEnum = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.union([z.enum(values), z.literal('')]).transform(v => v || null).nullable();
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use a YYYY-MM-DD date');
+const optionalDate = z.union([isoDate, z.literal('')]).transform(v => v || null).nullable();
+const measurement = (label: string, max: number) => z.number().positive(`${label} must be positive`).max(max, `${label} looks too large`).nullable();
+
+export const IdParams = z.object({ id });
+
+export const RegisterBody = z.object({
+  email,
+  password: newPassword,
+  firstName: name,
+  lastName: name,
+});
+
+export const LoginBody = z.object({
+  email,
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const RefreshBody = z.object({ refreshToken: z.string().min(1, 'Refresh token is required') });
+
+export const EmailTokenBody = z.object({ token: z.string().min(1, 'Token is required') });
+
+export const EmailBody = z.object({ email });
+
+export const ResetPasswordBody = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: newPassword,
+});
+
+/** Only the fields that are sent are changed. */
+export const UpdateProfileBody = z.object({
+  firstName: name,
+  lastName: name,
+  mobile: optionalText(30),
+  bloodGroup: optionalEnum(BLOOD_GROUPS),
+  personalNotes: optionalText(5000),
+  dateOfBirth: optionalDate.refine(v => !v || v <= new Date().toISOString().slice(0, 10), 'Date of birth cannot be in the future'),
+  sex: optionalEnum(SEXES),
+  heightCm: measurement('Height', 300),
+  weightKg: measurement('Weight', 700),
+}).partial();
+
+// Medical history entries. PUT replaces the whole entry, so fields left out are cleared.
+const entryName = (label: string) => z.string().trim().min(1, `${label} is required`).max(200);
+
+export const ConditionBody = z.object({
+  name: entryName('Condition'),
+  status: z.enum(CONDITION_STATUSES).default('active'),
+  diagnosedOn: optionalDate.default(null),
+  notes: optionalText(1000).default(null),
+});
+
+export const AllergyBody = z.object({
+  substance: entryName('Allergen'),
+  reaction: optionalText(200).default(null),
+  severity: optionalEnum(ALLERGY_SEVERITIES).default(null),
+});
+
+export const MedicationBody = z.object({
+  name: entryName('Medication'),
+  dose: optionalText(100).default(null),
+  frequency: optionalText(100).default(null),
+  startedOn: optionalDate.default(null),
+  stoppedOn: optionalDate.default(null),
+  notes: optionalText(1000).default(null),
+}).refine(m => !m.startedOn || !m.stoppedOn || m.stoppedOn >= m.startedOn, { message: 'Stop date cannot be before the start date', path: ['stoppedOn'] });
+
+/** A medicine to check against the user's list before adding it; `excludeId` leaves out the entry being edited. */
+export const MedicationCheckBody = z.object({
+  name: entryName('Medication'),
+  excludeId: id.optional(),
+});
+
+export const SurgeryBody = z.object({
+  procedure: entryName('Procedure'),
+  performedOn: optionalDate.default(null),
+  notes: optionalText(1000).default(null),
+});
+
+// Reminders. Doses repeat daily at `times` on the wall clock of `timezone`;
+// refills and appointments fire once, `leadMinutes` before `dueAt`.
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM times');
+const dateTime = z.iso.datetime({ offset: true, message: 'Use an ISO 8601 date and time' });
+const leadMinutes = z.number().int().min(0).max(7 * 24 * 60);
+
+const reminderFields = {
+  title: entryName('Title'),
+  notes: optionalText(500).default(null),
+  timezone: z.string().refine(isTimeZone, 'Unknown time zone'),
+  active: z.boolean().default(true),
+};
+
+export const ReminderBody = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('dose'),
+    ...reminderFields,
+    medicationId: id.nullable().default(null),
+    times: z.array(clockTime).min(1, 'Add at least one time').max(8, 'At most 8 times a day').transform(times => [...new Set(times)].sort()),
+  }),
+  z.object({
+    kind: z.literal('refill'),
+    ...reminderFields,
+    medicationId: id.nullable().default(null),
+    dueAt: dateTime,
+    leadMinutes: leadMinutes.default(0),
+  }),
+  z.object({
+    kind: z.literal('appointment'),
+    ...reminderFields,
+    dueAt: dateTime,
+    leadMinutes: leadMinutes.default(60),
+  }),
+]);
+
+export const OccurrencesQuery = z.object({ from: dateTime, to: dateTime })
+  .refine(q => Date.parse(q.to) > Date.parse(q.from), { message: 'The end must be after the start', path: ['to'] })
+  .refine(q => Date.parse(q.to) - Date.parse(q.from) <= 62 * 24 * 60 * 60 * 1000, { message: 'At most 62 days at a time', path: ['to'] });
+
+/** Taking or skipping answers a dose; snoozing sends the reminder again after `minutes`. */
+export const OccurrenceActionBody = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('take') }),
+  z.object({ action: z.literal('skip') }),
+  z.object({ action: z.literal('snooze'), minutes: z.number().int().min(5).max(12 * 60).default(10) }),
+]);
+
+export const AdherenceQuery = z.object({ days: z.coerce.number().int().min(1).max(365).default(30) });
+
+/** A browser's PushSubscription, as its toJSON() gives it. */
+export const PushSubscriptionBody = z.object({
+  endpoint: z.url({ protocol: /^https$/ }).max(1000),
+  keys: z.object({ p256dh: z.string().min(1).max(200), auth: z.string().min(1).max(100) }),
+});
+
+export const PushEndpointBody = z.object({ endpoint: z.string().min(1).max(1000) });
+
+// Vitals. Units, plausible ranges and pairing are checked against the catalogue in ./vitals.ts.
+const FUTURE_SLACK_MS = 5 * 60 * 1000;
+
+export const VitalBody = z.object({
+  type: z.enum(VITAL_TYPE_IDS),
+  value: z.number(),
+  value2: z.number().nullable().default(null),
+  unit: z.string().trim().min(1, 'Unit is required').max(20),
+  label: optionalText(100).default(null),
+  notes: optionalText(500).default(null),
+  measuredAt: dateTime.refine(v => Date.parse(v) <= Date.now() + FUTURE_SLACK_MS, 'Readings cannot be in the future').optional(),
+}).superRefine((reading, ctx) => {
+  const problem = vitalProblem(reading);
+  if (problem) ctx.addIssue({ code: 'custom', message: problem.message, path: [problem.path] });
+});
+
+/** Readings from a file or another app; exact repeats of stored readings are skipped. */
+export const VitalsImportBody = z.object({
+  entries: z.array(VitalBody).min(1, 'Nothing to import').max(1000, 'Import at most 1000 readings at a time'),
+});
+
+export const VitalsQuery = z.object({
+  type: z.enum(VITAL_TYPE_IDS).optional(),
+  days: z.coerce.number().int().min(1).max(3650).default(90),
+});
+
+export const VitalsSummaryQuery = z.object({ days: z.coerce.number().int().min(1).max(365).default(30) });
+
+/** Deleting the account asks for the password again, whatever the token says. */
+export const DeleteAccountBody = z.object({ password: z.string().min(1, 'Password is required') });
+
+export const CreateSessionBody = z.object({ title: z.string().trim().min(1, 'Title cannot be empty').max(200) });
+
+export const UpdateSessionBody = z.object({
+  title: z.string().trim().min(1, 'Title cannot be empty').max(200),
+  pinned: z.boolean(),
+  archived: z.boolean(),
+}).partial().refine(body => Object.keys(body).length > 0, 'Nothing to update');
+
+export const HistoryQuery = z.object({ sessionId: id.optional() });
+
+export const CreateHistoryBody = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string().min(1, 'Content is required').max(50_000),
+  sessionId: id,
+});
+
+export const ChatBody = z.object({
+  message: z.string().trim().min(1, 'Message is required').max(10_000),
+  sessionId: id.nullish(),
+});
+
+const optionIds = <T extends readonly { id: string }[]>(options: T) => options.map(o => o.id) as [T[number]['id'], ...T[number]['id'][]];
+
+/**
+ * A finished symptom check. History is left out when the answers already
+ * called for emergency care and the interview stopped early.
+ */
+export const InterviewBody = z.object({
+  sessionId: id.nullish(),
+  answers: z.object({
+    complaint: z.string().trim().min(1, 'Describe what is bothering you').max(500),
+    location: z.enum(BODY_REGIONS),
+    onset: z.enum(ONSETS),
+    duration: z.enum(DURATIONS),
+    severity: z.number().int().min(0, 'Rate it from 0 to 10').max(10, 'Rate it from 0 to 10'),
+    associated: z.array(z.enum(optionIds(ASSOCIATED_SYMPTOMS))).max(ASSOCIATED_SYMPTOMS.length),
+    history: z.array(z.enum(optionIds(HISTORY_ITEMS))).max(HISTORY_ITEMS.length).default([]),
+  }).superRefine((answers, ctx) => {
+    const offered = associatedOptions(answers.location).map(o => o.id as string);
+    if (!answers.associated.every(symptom => offered.includes(symptom))) {
+      ctx.addIssue({ code: 'custom', message: 'Pick from the listed symptoms', path: ['associated'] });
+    }
+  }),
+});
+
+export const InterviewsQuery = z.object({ sessionId: id });
+
+export const TitleBody = z.object({ message: z.string().trim().min(1, 'Message is required').max(10_000) });
+
+/** Multipart fields arrive as strings, so the session id is coerced. */
+export const UploadReportBody = z.object({
+  sessionId: z.union([id, z.literal('')]).transform(v => v || null).nullish(),
+});
+
+export const MarkerParams = z.object({ name: z.string().min(1).max(100) });
+
+export const SearchQuery = z.object({ q: z.string().max(200).default('') });
+
+export const ActivityQuery = z.object({ limit: z.coerce.number().int().min(1).max(200).default(50) });
+
+export const AuditExportQuery = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+  actorId: id.optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+// Comma-separated ids; an empty string is an empty list.
+const idList = z.string().transform(v => v.split(',').filter(Boolean).map(Number)).pipe(z.array(z.number().int().positive()).max(200));
+
+/**
+ * Sessions and reports for a visit summary. Leaving a list out includes
+ * everything of that kind in the date range; sending it empty includes none.
+ */
+export const VisitSummaryQuery = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  sessionIds: idList.optional(),
+  reportIds: idList.optional(),
+});
+
+export type RegisterRequest = z.infer<typeof RegisterBody>;
+export type LoginRequest = z.infer<typeof LoginBody>;
+export type DeleteAccountRequest = z.infer<typeof DeleteAccountBody>;
+export type UpdateProfileRequest = z.input<typeof UpdateProfileBody>;
+export type ConditionRequest = z.input<typeof ConditionBody>;
+export type AllergyRequest = z.input<typeof AllergyBody>;
+export type MedicationRequest = z.input<typeof MedicationBody>;
+export type SurgeryRequest = z.input<typeof SurgeryBody>;
+export type MedicationCheckRequest = z.input<typeof MedicationCheckBody>;
+export type ReminderRequest = z.input<typeof ReminderBody>;
+export type OccurrenceActionRequest = z.input<typeof OccurrenceActionBody>;
+export type PushSubscriptionRequest = z.input<typeof PushSubscriptionBody>;
+export type VitalRequest = z.input<typeof VitalBody>;
+export type VitalsImportRequest = z.input<typeof VitalsImportBody>;
+export type UpdateSessionRequest = z.input<typeof UpdateSessionBody>;
+export type VisitSummaryRequest = z.input<typeof VisitSummaryQuery>;
+export type ChatRequest = z.input<typeof ChatBody>;
+export type InterviewRequest = z.input<typeof InterviewBody>;
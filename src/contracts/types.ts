@@ -0,0 +1,401 @@
+import type { TriageResult, TriageSeverity } from '../services/triage/index.ts';
+import type { Citation } from '../services/citations.ts';
+import type { InteractionCheck } from '../services/interactions/index.ts';
+import type { AuditAction } from '../services/audit.ts';
+import type { OccurrenceStatus, ReminderKind } from '../services/reminders.ts';
+import type { VitalFlag, VitalType } from './vitals.ts';
+import type { CareSetting, InterviewAnswers, TriageLevel } from './interview.ts';
+import type { ALLERGY_SEVERITIES, CONDITION_STATUSES, SEXES } from './schemas.ts';
+
+/** Machine-readable reason for a failed request. */
+export type ErrorCode =
+  | 'validation_failed'
+  | 'invalid_json'
+  | 'unauthorized'
+  | 'token_expired'
+  | 'forbidden'
+  | 'email_unverified'
+  | 'email_taken'
+  | 'invalid_link'
+  | 'not_found'
+  | 'gone'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'ai_unavailable'
+  | 'internal';
+
+/** Every error response has this shape; `error` is safe to show to the user. */
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  details?: { path: string, message: string }[];
+  /** Seconds to wait before retrying; set on `rate_limited` (also sent as Retry-After). */
+  retryAfter?: number;
+  /** Set when a report upload was stored but its analysis failed, so it can be re-run. */
+  reportId?: number;
+  /** The session the failed upload was recorded in. */
+  session?: SessionRef;
+}
+
+export interface Success {
+  success: true;
+}
+
+export interface AuthUser {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  /** Listed in ADMIN_EMAILS; may export the audit log. */
+  isAdmin: boolean;
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+}
+
+export interface LoginResponse extends TokenPair {
+  user: AuthUser;
+}
+
+export interface ProfileRow {
+  id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  mobile: string | null;
+  blood_group: string | null;
+  personal_notes: string | null;
+  date_of_birth: string | null;
+  sex: Sex | null;
+  height_cm: number | null;
+  weight_kg: number | null;
+  /** Set while the account waits out its deletion grace period. */
+  deletion_scheduled_at: string | null;
+}
+
+export type Sex = typeof SEXES[number];
+export type ConditionStatus = typeof CONDITION_STATUSES[number];
+export type AllergySeverity = typeof ALLERGY_SEVERITIES[number];
+
+export interface ConditionRow {
+  id: number;
+  user_id: number;
+  name: string;
+  status: ConditionStatus;
+  diagnosed_on: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface AllergyRow {
+  id: number;
+  user_id: number;
+  substance: string;
+  reaction: string | null;
+  severity: AllergySeverity | null;
+  created_at: string;
+}
+
+export interface MedicationRow {
+  id: number;
+  user_id: number;
+  name: string;
+  dose: string | null;
+  frequency: string | null;
+  started_on: string | null;
+  stopped_on: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface SurgeryRow {
+  id: number;
+  user_id: number;
+  procedure: string;
+  performed_on: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface MedicalHistory {
+  conditions: ConditionRow[];
+  allergies: AllergyRow[];
+  medications: MedicationRow[];
+  surgeries: SurgeryRow[];
+}
+
+export interface ReminderRow {
+  id: number;
+  user_id: number;
+  kind: ReminderKind;
+  title: string;
+  notes: string | null;
+  medication_id: number | null;
+  /** Dose times as comma-separated "HH:MM", on the wall clock of `timezone`. */
+  times: string | null;
+  timezone: string;
+  /** UTC; set for refills and appointments. */
+  due_at: string | null;
+  lead_minutes: number;
+  active: number;
+  created_at: string;
+}
+
+/** One scheduled dose, refill or appointment of a reminder. Times are UTC. */
+export interface OccurrenceRow {
+  id: number;
+  reminder_id: number;
+  kind: ReminderKind;
+  title: string;
+  scheduled_for: string;
+  notify_at: string;
+  status: OccurrenceStatus;
+  snoozes: number;
+  notified_at: string | null;
+  responded_at: string | null;
+}
+
+export interface NotificationRow {
+  id: number;
+  title: string;
+  body: string | null;
+  url: string | null;
+  occurrence_id: number | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationsResponse {
+  notifications: NotificationRow[];
+  unread: number;
+}
+
+/** The server's VAPID public key, or null when Web Push is not configured. */
+export interface PushConfig {
+  publicKey: string | null;
+}
+
+export interface VitalRow {
+  id: number;
+  user_id: number;
+  type: VitalType;
+  value: number;
+  /** The diastolic of a blood pressure reading. */
+  value2: number | null;
+  unit: string;
+  /** The symptom's name. */
+  label: string | null;
+  notes: string | null;
+  /** UTC. */
+  measured_at: string;
+  source: 'manual' | 'import';
+  created_at: string;
+  /** Against general adult thresholds; null when in the usual range. */
+  flag: VitalFlag | null;
+}
+
+export interface VitalsImportResult {
+  imported: number;
+  /** Already stored with the same type, time and values. */
+  skipped: number;
+}
+
+export interface AccountDeletion {
+  deletionScheduledAt: string;
+}
+
+export interface ChatSession {
+  id: number;
+  user_id: number;
+  title: string;
+  created_at: string;
+  pinned: number;
+  archived: number;
+}
+
+export interface ChatHistoryRow {
+  id: number;
+  user_id: number;
+  session_id: number | null;
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+  partial: number;
+  severity: TriageSeverity | null;
+  provider: string | null;
+  model: string | null;
+  report_id: number | null;
+  /** Set on the assistant message that summarises a symptom check. */
+  interview_id: number | null;
+}
+
+/** The session a chat turn or upload was recorded in; `created` when the request started it. */
+export interface SessionRef {
+  id: number;
+  title: string;
+  created: boolean;
+}
+
+export interface ChatResponse {
+  reply: string;
+  session: SessionRef;
+  triage: TriageResult;
+  /** Interaction and allergy warnings for any medicines the message names. */
+  interactions: InteractionCheck;
+}
+
+/** A finished symptom check, as saved on its chat session. */
+export interface SymptomInterviewRow {
+  id: number;
+  session_id: number;
+  answers: InterviewAnswers;
+  triage_level: TriageLevel;
+  care_setting: CareSetting;
+  reasons: string[];
+  created_at: string;
+}
+
+export interface InterviewResponse {
+  session: SessionRef;
+  interview: SymptomInterviewRow;
+  /** The chat messages the interview was recorded as: the answers, then the summary. */
+  transcript: string;
+  summary: string;
+}
+
+export interface ReportRow {
+  id: number;
+  user_id: number;
+  session_id: number | null;
+  filename: string;
+  analysis: string;
+  citations: string | null;
+  mime_type: string | null;
+  size_bytes: number | null;
+  sha256: string | null;
+  created_at: string;
+  analyzed_at: string | null;
+}
+
+export interface ReportSummary extends ReportRow {
+  result_count: number;
+  out_of_range_count: number;
+}
+
+export interface LabResultRow {
+  id: number;
+  report_id: number;
+  user_id: number;
+  test_name: string;
+  marker: string;
+  value: number | null;
+  value_text: string | null;
+  unit: string | null;
+  reference_range: string | null;
+  reference_low: number | null;
+  reference_high: number | null;
+  out_of_range: number;
+  specimen_date: string | null;
+  page: number | null;
+  created_at: string;
+}
+
+export interface MarkerSummary {
+  marker: string;
+  test_name: string;
+  unit: string | null;
+  value: number | null;
+  out_of_range: number;
+  specimen_date: string | null;
+  count: number;
+}
+
+export interface SeriesPoint {
+  id: number;
+  report_id: number;
+  filename: string;
+  test_name: string;
+  value: number;
+  value_text: string | null;
+  unit: string | null;
+  reference_range: string | null;
+  reference_low: number | null;
+  reference_high: number | null;
+  out_of_range: number;
+  date: string;
+}
+
+export interface CitationsResponse {
+  citations: Citation[];
+  pages: { page: number, text: string }[];
+}
+
+export interface MessageHit {
+  id: number;
+  session_id: number;
+  session_title: string | null;
+  role: 'user' | 'assistant';
+  created_at: string;
+  snippet: string;
+}
+
+export interface ReportHit {
+  id: number;
+  filename: string;
+  created_at: string;
+  snippet: string;
+}
+
+export interface SearchResults {
+  messages: MessageHit[];
+  reports: ReportHit[];
+}
+
+export interface QuotaCounter {
+  used: number;
+  limit: number;
+}
+
+/** The caller's AI allowance for the current UTC day. */
+export interface AiUsage {
+  requests: QuotaCounter;
+  tokens: QuotaCounter;
+  resetsAt: string;
+}
+
+/** One audit_log row as the user sees it in Recent Activity. */
+export interface ActivityEntry {
+  id: number;
+  action: AuditAction;
+  resource: string;
+  resource_id: string | null;
+  status: number;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface AuditLogRow extends ActivityEntry {
+  actor_id: number;
+  actor_email: string | null;
+}
+
+export interface VisitSummarySession extends ChatSession {
+  messages: ChatHistoryRow[];
+}
+
+export interface VisitSummaryReport extends ReportRow {
+  lab_results: LabResultRow[];
+}
+
+/** Everything a visit summary PDF is built from. */
+export interface VisitSummary {
+  profile: ProfileRow;
+  history: MedicalHistory;
+  from: string | null;
+  to: string | null;
+  sessions: VisitSummarySession[];
+  reports: VisitSummaryReport[];
+}
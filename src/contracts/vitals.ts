@@ -0,0 +1,126 @@
+// Vital sign and symptom definitions: accepted units, plausible ranges and the
+// adult thresholds readings are flagged against. Request validation, the
+// Dashboard and src/services/vitals.ts all read them from here.
+
+export const VITAL_TYPE_IDS = ['blood_pressure', 'heart_rate', 'glucose', 'weight', 'temperature', 'symptom'] as const;
+
+export type VitalType = typeof VITAL_TYPE_IDS[number];
+
+/** Outside the usual adult range; the `very_` flags are the ones worth acting on soon. */
+export type VitalFlag = 'very_low' | 'low' | 'high' | 'very_high';
+
+export interface Thresholds {
+  veryLow?: number;
+  low?: number;
+  high?: number;
+  veryHigh?: number;
+}
+
+export interface VitalDefinition {
+  label: string;
+  /** Accepted units, each as [factor, offset] to the first (canonical) one: canonical = value * factor + offset. */
+  units: Record<string, [number, number]>;
+  /** Blood pressure carries a second value, the diastolic. */
+  paired?: boolean;
+  /** Plausible values in the canonical unit; anything outside is a typo. */
+  range: [number, number];
+  /** In the canonical unit. */
+  thresholds: Thresholds;
+  /** For the second value of a paired reading. */
+  secondThresholds?: Thresholds;
+  secondRange?: [number, number];
+  decimals: number;
+}
+
+export const VITALS: Record<VitalType, VitalDefinition> = {
+  blood_pressure: {
+    label: 'Blood pressure',
+    units: { mmHg: [1, 0] },
+    paired: true,
+    range: [50, 300],
+    secondRange: [20, 200],
+    thresholds: { low: 90, high: 140, veryHigh: 180 },
+    secondThresholds: { low: 60, high: 90, veryHigh: 120 },
+    decimals: 0,
+  },
+  heart_rate: {
+    label: 'Heart rate',
+    units: { bpm: [1, 0] },
+    range: [20, 250],
+    thresholds: { veryLow: 40, low: 50, high: 100, veryHigh: 130 },
+    decimals: 0,
+  },
+  glucose: {
+    label: 'Blood glucose',
+    units: { 'mg/dL': [1, 0], 'mmol/L': [18, 0] },
+    range: [10, 1000],
+    thresholds: { veryLow: 54, low: 70, high: 180, veryHigh: 300 },
+    decimals: 1,
+  },
+  weight: {
+    label: 'Weight',
+    units: { kg: [1, 0], lb: [0.45359237, 0] },
+    range: [1, 700],
+    thresholds: {},
+    decimals: 1,
+  },
+  temperature: {
+    label: 'Temperature',
+    units: { '°C': [1, 0], '°F': [5 / 9, -160 / 9] },
+    range: [25, 45],
+    thresholds: { low: 35, high: 38, veryHigh: 39.5 },
+    decimals: 1,
+  },
+  symptom: {
+    label: 'Symptom severity',
+    units: { '/10': [1, 0] },
+    range: [0, 10],
+    thresholds: { high: 7, veryHigh: 9 },
+    decimals: 0,
+  },
+};
+
+export interface VitalReading {
+  type: VitalType;
+  value: number;
+  value2: number | null;
+  unit: string;
+  /** The symptom's name; only symptoms have one. */
+  label: string | null;
+  /** UTC, SQLite DATETIME text or ISO. */
+  measured_at: string;
+}
+
+export const canonicalUnit = (type: VitalType) => Object.keys(VITALS[type].units)[0];
+
+/** Converts `value` from one of the type's units to another. */
+export function convertVital(type: VitalType, value: number, from: string, to = canonicalUnit(type)) {
+  const [fromFactor, fromOffset] = VITALS[type].units[from];
+  const [toFactor, toOffset] = VITALS[type].units[to];
+  return (value * fromFactor + fromOffset - toOffset) / toFactor;
+}
+
+/** Why a reading can't be stored, with the field at fault, or null when it is fine. */
+export function vitalProblem(reading: Pick<VitalReading, 'type' | 'value' | 'value2' | 'unit' | 'label'>): { path: string, message: string } | null {
+  const vital = VITALS[reading.type];
+  if (!(reading.unit in vital.units)) {
+    return { path: 'unit', message: `${vital.label} is recorded in ${Object.keys(vital.units).join(' or ')}` };
+  }
+  const value = convertVital(reading.type, reading.value, reading.unit);
+  if (value < vital.range[0] || value > vital.range[1]) {
+    return { path: 'value', message: `That ${vital.label.toLowerCase()} reading looks wrong; check the value and unit` };
+  }
+  if (vital.paired) {
+    if (reading.value2 === null) return { path: 'value2', message: 'Enter both the systolic and diastolic values' };
+    if (reading.value2 < vital.secondRange![0] || reading.value2 > vital.secondRange![1] || reading.value2 >= reading.value) {
+      return { path: 'value2', message: 'The diastolic value should be lower than the systolic' };
+    }
+  } else if (reading.value2 !== null) {
+    return { path: 'value2', message: `${vital.label} has a single value` };
+  }
+  if (reading.type === 'symptom') {
+    if (!reading.label) return { path: 'label', message: 'Name the symptom' };
+    if (!Number.isInteger(reading.value)) return { path: 'value', message: 'Rate the symptom from 0 to 10' };
+  }
+  return null;
+}
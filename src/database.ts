@@ -0,0 +1,15 @@
+import Database from 'better-sqlite3';
+import { runMigrations } from './migrations/index.ts';
+
+/** Where the SQLite database lives; `:memory:` gives a throwaway database for tests. */
+export const DATABASE_PATH = process.env.DATABASE_PATH || 'health.db';
+
+/** Opens a database and, unless told otherwise, brings its schema up to date. */
+export function openDatabase(path: string = DATABASE_PATH, options: { migrate?: boolean } = {}) {
+  const db = new Database(path);
+  db.pragma('foreign_keys = ON');
+  if (options.migrate !== false) {
+    runMigrations(db);
+  }
+  return db;
+}
@@ -0,0 +1,48 @@
+import type { NextFunction, Request, Response } from "express";
+import { AUDIT_ACTIONS, type AuditAction } from "../services/audit.ts";
+import type { ApiRequest } from "./validate.ts";
+
+export interface AuditEntry {
+  actorId: number;
+  action: AuditAction;
+  /** The route pattern, e.g. `/api/reports/:id/file`. */
+  resource: string;
+  resourceId: string | null;
+  status: number;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+// The record a request is about: its :id, or the chat session it is scoped to.
+const resourceIdOf = (req: Request) => {
+  const id = req.params?.id ?? req.params?.name ?? (req.query?.sessionId as unknown) ?? req.body?.sessionId;
+  return id === undefined || id === null || id === "" ? null : String(id);
+};
+
+/**
+ * Mount in front of routes whose access must be recorded. Once the response
+ * has gone out, every request that matched a route and carried a valid
+ * access token is passed to `write`, whatever its status; unauthenticated
+ * requests and unknown paths are not.
+ */
+export const auditTrail = (write: (entry: AuditEntry) => void) => (req: Request, res: Response, next: NextFunction) => {
+  res.on("finish", () => {
+    const user = (req as ApiRequest).user;
+    const action = AUDIT_ACTIONS[req.method];
+    if (!user || !req.route || !action) return;
+    try {
+      write({
+        actorId: user.id,
+        action,
+        resource: req.baseUrl + req.route.path,
+        resourceId: resourceIdOf(req),
+        status: res.statusCode,
+        ip: req.ip ?? null,
+        userAgent: req.get("user-agent") ?? null,
+      });
+    } catch (error) {
+      console.error("Audit Log Error:", error);
+    }
+  });
+  next();
+};
@@ -0,0 +1,51 @@
+import type { ErrorRequestHandler, Response } from "express";
+import multer from "multer";
+import type { ApiErrorBody, ErrorCode } from "../contracts/index.ts";
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  validation_failed: 400,
+  invalid_json: 400,
+  invalid_link: 400,
+  unauthorized: 401,
+  token_expired: 401,
+  forbidden: 403,
+  email_unverified: 403,
+  not_found: 404,
+  email_taken: 409,
+  gone: 410,
+  payload_too_large: 413,
+  rate_limited: 429,
+  internal: 500,
+  ai_unavailable: 502,
+};
+
+/** Sends the standard error body with the status that belongs to `code`, plus any detail fields. */
+export function sendError(res: Response, code: ErrorCode, message: string, extra: Omit<ApiErrorBody, "error" | "code"> = {}) {
+  const body: ApiErrorBody = { error: message, code, ...extra };
+  return res.status(ERROR_STATUS[code]).json(body);
+}
+
+/** A 429 telling the client when it may try again, in the body and the Retry-After header. */
+export function sendRateLimited(res: Response, message: string, retryAfter: number) {
+  const body: ApiErrorBody = { error: message, code: "rate_limited", retryAfter };
+  return res.status(ERROR_STATUS.rate_limited).set("Retry-After", String(retryAfter)).json(body);
+}
+
+/**
+ * Last-resort handler so body-parser, multer and unexpected errors also
+ * produce the standard error body rather than Express's HTML page.
+ */
+export const errorHandler: ErrorRequestHandler = (err, _req, res, next) => {
+  if (res.headersSent) return next(err);
+
+  if (err instanceof multer.MulterError) {
+    return err.code === "LIMIT_FILE_SIZE"
+      ? sendError(res, "payload_too_large", "Reports can be at most 20 MB")
+      : sendError(res, "validation_failed", err.message);
+  }
+  if (err.type === "entity.parse.failed") return sendError(res, "invalid_json", "The request body is not valid JSON");
+  if (err.type === "entity.too.large") return sendError(res, "payload_too_large", "The request body is too large");
+
+  console.error("Unhandled Error:", err);
+  sendError(res, "internal", "Something went wrong");
+};
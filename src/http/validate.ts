@@ -0,0 +1,68 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { z } from "zod";
+import type { ApiErrorBody } from "../contracts/index.ts";
+import { sendError } from "./errors.ts";
+
+/** The caller, as decoded from the access token by `authenticateToken`. */
+export interface TokenUser {
+  id: number;
+  email: string;
+  /** The `auth_sessions` row the token was issued for. */
+  sid: number;
+}
+
+/** A request after `authenticateToken` and schema validation. */
+export type ApiRequest<Body = unknown, Query = unknown, Params = unknown> =
+  Omit<Request, "body" | "query" | "params"> & { body: Body, query: Query, params: Params, user: TokenUser };
+
+/** Errors always use the standard body, whatever the success type. */
+export type ApiResponse<T> = Response<T | ApiErrorBody>;
+
+interface Schemas {
+  body?: z.ZodType;
+  query?: z.ZodType;
+  params?: z.ZodType;
+}
+
+type Parsed<T> = T extends z.ZodType ? z.output<T> : unknown;
+
+/** The request a `route` handler sees: each part parsed by its schema. */
+export type ValidatedRequest<S extends Schemas> = ApiRequest<Parsed<S["body"]>, Parsed<S["query"]>, Parsed<S["params"]>>;
+
+/**
+ * Parses the body, query and params against their schemas and replaces them
+ * with the parsed values, so handlers see trimmed, coerced and defaulted
+ * input. The first problem's message is shown to the user; every problem
+ * is listed with its field path in `details`.
+ */
+export const validate = (schemas: Schemas) => (req: Request, res: Response, next: NextFunction) => {
+  for (const part of ["params", "query", "body"] as const) {
+    const schema = schemas[part];
+    if (!schema) continue;
+
+    const result = schema.safeParse(req[part] ?? {});
+    if (!result.success) {
+      const details = result.error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }));
+      return sendError(res, "validation_failed", details[0].message, { details });
+    }
+    Object.assign(req, { [part]: result.data });
+  }
+  next();
+};
+
+/**
+ * Validation plus a handler typed from the same schemas. Spread it into the
+ * route: `app.post(path, authenticateToken, ...route({ body }, handler))`.
+ * Rejected promises are passed on to the error handler.
+ */
+export function route<S extends Schemas, T>(
+  schemas: S,
+  handler: (req: ValidatedRequest<S>, res: ApiResponse<T>) => unknown
+): RequestHandler[] {
+  // By now `validate` has replaced each part with its parsed value and
+  // `authenticateToken` has set the user, which Express's types can't follow.
+  const run: RequestHandler = (req, res, next) => {
+    Promise.resolve(handler(req as unknown as ValidatedRequest<S>, res)).catch(next);
+  };
+  return [validate(schemas), run];
+}
@@ -0,0 +1,63 @@
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const USER_KEY = 'user';
+
+/** Fired on `window` when the refresh token is rejected and the user must sign in again. */
+export const SESSION_EXPIRED_EVENT = 'auth:expired';
+
+export function storeTokens(tokens: { token: string, refreshToken: string }) {
+  localStorage.setItem(TOKEN_KEY, tokens.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+}
+
+export function clearAuth() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+}
+
+let refreshing: Promise<boolean> | null = null;
+
+async function refreshTokens(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+  try {
+    const res = await fetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken })
+    });
+    if (res.ok) {
+      storeTokens(await res.json());
+      return true;
+    }
+    // Another tab may have rotated the token while this request was in flight.
+    return localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken;
+  } catch (err) {
+    console.error("Failed to refresh session:", err);
+    return false;
+  }
+}
+
+/**
+ * `fetch` with the access token attached. A 401 triggers one refresh (shared
+ * by concurrent callers) and a retry; if the refresh fails the stored
+ * credentials are cleared and SESSION_EXPIRED_EVENT is fired.
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${localStorage.getItem(TOKEN_KEY)}`);
+    return fetch(input, { ...init, headers });
+  };
+
+  const res = await send();
+  if (res.status !== 401) return res;
+
+  refreshing ??= refreshTokens().finally(() => { refreshing = null; });
+  if (await refreshing) return send();
+
+  clearAuth();
+  window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  return res;
+}
@@ -0,0 +1,43 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import type { Blockquote, Nodes, Root } from 'mdast';
+
+/** Matches the `[[n]]` markers report analyses use to cite the source PDF. */
+export const CITATION_MARKER = /\[\[(\d+)\]\]/g;
+
+/**
+ * Blockquotes opening with this marker are emergency warnings, e.g.
+ * `> [!EMERGENCY]` followed by the advice. The system prompt and the triage
+ * fallback reply both write it.
+ */
+const EMERGENCY_MARKER = /^\s*\[!EMERGENCY\][ \t]*\n?/i;
+
+/**
+ * remark plugin: strips the marker from emergency blockquotes and tags them
+ * with `data-callout="emergency"`, so renderers can tell them apart without
+ * re-reading the text.
+ */
+export const remarkEmergencyCallouts = () => (tree: Root) => {
+  const walk = (node: Nodes) => {
+    if (node.type === 'blockquote') {
+      const paragraph = node.children[0];
+      const text = paragraph?.type === 'paragraph' ? paragraph.children[0] : undefined;
+      if (paragraph?.type === 'paragraph' && text?.type === 'text' && EMERGENCY_MARKER.test(text.value)) {
+        text.value = text.value.replace(EMERGENCY_MARKER, '');
+        if (!text.value) paragraph.children.shift();
+        if (paragraph.children.length === 0) node.children.shift();
+        node.data = { ...node.data, hProperties: { ...node.data?.hProperties, dataCallout: 'emergency' } };
+      }
+    }
+    if ('children' in node) node.children.forEach(walk);
+  };
+  walk(tree);
+};
+
+export const isEmergencyCallout = (node: Blockquote) => node.data?.hProperties?.dataCallout === 'emergency';
+
+const processor = unified().use(remarkParse).use(remarkGfm).use(remarkEmergencyCallouts);
+
+/** The Markdown syntax tree the chat renders from, for non-DOM outputs such as PDFs. */
+export const parseMarkdown = (text: string) => processor.runSync(processor.parse(text)) as Root;
@@ -0,0 +1,492 @@
+import { jsPDF } from 'jspdf';
+import type { Nodes, PhrasingContent, RootContent, Table } from 'mdast';
+import { CITATION_MARKER, isEmergencyCallout, parseMarkdown } from './markdown';
+import type { ChatHistoryRow, LabResultRow, VisitSummary, VisitSummaryReport, VisitSummarySession } from '../contracts';
+
+type Rgb = [number, number, number];
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+interface Run {
+  text: string;
+  style: FontStyle;
+  mono?: boolean;
+  color?: Rgb;
+}
+
+const BRAND: Rgb = [37, 99, 235];
+const TEXT: Rgb = [30, 41, 59];
+const MUTED: Rgb = [100, 116, 139];
+const DANGER: Rgb = [220, 38, 38];
+const DANGER_BG: Rgb = [254, 242, 242];
+const RULE: Rgb = [226, 232, 240];
+const SURFACE: Rgb = [241, 245, 249];
+
+// Millimetres on A4. The top margin leaves room for the running header.
+const MARGIN = 18;
+const TOP = 22;
+const BOTTOM = 22;
+const LINE_HEIGHT_FACTOR = 1.45;
+const PT = 0.3528;
+const BODY_SIZE = 10;
+const HEADING_SIZES = [0, 14, 12.5, 11, 10.5, 10, 10];
+
+const DISCLAIMER = 'Generated by MyHealthAI, an AI assistant. This summary is not a diagnosis and does not replace professional medical advice.';
+
+// The built-in PDF fonts only cover Windows-1252; anything else would print as garbage.
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const REPLACEMENTS: Record<string, string> = { '≥': '>=', '≤': '<=', '≠': '!=', '→': '->', '←': '<-', '↑': 'up', '↓': 'down', '✓': 'v', '✔': 'v' };
+const pdfText = (text: string) =>
+  text.replace(/[^\t\n\x20-\xff]/gu, c => REPLACEMENTS[c] ?? (WIN_ANSI_EXTRAS.includes(c) ? c : ''));
+
+const lineHeight = (size: number) => size * PT * LINE_HEIGHT_FACTOR;
+
+const withStyle = (style: FontStyle, add: 'bold' | 'italic'): FontStyle =>
+  style === 'normal' ? add : style === add ? style : 'bolditalic';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString([], { dateStyle: 'medium' });
+// A bare YYYY-MM-DD is read as local midnight so it doesn't shift a day west of UTC.
+const formatDay = (date: string | null) => date ? formatDate(`${date}T00:00:00`) : '';
+const formatDateTime = (date: string) => new Date(date).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const plainText = (node: Nodes): string =>
+  'value' in node ? node.value : 'children' in node ? (node.children as Nodes[]).map(plainText).join('') : '';
+
+/** Flattens inline Markdown into styled runs; links keep their target in brackets. */
+function inlineRuns(nodes: PhrasingContent[], style: FontStyle = 'normal'): Run[] {
+  return nodes.flatMap((node): Run[] => {
+    switch (node.type) {
+      case 'text': return [{ text: node.value.replace(/\n/g, ' '), style }];
+      case 'strong': return inlineRuns(node.children, withStyle(style, 'bold'));
+      case 'emphasis': return inlineRuns(node.children, withStyle(style, 'italic'));
+      case 'inlineCode': return [{ text: node.value, style: 'normal', mono: true }];
+      case 'break': return [{ text: '\n', style }];
+      case 'html': return [{ text: node.value, style }];
+      case 'image': return [{ text: node.alt ?? '', style }];
+      case 'link': {
+        const label = inlineRuns(node.children, style);
+        const shown = plainText(node) === node.url || node.url.startsWith('#');
+        return shown ? label : [...label, { text: ` (${node.url})`, style: 'normal', color: MUTED }];
+      }
+      default: return 'children' in node ? inlineRuns(node.children as PhrasingContent[], style) : [];
+    }
+  });
+}
+
+/**
+ * Lays text out top to bottom, starting new pages as it goes. Page
+ * decoration (header band, running header, footer) is added by the caller.
+ */
+function createLayout(doc: jsPDF) {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const right = width - MARGIN;
+  const state = { y: TOP, indent: 0, color: TEXT };
+  const left = () => MARGIN + state.indent;
+
+  const setFont = (size: number, style: FontStyle = 'normal', mono = false) => {
+    doc.setFont(mono ? 'courier' : 'helvetica', style);
+    doc.setFontSize(size);
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    state.y = TOP;
+  };
+
+  const ensure = (space: number) => {
+    if (state.y + space > height - BOTTOM) newPage();
+  };
+
+  const gap = (space: number) => { state.y += space; };
+
+  /** Word-wrapped text in mixed styles. */
+  const flow = (runs: Run[], size = BODY_SIZE) => {
+    const lh = lineHeight(size);
+    let x = left();
+    let lineStarted = false;
+    let pendingSpace = false;
+    const newline = () => {
+      state.y += lh;
+      x = left();
+      lineStarted = false;
+      pendingSpace = false;
+      ensure(lh);
+    };
+
+    ensure(lh);
+    for (const run of runs) {
+      setFont(size, run.style, run.mono);
+      doc.setTextColor(...(run.color ?? state.color));
+      for (const token of pdfText(run.text).split(/(\n|[ \t]+)/)) {
+        if (!token) continue;
+        if (token === '\n') {
+          newline();
+          continue;
+        }
+        if (/^[ \t]+$/.test(token)) {
+          pendingSpace = lineStarted;
+          continue;
+        }
+        const space = pendingSpace ? doc.getTextWidth(' ') : 0;
+        const wordWidth = doc.getTextWidth(token);
+        if (lineStarted && x + space + wordWidth > right) newline();
+        else x += space;
+        pendingSpace = false;
+        // Words longer than a line (usually URLs) are broken wherever they must be.
+        const pieces: string[] = wordWidth > right - left() ? doc.splitTextToSize(token, right - left()) : [token];
+        pieces.forEach((piece, i) => {
+          if (i > 0) newline();
+          doc.text(piece, x, state.y, { baseline: 'top' });
+          x += doc.getTextWidth(piece);
+          lineStarted = true;
+        });
+      }
+    }
+    state.y += lh;
+  };
+
+  const rule = (color: Rgb = RULE) => {
+    doc.setDrawColor(...color);
+    doc.setLineWidth(0.3);
+    doc.line(left(), state.y, right, state.y);
+  };
+
+  /** A vertical bar beside content that may have run over several pages. */
+  const sideBar = (from: { page: number, y: number }, x: number, color: Rgb) => {
+    const to = { page: doc.getCurrentPageInfo().pageNumber, y: state.y };
+    doc.setFillColor(...color);
+    for (let page = from.page; page <= to.page; page++) {
+      doc.setPage(page);
+      const top = page === from.page ? from.y : TOP;
+      const bottom = page === to.page ? to.y : height - BOTTOM;
+      if (bottom > top) doc.rect(x, top, 0.8, bottom - top, 'F');
+    }
+    doc.setPage(to.page);
+  };
+
+  /**
+   * A table with wrapped cells; the header row repeats after a page break.
+   * `weights` sets the relative column widths.
+   */
+  const table = (head: string[], rows: string[][], { weights, flagged = () => false }: { weights?: number[], flagged?: (row: number) => boolean } = {}) => {
+    const size = 8.5;
+    const pad = 1.5;
+    const lh = lineHeight(size);
+    const shares = weights ?? head.map(() => 1);
+    const total = shares.reduce((sum, w) => sum + w, 0);
+    const widths = shares.map(w => (right - left()) * w / total);
+
+    const drawRow = (cells: string[], style: { bold?: boolean, fill?: Rgb, color?: Rgb }) => {
+      setFont(size, style.bold ? 'bold' : 'normal');
+      const wrapped = cells.map((cell, i) => doc.splitTextToSize(pdfText(cell ?? ''), widths[i] - 2 * pad) as string[]);
+      const rowHeight = Math.max(1, ...wrapped.map(lines => lines.length)) * lh + 2 * pad;
+      if (state.y + rowHeight > height - BOTTOM) {
+        newPage();
+        if (cells !== head) drawRow(head, { bold: true, fill: SURFACE });
+        setFont(size, style.bold ? 'bold' : 'normal');
+      }
+      if (style.fill) {
+        doc.setFillColor(...style.fill);
+        doc.rect(left(), state.y, right - left(), rowHeight, 'F');
+      }
+      doc.setTextColor(...(style.color ?? TEXT));
+      let x = left();
+      wrapped.forEach((lines, i) => {
+        doc.text(lines, x + pad, state.y + pad, { baseline: 'top', lineHeightFactor: LINE_HEIGHT_FACTOR });
+        x += widths[i];
+      });
+      state.y += rowHeight;
+      rule();
+    };
+
+    ensure(lh * 2 + 4 * pad);
+    drawRow(head, { bold: true, fill: SURFACE });
+    rows.forEach((row, i) => drawRow(row, flagged(i) ? { bold: true, fill: DANGER_BG, color: DANGER } : {}));
+  };
+
+  const markdownTable = (node: Table) => {
+    const [head, ...body] = node.children.map(row => row.children.map(cell => plainText(cell)));
+    if (!head) return;
+    // Columns get room in proportion to their longest cell, within limits.
+    const weights = head.map((_, i) => Math.min(30, Math.max(4, ...[head, ...body].map(row => (row[i] ?? '').length))));
+    table(head, body, { weights });
+  };
+
+  const blocks = (nodes: RootContent[]) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'heading':
+          gap(1.5);
+          flow(inlineRuns(node.children, 'bold'), HEADING_SIZES[node.depth]);
+          gap(1);
+          break;
+        case 'paragraph':
+          flow(inlineRuns(node.children));
+          gap(1.5);
+          break;
+        case 'list':
+          node.children.forEach((item, i) => {
+            ensure(lineHeight(BODY_SIZE));
+            setFont(BODY_SIZE);
+            doc.setTextColor(...state.color);
+            doc.text(node.ordered ? `${(node.start ?? 1) + i}.` : '•', left() + 1, state.y, { baseline: 'top' });
+            state.indent += 6;
+            blocks(item.children);
+            state.indent -= 6;
+          });
+          break;
+        case 'blockquote': {
+          const emergency = isEmergencyCallout(node);
+          const start = { page: doc.getCurrentPageInfo().pageNumber, y: state.y };
+          const barX = left();
+          const color = state.color;
+          state.indent += 4;
+          if (emergency) {
+            state.color = DANGER;
+            flow([{ text: 'EMERGENCY', style: 'bold' }], 8.5);
+          } else {
+            state.color = MUTED;
+          }
+          blocks(node.children);
+          state.indent -= 4;
+          state.color = color;
+          sideBar(start, barX, emergency ? DANGER : RULE);
+          gap(1.5);
+          break;
+        }
+        case 'code': {
+          const size = 8;
+          const lh = lineHeight(size);
+          setFont(size, 'normal', true);
+          for (const line of pdfText(node.value).split('\n')) {
+            for (const piece of doc.splitTextToSize(line || ' ', right - left() - 4) as string[]) {
+              ensure(lh);
+              doc.setFillColor(...SURFACE);
+              doc.rect(left(), state.y, right - left(), lh, 'F');
+              doc.setTextColor(...TEXT);
+              doc.text(piece, left() + 2, state.y, { baseline: 'top' });
+              state.y += lh;
+            }
+          }
+          gap(2);
+          break;
+        }
+        case 'table':
+          markdownTable(node);
+          gap(2);
+          break;
+        case 'thematicBreak':
+          ensure(4);
+          gap(1.5);
+          rule();
+          gap(2.5);
+          break;
+        case 'html':
+          flow([{ text: node.value, style: 'normal' }]);
+          gap(1.5);
+          break;
+        default:
+          if ('children' in node) blocks(node.children as RootContent[]);
+      }
+    }
+  };
+
+  const markdown = (text: string) => blocks(parseMarkdown(text.replace(CITATION_MARKER, '[$1]')).children);
+
+  return { doc, state, width, height, left, right, setFont, ensure, gap, flow, rule, table, markdown };
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+const section = (layout: Layout, title: string) => {
+  layout.ensure(20);
+  layout.gap(3);
+  layout.flow([{ text: title, style: 'bold', color: BRAND }], 13);
+  layout.rule(BRAND);
+  layout.gap(3);
+};
+
+const subheading = (layout: Layout, title: string, detail: string) => {
+  layout.ensure(16);
+  layout.flow([{ text: title, style: 'bold' }], 11);
+  if (detail) layout.flow([{ text: detail, style: 'normal', color: MUTED }], 8.5);
+  layout.gap(2);
+};
+
+const fullName = (summary: VisitSummary) => `${summary.profile.first_name} ${summary.profile.last_name}`.trim();
+
+const period = (summary: VisitSummary) =>
+  summary.from && summary.to ? `${formatDate(summary.from)} to ${formatDate(summary.to)}`
+    : summary.from ? `From ${formatDate(summary.from)}`
+      : summary.to ? `Until ${formatDate(summary.to)}`
+        : 'All records';
+
+function drawTitleBand(layout: Layout, title: string) {
+  const { doc, width } = layout;
+  doc.setFillColor(...BRAND);
+  doc.rect(0, 0, width, 26, 'F');
+  doc.setTextColor(255, 255, 255);
+  layout.setFont(18, 'bold');
+  doc.text('MyHealthAI', MARGIN, 10, { baseline: 'top' });
+  layout.setFont(11);
+  doc.text(pdfText(title), width - MARGIN, 9, { baseline: 'top', align: 'right' });
+  layout.setFont(8);
+  doc.text(`Generated ${formatDateTime(new Date().toISOString())}`, width - MARGIN, 15, { baseline: 'top', align: 'right' });
+  layout.state.y = 34;
+}
+
+function patientDetails(layout: Layout, summary: VisitSummary) {
+  const { doc, right } = layout;
+  const { profile } = summary;
+  const fields: [string, string][] = [
+    ['Patient', fullName(summary)],
+    ['Blood group', profile.blood_group || 'Not recorded'],
+    ['Date of birth', formatDay(profile.date_of_birth) || 'Not recorded'],
+    ['Sex', profile.sex ? profile.sex.charAt(0).toUpperCase() + profile.sex.slice(1) : 'Not recorded'],
+    ['Height', profile.height_cm ? `${profile.height_cm} cm` : 'Not recorded'],
+    ['Weight', profile.weight_kg ? `${profile.weight_kg} kg` : 'Not recorded'],
+    ['Email', profile.email],
+    ['Mobile', profile.mobile || 'Not recorded'],
+    ['Period', period(summary)],
+  ];
+  const column = (right - MARGIN) / 2;
+  fields.forEach(([label, value], i) => {
+    const x = MARGIN + (i % 2) * column;
+    const y = layout.state.y + Math.floor(i / 2) * 11;
+    layout.setFont(7, 'bold');
+    doc.setTextColor(...MUTED);
+    doc.text(label.toUpperCase(), x, y, { baseline: 'top' });
+    layout.setFont(BODY_SIZE);
+    doc.setTextColor(...TEXT);
+    doc.text(doc.splitTextToSize(pdfText(value), column - 4)[0] ?? '', x, y + 3.5, { baseline: 'top' });
+  });
+  layout.gap(Math.ceil(fields.length / 2) * 11);
+
+  if (profile.personal_notes) {
+    layout.flow([{ text: 'NOTES', style: 'bold', color: MUTED }], 7);
+    layout.flow([{ text: profile.personal_notes, style: 'normal' }]);
+  }
+  layout.gap(2);
+}
+
+// Allergies first, since they matter most to whoever reads this; empty lists are skipped.
+function historySection(layout: Layout, { history }: VisitSummary) {
+  const { allergies, conditions, medications, surgeries } = history;
+  if (allergies.length + conditions.length + medications.length + surgeries.length === 0) return;
+  section(layout, 'Medical history');
+
+  const list = (title: string, headers: string[], rows: string[][], weights: number[], flagged?: (row: number) => boolean) => {
+    if (rows.length === 0) return;
+    subheading(layout, title, '');
+    layout.table(headers, rows, { weights, flagged });
+    layout.gap(3);
+  };
+  list('Allergies', ['Substance', 'Reaction', 'Severity'],
+    allergies.map(a => [a.substance, a.reaction ?? '', a.severity ?? '']), [8, 10, 4],
+    i => allergies[i].severity === 'severe');
+  list('Conditions', ['Condition', 'Status', 'Diagnosed', 'Notes'],
+    conditions.map(c => [c.name, c.status, formatDay(c.diagnosed_on), c.notes ?? '']), [8, 4, 5, 10]);
+  list('Medications', ['Medication', 'Dose', 'Frequency', 'Started', 'Stopped', 'Notes'],
+    medications.map(m => [m.name, m.dose ?? '', m.frequency ?? '', formatDay(m.started_on), formatDay(m.stopped_on), m.notes ?? '']), [7, 4, 5, 4, 4, 7]);
+  list('Surgeries', ['Procedure', 'Date', 'Notes'],
+    surgeries.map(s => [s.procedure, formatDay(s.performed_on), s.notes ?? '']), [9, 4, 10]);
+}
+
+const labFlag = (result: LabResultRow) => {
+  if (!result.out_of_range) return '';
+  if (result.value !== null && result.reference_low !== null && result.value < result.reference_low) return 'Low';
+  if (result.value !== null && result.reference_high !== null && result.value > result.reference_high) return 'High';
+  return 'Out of range';
+};
+
+function reportSection(layout: Layout, report: VisitSummaryReport) {
+  const outOfRange = report.lab_results.filter(r => r.out_of_range).length;
+  const detail = [`Uploaded ${formatDate(report.created_at)}`, outOfRange > 0 && `${outOfRange} out of range`].filter(Boolean).join(' · ');
+  subheading(layout, report.filename, detail);
+
+  if (report.lab_results.length > 0) {
+    layout.table(
+      ['Test', 'Result', 'Unit', 'Reference range', 'Flag'],
+      report.lab_results.map(r => [r.test_name, r.value_text ?? (r.value === null ? '' : String(r.value)), r.unit ?? '', r.reference_range ?? '', labFlag(r)]),
+      { weights: [10, 5, 4, 7, 5], flagged: i => !!report.lab_results[i].out_of_range }
+    );
+    layout.gap(3);
+  }
+  if (report.analysis) layout.markdown(report.analysis);
+  else layout.flow([{ text: 'This report has not been analyzed.', style: 'italic', color: MUTED }]);
+  layout.gap(3);
+}
+
+function messageBlock(layout: Layout, message: ChatHistoryRow) {
+  layout.ensure(12);
+  layout.flow([
+    { text: message.role === 'user' ? 'You' : 'MyHealthAI', style: 'bold', color: message.role === 'user' ? TEXT : BRAND },
+    { text: `  ${formatDateTime(message.created_at)}${message.partial ? ' · response stopped' : ''}`, style: 'normal', color: MUTED },
+  ], 8.5);
+  layout.gap(0.5);
+  layout.markdown(message.content);
+  layout.gap(1.5);
+}
+
+function sessionSection(layout: Layout, session: VisitSummarySession) {
+  const first = session.messages[0];
+  const last = session.messages[session.messages.length - 1];
+  const dates = formatDate(first.created_at) === formatDate(last.created_at)
+    ? formatDate(first.created_at)
+    : `${formatDate(first.created_at)} to ${formatDate(last.created_at)}`;
+  subheading(layout, session.title, `${dates} · ${session.messages.length} messages`);
+  session.messages.forEach(message => messageBlock(layout, message));
+  layout.gap(2);
+}
+
+// Running header on every page but the first, and the footer on all of them.
+function decoratePages(layout: Layout, summary: VisitSummary, title: string) {
+  const { doc, width, height } = layout;
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    if (page > 1) {
+      layout.setFont(8);
+      doc.setTextColor(...MUTED);
+      doc.text(pdfText(`MyHealthAI · ${title} · ${fullName(summary)}`), MARGIN, 10, { baseline: 'top' });
+      doc.setDrawColor(...RULE);
+      doc.setLineWidth(0.3);
+      doc.line(MARGIN, 15, width - MARGIN, 15);
+    }
+    doc.setDrawColor(...RULE);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, height - 16, width - MARGIN, height - 16);
+    layout.setFont(7);
+    doc.setTextColor(...MUTED);
+    doc.text(doc.splitTextToSize(DISCLAIMER, width - 2 * MARGIN - 25), MARGIN, height - 14, { baseline: 'top' });
+    doc.text(`Page ${page} of ${pages}`, width - MARGIN, height - 14, { baseline: 'top', align: 'right' });
+  }
+}
+
+/**
+ * A printable summary for a doctor: patient details and medical history, then
+ * each report with its lab results (out-of-range values highlighted) and
+ * analysis, then each conversation with its Markdown rendered.
+ */
+export function buildVisitSummaryPdf(summary: VisitSummary, title = 'Visit summary') {
+  const layout = createLayout(new jsPDF({ unit: 'mm', format: 'a4' }));
+
+  drawTitleBand(layout, title);
+  patientDetails(layout, summary);
+  historySection(layout, summary);
+
+  if (summary.reports.length > 0) {
+    section(layout, 'Reports and lab results');
+    summary.reports.forEach(report => reportSection(layout, report));
+  }
+  if (summary.sessions.length > 0) {
+    section(layout, 'Conversations');
+    summary.sessions.forEach(session => sessionSection(layout, session));
+  }
+  if (summary.reports.length === 0 && summary.sessions.length === 0) {
+    layout.flow([{ text: 'There are no conversations or reports in this period.', style: 'italic', color: MUTED }]);
+  }
+
+  decoratePages(layout, summary, title);
+  return layout.doc;
+}
@@ -0,0 +1,60 @@
+import { authFetch } from './api';
+import type { PushConfig, PushSubscriptionRequest } from '../contracts';
+
+const WORKER_URL = '/push-sw.js';
+
+export const pushSupported = () => 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// VAPID keys are base64url; PushManager wants the raw bytes.
+const keyBytes = (base64url: string) => {
+  const base64 = (base64url + '='.repeat((4 - base64url.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const currentSubscription = async () => {
+  const registration = await navigator.serviceWorker.getRegistration(WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/** Whether this browser is subscribed for reminder notifications. */
+export async function isPushEnabled() {
+  return pushSupported() && Notification.permission === 'granted' && !!(await currentSubscription());
+}
+
+/**
+ * Asks for notification permission, subscribes this browser with the
+ * server's VAPID key and registers the subscription. Throws with a message
+ * for the user when any step is refused.
+ */
+export async function enablePush() {
+  if (!pushSupported()) throw new Error('This browser does not support notifications.');
+  const res = await authFetch('/api/push/config');
+  const { publicKey }: PushConfig = await res.json();
+  if (!publicKey) throw new Error('Browser notifications are not set up on this server.');
+  if (await Notification.requestPermission() !== 'granted') throw new Error('Notifications are blocked for this site in your browser settings.');
+
+  const registration = await navigator.serviceWorker.register(WORKER_URL);
+  await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyBytes(publicKey) });
+
+  const body = subscription.toJSON() as PushSubscriptionRequest;
+  const saved = await authFetch('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!saved.ok) throw new Error((await saved.json()).error);
+}
+
+/** Unsubscribes this browser and forgets it on the server. */
+export async function disablePush() {
+  const subscription = await currentSubscription();
+  if (!subscription) return;
+  await authFetch('/api/push/subscriptions', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint })
+  });
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,68 @@
+import { addColumn, type Migration } from './types.ts';
+
+// Streaming, provider tracking, triage and structured report storage.
+const migration: Migration = {
+  version: 2,
+  name: 'ai_reports_and_triage',
+  up: (db) => {
+    addColumn(db, 'chat_history', 'partial', 'INTEGER NOT NULL DEFAULT 0');
+    addColumn(db, 'chat_history', 'severity', 'TEXT');
+    addColumn(db, 'chat_history', 'provider', 'TEXT');
+    addColumn(db, 'chat_history', 'model', 'TEXT');
+    addColumn(db, 'chat_history', 'report_id', 'INTEGER REFERENCES medical_reports(id)');
+
+    addColumn(db, 'medical_reports', 'session_id', 'INTEGER REFERENCES chat_sessions(id)');
+    addColumn(db, 'medical_reports', 'citations', 'TEXT');
+    addColumn(db, 'medical_reports', 'stored_path', 'TEXT');
+    addColumn(db, 'medical_reports', 'mime_type', 'TEXT');
+    addColumn(db, 'medical_reports', 'size_bytes', 'INTEGER');
+    addColumn(db, 'medical_reports', 'sha256', 'TEXT');
+    addColumn(db, 'medical_reports', 'analyzed_at', 'DATETIME');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS triage_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        session_id INTEGER,
+        severity TEXT NOT NULL,
+        matches TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (session_id) REFERENCES chat_sessions(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS lab_results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        report_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        test_name TEXT NOT NULL,
+        marker TEXT NOT NULL,
+        value REAL,
+        value_text TEXT,
+        unit TEXT,
+        reference_range TEXT,
+        reference_low REAL,
+        reference_high REAL,
+        out_of_range INTEGER NOT NULL DEFAULT 0,
+        specimen_date TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (report_id) REFERENCES medical_reports(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS report_pages (
+        report_id INTEGER NOT NULL,
+        page INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        PRIMARY KEY (report_id, page),
+        FOREIGN KEY (report_id) REFERENCES medical_reports(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_lab_results_user_marker ON lab_results (user_id, marker, specimen_date);
+      CREATE INDEX IF NOT EXISTS idx_lab_results_report ON lab_results (report_id);
+    `);
+    addColumn(db, 'lab_results', 'page', 'INTEGER');
+  },
+};
+
+export default migration;
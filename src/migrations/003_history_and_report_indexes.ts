@@ -0,0 +1,14 @@
+import type { Migration } from './types.ts';
+
+const migration: Migration = {
+  version: 3,
+  name: 'history_and_report_indexes',
+  up: (db) => {
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_chat_history_user_session_created ON chat_history (user_id, session_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_medical_reports_user ON medical_reports (user_id);
+    `);
+  },
+};
+
+export default migration;
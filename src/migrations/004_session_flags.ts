@@ -0,0 +1,24 @@
+import { addColumn, type Migration } from './types.ts';
+
+const migration: Migration = {
+  version: 4,
+  name: 'session_flags',
+  up: (db) => {
+    addColumn(db, 'chat_sessions', 'pinned', 'INTEGER NOT NULL DEFAULT 0');
+    addColumn(db, 'chat_sessions', 'archived', 'INTEGER NOT NULL DEFAULT 0');
+
+    // chat_history's foreign key predates ON DELETE CASCADE and SQLite can't alter it,
+    // so deleting a session clears its dependents here instead.
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS chat_sessions_before_delete
+      BEFORE DELETE ON chat_sessions
+      BEGIN
+        DELETE FROM chat_history WHERE session_id = OLD.id;
+        DELETE FROM triage_events WHERE session_id = OLD.id;
+        UPDATE medical_reports SET session_id = NULL WHERE session_id = OLD.id;
+      END;
+    `);
+  },
+};
+
+export default migration;
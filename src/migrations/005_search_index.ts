@@ -0,0 +1,49 @@
+import type { Migration } from './types.ts';
+
+/**
+ * External-content FTS5 tables over chat messages and report analyses. The
+ * triggers keep them in step with their source tables, so nothing in the
+ * application writes to them directly.
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'search_index',
+  up: (db) => {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS chat_history_fts USING fts5(
+        content, content='chat_history', content_rowid='id', tokenize='porter unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS chat_history_fts_insert AFTER INSERT ON chat_history BEGIN
+        INSERT INTO chat_history_fts (rowid, content) VALUES (NEW.id, NEW.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS chat_history_fts_delete AFTER DELETE ON chat_history BEGIN
+        INSERT INTO chat_history_fts (chat_history_fts, rowid, content) VALUES ('delete', OLD.id, OLD.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS chat_history_fts_update AFTER UPDATE OF content ON chat_history BEGIN
+        INSERT INTO chat_history_fts (chat_history_fts, rowid, content) VALUES ('delete', OLD.id, OLD.content);
+        INSERT INTO chat_history_fts (rowid, content) VALUES (NEW.id, NEW.content);
+      END;
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS medical_reports_fts USING fts5(
+        analysis, content='medical_reports', content_rowid='id', tokenize='porter unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS medical_reports_fts_insert AFTER INSERT ON medical_reports BEGIN
+        INSERT INTO medical_reports_fts (rowid, analysis) VALUES (NEW.id, NEW.analysis);
+      END;
+      CREATE TRIGGER IF NOT EXISTS medical_reports_fts_delete AFTER DELETE ON medical_reports BEGIN
+        INSERT INTO medical_reports_fts (medical_reports_fts, rowid, analysis) VALUES ('delete', OLD.id, OLD.analysis);
+      END;
+      CREATE TRIGGER IF NOT EXISTS medical_reports_fts_update AFTER UPDATE OF analysis ON medical_reports BEGIN
+        INSERT INTO medical_reports_fts (medical_reports_fts, rowid, analysis) VALUES ('delete', OLD.id, OLD.analysis);
+        INSERT INTO medical_reports_fts (rowid, analysis) VALUES (NEW.id, NEW.analysis);
+      END;
+
+      INSERT INTO chat_history_fts (chat_history_fts) VALUES ('rebuild');
+      INSERT INTO medical_reports_fts (medical_reports_fts) VALUES ('rebuild');
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import type { Migration } from './types.ts';
+
+/**
+ * One row per signed-in device. The refresh token rotates on every use;
+ * the previous hash is kept so a replayed token can be recognised and the
+ * whole session revoked.
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'auth_sessions',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        refresh_token_hash TEXT NOT NULL UNIQUE,
+        previous_token_hash TEXT,
+        user_agent TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions (user_id);
+      CREATE INDEX IF NOT EXISTS idx_auth_sessions_previous ON auth_sessions (previous_token_hash);
+    `);
+  },
+};
+
+export default migration;
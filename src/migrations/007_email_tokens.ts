@@ -0,0 +1,30 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * Email verification and password reset. Tokens are signed JWTs; this table
+ * records each one's id so it can be used only once. Accounts that existed
+ * before verification was introduced are treated as verified.
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'email_tokens',
+  up: (db) => {
+    addColumn(db, 'users', 'email_verified_at', 'DATETIME');
+    db.exec(`
+      UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+
+      CREATE TABLE IF NOT EXISTS email_tokens (
+        jti TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        purpose TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_email_tokens_user_purpose ON email_tokens (user_id, purpose);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * Throttling state. `rate_limits` holds fixed-window counters keyed by
+ * limiter and client (IP or email); the users columns track consecutive
+ * failed sign-ins for lockout; `ai_usage` counts model requests and
+ * estimated tokens per user per UTC day.
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'rate_limits',
+  up: (db) => {
+    addColumn(db, 'users', 'failed_logins', 'INTEGER NOT NULL DEFAULT 0');
+    addColumn(db, 'users', 'locked_until', 'DATETIME');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        key TEXT PRIMARY KEY,
+        hits INTEGER NOT NULL,
+        window_ends_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS ai_usage (
+        user_id INTEGER NOT NULL,
+        day TEXT NOT NULL,
+        requests INTEGER NOT NULL DEFAULT 0,
+        tokens INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (user_id, day),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+    `);
+  },
+};
+
+export default migration;
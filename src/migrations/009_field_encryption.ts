@@ -0,0 +1,32 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * Key versions for field-level encryption (see src/services/encryption.ts).
+ * Existing rows keep a NULL version, meaning plaintext, until
+ * `npm run migrate -- reencrypt` seals them.
+ *
+ * The FTS5 indexes from 005 would hold the plaintext of every message and
+ * analysis, so they are dropped; search now runs over decrypted rows.
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'field_encryption',
+  up: (db) => {
+    for (const table of ['users', 'chat_history', 'medical_reports', 'report_pages']) {
+      addColumn(db, table, 'key_version', 'INTEGER');
+    }
+    db.exec(`
+      DROP TRIGGER IF EXISTS chat_history_fts_insert;
+      DROP TRIGGER IF EXISTS chat_history_fts_delete;
+      DROP TRIGGER IF EXISTS chat_history_fts_update;
+      DROP TABLE IF EXISTS chat_history_fts;
+
+      DROP TRIGGER IF EXISTS medical_reports_fts_insert;
+      DROP TRIGGER IF EXISTS medical_reports_fts_delete;
+      DROP TRIGGER IF EXISTS medical_reports_fts_update;
+      DROP TABLE IF EXISTS medical_reports_fts;
+    `);
+  },
+};
+
+export default migration;
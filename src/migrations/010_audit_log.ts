@@ -0,0 +1,37 @@
+import type { Migration } from './types.ts';
+
+/**
+ * Who touched which health record, and when. Rows are only ever inserted:
+ * the triggers reject updates and deletes, so the application cannot
+ * rewrite history even by mistake. actor_id deliberately has no foreign key
+ * so entries outlive the account they describe.
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'audit_log',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor_id INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        resource TEXT NOT NULL,
+        resource_id TEXT,
+        status INTEGER NOT NULL,
+        ip TEXT,
+        user_agent TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log (actor_id, id);
+
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `);
+  },
+};
+
+export default migration;
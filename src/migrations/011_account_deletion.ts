@@ -0,0 +1,17 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * Account deletion requests. The account is purged, with everything that
+ * belongs to it, once `deletion_scheduled_at` has passed; until then the
+ * user can sign in and cancel.
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'account_deletion',
+  up: (db) => {
+    addColumn(db, 'users', 'deletion_scheduled_at', 'DATETIME');
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_users_deletion ON users (deletion_scheduled_at) WHERE deletion_scheduled_at IS NOT NULL;`);
+  },
+};
+
+export default migration;
@@ -0,0 +1,73 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * Structured medical history: date of birth, sex and measurements on users,
+ * and one table per kind of history entry. Apart from the status and
+ * severity enums every value is encrypted at rest (see ENCRYPTED_COLUMNS),
+ * which is why the new users columns are TEXT and each table has a
+ * key_version.
+ */
+const migration: Migration = {
+  version: 12,
+  name: 'medical_history',
+  up: (db) => {
+    addColumn(db, 'users', 'date_of_birth', 'TEXT');
+    addColumn(db, 'users', 'sex', 'TEXT');
+    addColumn(db, 'users', 'height_cm', 'TEXT');
+    addColumn(db, 'users', 'weight_kg', 'TEXT');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS conditions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        diagnosed_on TEXT,
+        notes TEXT,
+        key_version INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_conditions_user ON conditions (user_id);
+
+      CREATE TABLE IF NOT EXISTS allergies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        substance TEXT NOT NULL,
+        reaction TEXT,
+        severity TEXT,
+        key_version INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_allergies_user ON allergies (user_id);
+
+      CREATE TABLE IF NOT EXISTS medications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        dose TEXT,
+        frequency TEXT,
+        started_on TEXT,
+        notes TEXT,
+        key_version INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_medications_user ON medications (user_id);
+
+      CREATE TABLE IF NOT EXISTS surgeries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        procedure TEXT NOT NULL,
+        performed_on TEXT,
+        notes TEXT,
+        key_version INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_surgeries_user ON surgeries (user_id);
+    `);
+  },
+};
+
+export default migration;
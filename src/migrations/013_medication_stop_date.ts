@@ -0,0 +1,15 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * When a medication was, or will be, stopped. Encrypted like the start date,
+ * so it is TEXT and shares the row's key_version.
+ */
+const migration: Migration = {
+  version: 13,
+  name: 'medication_stop_date',
+  up: (db) => {
+    addColumn(db, 'medications', 'stopped_on', 'TEXT');
+  },
+};
+
+export default migration;
@@ -0,0 +1,83 @@
+import type { Migration } from './types.ts';
+
+/**
+ * Reminders and the scheduler's job queue. A reminder is the user's
+ * definition (daily dose times in their time zone, or a one-off refill or
+ * appointment); each occurrence is one persisted job, notified at
+ * `notify_at` and then answered or missed, which is what adherence is
+ * computed from. Notifications are the in-app inbox; push subscriptions are
+ * the browsers registered for Web Push. Titles, notes and notification text
+ * are encrypted at rest.
+ */
+const migration: Migration = {
+  version: 14,
+  name: 'reminders',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS reminders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        title TEXT NOT NULL,
+        notes TEXT,
+        medication_id INTEGER,
+        times TEXT,
+        timezone TEXT NOT NULL DEFAULT 'UTC',
+        due_at DATETIME,
+        lead_minutes INTEGER NOT NULL DEFAULT 0,
+        active INTEGER NOT NULL DEFAULT 1,
+        key_version INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (medication_id) REFERENCES medications(id) ON DELETE SET NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_reminders_user ON reminders (user_id);
+
+      CREATE TABLE IF NOT EXISTS reminder_occurrences (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        reminder_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        scheduled_for DATETIME NOT NULL,
+        notify_at DATETIME NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        snoozes INTEGER NOT NULL DEFAULT 0,
+        notified_at DATETIME,
+        responded_at DATETIME,
+        UNIQUE (reminder_id, scheduled_for),
+        FOREIGN KEY (reminder_id) REFERENCES reminders(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_occurrences_due ON reminder_occurrences (status, notify_at);
+      CREATE INDEX IF NOT EXISTS idx_occurrences_user ON reminder_occurrences (user_id, scheduled_for);
+
+      CREATE TABLE IF NOT EXISTS notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT,
+        url TEXT,
+        occurrence_id INTEGER,
+        read_at DATETIME,
+        key_version INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (occurrence_id) REFERENCES reminder_occurrences(id) ON DELETE SET NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications (user_id, id);
+
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        endpoint TEXT NOT NULL UNIQUE,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        user_agent TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions (user_id);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import type { Migration } from './types.ts';
+
+/**
+ * Logged vital signs and symptom severities. Values stay numeric, like
+ * lab_results, so they can be charted and compared; the symptom name and
+ * notes are encrypted. `value2` is the diastolic of a blood pressure.
+ */
+const migration: Migration = {
+  version: 15,
+  name: 'vitals',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS vitals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        value REAL NOT NULL,
+        value2 REAL,
+        unit TEXT NOT NULL,
+        label TEXT,
+        notes TEXT,
+        measured_at DATETIME NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual',
+        key_version INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_vitals_user_time ON vitals (user_id, measured_at);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * Finished symptom-check interviews, one row per interview on its chat
+ * session. The answers and triage reasons are encrypted JSON; the triage
+ * level and care setting stay plain, like triage_events. The assistant
+ * message holding the summary points back at its interview.
+ */
+const migration: Migration = {
+  version: 16,
+  name: 'symptom_interviews',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS symptom_interviews (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        session_id INTEGER NOT NULL,
+        answers TEXT NOT NULL,
+        reasons TEXT NOT NULL,
+        triage_level TEXT NOT NULL,
+        care_setting TEXT NOT NULL,
+        key_version INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS idx_symptom_interviews_session ON symptom_interviews (session_id);
+    `);
+    addColumn(db, 'chat_history', 'interview_id', 'INTEGER REFERENCES symptom_interviews(id)');
+  },
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+import type { Migration } from './types.ts';
+
+/**
+ * Emails are compared case-insensitively at login, but the original UNIQUE
+ * constraint on users.email is case-sensitive, so "Ann@x.com" and
+ * "ann@x.com" could both register. Stored addresses are lowercased, as
+ * registration already does, and a NOCASE unique index stops new clashes.
+ * Accounts that differ only in case can't be merged automatically; the
+ * migration stops and names them so they can be resolved by hand.
+ */
+const migration: Migration = {
+  version: 17,
+  name: 'email_nocase',
+  up: (db) => {
+    const clashes = db.prepare(`
+      SELECT lower(email) AS email, group_concat(id) AS ids FROM users GROUP BY lower(email) HAVING COUNT(*) > 1
+    `).all() as { email: string, ids: string }[];
+    if (clashes.length > 0) {
+      throw new Error(`Accounts differ only in email case and must be merged first: ${clashes.map(c => `${c.email} (users ${c.ids})`).join('; ')}`);
+    }
+
+    db.exec(`
+      UPDATE users SET email = lower(email) WHERE email <> lower(email);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email_nocase ON users (email COLLATE NOCASE);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * A blind index for search over encrypted messages and report analyses (see
+ * indexForSearch in src/services/encryption.ts): keyed tokens of each word
+ * prefix, never the words themselves. `search_key_version` records which key
+ * a row's tokens were made with and is NULL until the row is indexed, which
+ * the server does for existing rows at startup. Deleting a message or report
+ * drops its tokens.
+ */
+const migration: Migration = {
+  version: 18,
+  name: 'search_tokens',
+  up: (db) => {
+    addColumn(db, 'chat_history', 'search_key_version', 'INTEGER');
+    addColumn(db, 'medical_reports', 'search_key_version', 'INTEGER');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS search_tokens (
+        user_id INTEGER NOT NULL,
+        token TEXT NOT NULL,
+        source TEXT NOT NULL CHECK (source IN ('message', 'report')),
+        row_id INTEGER NOT NULL,
+        PRIMARY KEY (user_id, token, source, row_id)
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS idx_search_tokens_row ON search_tokens (source, row_id);
+
+      CREATE TRIGGER IF NOT EXISTS chat_history_search_delete AFTER DELETE ON chat_history BEGIN
+        DELETE FROM search_tokens WHERE source = 'message' AND row_id = OLD.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS medical_reports_search_delete AFTER DELETE ON medical_reports BEGIN
+        DELETE FROM search_tokens WHERE source = 'report' AND row_id = OLD.id;
+      END;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import { addColumn, type Migration } from './types.ts';
+
+/**
+ * Key versions for triage matches and lab result values, which join the
+ * encrypted columns along with vitals readings (see ENCRYPTED_COLUMNS in
+ * src/services/encryption.ts). Existing rows stay readable as plaintext until
+ * `npm run migrate -- reencrypt` seals them; vitals rows already carry a
+ * key_version for their label and notes, so a reading still stored as a
+ * number is what marks it as plaintext.
+ *
+ * A lab result's marker, test name, unit, reference limits, out-of-range flag
+ * and dates stay plaintext: the marker list and trend series group, order and
+ * count by them in SQL. A vital's type, unit and time stay plaintext for the
+ * same reason.
+ */
+const migration: Migration = {
+  version: 19,
+  name: 'sealed_readings',
+  up: (db) => {
+    addColumn(db, 'triage_events', 'key_version', 'INTEGER');
+    addColumn(db, 'lab_results', 'key_version', 'INTEGER');
+  },
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import type { Migration } from './types.ts';
+
+/**
+ * Symptom checks used to name their new session after the complaint, which
+ * left that free text in plaintext in chat_sessions.title while the answers
+ * were sealed. Those titles are replaced with a generic one; titles the user
+ * has since renamed are left alone. New sessions are named after the body region.
+ */
+const migration: Migration = {
+  version: 20,
+  name: 'interview_titles',
+  up: (db) => {
+    db.exec(`
+      UPDATE chat_sessions SET title = 'Symptom check'
+      WHERE title LIKE 'Symptom check: %' AND id IN (SELECT session_id FROM symptom_interviews)
+    `);
+  },
+};
+
+export default migration;
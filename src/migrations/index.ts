@@ -0,0 +1,85 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from './types.ts';
+import initialSchema from './001_initial_schema.ts';
+import aiReportsAndTriage from './002_ai_reports_and_triage.ts';
+import historyAndReportIndexes from './003_history_and_report_indexes.ts';
+import sessionFlags from './004_session_flags.ts';
+import searchIndex from './005_search_index.ts';
+import authSessions from './006_auth_sessions.ts';
+import emailTokens from './007_email_tokens.ts';
+import rateLimits from './008_rate_limits.ts';
+import fieldEncryption from './009_field_encryption.ts';
+import auditLog from './010_audit_log.ts';
+import accountDeletion from './011_account_deletion.ts';
+import medicalHistory from './012_medical_history.ts';
+import medicationStopDate from './013_medication_stop_date.ts';
+import reminders from './014_reminders.ts';
+import vitals from './015_vitals.ts';
+import symptomInterviews from './016_symptom_interviews.ts';
+import emailNocase from './017_email_nocase.ts';
+import searchTokens from './018_search_tokens.ts';
+import sealedReadings from './019_sealed_readings.ts';
+import interviewTitles from './020_interview_titles.ts';
+
+export type { Migration } from './types.ts';
+
+/** Every migration, in order. Add new ones to the end of this list. */
+export const migrations: Migration[] = [
+  initialSchema,
+  aiReportsAndTriage,
+  historyAndReportIndexes,
+  sessionFlags,
+  searchIndex,
+  authSessions,
+  emailTokens,
+  rateLimits,
+  fieldEncryption,
+  auditLog,
+  accountDeletion,
+  medicalHistory,
+  medicationStopDate,
+  reminders,
+  vitals,
+  symptomInterviews,
+  emailNocase,
+  searchTokens,
+  sealedReadings,
+  interviewTitles,
+];
+
+const ensureMigrationsTable = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+export function appliedMigrations(db: Database.Database) {
+  ensureMigrationsTable(db);
+  return db.prepare("SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC").all() as { version: number, name: string, applied_at: string }[];
+}
+
+export function pendingMigrations(db: Database.Database, all: Migration[] = migrations) {
+  const applied = new Set(appliedMigrations(db).map(m => m.version));
+  return all.filter(m => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction, and
+ * returns the ones that ran. A failing migration rolls back and stops the run.
+ */
+export function runMigrations(db: Database.Database, all: Migration[] = migrations) {
+  const pending = pendingMigrations(db, all);
+  const record = db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)");
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name);
+    })();
+  }
+  return pending;
+}
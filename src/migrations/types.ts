@@ -0,0 +1,20 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  /** Applied in ascending order; never renumber a migration once it has shipped. */
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * Adds a column unless it is already there. Databases created before the
+ * migration runner existed picked up some columns ad hoc, so early
+ * migrations have to tolerate them.
+ */
+export const addColumn = (db: Database.Database, table: string, column: string, definition: string) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
@@ -0,0 +1,59 @@
+import type Database from "better-sqlite3";
+import { deleteUserFiles } from "./storage.ts";
+
+const DEFAULT_GRACE_DAYS = 30;
+
+/** Days between a deletion request and the purge, from ACCOUNT_DELETION_GRACE_DAYS. */
+export function deletionGraceDays(env: NodeJS.ProcessEnv = process.env) {
+  const days = Number(env.ACCOUNT_DELETION_GRACE_DAYS);
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS;
+}
+
+// Children before parents, so no foreign key is left pointing at a deleted row.
+const USER_ROWS = [
+  "DELETE FROM chat_history WHERE user_id = ?",
+  "DELETE FROM triage_events WHERE user_id = ?",
+  "DELETE FROM symptom_interviews WHERE user_id = ?",
+  "DELETE FROM lab_results WHERE user_id = ?",
+  "DELETE FROM report_pages WHERE report_id IN (SELECT id FROM medical_reports WHERE user_id = ?)",
+  "DELETE FROM medical_reports WHERE user_id = ?",
+  "DELETE FROM chat_sessions WHERE user_id = ?",
+  "DELETE FROM auth_sessions WHERE user_id = ?",
+  "DELETE FROM email_tokens WHERE user_id = ?",
+  "DELETE FROM ai_usage WHERE user_id = ?",
+  "DELETE FROM notifications WHERE user_id = ?",
+  "DELETE FROM reminder_occurrences WHERE user_id = ?",
+  "DELETE FROM reminders WHERE user_id = ?",
+  "DELETE FROM push_subscriptions WHERE user_id = ?",
+  "DELETE FROM vitals WHERE user_id = ?",
+  "DELETE FROM conditions WHERE user_id = ?",
+  "DELETE FROM allergies WHERE user_id = ?",
+  "DELETE FROM medications WHERE user_id = ?",
+  "DELETE FROM surgeries WHERE user_id = ?",
+];
+
+/**
+ * Permanently removes a user, every row that belongs to them and their
+ * stored report files. audit_log entries stay: the log is append-only and
+ * keeps only ids, routes and network details.
+ */
+export async function purgeAccount(db: Database.Database, userId: number) {
+  const user = db.prepare("SELECT email FROM users WHERE id = ?").get(userId) as { email: string } | undefined;
+  if (!user) return false;
+
+  db.transaction(() => {
+    for (const sql of USER_ROWS) db.prepare(sql).run(userId);
+    const email = user.email.toLowerCase();
+    db.prepare("DELETE FROM rate_limits WHERE key IN (?, ?)").run(`login:${email}`, `email:${email}`);
+    db.prepare("DELETE FROM users WHERE id = ?").run(userId);
+  })();
+  await deleteUserFiles(userId);
+  return true;
+}
+
+/** Purges every account whose grace period has run out. Returns how many went. */
+export async function purgeDueAccounts(db: Database.Database) {
+  const due = db.prepare("SELECT id FROM users WHERE deletion_scheduled_at <= CURRENT_TIMESTAMP").all() as { id: number }[];
+  for (const { id } of due) await purgeAccount(db, id);
+  return due.length;
+}
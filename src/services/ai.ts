@@ -0,0 +1,141 @@
+import { createProviderFromEnv, type ChatMessage, type DocumentInput, type LLMProvider } from "./providers/index.ts";
+import { normalizeLabResults, type LabResult } from "./labs.ts";
+import { verifyCitations, type Citation } from "./citations.ts";
+
+let provider: LLMProvider | null = null;
+
+/** The provider configured by LLM_PROVIDER / LLM_MODEL, created on first use. */
+export function getProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProviderFromEnv();
+  }
+  return provider;
+}
+
+// Lets tests and demos swap in a MockProvider or a fake; null restores the env default.
+export function setProvider(next: LLMProvider | null) {
+  provider = next;
+}
+
+export const SYSTEM_INSTRUCTION = `You are MyHealthAI, a dedicated virtual health assistant. 
+Your goal is to provide preliminary health insights, analyze medical reports, and offer wellness advice.
+
+Persona:
+- Empathetic, professional, and clear.
+- Use simple language to explain complex medical terms.
+- Always include a disclaimer that you are an AI and not a replacement for professional medical advice.
+
+Safety Guidelines:
+- DO NOT provide definitive diagnoses.
+- DO NOT prescribe specific prescription medications.
+- If symptoms sound severe (e.g., chest pain, difficulty breathing, severe bleeding, sudden confusion), IMMEDIATELY advise the user to seek emergency medical help (call 911 or go to the nearest ER).
+- Detect critical symptoms and highlight them.
+- When medicines come up, account for the patient's medications and allergies, repeat any interaction warnings the app supplies, and tell the user to check with a doctor or pharmacist before starting, stopping or combining medicines. Never say a combination is safe just because no warning was given.
+
+Capabilities:
+1. Symptom Analysis: Ask clarifying questions about duration, severity, and associated symptoms.
+2. Report Analysis: Explain lab values (e.g., CBC, Lipid Profile) and what they generally mean.
+3. Wellness Advice: Suggest lifestyle changes, hydration, yoga, and stress management.
+4. Non-prescriptive suggestions: Suggest safe over-the-counter measures like rest, hydration, or warm compresses when appropriate.
+
+Always format your responses using Markdown for better readability. Use bolding for emphasis and lists for scannability, and tables when listing lab values. Do not use raw HTML.
+When you advise emergency care, put that warning first, in its own blockquote whose first line is [!EMERGENCY], for example:
+> [!EMERGENCY]
+> Chest pain with shortness of breath can be a heart attack. Call 911 now.`;
+
+// The patient context (see ./context.ts) goes in as an opening turn ahead of the conversation.
+const withContext = (messages: { role: string, content: string }[], patientContext?: string | null): ChatMessage[] => [
+  ...(patientContext ? [{ role: "user" as const, content: patientContext }] : []),
+  ...messages.map(m => ({
+    role: m.role === 'assistant' ? 'assistant' as const : 'user' as const,
+    content: m.content
+  }))
+];
+
+export async function chatWithAI(messages: { role: string, content: string }[], patientContext?: string | null) {
+  try {
+    return await getProvider().chat(withContext(messages, patientContext), {
+      systemInstruction: SYSTEM_INSTRUCTION,
+    });
+  } catch (error) {
+    console.error("AI Chat Error:", error);
+    throw error;
+  }
+}
+
+// Yields text deltas as they arrive; aborting the signal ends the stream early.
+export async function* streamChatWithAI(messages: { role: string, content: string }[], patientContext?: string | null, signal?: AbortSignal) {
+  try {
+    yield* getProvider().streamChat(withContext(messages, patientContext), {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      signal,
+    });
+  } catch (error) {
+    console.error("AI Stream Error:", error);
+    throw error;
+  }
+}
+
+const REPORT_PROMPT = `Please analyze this medical report. Explain the key findings, highlight any values outside the normal range, and provide a simplified summary of what this means. Remind the user to consult their doctor.
+
+Respond with a single JSON object with exactly these keys:
+- "analysis": your explanation for the user, formatted as Markdown.
+- "labResults": an array with one entry per measured test in the report, each with
+  "testName" (as printed), "value" (a number when numeric, otherwise the printed text),
+  "unit" (string or null), "referenceRange" (as printed, or null),
+  "outOfRange" (true if the report or the range marks it abnormal) and
+  "specimenDate" (collection date as YYYY-MM-DD, or null).
+Use an empty array when the document has no lab values.`;
+
+// Only possible when we have the text: the model must point at where each finding came from.
+const CITATION_PROMPT = `
+The report text above is split into pages marked "=== Page N ===".
+- Every finding in "analysis" must end with a citation marker like [[1]] referring to an entry in "citations".
+- Add a "citations" array whose entries have "id" (the marker number), "page" (the page number) and
+  "quote" (a short passage copied exactly from that page that supports the finding).
+- Give every "labResults" entry a "page" number too.`;
+
+// Models occasionally wrap JSON in a code fence despite being asked not to.
+const parseJsonObject = (text: string) => {
+  const body = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface ReportAnalysis {
+  analysis: string;
+  labResults: LabResult[];
+  citations: Citation[];
+}
+
+/** Analyzes a report file, or its extracted pages when the PDF had a text layer. */
+export async function analyzeReport(document: DocumentInput): Promise<ReportAnalysis> {
+  try {
+    const prompt = document.kind === 'pages' ? REPORT_PROMPT + CITATION_PROMPT : REPORT_PROMPT;
+    const text = await getProvider().analyzeDocument(document, prompt, { systemInstruction: SYSTEM_INSTRUCTION, json: true });
+
+    const parsed = parseJsonObject(text);
+    if (!parsed) return { analysis: text, labResults: [], citations: [] };
+    return {
+      analysis: typeof parsed.analysis === "string" ? parsed.analysis : "",
+      labResults: normalizeLabResults(parsed.labResults),
+      citations: document.kind === 'pages' ? verifyCitations(parsed.citations, document.pages) : [],
+    };
+  } catch (error) {
+    console.error("AI Analysis Error:", error);
+    throw error;
+  }
+}
+
+export async function generateSessionTitle(firstMessage: string) {
+  try {
+    return (await getProvider().generateTitle(firstMessage)) || "New Chat";
+  } catch (error) {
+    console.error("AI Title Error:", error);
+    return "New Chat";
+  }
+}
@@ -0,0 +1,39 @@
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from "fflate";
+import type { Writable } from "stream";
+
+/**
+ * Streams a ZIP archive to `out` entry by entry, so a large export never has
+ * to sit in memory as a whole. Call `finish()` after the last entry; the
+ * returned promise settles once everything has been written.
+ */
+export function createZipWriter(out: Writable) {
+  let settle: { resolve: () => void, reject: (error: Error) => void };
+  const done = new Promise<void>((resolve, reject) => { settle = { resolve, reject }; });
+
+  const zip = new Zip((error, chunk, final) => {
+    if (error) return settle.reject(error);
+    out.write(chunk);
+    if (final) {
+      out.end();
+      settle.resolve();
+    }
+  });
+
+  return {
+    addJson(name: string, data: unknown) {
+      const entry = new ZipDeflate(name, { level: 6 });
+      zip.add(entry);
+      entry.push(strToU8(JSON.stringify(data, null, 2)), true);
+    },
+    /** Stored without recompression; PDFs and images are already compressed. */
+    addFile(name: string, contents: Uint8Array) {
+      const entry = new ZipPassThrough(name);
+      zip.add(entry);
+      entry.push(contents, true);
+    },
+    finish() {
+      zip.end();
+      return done;
+    },
+  };
+}
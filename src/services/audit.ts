@@ -0,0 +1,105 @@
+export type AuditAction = 'read' | 'create' | 'update' | 'delete';
+
+/** HTTP method to audit action. */
+export const AUDIT_ACTIONS: Record<string, AuditAction> = {
+  GET: 'read',
+  HEAD: 'read',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+/**
+ * Readable descriptions keyed by `<action> <route pattern>`, as stored in
+ * audit_log. Shared with the client so the activity view and the export
+ * describe entries the same way.
+ */
+const AUDIT_LABELS: Record<string, string> = {
+  'read /api/user/profile': 'Viewed profile',
+  'update /api/user/profile': 'Updated profile',
+  'read /api/user/export': 'Exported all account data',
+  'read /api/user/visit-summary': 'Created a visit summary',
+  'delete /api/user': 'Requested account deletion',
+  'create /api/user/cancel-deletion': 'Cancelled account deletion',
+  'read /api/user/history': 'Viewed medical history',
+  'read /api/user/conditions': 'Viewed conditions',
+  'create /api/user/conditions': 'Added a condition',
+  'update /api/user/conditions/:id': 'Changed a condition',
+  'delete /api/user/conditions/:id': 'Removed a condition',
+  'read /api/user/allergies': 'Viewed allergies',
+  'create /api/user/allergies': 'Added an allergy',
+  'update /api/user/allergies/:id': 'Changed an allergy',
+  'delete /api/user/allergies/:id': 'Removed an allergy',
+  'read /api/user/medications': 'Viewed medications',
+  'create /api/user/medications': 'Added a medication',
+  'update /api/user/medications/:id': 'Changed a medication',
+  'read /api/user/medications/interactions': 'Checked medication interactions',
+  'create /api/user/medications/check': 'Checked a medication for interactions',
+  'delete /api/user/medications/:id': 'Removed a medication',
+  'read /api/user/surgeries': 'Viewed surgeries',
+  'create /api/user/surgeries': 'Added a surgery',
+  'update /api/user/surgeries/:id': 'Changed a surgery',
+  'delete /api/user/surgeries/:id': 'Removed a surgery',
+  'read /api/chat/sessions': 'Opened chat list',
+  'create /api/chat/sessions': 'Started a chat',
+  'update /api/chat/sessions/:id': 'Changed a chat',
+  'delete /api/chat/sessions/:id': 'Deleted a chat',
+  'read /api/chat/history': 'Read chat messages',
+  'create /api/chat/history': 'Added a chat message',
+  'create /api/chat/interviews': 'Completed a symptom check',
+  'read /api/chat/interviews': 'Read symptom checks',
+  'create /api/ai/chat': 'Sent a chat message',
+  'create /api/ai/chat/stream': 'Sent a chat message',
+  'create /api/ai/title': 'Named a chat',
+  'create /api/ai/analyze-report': 'Uploaded a report',
+  'read /api/ai/usage': 'Checked AI usage',
+  'read /api/reports': 'Opened report list',
+  'create /api/reports/upload': 'Uploaded a report',
+  'read /api/reports/markers': 'Viewed lab trends',
+  'read /api/reports/markers/:name/series': 'Viewed a lab trend',
+  'read /api/reports/:id': 'Viewed a report',
+  'read /api/reports/:id/citations': 'Viewed report sources',
+  'read /api/reports/:id/file': 'Downloaded a report file',
+  'create /api/reports/:id/reanalyze': 'Re-analyzed a report',
+  'read /api/reports/:id/lab-results': 'Viewed lab results',
+  'read /api/user/vitals': 'Viewed vitals',
+  'create /api/user/vitals': 'Logged a reading',
+  'create /api/user/vitals/import': 'Imported readings',
+  'read /api/user/vitals/summary': 'Viewed vitals summary',
+  'delete /api/user/vitals/:id': 'Deleted a reading',
+  'read /api/reminders': 'Viewed reminders',
+  'create /api/reminders': 'Added a reminder',
+  'update /api/reminders/:id': 'Changed a reminder',
+  'delete /api/reminders/:id': 'Removed a reminder',
+  'read /api/reminders/occurrences': 'Viewed scheduled reminders',
+  'update /api/reminders/occurrences/:id': 'Answered a reminder',
+  'read /api/reminders/adherence': 'Viewed medication adherence',
+  'read /api/notifications': 'Viewed notifications',
+  'create /api/notifications/read': 'Marked notifications as read',
+  'read /api/push/config': 'Checked push notification settings',
+  'create /api/push/subscriptions': 'Turned on push notifications',
+  'delete /api/push/subscriptions': 'Turned off push notifications',
+  'read /api/search': 'Searched chats and reports',
+  'read /api/admin/audit-log': 'Exported the audit log',
+};
+
+export function describeAuditEntry(entry: { action: string, resource: string }) {
+  return AUDIT_LABELS[`${entry.action} ${entry.resource}`] ?? `${entry.action} ${entry.resource}`;
+}
+
+// Text starting with = + - @ is neutralised so spreadsheets don't run it as a formula.
+const csvCell = (value: unknown) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 CSV with a header row taken from the first row's keys. */
+export function toCsv(rows: Record<string, unknown>[]) {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]);
+  return [columns, ...rows.map(row => columns.map(c => row[c]))]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+}
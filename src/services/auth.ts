@@ -0,0 +1,49 @@
+import crypto from "crypto";
+
+/** Access tokens are short-lived; the client renews them with its refresh token. */
+export const ACCESS_TOKEN_TTL = "15m";
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+const KNOWN_DEFAULT_SECRETS = new Set(["super-secret-key", "super-secret-key-change-me"]);
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * The JWT signing secret. Outside production a fixed development secret is
+ * used when none is configured; in production a missing, placeholder or
+ * short secret is an error so the server refuses to start.
+ */
+export function resolveJwtSecret(env: NodeJS.ProcessEnv = process.env): string {
+  const secret = env.JWT_SECRET?.trim();
+  if (env.NODE_ENV !== "production") return secret || "dev-only-jwt-secret";
+
+  if (!secret || KNOWN_DEFAULT_SECRETS.has(secret)) {
+    throw new Error("JWT_SECRET must be set to a private value in production");
+  }
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`JWT_SECRET must be at least ${MIN_SECRET_LENGTH} characters in production`);
+  }
+  return secret;
+}
+
+/** An opaque refresh token. Only its hash is stored. */
+export function generateRefreshToken() {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export type EmailTokenPurpose = "verify_email" | "reset_password";
+
+/** Lifetime in seconds of the single-use links sent by email. */
+export const EMAIL_TOKEN_TTL: Record<EmailTokenPurpose, number> = {
+  verify_email: 24 * 60 * 60,
+  reset_password: 60 * 60,
+};
+
+/** Admins are configured by address in ADMIN_EMAILS (comma-separated). */
+export function isAdminEmail(email: string, env: NodeJS.ProcessEnv = process.env) {
+  const admins = (env.ADMIN_EMAILS || "").split(",").map(e => e.trim().toLowerCase()).filter(Boolean);
+  return admins.includes(email.toLowerCase());
+}
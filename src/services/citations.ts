@@ -0,0 +1,40 @@
+import type { PageText } from "./pdf.ts";
+
+/** A `[[id]]` marker in a report analysis, pointing at the text it was based on. */
+export interface Citation {
+  id: number;
+  page: number;
+  quote: string;
+  /** False when the quote could not be found in the extracted text. */
+  verified: boolean;
+}
+
+const squash = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Sanitizes the model's citations and checks each quote against the
+ * extracted pages, moving it to the page it actually appears on if the
+ * model got the number wrong.
+ */
+export function verifyCitations(raw: unknown, pages: PageText[]): Citation[] {
+  if (!Array.isArray(raw)) return [];
+  const haystacks = pages.map(p => ({ page: p.page, text: squash(p.text) }));
+
+  return raw.flatMap((item: any): Citation[] => {
+    const id = Number(item?.id);
+    const quote = typeof item?.quote === "string" ? item.quote.trim() : "";
+    if (!Number.isInteger(id) || !quote) return [];
+
+    const needle = squash(quote);
+    const claimed = Number(item.page);
+    const onClaimed = haystacks.find(p => p.page === claimed && p.text.includes(needle));
+    const found = onClaimed ?? haystacks.find(p => p.text.includes(needle));
+
+    return [{
+      id,
+      page: found?.page ?? (Number.isInteger(claimed) ? claimed : 0),
+      quote,
+      verified: !!found,
+    }];
+  });
+}
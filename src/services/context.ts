@@ -0,0 +1,83 @@
+// Builds the patient summary sent to the model ahead of each chat. Only what
+// bears on health advice goes in: no email, mobile number or surname.
+
+export interface PatientProfile {
+  first_name: string | null;
+  date_of_birth: string | null;
+  sex: string | null;
+  height_cm: number | null;
+  weight_kg: number | null;
+  blood_group: string | null;
+  personal_notes: string | null;
+}
+
+export interface PatientHistory {
+  conditions: { name: string, status: string, diagnosed_on: string | null, notes: string | null }[];
+  allergies: { substance: string, reaction: string | null, severity: string | null }[];
+  medications: { name: string, dose: string | null, frequency: string | null, stopped_on: string | null }[];
+  surgeries: { procedure: string, performed_on: string | null }[];
+}
+
+const MAX_ITEMS = 12;
+const MAX_NOTE = 200;
+
+/** Not yet stopped: no stop date, or one still in the future. */
+export const isCurrentMedication = (medication: { stopped_on: string | null }, today = new Date()) =>
+  !medication.stopped_on || medication.stopped_on > today.toISOString().slice(0, 10);
+
+const clip = (text: string, max = MAX_NOTE) => text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+/** Whole years between an ISO birth date and `today`. */
+export function ageOn(dateOfBirth: string, today: Date) {
+  const [year, month, day] = dateOfBirth.split("-").map(Number);
+  const age = today.getUTCFullYear() - year;
+  const hadBirthday = today.getUTCMonth() + 1 > month || (today.getUTCMonth() + 1 === month && today.getUTCDate() >= day);
+  return hadBirthday ? age : age - 1;
+}
+
+// One line per list, capped so a long history can't crowd out the conversation.
+const listLine = (label: string, items: string[]) => {
+  if (items.length === 0) return null;
+  const shown = items.slice(0, MAX_ITEMS);
+  const more = items.length > shown.length ? ` (+${items.length - shown.length} more)` : "";
+  return `${label}: ${shown.join("; ")}${more}`;
+};
+
+const withDetails = (main: string, details: (string | null)[]) => {
+  const extra = details.filter(Boolean);
+  return extra.length ? `${main} (${extra.join(", ")})` : main;
+};
+
+/**
+ * A compact plain-text summary of the patient, or null when there is nothing
+ * worth sending. When other details are present but no allergies are, the
+ * summary says so rather than leaving the model to guess.
+ */
+export function buildPatientContext(profile: PatientProfile, history: PatientHistory, today = new Date()): string | null {
+  const basics = [
+    profile.first_name && `Name: ${profile.first_name}`,
+    profile.date_of_birth && `Age: ${ageOn(profile.date_of_birth, today)}`,
+    profile.sex && `Sex: ${profile.sex}`,
+    profile.height_cm && `Height: ${profile.height_cm} cm`,
+    profile.weight_kg && `Weight: ${profile.weight_kg} kg`,
+    profile.height_cm && profile.weight_kg && `BMI: ${(profile.weight_kg / (profile.height_cm / 100) ** 2).toFixed(1)}`,
+    profile.blood_group && `Blood group: ${profile.blood_group}`,
+  ].filter(Boolean);
+
+  const active = history.conditions.filter(c => c.status === "active");
+  const resolved = history.conditions.filter(c => c.status !== "active");
+
+  const lines = [
+    basics.length ? basics.join(", ") : null,
+    listLine("Allergies", history.allergies.map(a => withDetails(a.substance, [a.severity, a.reaction && clip(a.reaction, 60)]))),
+    listLine("Active conditions", active.map(c => withDetails(c.name, [c.diagnosed_on && `since ${c.diagnosed_on.slice(0, 4)}`]))),
+    listLine("Current medications", history.medications.filter(m => isCurrentMedication(m, today)).map(m => withDetails(m.name, [m.dose, m.frequency]))),
+    listLine("Past conditions", resolved.map(c => c.name)),
+    listLine("Surgeries", history.surgeries.map(s => withDetails(s.procedure, [s.performed_on && s.performed_on.slice(0, 4)]))),
+    profile.personal_notes ? `Notes: ${clip(profile.personal_notes.replace(/\s+/g, " ").trim())}` : null,
+  ].filter(Boolean);
+
+  if (lines.length === 0) return null;
+  if (history.allergies.length === 0) lines.push("Allergies: none recorded");
+  return `Patient context (from the user's health profile; take it into account, especially allergies and active conditions):\n${lines.join("\n")}`;
+}
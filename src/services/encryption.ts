@@ -0,0 +1,283 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+
+/**
+ * Field-level encryption for health data at rest: AES-256-GCM with a random
+ * IV per value, stored as base64(iv | tag | ciphertext). Each value is bound
+ * to its column and owner through the associated data, so a ciphertext copied
+ * into another row or column fails to decrypt rather than leaking.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+/**
+ * Version 0 is a fixed development key. Outside production it is always in
+ * the ring, and is the current key when ENCRYPTION_KEYS is unset, so a
+ * development database can be re-encrypted onto real keys.
+ */
+const DEV_KEY_VERSION = 0;
+const devKey = () => crypto.createHash("sha256").update("dev-only-encryption-key").digest();
+
+export interface KeyRing {
+  /** Version new values are encrypted with. */
+  current: number;
+  keys: Map<number, Buffer>;
+}
+
+/**
+ * Keys come from ENCRYPTION_KEYS as comma-separated `version:base64key` pairs
+ * (32-byte keys). The highest version encrypts new data unless
+ * ENCRYPTION_KEY_VERSION picks another; older versions stay listed until
+ * `npm run migrate -- reencrypt` has moved every row off them.
+ */
+export function keyRingFromEnv(env: NodeJS.ProcessEnv = process.env): KeyRing {
+  const spec = env.ENCRYPTION_KEYS?.trim();
+  const production = env.NODE_ENV === "production";
+  if (!spec) {
+    if (production) throw new Error("ENCRYPTION_KEYS must be set in production");
+    return { current: DEV_KEY_VERSION, keys: new Map([[DEV_KEY_VERSION, devKey()]]) };
+  }
+
+  const keys = new Map<number, Buffer>(production ? [] : [[DEV_KEY_VERSION, devKey()]]);
+  for (const entry of spec.split(",")) {
+    const [version, encoded] = entry.trim().split(":");
+    const key = Buffer.from(encoded ?? "", "base64");
+    if (!/^\d+$/.test(version) || Number(version) === DEV_KEY_VERSION) {
+      throw new Error(`ENCRYPTION_KEYS: "${version}" is not a valid key version (use 1 or higher)`);
+    }
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`ENCRYPTION_KEYS: key ${version} must be ${KEY_BYTES} bytes, base64-encoded`);
+    }
+    keys.set(Number(version), key);
+  }
+
+  const configured = [...keys.keys()].filter(version => version !== DEV_KEY_VERSION);
+  const current = env.ENCRYPTION_KEY_VERSION ? Number(env.ENCRYPTION_KEY_VERSION) : Math.max(...configured);
+  if (!keys.has(current)) throw new Error(`ENCRYPTION_KEY_VERSION ${current} is not in ENCRYPTION_KEYS`);
+  return { current, keys };
+}
+
+let keyRing: KeyRing | null = null;
+
+export function getKeyRing(): KeyRing {
+  if (!keyRing) {
+    keyRing = keyRingFromEnv();
+  }
+  return keyRing;
+}
+
+// Lets tests swap in fixed keys; null restores the env default.
+export function setKeyRing(next: KeyRing | null) {
+  keyRing = next;
+}
+
+/**
+ * Encrypted columns by table. `owner` is the column whose value goes into
+ * the associated data; `key_version` on each row records which key sealed
+ * its encrypted columns, and is NULL for rows still in plaintext.
+ */
+export const ENCRYPTED_COLUMNS = {
+  users: { owner: "id", columns: ["blood_group", "personal_notes", "date_of_birth", "sex", "height_cm", "weight_kg"] },
+  chat_history: { owner: "user_id", columns: ["content"] },
+  medical_reports: { owner: "user_id", columns: ["analysis", "citations"] },
+  report_pages: { owner: "report_id", columns: ["text"] },
+  conditions: { owner: "user_id", columns: ["name", "diagnosed_on", "notes"] },
+  allergies: { owner: "user_id", columns: ["substance", "reaction"] },
+  medications: { owner: "user_id", columns: ["name", "dose", "frequency", "started_on", "stopped_on", "notes"] },
+  surgeries: { owner: "user_id", columns: ["procedure", "performed_on", "notes"] },
+  reminders: { owner: "user_id", columns: ["title", "notes"] },
+  notifications: { owner: "user_id", columns: ["title", "body"] },
+  vitals: { owner: "user_id", columns: ["label", "notes", "value", "value2"] },
+  symptom_interviews: { owner: "user_id", columns: ["answers", "reasons"] },
+  triage_events: { owner: "user_id", columns: ["matches"] },
+  lab_results: { owner: "user_id", columns: ["value", "value_text"] },
+} as const;
+
+export type EncryptedTable = keyof typeof ENCRYPTED_COLUMNS;
+type EncryptedColumn<T extends EncryptedTable> = typeof ENCRYPTED_COLUMNS[T]["columns"][number];
+
+const associatedData = (table: string, column: string, ownerId: number) => Buffer.from(`${table}.${column}:${ownerId}`);
+
+const keyFor = (version: number, ring: KeyRing) => {
+  const key = ring.keys.get(version);
+  if (!key) throw new Error(`Encryption key version ${version} is not configured`);
+  return key;
+};
+
+/** Encrypts a column value with the current key. Null stays null. */
+export function seal<T extends EncryptedTable>(
+  table: T, column: EncryptedColumn<T>, ownerId: number, value: string | null, ring: KeyRing = getKeyRing(),
+): string | null {
+  if (value === null || value === undefined) return null;
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, keyFor(ring.current, ring), iv);
+  cipher.setAAD(associatedData(table, column, ownerId));
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+/** Decrypts a column value sealed with `keyVersion`; a null version means the value is plaintext. */
+export function unseal<T extends EncryptedTable>(
+  table: T, column: EncryptedColumn<T>, ownerId: number, stored: string | null, keyVersion: number | null, ring: KeyRing = getKeyRing(),
+): string | null {
+  if (stored === null || stored === undefined || keyVersion === null || keyVersion === undefined) return stored;
+  const data = Buffer.from(stored, "base64");
+  const decipher = crypto.createDecipheriv(ALGORITHM, keyFor(keyVersion, ring), data.subarray(0, IV_BYTES));
+  decipher.setAAD(associatedData(table, column, ownerId));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString("utf8");
+}
+
+/**
+ * Numeric readings are sealed as their text. A value still stored as a number
+ * was written before its column was encrypted and is plaintext, whatever the
+ * row's key_version says.
+ */
+export function sealNumber<T extends EncryptedTable>(
+  table: T, column: EncryptedColumn<T>, ownerId: number, value: number | null, ring: KeyRing = getKeyRing(),
+): string | null {
+  return seal(table, column, ownerId, value === null || value === undefined ? null : String(value), ring);
+}
+
+export function unsealNumber<T extends EncryptedTable>(
+  table: T, column: EncryptedColumn<T>, ownerId: number, stored: string | number | null, keyVersion: number | null, ring: KeyRing = getKeyRing(),
+): number | null {
+  if (stored === null || stored === undefined) return null;
+  if (typeof stored === "number") return stored;
+  return Number(unseal(table, column, ownerId, stored, keyVersion, ring));
+}
+
+/**
+ * Re-encrypts every row that is in plaintext, holds a plaintext number in an
+ * encrypted column, or is sealed with a key other than the current one, one
+ * table per transaction. Returns how many rows changed.
+ */
+export function reencryptAll(db: Database.Database, ring: KeyRing = getKeyRing()): Record<EncryptedTable, number> {
+  const counts = {} as Record<EncryptedTable, number>;
+  for (const table of Object.keys(ENCRYPTED_COLUMNS) as EncryptedTable[]) {
+    const { owner, columns } = ENCRYPTED_COLUMNS[table];
+    const select = db.prepare(`
+      SELECT rowid AS row_id, ${owner} AS owner_id, key_version, ${columns.join(", ")} FROM ${table}
+      WHERE key_version IS NULL OR key_version != ? OR ${columns.map(c => `typeof(${c}) IN ('integer', 'real')`).join(" OR ")}
+    `);
+    const update = db.prepare(`
+      UPDATE ${table} SET ${columns.map(c => `${c} = ?`).join(", ")}, key_version = ? WHERE rowid = ?
+    `);
+
+    counts[table] = db.transaction(() => {
+      const rows = select.all(ring.current) as Record<string, any>[];
+      for (const row of rows) {
+        const values = columns.map(column => {
+          const plaintext = typeof row[column] === "number"
+            ? String(row[column])
+            : unseal(table, column as never, row.owner_id, row[column], row.key_version, ring);
+          return seal(table, column as never, row.owner_id, plaintext, ring);
+        });
+        update.run(...values, ring.current, row.row_id);
+      }
+      return rows.length;
+    })();
+  }
+  return counts;
+}
+
+/**
+ * Blind search index. Encrypted text can't go into a plaintext index, so each
+ * lower-cased word prefix (up to PREFIX_MAX characters) is stored as a keyed
+ * HMAC token instead, bound to its owner. A search turns its terms into tokens
+ * the same way and only decrypts rows holding all of them. The tokens reveal
+ * which of one user's rows share a word prefix, but not the words.
+ */
+export type SearchSource = "message" | "report";
+
+const PREFIX_MAX = 10;
+
+// The source column each row's text is indexed from.
+const SEARCH_SOURCES = {
+  message: { table: "chat_history", column: "content", owner: "user_id" },
+  report: { table: "medical_reports", column: "analysis", owner: "user_id" },
+} as const;
+
+const tokenKey = (version: number, ring: KeyRing) => crypto.createHmac("sha256", keyFor(version, ring)).update("search-index").digest();
+
+const blindToken = (key: Buffer, userId: number, prefix: string) =>
+  crypto.createHmac("sha256", key).update(`${userId}:${prefix}`).digest().subarray(0, 16).toString("base64url");
+
+/** Every distinct word prefix of `text`, split into words the way search terms are. */
+export function wordPrefixes(text: string): Set<string> {
+  const prefixes = new Set<string>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const chars = [...word].slice(0, PREFIX_MAX);
+    for (let length = 1; length <= chars.length; length++) prefixes.add(chars.slice(0, length).join(""));
+  }
+  return prefixes;
+}
+
+/**
+ * Replaces a row's search tokens with ones for `text` under the current key.
+ * Call it whenever the row's searchable text is written.
+ */
+export function indexForSearch(
+  db: Database.Database, source: SearchSource, userId: number, rowId: number, text: string | null, ring: KeyRing = getKeyRing(),
+) {
+  const { table } = SEARCH_SOURCES[source];
+  const key = tokenKey(ring.current, ring);
+  const insert = db.prepare("INSERT OR IGNORE INTO search_tokens (user_id, token, source, row_id) VALUES (?, ?, ?, ?)");
+  db.transaction(() => {
+    db.prepare("DELETE FROM search_tokens WHERE source = ? AND row_id = ?").run(source, rowId);
+    for (const prefix of wordPrefixes(text ?? "")) insert.run(userId, blindToken(key, userId, prefix), source, rowId);
+    db.prepare(`UPDATE ${table} SET search_key_version = ? WHERE id = ?`).run(ring.current, rowId);
+  })();
+}
+
+/**
+ * Ids of the user's rows, newest first, whose text has a word starting with
+ * each term; at most `limit`. Terms longer than PREFIX_MAX only match on
+ * their start here, so callers still check the decrypted text. Tokens under
+ * every key in the ring are looked up, so rows not yet re-indexed after a key
+ * rotation are still found.
+ */
+export function searchCandidates(
+  db: Database.Database, source: SearchSource, userId: number, terms: string[], limit: number, ring: KeyRing = getKeyRing(),
+): number[] {
+  const keys = [...ring.keys.keys()].map(version => tokenKey(version, ring));
+  let ids: Set<number> | null = null;
+  for (const term of terms) {
+    const prefix = [...term].slice(0, PREFIX_MAX).join("");
+    const tokens = keys.map(key => blindToken(key, userId, prefix));
+    const rows = db.prepare(`
+      SELECT DISTINCT row_id FROM search_tokens WHERE user_id = ? AND token IN (${tokens.map(() => "?").join(", ")}) AND source = ?
+    `).all(userId, ...tokens, source) as { row_id: number }[];
+    const found = new Set(rows.map(row => row.row_id));
+    ids = ids ? new Set([...ids].filter(id => found.has(id))) : found;
+    if (ids.size === 0) break;
+  }
+  return [...ids ?? []].sort((a, b) => b - a).slice(0, limit);
+}
+
+/**
+ * Indexes every row that has no tokens yet or whose tokens were made with an
+ * older key, one source per transaction. Returns how many rows were indexed.
+ */
+export function reindexSearch(db: Database.Database, ring: KeyRing = getKeyRing()): Record<SearchSource, number> {
+  const counts = {} as Record<SearchSource, number>;
+  for (const source of Object.keys(SEARCH_SOURCES) as SearchSource[]) {
+    const { table, column, owner } = SEARCH_SOURCES[source];
+    const rows = db.prepare(`
+      SELECT id, ${owner} AS owner_id, ${column} AS text, key_version FROM ${table}
+      WHERE search_key_version IS NULL OR search_key_version != ?
+    `).all(ring.current) as { id: number, owner_id: number, text: string | null, key_version: number | null }[];
+
+    counts[source] = db.transaction(() => {
+      for (const row of rows) {
+        const text = unseal(table, column, row.owner_id, row.text, row.key_version, ring);
+        indexForSearch(db, source, row.owner_id, row.id, text, ring);
+      }
+      return rows.length;
+    })();
+  }
+  return counts;
+}
@@ -0,0 +1,324 @@
+export type InteractionSeverity = 'none' | 'moderate' | 'major' | 'contraindicated';
+
+export interface DrugEntry {
+  id: string;
+  name: string;
+  /** Brand names and other spellings, matched case-insensitively on word boundaries. */
+  aliases: string[];
+  classes: string[];
+}
+
+export interface DrugClass {
+  id: string;
+  label: string;
+  /** How people write the class in an allergy, e.g. "sulfa". */
+  aliases: string[];
+}
+
+/** A pair of drugs or classes (or one of each) that shouldn't be combined. */
+export interface InteractionRule {
+  id: string;
+  between: [string, string];
+  severity: Exclude<InteractionSeverity, 'none'>;
+  effect: string;
+  advice: string;
+}
+
+/** An allergy to `allergen` (drug or class) that carries over to drugs in `affects`. */
+export interface CrossReactionRule {
+  id: string;
+  allergen: string;
+  affects: string;
+  severity: Exclude<InteractionSeverity, 'none'>;
+  effect: string;
+}
+
+export interface InteractionCatalogue {
+  drugs: DrugEntry[];
+  classes: DrugClass[];
+  interactions: InteractionRule[];
+  crossReactions: CrossReactionRule[];
+}
+
+const ASK_PRESCRIBER = "Don't start, stop or combine these without checking with your doctor or pharmacist.";
+
+const classes: DrugClass[] = [
+  { id: "anticoagulant", label: "Anticoagulants", aliases: ["anticoagulant", "anticoagulants", "blood thinner", "blood thinners"] },
+  { id: "antiplatelet", label: "Antiplatelets", aliases: ["antiplatelet", "antiplatelets"] },
+  { id: "nsaid", label: "NSAIDs", aliases: ["nsaid", "nsaids", "anti-inflammatory", "anti-inflammatories", "non-steroidal anti-inflammatory"] },
+  { id: "ssri", label: "SSRIs", aliases: ["ssri", "ssris"] },
+  { id: "maoi", label: "MAO inhibitors", aliases: ["maoi", "maois", "mao inhibitor", "mao inhibitors"] },
+  { id: "serotonergic", label: "Serotonergic drugs", aliases: [] },
+  { id: "triptan", label: "Triptans", aliases: ["triptan", "triptans"] },
+  { id: "opioid", label: "Opioids", aliases: ["opioid", "opioids", "opiate", "opiates", "narcotics"] },
+  { id: "benzodiazepine", label: "Benzodiazepines", aliases: ["benzodiazepine", "benzodiazepines", "benzos"] },
+  { id: "statin", label: "Statins", aliases: ["statin", "statins"] },
+  { id: "strong-cyp3a4-inhibitor", label: "Strong CYP3A4 inhibitors", aliases: [] },
+  { id: "macrolide", label: "Macrolide antibiotics", aliases: ["macrolide", "macrolides"] },
+  { id: "azole-antifungal", label: "Azole antifungals", aliases: ["azole", "azoles", "azole antifungals"] },
+  { id: "fluoroquinolone", label: "Fluoroquinolones", aliases: ["fluoroquinolone", "fluoroquinolones", "quinolone", "quinolones"] },
+  { id: "penicillin", label: "Penicillins", aliases: ["penicillin", "penicillins"] },
+  { id: "cephalosporin", label: "Cephalosporins", aliases: ["cephalosporin", "cephalosporins"] },
+  { id: "sulfonamide-antibiotic", label: "Sulfonamide antibiotics", aliases: ["sulfa", "sulfa drugs", "sulfonamide", "sulfonamides", "sulphonamide", "sulphonamides", "sulpha"] },
+  { id: "ace-inhibitor", label: "ACE inhibitors", aliases: ["ace inhibitor", "ace inhibitors"] },
+  { id: "arb", label: "Angiotensin receptor blockers", aliases: ["arb", "arbs"] },
+  { id: "potassium-sparing-diuretic", label: "Potassium-sparing diuretics", aliases: [] },
+  { id: "potassium-supplement", label: "Potassium supplements", aliases: [] },
+  { id: "nitrate", label: "Nitrates", aliases: ["nitrate", "nitrates"] },
+  { id: "pde5-inhibitor", label: "PDE5 inhibitors", aliases: [] },
+  { id: "corticosteroid", label: "Corticosteroids", aliases: ["steroid", "steroids", "corticosteroid", "corticosteroids"] },
+  { id: "polyvalent-cation", label: "Calcium, iron and antacids", aliases: ["antacid", "antacids"] },
+];
+
+const drugs: DrugEntry[] = [
+  { id: "warfarin", name: "Warfarin", aliases: ["coumadin", "jantoven"], classes: ["anticoagulant"] },
+  { id: "apixaban", name: "Apixaban", aliases: ["eliquis"], classes: ["anticoagulant"] },
+  { id: "rivaroxaban", name: "Rivaroxaban", aliases: ["xarelto"], classes: ["anticoagulant"] },
+  { id: "aspirin", name: "Aspirin", aliases: ["acetylsalicylic acid", "asa", "disprin", "ecotrin"], classes: ["nsaid", "antiplatelet"] },
+  { id: "clopidogrel", name: "Clopidogrel", aliases: ["plavix"], classes: ["antiplatelet"] },
+  { id: "ibuprofen", name: "Ibuprofen", aliases: ["advil", "motrin", "nurofen"], classes: ["nsaid"] },
+  { id: "naproxen", name: "Naproxen", aliases: ["aleve", "naprosyn"], classes: ["nsaid"] },
+  { id: "diclofenac", name: "Diclofenac", aliases: ["voltaren", "cataflam"], classes: ["nsaid"] },
+  { id: "celecoxib", name: "Celecoxib", aliases: ["celebrex"], classes: ["nsaid"] },
+  { id: "paracetamol", name: "Paracetamol", aliases: ["acetaminophen", "tylenol", "panadol"], classes: [] },
+  { id: "sertraline", name: "Sertraline", aliases: ["zoloft"], classes: ["ssri", "serotonergic"] },
+  { id: "fluoxetine", name: "Fluoxetine", aliases: ["prozac"], classes: ["ssri", "serotonergic"] },
+  { id: "citalopram", name: "Citalopram", aliases: ["celexa"], classes: ["ssri", "serotonergic"] },
+  { id: "escitalopram", name: "Escitalopram", aliases: ["lexapro", "cipralex"], classes: ["ssri", "serotonergic"] },
+  { id: "phenelzine", name: "Phenelzine", aliases: ["nardil"], classes: ["maoi"] },
+  { id: "selegiline", name: "Selegiline", aliases: ["emsam", "eldepryl"], classes: ["maoi"] },
+  { id: "tramadol", name: "Tramadol", aliases: ["ultram"], classes: ["opioid", "serotonergic"] },
+  { id: "sumatriptan", name: "Sumatriptan", aliases: ["imitrex", "imigran"], classes: ["triptan", "serotonergic"] },
+  { id: "st-johns-wort", name: "St John's wort", aliases: ["st. john's wort", "st johns wort", "saint john's wort", "hypericum"], classes: ["serotonergic"] },
+  { id: "codeine", name: "Codeine", aliases: [], classes: ["opioid"] },
+  { id: "oxycodone", name: "Oxycodone", aliases: ["oxycontin", "percocet"], classes: ["opioid"] },
+  { id: "morphine", name: "Morphine", aliases: [], classes: ["opioid"] },
+  { id: "diazepam", name: "Diazepam", aliases: ["valium"], classes: ["benzodiazepine"] },
+  { id: "alprazolam", name: "Alprazolam", aliases: ["xanax"], classes: ["benzodiazepine"] },
+  { id: "lorazepam", name: "Lorazepam", aliases: ["ativan"], classes: ["benzodiazepine"] },
+  { id: "simvastatin", name: "Simvastatin", aliases: ["zocor"], classes: ["statin"] },
+  { id: "atorvastatin", name: "Atorvastatin", aliases: ["lipitor"], classes: ["statin"] },
+  { id: "clarithromycin", name: "Clarithromycin", aliases: ["biaxin", "klacid"], classes: ["macrolide", "strong-cyp3a4-inhibitor"] },
+  { id: "erythromycin", name: "Erythromycin", aliases: [], classes: ["macrolide"] },
+  { id: "fluconazole", name: "Fluconazole", aliases: ["diflucan"], classes: ["azole-antifungal"] },
+  { id: "itraconazole", name: "Itraconazole", aliases: ["sporanox"], classes: ["azole-antifungal", "strong-cyp3a4-inhibitor"] },
+  { id: "ciprofloxacin", name: "Ciprofloxacin", aliases: ["cipro"], classes: ["fluoroquinolone"] },
+  { id: "amoxicillin", name: "Amoxicillin", aliases: ["amoxil", "augmentin", "co-amoxiclav"], classes: ["penicillin"] },
+  { id: "penicillin-v", name: "Penicillin V", aliases: ["penicillin", "phenoxymethylpenicillin", "penicillin vk"], classes: ["penicillin"] },
+  { id: "cephalexin", name: "Cephalexin", aliases: ["cefalexin", "keflex"], classes: ["cephalosporin"] },
+  { id: "co-trimoxazole", name: "Co-trimoxazole", aliases: ["sulfamethoxazole", "trimethoprim-sulfamethoxazole", "bactrim", "septra"], classes: ["sulfonamide-antibiotic"] },
+  { id: "lisinopril", name: "Lisinopril", aliases: ["zestril", "prinivil"], classes: ["ace-inhibitor"] },
+  { id: "ramipril", name: "Ramipril", aliases: ["altace"], classes: ["ace-inhibitor"] },
+  { id: "losartan", name: "Losartan", aliases: ["cozaar"], classes: ["arb"] },
+  { id: "spironolactone", name: "Spironolactone", aliases: ["aldactone"], classes: ["potassium-sparing-diuretic"] },
+  { id: "potassium-chloride", name: "Potassium chloride", aliases: ["potassium supplement", "potassium supplements", "klor-con", "slow-k"], classes: ["potassium-supplement"] },
+  { id: "lithium", name: "Lithium", aliases: ["lithium carbonate", "priadel"], classes: [] },
+  { id: "digoxin", name: "Digoxin", aliases: ["lanoxin"], classes: [] },
+  { id: "amiodarone", name: "Amiodarone", aliases: ["cordarone", "pacerone"], classes: [] },
+  { id: "methotrexate", name: "Methotrexate", aliases: [], classes: [] },
+  { id: "sildenafil", name: "Sildenafil", aliases: ["viagra", "revatio"], classes: ["pde5-inhibitor"] },
+  { id: "tadalafil", name: "Tadalafil", aliases: ["cialis"], classes: ["pde5-inhibitor"] },
+  { id: "nitroglycerin", name: "Nitroglycerin", aliases: ["glyceryl trinitrate", "gtn"], classes: ["nitrate"] },
+  { id: "isosorbide", name: "Isosorbide mononitrate", aliases: ["isosorbide", "imdur"], classes: ["nitrate"] },
+  { id: "prednisone", name: "Prednisone", aliases: ["prednisolone"], classes: ["corticosteroid"] },
+  { id: "levothyroxine", name: "Levothyroxine", aliases: ["synthroid", "eltroxin", "thyroxine"], classes: [] },
+  { id: "calcium-carbonate", name: "Calcium carbonate", aliases: ["tums", "calcium supplement", "calcium supplements"], classes: ["polyvalent-cation"] },
+  { id: "ferrous-sulfate", name: "Iron", aliases: ["ferrous sulfate", "ferrous sulphate", "iron tablets", "iron supplement", "iron supplements"], classes: ["polyvalent-cation"] },
+  { id: "omeprazole", name: "Omeprazole", aliases: ["prilosec", "losec"], classes: [] },
+  { id: "metformin", name: "Metformin", aliases: ["glucophage"], classes: [] },
+];
+
+const interactions: InteractionRule[] = [
+  {
+    id: "pde5-nitrate", between: ["pde5-inhibitor", "nitrate"], severity: "contraindicated",
+    effect: "Together they can drop blood pressure dangerously low.",
+    advice: "Never take these together. If you've taken one, tell emergency staff before you're given the other.",
+  },
+  {
+    id: "maoi-serotonergic", between: ["maoi", "serotonergic"], severity: "contraindicated",
+    effect: "Can cause serotonin syndrome, which can be life-threatening.",
+    advice: `These must not be combined; switching between them needs a washout period. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "statin-strong-cyp3a4", between: ["simvastatin", "strong-cyp3a4-inhibitor"], severity: "contraindicated",
+    effect: "Raises simvastatin levels sharply, with a risk of serious muscle damage.",
+    advice: `Simvastatin is usually paused while these antibiotics or antifungals are taken. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "anticoagulant-nsaid", between: ["anticoagulant", "nsaid"], severity: "major",
+    effect: "Greatly increases the risk of serious bleeding, including stomach bleeding.",
+    advice: `Paracetamol is usually the safer painkiller with a blood thinner. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "anticoagulant-antiplatelet", between: ["anticoagulant", "antiplatelet"], severity: "major",
+    effect: "Increases the risk of serious bleeding.",
+    advice: `Only take both if a doctor has prescribed them together. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "warfarin-azole", between: ["warfarin", "azole-antifungal"], severity: "major",
+    effect: "Antifungals like fluconazole raise warfarin levels and bleeding risk.",
+    advice: "Your INR usually needs checking more often while taking both.",
+  },
+  {
+    id: "warfarin-amiodarone", between: ["warfarin", "amiodarone"], severity: "major",
+    effect: "Amiodarone raises warfarin levels for weeks after starting.",
+    advice: "The warfarin dose usually needs lowering, with closer INR checks.",
+  },
+  {
+    id: "warfarin-co-trimoxazole", between: ["warfarin", "sulfonamide-antibiotic"], severity: "major",
+    effect: "Co-trimoxazole can raise warfarin levels and bleeding risk.",
+    advice: "Your INR usually needs checking within a few days of starting the antibiotic.",
+  },
+  {
+    id: "warfarin-macrolide", between: ["warfarin", "macrolide"], severity: "moderate",
+    effect: "These antibiotics can raise warfarin levels.",
+    advice: "Watch for unusual bruising or bleeding and ask whether your INR should be checked.",
+  },
+  {
+    id: "warfarin-fluoroquinolone", between: ["warfarin", "fluoroquinolone"], severity: "moderate",
+    effect: "Ciprofloxacin can raise warfarin levels.",
+    advice: "Watch for unusual bruising or bleeding and ask whether your INR should be checked.",
+  },
+  {
+    id: "warfarin-paracetamol", between: ["warfarin", "paracetamol"], severity: "moderate",
+    effect: "Regular paracetamol use over several days can raise INR.",
+    advice: "Occasional doses are generally fine; mention regular use to whoever checks your INR.",
+  },
+  {
+    id: "serotonergic-serotonergic", between: ["serotonergic", "serotonergic"], severity: "major",
+    effect: "Combining serotonergic medicines can cause serotonin syndrome (agitation, fever, tremor, fast heartbeat).",
+    advice: `Get urgent help if those symptoms appear. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "ssri-nsaid", between: ["ssri", "nsaid"], severity: "moderate",
+    effect: "Increases the risk of stomach bleeding.",
+    advice: "Ask whether paracetamol or a stomach-protecting medicine would suit you better.",
+  },
+  {
+    id: "ssri-anticoagulant", between: ["ssri", "anticoagulant"], severity: "moderate",
+    effect: "Increases the risk of bleeding.",
+    advice: "Watch for unusual bruising or bleeding and tell your doctor if it happens.",
+  },
+  {
+    id: "opioid-benzodiazepine", between: ["opioid", "benzodiazepine"], severity: "major",
+    effect: "Together they can slow or stop breathing, especially with alcohol.",
+    advice: `Avoid alcohol and don't take extra doses. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "statin-amiodarone", between: ["simvastatin", "amiodarone"], severity: "major",
+    effect: "Raises simvastatin levels, with a risk of muscle damage.",
+    advice: "Simvastatin is usually limited to a low dose with amiodarone; report unexplained muscle pain.",
+  },
+  {
+    id: "atorvastatin-strong-cyp3a4", between: ["atorvastatin", "strong-cyp3a4-inhibitor"], severity: "major",
+    effect: "Raises atorvastatin levels, with a risk of muscle damage.",
+    advice: "Report unexplained muscle pain or weakness straight away.",
+  },
+  {
+    id: "raas-potassium-sparing", between: ["ace-inhibitor", "potassium-sparing-diuretic"], severity: "major",
+    effect: "Can raise blood potassium to dangerous levels.",
+    advice: "Regular blood tests for potassium and kidney function are usually needed.",
+  },
+  {
+    id: "arb-potassium-sparing", between: ["arb", "potassium-sparing-diuretic"], severity: "major",
+    effect: "Can raise blood potassium to dangerous levels.",
+    advice: "Regular blood tests for potassium and kidney function are usually needed.",
+  },
+  {
+    id: "raas-potassium", between: ["ace-inhibitor", "potassium-supplement"], severity: "major",
+    effect: "Can raise blood potassium to dangerous levels.",
+    advice: `Only take potassium supplements if a doctor has advised it. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "arb-potassium", between: ["arb", "potassium-supplement"], severity: "major",
+    effect: "Can raise blood potassium to dangerous levels.",
+    advice: `Only take potassium supplements if a doctor has advised it. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "potassium-sparing-potassium", between: ["potassium-sparing-diuretic", "potassium-supplement"], severity: "major",
+    effect: "Can raise blood potassium to dangerous levels.",
+    advice: `Only take potassium supplements if a doctor has advised it. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "ace-inhibitor-arb", between: ["ace-inhibitor", "arb"], severity: "major",
+    effect: "Taking both raises the risk of kidney problems, high potassium and low blood pressure.",
+    advice: ASK_PRESCRIBER,
+  },
+  {
+    id: "lithium-nsaid", between: ["lithium", "nsaid"], severity: "major",
+    effect: "NSAIDs can push lithium to toxic levels.",
+    advice: "Lithium levels usually need checking if an NSAID is started; paracetamol is often preferred.",
+  },
+  {
+    id: "lithium-ace-inhibitor", between: ["lithium", "ace-inhibitor"], severity: "major",
+    effect: "Can push lithium to toxic levels.",
+    advice: "Lithium levels usually need closer monitoring.",
+  },
+  {
+    id: "lithium-arb", between: ["lithium", "arb"], severity: "major",
+    effect: "Can push lithium to toxic levels.",
+    advice: "Lithium levels usually need closer monitoring.",
+  },
+  {
+    id: "methotrexate-nsaid", between: ["methotrexate", "nsaid"], severity: "major",
+    effect: "NSAIDs can raise methotrexate levels and its toxicity.",
+    advice: ASK_PRESCRIBER,
+  },
+  {
+    id: "methotrexate-co-trimoxazole", between: ["methotrexate", "sulfonamide-antibiotic"], severity: "major",
+    effect: "Can cause severe bone marrow suppression.",
+    advice: `This combination is generally avoided. ${ASK_PRESCRIBER}`,
+  },
+  {
+    id: "digoxin-amiodarone", between: ["digoxin", "amiodarone"], severity: "major",
+    effect: "Amiodarone raises digoxin levels, risking toxicity.",
+    advice: "The digoxin dose usually needs lowering, with level checks.",
+  },
+  {
+    id: "digoxin-clarithromycin", between: ["digoxin", "clarithromycin"], severity: "major",
+    effect: "Clarithromycin raises digoxin levels, risking toxicity.",
+    advice: "Report nausea, vision changes or an irregular heartbeat.",
+  },
+  {
+    id: "nsaid-nsaid", between: ["nsaid", "nsaid"], severity: "moderate",
+    effect: "Two NSAIDs together add to the risk of stomach bleeding and kidney problems, and some, such as ibuprofen, can weaken the heart protection of low-dose aspirin.",
+    advice: "Use one NSAID at a time unless a doctor has advised otherwise.",
+  },
+  {
+    id: "corticosteroid-nsaid", between: ["corticosteroid", "nsaid"], severity: "moderate",
+    effect: "Increases the risk of stomach ulcers and bleeding.",
+    advice: "Ask whether you need a stomach-protecting medicine.",
+  },
+  {
+    id: "clopidogrel-omeprazole", between: ["clopidogrel", "omeprazole"], severity: "moderate",
+    effect: "Omeprazole can make clopidogrel less effective.",
+    advice: "Another stomach medicine, such as pantoprazole, is often preferred.",
+  },
+  {
+    id: "levothyroxine-cation", between: ["levothyroxine", "polyvalent-cation"], severity: "moderate",
+    effect: "Calcium, iron and antacids reduce how much levothyroxine is absorbed.",
+    advice: "Take them at least 4 hours apart.",
+  },
+  {
+    id: "fluoroquinolone-cation", between: ["fluoroquinolone", "polyvalent-cation"], severity: "moderate",
+    effect: "Calcium, iron and antacids stop the antibiotic being absorbed properly.",
+    advice: "Take the antibiotic 2 hours before or 6 hours after them.",
+  },
+];
+
+const crossReactions: CrossReactionRule[] = [
+  {
+    id: "penicillin-cephalosporin", allergen: "penicillin", affects: "cephalosporin", severity: "moderate",
+    effect: "A small number of people allergic to penicillin also react to cephalosporins.",
+  },
+  {
+    id: "aspirin-nsaid", allergen: "aspirin", affects: "nsaid", severity: "major",
+    effect: "People who react to aspirin often react to other NSAIDs too.",
+  },
+];
+
+/**
+ * A small bundled reference of common, well-documented interactions. It is
+ * not exhaustive: a drug missing from it has simply not been checked.
+ */
+export const DEFAULT_INTERACTIONS: InteractionCatalogue = { drugs, classes, interactions, crossReactions };
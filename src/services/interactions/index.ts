@@ -0,0 +1,144 @@
+import fs from "fs";
+import { DEFAULT_INTERACTIONS, type DrugEntry, type InteractionCatalogue, type InteractionSeverity } from "./catalogue.ts";
+
+export type { DrugEntry, InteractionCatalogue, InteractionSeverity } from "./catalogue.ts";
+
+export interface InteractionWarning {
+  ruleId: string;
+  kind: 'interaction' | 'allergy';
+  severity: Exclude<InteractionSeverity, 'none'>;
+  /** The drug being checked, by its catalogue name. */
+  drug: string;
+  /** The other medication or the recorded allergy, as the user wrote it. */
+  conflictsWith: string;
+  effect: string;
+  advice: string;
+}
+
+export interface InteractionCheck {
+  severity: InteractionSeverity;
+  warnings: InteractionWarning[];
+  /** Names that matched nothing in the catalogue, so could not be checked. */
+  unrecognized: string[];
+}
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { none: 0, moderate: 1, major: 2, contraindicated: 3 };
+
+const ALLERGY_ADVICE = "Don't take it unless a doctor who knows about the allergy says it is safe.";
+
+let catalogue: InteractionCatalogue | null = null;
+
+/** The catalogue from the JSON file at DRUG_INTERACTIONS_PATH when set, otherwise the bundled one. */
+export function getInteractionCatalogue(): InteractionCatalogue {
+  if (!catalogue) {
+    const path = process.env.DRUG_INTERACTIONS_PATH;
+    catalogue = path ? JSON.parse(fs.readFileSync(path, "utf8")) as InteractionCatalogue : DEFAULT_INTERACTIONS;
+  }
+  return catalogue;
+}
+
+export function setInteractionCatalogue(next: InteractionCatalogue | null) {
+  catalogue = next;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const mentions = (text: string, terms: string[]) => terms.some(term =>
+  new RegExp(`(?<![\\w'])${term.trim().toLowerCase().split(/\s+/).map(escapeRegExp).join("\\s+")}(?![\\w'])`).test(text));
+
+const normalize = (text: string) => text.toLowerCase().replace(/[‘’]/g, "'");
+
+/** Every catalogue drug named in `text`, by generic or brand name. */
+export function findDrugs(text: string, data: InteractionCatalogue = getInteractionCatalogue()): DrugEntry[] {
+  const normalized = normalize(text);
+  return data.drugs.filter(drug => mentions(normalized, [drug.name, ...drug.aliases]));
+}
+
+// The drug and class ids an allergy entry refers to: "penicillin" is a class, "ibuprofen" a drug.
+const allergenIds = (allergy: string, data: InteractionCatalogue) => {
+  const normalized = normalize(allergy);
+  return new Set([
+    ...findDrugs(allergy, data).map(drug => drug.id),
+    ...data.classes.filter(c => mentions(normalized, [c.label, ...c.aliases])).map(c => c.id),
+  ]);
+};
+
+const isA = (drug: DrugEntry, id: string) => drug.id === id || drug.classes.includes(id);
+
+// The most severe rule covering the pair, in either order.
+const interactionBetween = (a: DrugEntry, b: DrugEntry, data: InteractionCatalogue) => data.interactions
+  .filter(({ between: [x, y] }) => (isA(a, x) && isA(b, y)) || (isA(a, y) && isA(b, x)))
+  .sort((r1, r2) => SEVERITY_RANK[r2.severity] - SEVERITY_RANK[r1.severity])[0];
+
+const allergyWarning = (drug: DrugEntry, allergy: string, data: InteractionCatalogue): InteractionWarning | null => {
+  const ids = allergenIds(allergy, data);
+  if ([...ids].some(id => isA(drug, id))) {
+    return {
+      ruleId: `allergy:${drug.id}`, kind: "allergy", severity: "contraindicated", drug: drug.name, conflictsWith: allergy,
+      effect: `You have a recorded allergy to ${allergy}, which covers ${drug.name}.`, advice: ALLERGY_ADVICE,
+    };
+  }
+  const cross = data.crossReactions.find(rule => ids.has(rule.allergen) && isA(drug, rule.affects));
+  return cross ? {
+    ruleId: cross.id, kind: "allergy", severity: cross.severity, drug: drug.name, conflictsWith: allergy,
+    effect: cross.effect, advice: ALLERGY_ADVICE,
+  } : null;
+};
+
+/**
+ * Checks `candidates` (medicine names as typed, e.g. "Advil 200mg") against
+ * each other, the user's other `medications` and their recorded `allergies`.
+ * Purely catalogue-based, so the result never depends on the model.
+ */
+export function checkInteractions(
+  candidates: string[],
+  against: { medications: string[], allergies: string[] },
+  data: InteractionCatalogue = getInteractionCatalogue(),
+): InteractionCheck {
+  const warnings: InteractionWarning[] = [];
+  const seen = new Set<string>();
+  const add = (warning: InteractionWarning | null) => {
+    if (!warning) return;
+    const key = `${warning.ruleId}|${[warning.drug, warning.conflictsWith.toLowerCase()].sort().join("|")}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    warnings.push(warning);
+  };
+
+  const resolve = (names: string[]) => names.map(name => ({ name, drugs: findDrugs(name, data) }));
+  const checked = resolve(candidates);
+  const others = resolve(against.medications);
+
+  checked.forEach(({ drugs }, i) => {
+    for (const drug of drugs) {
+      // Other candidates once per pair, then everything already on the list.
+      const partners = [...checked.slice(i + 1), ...others];
+      for (const other of partners) {
+        for (const otherDrug of other.drugs) {
+          if (otherDrug.id === drug.id) continue;
+          const rule = interactionBetween(drug, otherDrug, data);
+          if (rule) {
+            add({ ruleId: rule.id, kind: "interaction", severity: rule.severity, drug: drug.name, conflictsWith: other.name, effect: rule.effect, advice: rule.advice });
+          }
+        }
+      }
+      for (const allergy of against.allergies) add(allergyWarning(drug, allergy, data));
+    }
+  });
+
+  warnings.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+  return {
+    severity: warnings[0]?.severity ?? "none",
+    warnings,
+    unrecognized: checked.filter(c => c.drugs.length === 0).map(c => c.name),
+  };
+}
+
+/** The warnings as a note for the model, so its reply agrees with what the app flagged. */
+export function interactionNote(check: InteractionCheck) {
+  if (check.warnings.length === 0) return null;
+  return [
+    "Medication safety warnings from the app's interaction checker (already shown to the user; address them in your reply):",
+    ...check.warnings.map(w => `- ${w.drug} with ${w.kind === "allergy" ? `allergy to ${w.conflictsWith}` : w.conflictsWith} (${w.severity}): ${w.effect}`),
+  ].join("\n");
+}
@@ -0,0 +1,145 @@
+// The guided symptom check: the order its questions are asked in and the
+// rule-based triage of the answers. The chat's question cards step through it
+// and the server re-assesses the finished answers before saving them, so it
+// has no server-only imports. The questions and options are in
+// src/contracts/interview.ts.
+
+import {
+  ASSOCIATED_SYMPTOMS, CARE_SETTINGS, DURATION_LABELS, HISTORY_ITEMS, INTERVIEW_STEPS, ONSET_LABELS, REGION_LABELS, associatedOptions,
+  type AssociatedSymptom, type CareSetting, type FlagLevel, type HistoryItem, type InterviewAnswers, type InterviewOption, type InterviewStep, type TriageLevel,
+} from '../contracts/interview.ts';
+
+const LEVEL_RANK: Record<TriageLevel, number> = { self_care: 0, routine: 1, urgent: 2, emergency: 3 };
+
+export interface InterviewAssessment {
+  level: TriageLevel;
+  careSetting: CareSetting;
+  /** Why the level is what it is, most serious first. */
+  reasons: string[];
+}
+
+/** A red flag found in the complaint's wording by the chat's triage rules. */
+export interface WordingFlag {
+  label: string;
+  severity: FlagLevel;
+}
+
+const labelOf = (options: readonly InterviewOption[], id: string) => options.find(option => option.id === id)!.label;
+
+/**
+ * Triage of the answers so far: each rule that applies adds a reason at its
+ * level and the most serious level wins. `flags` are red flags found in the
+ * complaint's wording, which the server adds from the chat's triage rules.
+ */
+export function assessInterview(answers: Partial<InterviewAnswers>, flags: WordingFlag[] = []): InterviewAssessment {
+  const found: [TriageLevel, string][] = flags.map(flag => [flag.severity, flag.label]);
+  const has = (symptom: AssociatedSymptom) => answers.associated?.includes(symptom) ?? false;
+  const applies = (item: HistoryItem) => answers.history?.includes(item) ?? false;
+  const severity = answers.severity ?? 0;
+
+  for (const option of ASSOCIATED_SYMPTOMS) {
+    if ('flag' in option && has(option.id)) found.push([option.flag, option.label]);
+  }
+
+  if (answers.location === 'chest' && has('breathless')) found.push(['emergency', 'Chest symptoms with shortness of breath']);
+  if (has('fever') && has('stiff_neck')) found.push(['emergency', 'Fever with a stiff neck']);
+  if (answers.location === 'head' && answers.onset === 'sudden' && severity >= 8) found.push(['emergency', 'A sudden, severe headache']);
+  if (answers.location === 'chest' && severity >= 7) found.push(['urgent', 'Severe chest symptoms']);
+  if (answers.location === 'abdomen' && answers.onset === 'sudden' && severity >= 7) found.push(['urgent', 'Sudden, severe stomach pain']);
+  if (applies('pregnant') && (answers.location === 'abdomen' || answers.location === 'pelvis')) found.push(['urgent', 'Stomach or pelvic symptoms during pregnancy']);
+  if (applies('injury') && answers.location === 'head') found.push(['urgent', 'Head symptoms after an injury']);
+  if (applies('immune') && has('fever')) found.push(['urgent', 'Fever with a weakened immune system']);
+  if (applies('surgery_travel') && (has('breathless') || has('leg_swelling'))) found.push(['urgent', 'Breathlessness or leg swelling after surgery or a long journey']);
+
+  if (severity >= 8) found.push(['urgent', `Severity ${severity}/10`]);
+  else if (severity >= 5) found.push(['routine', `Severity ${severity}/10`]);
+  if (answers.duration === 'weeks' || answers.duration === 'months') found.push(['routine', `Going on for ${DURATION_LABELS[answers.duration].toLowerCase()}`]);
+  if (has('fever') && (answers.duration === 'week' || answers.duration === 'weeks' || answers.duration === 'months')) found.push(['routine', 'A fever lasting several days']);
+  if (applies('long_term') && severity >= 5) found.push(['routine', 'Symptoms alongside a long-term condition']);
+  if (applies('new_medicine')) found.push(['routine', 'A new medicine may be the cause']);
+
+  found.sort((a, b) => LEVEL_RANK[b[0]] - LEVEL_RANK[a[0]]);
+  const level = found[0]?.[0] ?? 'self_care';
+  return { level, careSetting: CARE_SETTINGS[level].setting, reasons: [...new Set(found.map(([, reason]) => reason))] };
+}
+
+export interface InterviewState {
+  /** The question on screen; `done` once everything needed is answered. */
+  step: InterviewStep | 'done';
+  answers: Partial<InterviewAnswers>;
+  /** Steps answered so far, for going back. */
+  asked: InterviewStep[];
+}
+
+export const startInterview = (): InterviewState => ({ step: 'complaint', answers: {}, asked: [] });
+
+// The first unanswered question. Once the answers already call for emergency
+// care the history questions are skipped, so the result is shown straight away.
+const nextStep = (answers: Partial<InterviewAnswers>): InterviewState['step'] => {
+  const step = INTERVIEW_STEPS.find(s => answers[s] === undefined);
+  if (step === 'history' && assessInterview(answers).level === 'emergency') return 'done';
+  return step ?? 'done';
+};
+
+/** Why an answer can't be accepted, or null when it is fine. */
+export function answerProblem<S extends InterviewStep>(step: S, value: InterviewAnswers[S], answers: Partial<InterviewAnswers>): string | null {
+  switch (step) {
+    case 'complaint':
+      return (value as string).trim() ? null : 'Describe what is bothering you';
+    case 'severity':
+      return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 10 ? null : 'Rate it from 0 to 10';
+    case 'associated': {
+      const offered = answers.location ? associatedOptions(answers.location).map(o => o.id as string) : [];
+      return (value as string[]).every(id => offered.includes(id)) ? null : 'Pick from the listed symptoms';
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Records the answer to `step` and moves on. Changing the location drops
+ * associated symptoms that region doesn't offer, so they are asked again.
+ */
+export function answerStep<S extends InterviewStep>(state: InterviewState, step: S, value: InterviewAnswers[S]): InterviewState {
+  const answers = { ...state.answers, [step]: value };
+  if (step === 'location' && state.answers.location !== value) delete answers.associated;
+  const asked = [...state.asked.filter(s => s !== step), step];
+  return { step: nextStep(answers), answers, asked };
+}
+
+/** Back to the previously answered question, keeping its answer as the default. */
+export function previousStep(state: InterviewState): InterviewState {
+  const step = state.asked[state.asked.length - 1];
+  return step ? { ...state, step, asked: state.asked.slice(0, -1) } : state;
+}
+
+/** The answers as the user's chat message. */
+export function interviewTranscript(answers: InterviewAnswers): string {
+  const list = (ids: string[], options: readonly InterviewOption[]) => ids.length > 0 ? ids.map(id => labelOf(options, id)).join(', ') : 'None';
+  return [
+    '**Symptom check**',
+    `- Main concern: ${answers.complaint}`,
+    `- Where: ${REGION_LABELS[answers.location]}`,
+    `- Started: ${ONSET_LABELS[answers.onset]}`,
+    `- For: ${DURATION_LABELS[answers.duration]}`,
+    `- Severity: ${answers.severity}/10`,
+    `- Also: ${list(answers.associated, ASSOCIATED_SYMPTOMS)}`,
+    `- History: ${list(answers.history, HISTORY_ITEMS)}`,
+  ].join('\n');
+}
+
+/**
+ * The assessment as the assistant's chat reply, so later turns and exports
+ * read it as text. Emergencies are written as an `[!EMERGENCY]` callout.
+ */
+export function assessmentText({ level, reasons }: InterviewAssessment): string {
+  const care = CARE_SETTINGS[level];
+  const advice = [`**Suggested care: ${care.label}.** ${care.advice}`];
+  if (reasons.length > 0) advice.push('', 'Based on:', ...reasons.map(reason => `* ${reason}`));
+  return [
+    ...(level === 'emergency' ? ['[!EMERGENCY]', ...advice].map(line => `> ${line}`.trimEnd()) : advice),
+    '',
+    'This check is a guide, not a diagnosis. If you are worried, contact a doctor.',
+  ].join('\n');
+}
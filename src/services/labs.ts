@@ -0,0 +1,105 @@
+/** One measured value pulled out of a lab report. */
+export interface LabResult {
+  testName: string;
+  /** Normalized key used to trend the same test across reports, e.g. `hba1c`. */
+  marker: string;
+  value: number | null;
+  /** The value exactly as printed, for results like "Positive" or "<0.5". */
+  valueText: string;
+  unit: string | null;
+  referenceRange: string | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  outOfRange: boolean;
+  /** ISO date (YYYY-MM-DD) the sample was collected, if the report states it. */
+  specimenDate: string | null;
+  /** Page of the source PDF the value was read from, when text was extracted locally. */
+  page: number | null;
+}
+
+// Different labs print the same test under different names.
+const MARKER_ALIASES: Record<string, string[]> = {
+  hba1c: ["hba1c", "a1c", "hemoglobina1c", "haemoglobina1c", "glycatedhemoglobin", "glycatedhaemoglobin", "glycosylatedhemoglobin"],
+  ldl: ["ldl", "ldlcholesterol", "ldlc", "lowdensitylipoprotein"],
+  hdl: ["hdl", "hdlcholesterol", "hdlc", "highdensitylipoprotein"],
+  total_cholesterol: ["totalcholesterol", "cholesterol", "cholesteroltotal"],
+  triglycerides: ["triglycerides", "triglyceride", "tg"],
+  fasting_glucose: ["fastingglucose", "fastingbloodsugar", "fbs", "glucosefasting", "fastingplasmaglucose"],
+  hemoglobin: ["hemoglobin", "haemoglobin", "hb", "hgb"],
+  creatinine: ["creatinine", "serumcreatinine"],
+  tsh: ["tsh", "thyroidstimulatinghormone"],
+  vitamin_d: ["vitamind", "25ohvitamind", "25hydroxyvitamind", "vitamind25oh"],
+  vitamin_b12: ["vitaminb12", "b12", "cobalamin"],
+};
+
+const ALIAS_LOOKUP = new Map(
+  Object.entries(MARKER_ALIASES).flatMap(([marker, aliases]) => aliases.map(alias => [alias, marker] as const))
+);
+
+export function normalizeMarker(testName: string) {
+  const compact = testName.toLowerCase().replace(/\(.*?\)/g, "").replace(/[^a-z0-9]/g, "");
+  return ALIAS_LOOKUP.get(compact) ?? testName.toLowerCase().trim().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+const toNumber = (value: unknown) => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const n = parseFloat(value.replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+};
+
+/** Reads "4.0-5.6", "< 100", ">=40" style ranges into numeric bounds. */
+export function parseReferenceRange(range: string | null): { low: number | null, high: number | null } {
+  if (!range) return { low: null, high: null };
+  const text = range.replace(/,/g, "");
+  const between = text.match(/(-?\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(-?\d+(?:\.\d+)?)/);
+  if (between) return { low: parseFloat(between[1]), high: parseFloat(between[2]) };
+  const upper = text.match(/<=?\s*(\d+(?:\.\d+)?)/);
+  if (upper) return { low: null, high: parseFloat(upper[1]) };
+  const lower = text.match(/>=?\s*(\d+(?:\.\d+)?)/);
+  if (lower) return { low: parseFloat(lower[1]), high: null };
+  return { low: null, high: null };
+}
+
+const toIsoDate = (value: unknown) => {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+const toText = (value: unknown) => (typeof value === "string" && value.trim()) ? value.trim() : null;
+
+/**
+ * Sanitizes the model's `labResults` array. Rows without a test name are
+ * dropped; when the value and range are numeric the out-of-range flag is
+ * computed here instead of trusting the model.
+ */
+export function normalizeLabResults(raw: unknown): LabResult[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item: any): LabResult[] => {
+    const testName = toText(item?.testName);
+    if (!testName) return [];
+
+    const value = toNumber(item.value);
+    const referenceRange = toText(item.referenceRange);
+    const { low, high } = parseReferenceRange(referenceRange);
+    const computed = value === null || (low === null && high === null)
+      ? null
+      : (low !== null && value < low) || (high !== null && value > high);
+
+    return [{
+      testName,
+      marker: normalizeMarker(testName),
+      value,
+      valueText: item.value === undefined || item.value === null ? "" : String(item.value),
+      unit: toText(item.unit),
+      referenceRange,
+      referenceLow: low,
+      referenceHigh: high,
+      outOfRange: computed ?? item.outOfRange === true,
+      specimenDate: toIsoDate(item.specimenDate),
+      page: Number.isInteger(item.page) ? item.page : null,
+    }];
+  });
+}
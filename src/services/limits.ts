@@ -0,0 +1,61 @@
+import type { DocumentInput } from "./providers/index.ts";
+
+/** At most `limit` hits in each fixed window of `windowSeconds`. */
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+export const AUTH_RATE_LIMITS: Record<"ip" | "login" | "email", RateLimitRule> = {
+  /** Credential endpoints (sign-in, sign-up, links), per client IP. */
+  ip: { limit: 30, windowSeconds: 15 * 60 },
+  /** Sign-in attempts per email address, from any IP. */
+  login: { limit: 10, windowSeconds: 15 * 60 },
+  /** Verification and reset emails per address. */
+  email: { limit: 3, windowSeconds: 60 * 60 },
+};
+
+/** Consecutive wrong passwords before an account is locked, and for how long. */
+export const LOGIN_LOCKOUT = { maxFailures: 5, seconds: 15 * 60 };
+
+export interface AiQuota {
+  requests: number;
+  tokens: number;
+}
+
+const DEFAULT_AI_QUOTA: AiQuota = { requests: 200, tokens: 500_000 };
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+};
+
+/** Daily per-user allowance from AI_DAILY_REQUESTS / AI_DAILY_TOKENS. */
+export function aiQuotaFromEnv(env: NodeJS.ProcessEnv = process.env): AiQuota {
+  return {
+    requests: positiveInt(env.AI_DAILY_REQUESTS, DEFAULT_AI_QUOTA.requests),
+    tokens: positiveInt(env.AI_DAILY_TOKENS, DEFAULT_AI_QUOTA.tokens),
+  };
+}
+
+/**
+ * Providers don't all report usage (and not at all for aborted streams), so
+ * tokens are estimated from the text sent and received at ~4 characters each.
+ */
+export const estimateTokens = (...texts: string[]) =>
+  texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+
+// Roughly what a scanned page or image costs; the binary size says little about it.
+const FILE_TOKEN_ESTIMATE = 1_000;
+
+export const estimateDocumentTokens = (document: DocumentInput) =>
+  document.kind === "pages" ? estimateTokens(...document.pages.map(p => p.text)) : FILE_TOKEN_ESTIMATE;
+
+/** Quotas run per UTC day. */
+export const usageDay = (now = new Date()) => now.toISOString().slice(0, 10);
+
+export const nextUsageDay = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+export const secondsUntilNextDay = (now = new Date()) =>
+  Math.ceil((nextUsageDay(now).getTime() - now.getTime()) / 1000);
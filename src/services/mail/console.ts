@@ -0,0 +1,18 @@
+import type { MailMessage, MailTransport } from "./types.ts";
+
+/** Prints mail to stdout. The default for local development. */
+export class ConsoleTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage & { from: string }) {
+    console.log([
+      "--- Outgoing mail ---",
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "",
+      message.text,
+      "---------------------",
+    ].join("\n"));
+  }
+}
@@ -0,0 +1,28 @@
+import fs from "fs/promises";
+import path from "path";
+import type { MailMessage, MailTransport } from "./types.ts";
+
+/**
+ * Writes each message to its own `.eml` file so local setups can open the
+ * links without a mail server.
+ */
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(readonly dir: string) {}
+
+  async send(message: MailMessage & { from: string }) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const recipient = message.to.replace(/[^a-z0-9@._-]/gi, "_");
+    const file = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${recipient}.eml`);
+    await fs.writeFile(file, [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text,
+    ].join("\r\n"));
+  }
+}
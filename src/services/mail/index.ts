@@ -0,0 +1,42 @@
+import { ConsoleTransport } from "./console.ts";
+import { FileTransport } from "./file.ts";
+import { SmtpTransport } from "./smtp.ts";
+import type { MailMessage, MailTransport } from "./types.ts";
+
+export type { MailMessage, MailTransport } from "./types.ts";
+export { ConsoleTransport, FileTransport, SmtpTransport };
+
+/** Builds the transport named by MAIL_TRANSPORT (default `console`). */
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const name = (env.MAIL_TRANSPORT || "console").toLowerCase();
+
+  switch (name) {
+    case "console":
+      return new ConsoleTransport();
+    case "file":
+      return new FileTransport(env.MAIL_DIR || "storage/mail");
+    case "smtp":
+      if (!env.SMTP_URL) throw new Error('MAIL_TRANSPORT="smtp" requires SMTP_URL');
+      return new SmtpTransport(env.SMTP_URL);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}". Expected console, file or smtp.`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getTransport(): MailTransport {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+}
+
+// Lets tests swap in a capturing transport; null restores the env default.
+export function setTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  await getTransport().send({ from: process.env.MAIL_FROM || "MyHealthAI <no-reply@localhost>", ...message });
+}
@@ -0,0 +1,46 @@
+import type { MailMessage } from "./types.ts";
+
+export const verificationEmail = (to: string, firstName: string, link: string): MailMessage => ({
+  to,
+  subject: "Confirm your MyHealthAI email address",
+  text: [
+    `Hi ${firstName || "there"},`,
+    "",
+    "Please confirm your email address to finish setting up your MyHealthAI account:",
+    "",
+    link,
+    "",
+    "The link expires in 24 hours. If you did not create an account, you can ignore this email.",
+  ].join("\n"),
+});
+
+export const passwordResetEmail = (to: string, firstName: string, link: string): MailMessage => ({
+  to,
+  subject: "Reset your MyHealthAI password",
+  text: [
+    `Hi ${firstName || "there"},`,
+    "",
+    "We received a request to reset your password. Choose a new one here:",
+    "",
+    link,
+    "",
+    "The link expires in 1 hour and can only be used once. If you did not ask for this, you can ignore this email; your password has not changed.",
+  ].join("\n"),
+});
+
+export const accountDeletionEmail = (to: string, firstName: string, deletionDate: string, link: string): MailMessage => ({
+  to,
+  subject: "Your MyHealthAI account is scheduled for deletion",
+  text: [
+    `Hi ${firstName || "there"},`,
+    "",
+    `As requested, your MyHealthAI account and all of its data will be permanently deleted on ${deletionDate}.`,
+    "You have been signed out on every device.",
+    "",
+    "Changed your mind? Sign in before then and choose \"Keep my account\" on the Dashboard:",
+    "",
+    link,
+    "",
+    "If you did not ask for this, sign in and cancel the deletion, then change your password.",
+  ].join("\n"),
+});
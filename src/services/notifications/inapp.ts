@@ -0,0 +1,21 @@
+import type Database from "better-sqlite3";
+import { getKeyRing, seal } from "../encryption.ts";
+import type { Notice, NotificationChannel } from "./types.ts";
+
+/** Stores the notice in the user's in-app inbox. Always enabled. */
+export class InAppChannel implements NotificationChannel {
+  readonly name = "in-app";
+
+  constructor(private db: Database.Database) {}
+
+  async deliver(notice: Notice) {
+    this.db.prepare(`
+      INSERT INTO notifications (user_id, title, body, url, occurrence_id, key_version) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      notice.userId,
+      seal("notifications", "title", notice.userId, notice.title),
+      seal("notifications", "body", notice.userId, notice.body),
+      notice.url, notice.occurrenceId ?? null, getKeyRing().current,
+    );
+  }
+}
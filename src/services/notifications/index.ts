@@ -0,0 +1,65 @@
+import type Database from "better-sqlite3";
+import { InAppChannel } from "./inapp.ts";
+import type { Notice, NotificationChannel } from "./types.ts";
+import { WebPushChannel, type VapidKeys } from "./webpush.ts";
+
+export type { Notice, NotificationChannel } from "./types.ts";
+export type { VapidKeys } from "./webpush.ts";
+export { InAppChannel, WebPushChannel };
+
+/** The VAPID keys from VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY, or null when push is not configured. */
+export function vapidKeysFromEnv(env: NodeJS.ProcessEnv = process.env): VapidKeys | null {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) return null;
+  return {
+    publicKey: env.VAPID_PUBLIC_KEY,
+    privateKey: env.VAPID_PRIVATE_KEY,
+    subject: env.VAPID_SUBJECT || "mailto:no-reply@localhost",
+  };
+}
+
+/**
+ * Builds the channels named by NOTIFICATION_CHANNELS (default `in-app,push`).
+ * Push is left out, with a warning, when no VAPID keys are configured.
+ */
+export function createChannelsFromEnv(db: Database.Database, env: NodeJS.ProcessEnv = process.env): NotificationChannel[] {
+  const names = (env.NOTIFICATION_CHANNELS || "in-app,push").toLowerCase().split(",").map(name => name.trim()).filter(Boolean);
+
+  return names.flatMap((name): NotificationChannel[] => {
+    switch (name) {
+      case "in-app":
+        return [new InAppChannel(db)];
+      case "push": {
+        const vapid = vapidKeysFromEnv(env);
+        if (!vapid) {
+          console.warn("Web Push is disabled: set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY to enable it.");
+          return [];
+        }
+        return [new WebPushChannel(db, vapid)];
+      }
+      default:
+        throw new Error(`Unknown notification channel "${name}". Expected in-app or push.`);
+    }
+  });
+}
+
+let channels: NotificationChannel[] | null = null;
+
+export function getChannels(db: Database.Database): NotificationChannel[] {
+  if (!channels) {
+    channels = createChannelsFromEnv(db);
+  }
+  return channels;
+}
+
+// Lets tests swap in capturing channels; null restores the env default.
+export function setChannels(next: NotificationChannel[] | null) {
+  channels = next;
+}
+
+/** Delivers through every channel. One failing channel is logged and doesn't stop the others. */
+export async function notify(targets: NotificationChannel[], notice: Notice) {
+  const results = await Promise.allSettled(targets.map(channel => channel.deliver(notice)));
+  results.forEach((result, i) => {
+    if (result.status === "rejected") console.error(`Notification via ${targets[i].name} failed:`, result.reason);
+  });
+}
@@ -0,0 +1,16 @@
+export interface Notice {
+  userId: number;
+  title: string;
+  body: string;
+  /** Where the app should open when the notice is clicked, e.g. `/?tab=reminders`. */
+  url: string;
+  /** Replaces an earlier notice with the same tag instead of stacking, where the channel supports it. */
+  tag: string;
+  occurrenceId?: number;
+}
+
+/** Delivers a notice to a user by one route: the in-app inbox, browser push, and later SMS or email. */
+export interface NotificationChannel {
+  readonly name: string;
+  deliver(notice: Notice): Promise<void>;
+}
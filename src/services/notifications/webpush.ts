@@ -0,0 +1,42 @@
+import type Database from "better-sqlite3";
+import webpush, { WebPushError } from "web-push";
+import type { Notice, NotificationChannel } from "./types.ts";
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  /** A mailto: or https: contact the push services can reach the sender at. */
+  subject: string;
+}
+
+/**
+ * Sends the notice to every browser the user has subscribed for Web Push.
+ * Subscriptions the push service reports as gone are deleted.
+ */
+export class WebPushChannel implements NotificationChannel {
+  readonly name = "push";
+
+  constructor(private db: Database.Database, private vapid: VapidKeys) {}
+
+  async deliver(notice: Notice) {
+    const subscriptions = this.db.prepare("SELECT id, endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = ?")
+      .all(notice.userId) as { id: number, endpoint: string, p256dh: string, auth: string }[];
+    const payload = JSON.stringify({ title: notice.title, body: notice.body, url: notice.url, tag: notice.tag });
+
+    await Promise.all(subscriptions.map(async (sub) => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+          payload,
+          { vapidDetails: this.vapid, TTL: 60 * 60 },
+        );
+      } catch (err) {
+        if (err instanceof WebPushError && (err.statusCode === 404 || err.statusCode === 410)) {
+          this.db.prepare("DELETE FROM push_subscriptions WHERE id = ?").run(sub.id);
+          return;
+        }
+        throw err;
+      }
+    }));
+  }
+}
@@ -0,0 +1,29 @@
+import { PDFParse } from "pdf-parse";
+
+export interface PageText {
+  page: number;
+  text: string;
+}
+
+// Below this many characters per page on average the PDF is treated as scanned images.
+const MIN_CHARS_PER_PAGE = 40;
+
+/**
+ * Extracts per-page text from a text-based PDF. Returns null for scanned or
+ * unreadable files so the caller can fall back to sending the binary.
+ */
+export async function extractPdfPages(buffer: Buffer): Promise<PageText[] | null> {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText();
+    const pages = result.pages.map(p => ({ page: p.num, text: p.text.trim() }));
+    const chars = pages.reduce((sum, p) => sum + p.text.length, 0);
+    if (pages.length === 0 || chars / pages.length < MIN_CHARS_PER_PAGE) return null;
+    return pages;
+  } catch (error) {
+    console.error("PDF Text Extraction Error:", error);
+    return null;
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,93 @@
+import { GoogleGenAI } from "@google/genai";
+import { formatPages, titlePrompt, type ChatMessage, type DocumentInput, type GenerateOptions, type LLMProvider } from "./types.ts";
+
+// Only the parts of the SDK we call, so a local fake can stand in for tests.
+export type GeminiClient = {
+  models: Pick<GoogleGenAI['models'], 'generateContent' | 'generateContentStream'>;
+};
+
+const toContents = (messages: ChatMessage[]) => messages.map(m => ({
+  role: m.role === 'assistant' ? 'model' : 'user',
+  parts: [{ text: m.content }]
+}));
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private client: GeminiClient | null;
+
+  constructor(readonly model: string, client?: GeminiClient) {
+    this.client = client ?? null;
+  }
+
+  // Built lazily so a missing key fails the request, not server start-up.
+  private getClient(): GeminiClient {
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+    }
+    return this.client;
+  }
+
+  async chat(messages: ChatMessage[], options: GenerateOptions = {}) {
+    const response = await this.getClient().models.generateContent({
+      model: this.model,
+      contents: toContents(messages),
+      config: {
+        systemInstruction: options.systemInstruction,
+        abortSignal: options.signal,
+      }
+    });
+    return response.text || "";
+  }
+
+  async *streamChat(messages: ChatMessage[], options: GenerateOptions = {}) {
+    const { signal } = options;
+    try {
+      const stream = await this.getClient().models.generateContentStream({
+        model: this.model,
+        contents: toContents(messages),
+        config: {
+          systemInstruction: options.systemInstruction,
+          abortSignal: signal,
+        }
+      });
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) return;
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    }
+  }
+
+  async analyzeDocument(document: DocumentInput, prompt: string, options: GenerateOptions = {}) {
+    const response = await this.getClient().models.generateContent({
+      model: this.model,
+      contents: [
+        {
+          parts: [
+            document.kind === 'file'
+              ? { inlineData: { data: document.data, mimeType: document.mimeType } }
+              : { text: formatPages(document.pages) },
+            { text: prompt }
+          ]
+        }
+      ],
+      config: {
+        systemInstruction: options.systemInstruction,
+        abortSignal: options.signal,
+        responseMimeType: options.json ? "application/json" : undefined,
+      }
+    });
+    return response.text || "";
+  }
+
+  async generateTitle(firstMessage: string) {
+    const response = await this.getClient().models.generateContent({
+      model: this.model,
+      contents: [{ parts: [{ text: titlePrompt(firstMessage) }] }],
+    });
+    return response.text?.trim() || "";
+  }
+}
@@ -0,0 +1,30 @@
+import { GeminiProvider } from "./gemini.ts";
+import { MockProvider } from "./mock.ts";
+import { OpenAICompatibleProvider } from "./openai.ts";
+import type { LLMProvider } from "./types.ts";
+
+export type { ChatMessage, DocumentInput, GenerateOptions, LLMProvider } from "./types.ts";
+export { GeminiProvider, MockProvider, OpenAICompatibleProvider };
+
+const DEFAULT_MODELS: Record<string, string> = {
+  gemini: "gemini-3-flash-preview",
+  openai: "llama3.1",
+  mock: "mock-1",
+};
+
+/** Builds the provider named by LLM_PROVIDER (default `gemini`), using LLM_MODEL if set. */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "gemini").toLowerCase();
+  const model = env.LLM_MODEL || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider(model);
+    case "openai":
+      return new OpenAICompatibleProvider(model, env.OPENAI_BASE_URL || "http://localhost:11434/v1", env.OPENAI_API_KEY);
+    case "mock":
+      return new MockProvider(model);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Expected gemini, openai or mock.`);
+  }
+}
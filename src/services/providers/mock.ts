@@ -0,0 +1,59 @@
+import type { ChatMessage, DocumentInput, GenerateOptions, LLMProvider } from "./types.ts";
+
+/**
+ * Offline provider with canned, deterministic output. Used for tests and
+ * demos where no model is reachable; the same input always gives the same reply.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+
+  constructor(readonly model = "mock-1") {}
+
+  async chat(messages: ChatMessage[]) {
+    const last = [...messages].reverse().find(m => m.role === 'user');
+    return [
+      `**Mock response** to: "${last?.content ?? ''}"`,
+      "",
+      "* This reply was generated offline by the mock provider.",
+      "* Please consult a healthcare professional for medical advice.",
+    ].join("\n");
+  }
+
+  async *streamChat(messages: ChatMessage[], options: GenerateOptions = {}) {
+    const reply = await this.chat(messages);
+    for (const word of reply.split(/(?<= )/)) {
+      if (options.signal?.aborted) return;
+      yield word;
+    }
+  }
+
+  async analyzeDocument(document: DocumentInput, _prompt: string, options: GenerateOptions = {}) {
+    const source = document.kind === 'file'
+      ? `a ${document.mimeType} document (${Buffer.byteLength(document.data, 'base64')} bytes)`
+      : `${document.pages.length} page(s) of extracted text`;
+    // Cite the opening words of the first page so citation handling can be exercised offline.
+    const firstPage = document.kind === 'pages' ? document.pages[0] : null;
+    const quote = firstPage?.text.split(/\s+/).slice(0, 6).join(" ");
+
+    const analysis = [
+      `**Mock analysis** of ${source}.${quote ? " [[1]]" : ""}`,
+      "",
+      "* No real analysis was performed.",
+      "* Please review this report with your doctor.",
+    ].join("\n");
+    if (!options.json) return analysis;
+
+    return JSON.stringify({
+      analysis,
+      citations: quote ? [{ id: 1, page: firstPage!.page, quote }] : [],
+      labResults: [
+        { testName: "HbA1c", value: 6.1, unit: "%", referenceRange: "4.0-5.6", outOfRange: true, specimenDate: "2024-01-15", page: firstPage?.page ?? null },
+        { testName: "LDL Cholesterol", value: 96, unit: "mg/dL", referenceRange: "<100", outOfRange: false, specimenDate: "2024-01-15", page: firstPage?.page ?? null },
+      ],
+    });
+  }
+
+  async generateTitle(firstMessage: string) {
+    return firstMessage.replace(/[^\p{L}\p{N}\s]/gu, "").trim().split(/\s+/).slice(0, 3).join(" ");
+  }
+}
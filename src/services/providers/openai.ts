@@ -0,0 +1,103 @@
+import { formatPages, titlePrompt, type ChatMessage, type DocumentInput, type GenerateOptions, type LLMProvider } from "./types.ts";
+
+type ContentPart =
+  | { type: 'text', text: string }
+  | { type: 'image_url', image_url: { url: string } };
+
+type OpenAIMessage = { role: 'system' | 'user' | 'assistant', content: string | ContentPart[] };
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API, such as
+ * Ollama (`http://localhost:11434/v1`) or llama.cpp's `llama-server`.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+
+  constructor(readonly model: string, private baseUrl: string, private apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private async request(messages: OpenAIMessage[], stream: boolean, signal?: AbortSignal, json = false) {
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        stream,
+        ...(json ? { response_format: { type: "json_object" } } : {}),
+      }),
+      signal,
+    });
+    if (!res.ok) {
+      throw new Error(`LLM server responded ${res.status}: ${await res.text()}`);
+    }
+    return res;
+  }
+
+  private withSystem(messages: OpenAIMessage[], systemInstruction?: string): OpenAIMessage[] {
+    return systemInstruction ? [{ role: "system", content: systemInstruction }, ...messages] : messages;
+  }
+
+  private async complete(messages: OpenAIMessage[], options: GenerateOptions = {}) {
+    const res = await this.request(this.withSystem(messages, options.systemInstruction), false, options.signal, options.json);
+    const data: any = await res.json();
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  chat(messages: ChatMessage[], options?: GenerateOptions) {
+    return this.complete(messages, options);
+  }
+
+  async *streamChat(messages: ChatMessage[], options: GenerateOptions = {}) {
+    const { signal } = options;
+    try {
+      const res = await this.request(this.withSystem(messages, options.systemInstruction), true, signal);
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const payload = line.slice(5).trim();
+          if (payload === "[DONE]") return;
+          const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (text) yield text as string;
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    }
+  }
+
+  async analyzeDocument(document: DocumentInput, prompt: string, options?: GenerateOptions) {
+    if (document.kind === 'pages') {
+      return this.complete([{ role: "user", content: `${formatPages(document.pages)}\n\n${prompt}` }], options);
+    }
+    if (!document.mimeType.startsWith("image/")) {
+      throw new Error(`The OpenAI-compatible provider cannot read ${document.mimeType} files`);
+    }
+    return this.complete([{
+      role: "user",
+      content: [
+        { type: "image_url", image_url: { url: `data:${document.mimeType};base64,${document.data}` } },
+        { type: "text", text: prompt }
+      ]
+    }], options);
+  }
+
+  async generateTitle(firstMessage: string) {
+    return (await this.complete([{ role: "user", content: titlePrompt(firstMessage) }])).trim();
+  }
+}
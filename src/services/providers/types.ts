@@ -0,0 +1,42 @@
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** A document as the raw file, or as text already extracted page by page. */
+export type DocumentInput =
+  | {
+    kind: 'file';
+    /** Base64-encoded file contents. */
+    data: string;
+    mimeType: string;
+  }
+  | {
+    kind: 'pages';
+    pages: { page: number, text: string }[];
+  };
+
+export interface GenerateOptions {
+  systemInstruction?: string;
+  signal?: AbortSignal;
+  /** Ask the model for a single JSON object instead of free text. */
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  /** Provider id as configured in LLM_PROVIDER, stored alongside each reply. */
+  readonly name: string;
+  readonly model: string;
+  chat(messages: ChatMessage[], options?: GenerateOptions): Promise<string>;
+  /** Yields text deltas; stops quietly once the signal aborts. */
+  streamChat(messages: ChatMessage[], options?: GenerateOptions): AsyncGenerator<string>;
+  analyzeDocument(document: DocumentInput, prompt: string, options?: GenerateOptions): Promise<string>;
+  generateTitle(firstMessage: string): Promise<string>;
+}
+
+export const titlePrompt = (firstMessage: string) =>
+  `Generate a very short (1-3 words) title for a medical chat session starting with this message: "${firstMessage}". Return only the title text, no punctuation.`;
+
+/** Renders extracted pages with markers the model can cite by number. */
+export const formatPages = (pages: { page: number, text: string }[]) =>
+  pages.map(p => `=== Page ${p.page} ===\n${p.text}`).join("\n\n");
@@ -0,0 +1,234 @@
+import type Database from "better-sqlite3";
+import { unseal } from "./encryption.ts";
+import { notify, type Notice, type NotificationChannel } from "./notifications/index.ts";
+
+export type ReminderKind = 'dose' | 'refill' | 'appointment';
+export type OccurrenceStatus = 'pending' | 'sent' | 'taken' | 'skipped' | 'missed';
+
+/** How often the server runs the scheduler. */
+export const REMINDER_TICK_MS = 30 * 1000;
+/** How far ahead dose occurrences are queued, so a restart never loses one. */
+const QUEUE_AHEAD_HOURS = 36;
+/** An occurrence nobody answered this long after it was due counts as missed. */
+export const MISSED_AFTER_HOURS = 12;
+const DELIVERY_BATCH = 100;
+
+/** SQLite's UTC DATETIME text, so stored times compare with CURRENT_TIMESTAMP. */
+export const toSqlTime = (date: Date) => date.toISOString().slice(0, 19).replace("T", " ");
+export const fromSqlTime = (value: string) => new Date(`${value.replace(" ", "T")}Z`);
+
+const hoursFrom = (date: Date, hours: number) => new Date(date.getTime() + hours * 60 * 60 * 1000);
+
+// How far `timeZone` is ahead of UTC at `instant`, in milliseconds.
+const zoneOffset = (instant: Date, timeZone: string) => {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat("en-US", {
+    timeZone, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(instant).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/** The instant the wall clock in `timeZone` shows `time` ("HH:MM") on `date` ("YYYY-MM-DD"). */
+export function zonedTime(date: string, time: string, timeZone: string) {
+  const asUtc = new Date(`${date}T${time}:00Z`);
+  const guess = new Date(asUtc.getTime() - zoneOffset(asUtc, timeZone));
+  // Checking the offset again at the guess settles times next to a DST change.
+  return new Date(asUtc.getTime() - zoneOffset(guess, timeZone));
+}
+
+/** The calendar date ("YYYY-MM-DD") in `timeZone` at `instant`. */
+export const localDate = (instant: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(instant);
+
+const nextDate = (date: string) => new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+interface StoredReminder {
+  id: number;
+  user_id: number;
+  kind: ReminderKind;
+  times: string | null;
+  timezone: string;
+  due_at: string | null;
+  lead_minutes: number;
+}
+
+// Due times still ahead of `now`: every dose time inside the queueing window,
+// or the single refill or appointment time, notified `lead_minutes` early.
+const upcomingTimes = (reminder: StoredReminder, now: Date) => {
+  if (reminder.kind !== "dose") {
+    if (!reminder.due_at || fromSqlTime(reminder.due_at) <= now) return [];
+    const due = fromSqlTime(reminder.due_at);
+    return [{ scheduledFor: due, notifyAt: new Date(due.getTime() - reminder.lead_minutes * 60 * 1000) }];
+  }
+
+  const until = hoursFrom(now, QUEUE_AHEAD_HOURS);
+  const last = localDate(until, reminder.timezone);
+  const found: { scheduledFor: Date, notifyAt: Date }[] = [];
+  for (let date = localDate(now, reminder.timezone); date <= last; date = nextDate(date)) {
+    for (const time of reminder.times?.split(",") ?? []) {
+      const at = zonedTime(date, time, reminder.timezone);
+      if (at > now && at <= until) found.push({ scheduledFor: at, notifyAt: at });
+    }
+  }
+  return found;
+};
+
+const queueFor = (db: Database.Database, reminders: StoredReminder[], now: Date) => {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO reminder_occurrences (reminder_id, user_id, scheduled_for, notify_at) VALUES (?, ?, ?, ?)
+  `);
+  let queued = 0;
+  db.transaction(() => {
+    for (const reminder of reminders) {
+      for (const { scheduledFor, notifyAt } of upcomingTimes(reminder, now)) {
+        queued += insert.run(reminder.id, reminder.user_id, toSqlTime(scheduledFor), toSqlTime(notifyAt)).changes;
+      }
+    }
+  })();
+  return queued;
+};
+
+/** Persists an occurrence for every active reminder due within the queueing window. */
+export function queueOccurrences(db: Database.Database, now = new Date()) {
+  const reminders = db.prepare("SELECT id, user_id, kind, times, timezone, due_at, lead_minutes FROM reminders WHERE active = 1").all() as StoredReminder[];
+  return queueFor(db, reminders, now);
+}
+
+/**
+ * Brings one reminder's queue in line after it is created, edited or paused:
+ * unanswered future occurrences are dropped and, if it is active, queued again.
+ */
+export function rescheduleReminder(db: Database.Database, reminderId: number, now = new Date()) {
+  db.prepare(`
+    DELETE FROM reminder_occurrences WHERE reminder_id = ? AND status IN ('pending', 'sent') AND scheduled_for > ?
+  `).run(reminderId, toSqlTime(now));
+  const reminder = db.prepare("SELECT id, user_id, kind, times, timezone, due_at, lead_minutes FROM reminders WHERE id = ? AND active = 1")
+    .get(reminderId) as StoredReminder | undefined;
+  return reminder ? queueFor(db, [reminder], now) : 0;
+}
+
+/** Marks occurrences left unanswered for MISSED_AFTER_HOURS as missed. */
+export function markMissed(db: Database.Database, now = new Date()) {
+  return db.prepare(`
+    UPDATE reminder_occurrences SET status = 'missed'
+    WHERE status IN ('pending', 'sent') AND scheduled_for <= ? AND notify_at <= ?
+  `).run(toSqlTime(hoursFrom(now, -MISSED_AFTER_HOURS)), toSqlTime(now)).changes;
+}
+
+interface DueOccurrence {
+  id: number;
+  user_id: number;
+  scheduled_for: string;
+  kind: ReminderKind;
+  title: string;
+  notes: string | null;
+  timezone: string;
+  key_version: number | null;
+}
+
+const formatWhen = (instant: Date, timeZone: string, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat("en-US", { timeZone, ...options }).format(instant);
+
+/** The notice for an occurrence, with times shown in the reminder's own time zone. */
+export function reminderNotice(occurrence: DueOccurrence): Notice {
+  const title = unseal("reminders", "title", occurrence.user_id, occurrence.title, occurrence.key_version)!;
+  const notes = unseal("reminders", "notes", occurrence.user_id, occurrence.notes, occurrence.key_version);
+  const due = fromSqlTime(occurrence.scheduled_for);
+
+  const [heading, when] = {
+    dose: [`Time for ${title}`, `Your ${formatWhen(due, occurrence.timezone, { hour: "numeric", minute: "2-digit" })} dose. Mark it taken, skip it or snooze it in the app.`],
+    refill: [`Refill due: ${title}`, `Due ${formatWhen(due, occurrence.timezone, { weekday: "short", month: "short", day: "numeric" })}.`],
+    appointment: [`Appointment: ${title}`, formatWhen(due, occurrence.timezone, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })],
+  }[occurrence.kind];
+
+  return {
+    userId: occurrence.user_id,
+    title: heading,
+    body: notes ? `${when}\n${notes}` : when,
+    url: "/?tab=reminders",
+    tag: `reminder-${occurrence.id}`,
+    occurrenceId: occurrence.id,
+  };
+}
+
+/**
+ * Sends every pending occurrence whose notify time has come. Each is claimed
+ * (pending -> sent) before it goes out, so it is delivered at most once even
+ * if the process stops mid-batch.
+ */
+export async function deliverDue(db: Database.Database, channels: NotificationChannel[], now = new Date()) {
+  const due = db.prepare(`
+    SELECT o.id, o.user_id, o.scheduled_for, r.kind, r.title, r.notes, r.timezone, r.key_version
+    FROM reminder_occurrences o JOIN reminders r ON r.id = o.reminder_id
+    WHERE o.status = 'pending' AND o.notify_at <= ? AND r.active = 1
+    ORDER BY o.notify_at ASC LIMIT ?
+  `).all(toSqlTime(now), DELIVERY_BATCH) as DueOccurrence[];
+  const claim = db.prepare("UPDATE reminder_occurrences SET status = 'sent', notified_at = ? WHERE id = ? AND status = 'pending'");
+
+  let sent = 0;
+  for (const occurrence of due) {
+    if (claim.run(toSqlTime(now), occurrence.id).changes === 0) continue;
+    await notify(channels, reminderNotice(occurrence));
+    sent++;
+  }
+  return sent;
+}
+
+/** One scheduler pass: queue upcoming occurrences, expire stale ones, deliver what is due. */
+export async function runReminderTick(db: Database.Database, channels: NotificationChannel[], now = new Date()) {
+  const queued = queueOccurrences(db, now);
+  const missed = markMissed(db, now);
+  const sent = await deliverDue(db, channels, now);
+  return { queued, missed, sent };
+}
+
+export interface AdherenceCount {
+  taken: number;
+  skipped: number;
+  missed: number;
+  /** Taken as a share of answered-or-missed doses, 0-100; null when there are none yet. */
+  percentage: number | null;
+}
+
+export interface Adherence extends AdherenceCount {
+  days: number;
+  reminders: (AdherenceCount & { reminderId: number, title: string })[];
+}
+
+const percentage = ({ taken, skipped, missed }: Omit<AdherenceCount, 'percentage'>) => {
+  const total = taken + skipped + missed;
+  return total === 0 ? null : Math.round((taken / total) * 100);
+};
+
+/**
+ * Dose adherence over the last `days`: doses marked taken against every dose
+ * that was taken, skipped or missed. Doses still awaiting an answer don't count.
+ */
+export function doseAdherence(db: Database.Database, userId: number, days: number, now = new Date()): Adherence {
+  const rows = db.prepare(`
+    SELECT r.id, r.title, r.key_version, o.status, COUNT(*) AS count
+    FROM reminder_occurrences o JOIN reminders r ON r.id = o.reminder_id
+    WHERE o.user_id = ? AND r.kind = 'dose' AND o.status IN ('taken', 'skipped', 'missed')
+      AND o.scheduled_for > ? AND o.scheduled_for <= ?
+    GROUP BY r.id, o.status
+  `).all(userId, toSqlTime(hoursFrom(now, -24 * days)), toSqlTime(now)) as
+    { id: number, title: string, key_version: number | null, status: 'taken' | 'skipped' | 'missed', count: number }[];
+
+  const byReminder = new Map<number, Adherence['reminders'][number]>();
+  for (const row of rows) {
+    const entry = byReminder.get(row.id) ?? {
+      reminderId: row.id, title: unseal("reminders", "title", userId, row.title, row.key_version)!,
+      taken: 0, skipped: 0, missed: 0, percentage: null,
+    };
+    entry[row.status] += row.count;
+    byReminder.set(row.id, entry);
+  }
+
+  const reminders = [...byReminder.values()].map(entry => ({ ...entry, percentage: percentage(entry) }));
+  const totals = {
+    taken: reminders.reduce((sum, r) => sum + r.taken, 0),
+    skipped: reminders.reduce((sum, r) => sum + r.skipped, 0),
+    missed: reminders.reduce((sum, r) => sum + r.missed, 0),
+  };
+  return { days, ...totals, percentage: percentage(totals), reminders };
+}
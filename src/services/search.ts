@@ -0,0 +1,54 @@
+/**
+ * Snippet highlight delimiters. Control characters rather than HTML so the
+ * client can render matches without trusting stored content as markup.
+ */
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+const SNIPPET_CHARS = 120;
+const SNIPPET_LEAD = 40;
+
+/** Lower-cased words of a free-text query, or null when there is nothing searchable. */
+export function searchTerms(text: string): string[] | null {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return terms ? [...new Set(terms)].slice(0, 12) : null;
+}
+
+// Terms are letters and digits only, so they need no escaping. A term matches
+// the start of a word, so results update while the user is typing.
+const startsWord = (term: string) => new RegExp(`(?<![\\p{L}\\p{N}])${term}`, 'iu');
+const matchedWords = (terms: string[]) => new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+
+export interface SearchMatch {
+  snippet: string;
+  /** Number of matched words; higher ranks first. */
+  score: number;
+}
+
+/**
+ * Matches decrypted text in memory, since encrypted columns can't be indexed.
+ * Every term must start some word of the text. Returns a short excerpt around
+ * the first match with each matched word wrapped in the highlight delimiters.
+ */
+export function matchText(text: string, terms: string[]): SearchMatch | null {
+  if (!terms.every(term => startsWord(term).test(text))) return null;
+
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const words = matchedWords(terms);
+  const matches = [...flat.matchAll(words)];
+  const first = matches[0]?.index ?? 0;
+
+  // Widen to whole words without cutting off the first match.
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  const space = flat.indexOf(' ', start);
+  if (start > 0 && space !== -1 && space < first) start = space + 1;
+  let end = Math.min(flat.length, start + SNIPPET_CHARS);
+  const lastSpace = flat.lastIndexOf(' ', end);
+  if (end < flat.length && lastSpace > first) end = lastSpace;
+
+  const excerpt = flat.slice(start, end).replace(words, word => `${HIGHLIGHT_START}${word}${HIGHLIGHT_END}`);
+  return {
+    snippet: `${start > 0 ? '…' : ''}${excerpt}${end < flat.length ? '…' : ''}`,
+    score: matches.length,
+  };
+}
@@ -0,0 +1,44 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+const REPORTS_DIR = path.resolve(process.env.REPORTS_DIR || "storage/reports");
+
+export interface StoredFile {
+  /** Path relative to the reports directory, as stored in `medical_reports.stored_path`. */
+  storedPath: string;
+  sha256: string;
+  size: number;
+}
+
+/**
+ * Writes an uploaded report under `<user id>/<sha256><ext>`. Identical
+ * uploads from the same user share one file on disk.
+ */
+export async function saveReportFile(userId: number, buffer: Buffer, originalName: string): Promise<StoredFile> {
+  const sha256 = crypto.createHash("sha256").update(buffer).digest("hex");
+  const ext = path.extname(originalName).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  const storedPath = path.posix.join(String(userId), `${sha256}${ext}`);
+  const target = path.join(REPORTS_DIR, storedPath);
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, buffer);
+  return { storedPath, sha256, size: buffer.length };
+}
+
+export function resolveReportFile(storedPath: string) {
+  const target = path.resolve(REPORTS_DIR, storedPath);
+  if (!target.startsWith(REPORTS_DIR + path.sep)) {
+    throw new Error("Stored path escapes the reports directory");
+  }
+  return target;
+}
+
+export function readReportFile(storedPath: string) {
+  return fs.readFile(resolveReportFile(storedPath));
+}
+
+/** Removes every stored report file of one user. */
+export function deleteUserFiles(userId: number) {
+  return fs.rm(path.join(REPORTS_DIR, String(userId)), { recursive: true, force: true });
+}
@@ -0,0 +1,106 @@
+export type TriageSeverity = 'none' | 'urgent' | 'emergency';
+
+export interface RedFlagRule {
+  id: string;
+  label: string;
+  severity: Exclude<TriageSeverity, 'none'>;
+  /** Phrases and synonyms, matched case-insensitively on word boundaries. */
+  phrases: string[];
+  advice: string;
+}
+
+const CALL_EMERGENCY = "Call 911 or go to the nearest emergency room now.";
+
+export const DEFAULT_RED_FLAGS: RedFlagRule[] = [
+  {
+    id: "chest-pain",
+    label: "Chest pain",
+    severity: "emergency",
+    phrases: ["chest pain", "chest pains", "pain in my chest", "chest tightness", "tight chest", "pressure in my chest", "chest pressure", "crushing chest", "heart attack"],
+    advice: `Chest pain can be a sign of a heart attack. ${CALL_EMERGENCY}`,
+  },
+  {
+    id: "breathing",
+    label: "Difficulty breathing",
+    severity: "emergency",
+    phrases: ["difficulty breathing", "trouble breathing", "hard to breathe", "can't breathe", "cannot breathe", "cant breathe", "shortness of breath", "short of breath", "struggling to breathe", "gasping for air", "choking"],
+    advice: `Severe difficulty breathing needs immediate care. ${CALL_EMERGENCY}`,
+  },
+  {
+    id: "stroke",
+    label: "Possible stroke",
+    severity: "emergency",
+    phrases: ["face drooping", "facial droop", "slurred speech", "can't speak", "numbness on one side", "weakness on one side", "one side of my body", "sudden confusion", "stroke"],
+    advice: `Face drooping, arm weakness or speech trouble can mean a stroke; every minute counts. ${CALL_EMERGENCY}`,
+  },
+  {
+    id: "bleeding",
+    label: "Severe bleeding",
+    severity: "emergency",
+    phrases: ["severe bleeding", "bleeding heavily", "heavy bleeding", "won't stop bleeding", "wont stop bleeding", "vomiting blood", "throwing up blood", "coughing up blood"],
+    advice: `Apply firm pressure to any wound and get emergency help. ${CALL_EMERGENCY}`,
+  },
+  {
+    id: "unconscious",
+    label: "Loss of consciousness",
+    severity: "emergency",
+    phrases: ["passed out", "fainted", "unconscious", "unresponsive", "blacked out", "lost consciousness"],
+    advice: `Fainting or unresponsiveness needs urgent assessment. ${CALL_EMERGENCY}`,
+  },
+  {
+    id: "seizure",
+    label: "Seizure",
+    severity: "emergency",
+    phrases: ["seizure", "seizures", "convulsing", "convulsions"],
+    advice: `Keep the person safe from injury and do not put anything in their mouth. ${CALL_EMERGENCY}`,
+  },
+  {
+    id: "anaphylaxis",
+    label: "Severe allergic reaction",
+    severity: "emergency",
+    phrases: ["throat swelling", "throat is closing", "swollen tongue", "tongue swelling", "lips swelling", "anaphylaxis", "anaphylactic"],
+    advice: `Use an epinephrine auto-injector if one is available. ${CALL_EMERGENCY}`,
+  },
+  {
+    id: "self-harm",
+    label: "Thoughts of self-harm",
+    severity: "emergency",
+    phrases: ["suicidal", "kill myself", "end my life", "want to die", "hurt myself", "self harm", "self-harm"],
+    advice: "You are not alone. Call or text 988 (Suicide & Crisis Lifeline) or call 911 if you are in immediate danger.",
+  },
+  {
+    id: "thunderclap-headache",
+    label: "Sudden severe headache",
+    severity: "emergency",
+    phrases: ["worst headache of my life", "worst headache ever", "thunderclap headache", "sudden severe headache"],
+    advice: `A sudden, severe headache can signal bleeding in the brain. ${CALL_EMERGENCY}`,
+  },
+  {
+    id: "meningitis-signs",
+    label: "Fever with stiff neck",
+    severity: "urgent",
+    phrases: ["stiff neck", "neck stiffness", "rash that doesn't fade"],
+    advice: "A stiff neck with fever or a non-fading rash should be seen by a doctor today.",
+  },
+  {
+    id: "severe-abdominal-pain",
+    label: "Severe abdominal pain",
+    severity: "urgent",
+    phrases: ["severe abdominal pain", "severe stomach pain", "unbearable stomach pain", "rigid abdomen"],
+    advice: "Severe abdominal pain should be assessed at urgent care or an emergency department today.",
+  },
+  {
+    id: "high-fever",
+    label: "Very high fever",
+    severity: "urgent",
+    phrases: ["high fever", "fever of 103", "fever of 104", "fever of 105", "104 fever", "103 fever"],
+    advice: "A very high fever should be checked by a doctor today, sooner if it does not come down with medication.",
+  },
+  {
+    id: "blood-in-stool-urine",
+    label: "Blood in stool or urine",
+    severity: "urgent",
+    phrases: ["blood in my stool", "blood in stool", "bloody stool", "black stool", "blood in my urine", "blood in urine"],
+    advice: "Blood in stool or urine should be checked by a doctor promptly.",
+  },
+];
@@ -0,0 +1,104 @@
+import fs from "fs";
+import { DEFAULT_RED_FLAGS, type RedFlagRule, type TriageSeverity } from "./catalogue.ts";
+
+export type { RedFlagRule, TriageSeverity } from "./catalogue.ts";
+
+export interface TriageMatch {
+  ruleId: string;
+  label: string;
+  severity: Exclude<TriageSeverity, 'none'>;
+  advice: string;
+  /** The text in the message that triggered the rule. */
+  matched: string;
+}
+
+export interface TriageResult {
+  severity: TriageSeverity;
+  matches: TriageMatch[];
+}
+
+const SEVERITY_RANK: Record<TriageSeverity, number> = { none: 0, urgent: 1, emergency: 2 };
+
+// A cue within this many words before a phrase negates it: "no chest pain", "don't have chest pain".
+const NEGATION_WINDOW = 3;
+const NEGATION_CUES = new Set(["no", "not", "never", "without", "denies", "deny", "don't", "dont", "doesn't", "haven't", "havent", "hasn't", "isn't", "none", "nor", "free"]);
+
+// Negation doesn't carry across sentences or contrasts: "no fever but chest pain".
+const CLAUSE_BREAK = /[.!?;,\n]+|\b(?:but|however|although|though|except)\b/;
+
+let rules: RedFlagRule[] | null = null;
+
+/** Rules from the JSON file at TRIAGE_RULES_PATH when set, otherwise the bundled catalogue. */
+export function getRedFlagRules(): RedFlagRule[] {
+  if (!rules) {
+    const path = process.env.TRIAGE_RULES_PATH;
+    rules = path ? JSON.parse(fs.readFileSync(path, "utf8")) as RedFlagRule[] : DEFAULT_RED_FLAGS;
+  }
+  return rules;
+}
+
+export function setRedFlagRules(next: RedFlagRule[] | null) {
+  rules = next;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const phrasePattern = (phrase: string) =>
+  new RegExp(`(?<![\\w'])${phrase.trim().toLowerCase().split(/\s+/).map(escapeRegExp).join("\\s+")}(?![\\w'])`, "g");
+
+const isNegated = (clause: string, index: number) => {
+  const before = clause.slice(0, index).trim().split(/\s+/).filter(Boolean).slice(-NEGATION_WINDOW);
+  return before.some(word => NEGATION_CUES.has(word));
+};
+
+const findUnnegated = (phrases: string[], clauses: string[]) => {
+  for (const phrase of phrases) {
+    const pattern = phrasePattern(phrase);
+    for (const clause of clauses) {
+      for (const m of clause.matchAll(pattern)) {
+        if (!isNegated(clause, m.index!)) return m[0];
+      }
+    }
+  }
+  return null;
+};
+
+const maxSeverity = (a: TriageSeverity, b: TriageSeverity) => SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+
+/**
+ * Checks a user message against the red-flag catalogue. Purely rule-based, so it
+ * runs before (and without) the model.
+ */
+export function triageMessage(text: string, catalogue: RedFlagRule[] = getRedFlagRules()): TriageResult {
+  const clauses = text.toLowerCase().replace(/[‘’]/g, "'").split(CLAUSE_BREAK);
+  const matches: TriageMatch[] = [];
+
+  for (const rule of catalogue) {
+    const matched = findUnnegated(rule.phrases, clauses);
+    if (matched) {
+      matches.push({ ruleId: rule.id, label: rule.label, severity: rule.severity, advice: rule.advice, matched });
+    }
+  }
+
+  return {
+    severity: matches.reduce<TriageSeverity>((level, m) => maxSeverity(level, m.severity), "none"),
+    matches,
+  };
+}
+
+/**
+ * Deterministic reply used when the model can't be reached for a flagged
+ * message. Emergencies are written as an `[!EMERGENCY]` callout.
+ */
+export function triageFallbackReply(result: TriageResult) {
+  const advice = [
+    "**I couldn't reach the AI model, but your message mentions symptoms that need prompt attention:**",
+    "",
+    ...result.matches.map(m => `* **${m.label}:** ${m.advice}`),
+  ];
+  return [
+    ...(result.severity === "emergency" ? ["[!EMERGENCY]", ...advice].map(line => `> ${line}`.trimEnd()) : advice),
+    "",
+    "I am an AI assistant and not a replacement for professional medical care.",
+  ].join("\n");
+}
@@ -0,0 +1,123 @@
+// Flags, series summaries and the chat-context note for logged vitals. The
+// catalogue they are checked against lives in src/contracts/vitals.ts; this
+// module has no server-only imports so the Dashboard can use it too.
+import { VITALS, convertVital, type Thresholds, type VitalFlag, type VitalReading, type VitalType } from '../contracts/vitals.ts';
+
+const RANK: Record<VitalFlag, number> = { very_low: 2, low: 1, high: 1, very_high: 2 };
+
+const flagFor = (value: number, t: Thresholds): VitalFlag | null =>
+  t.veryHigh !== undefined && value >= t.veryHigh ? 'very_high'
+    : t.high !== undefined && value >= t.high ? 'high'
+    : t.veryLow !== undefined && value < t.veryLow ? 'very_low'
+    : t.low !== undefined && value < t.low ? 'low'
+    : null;
+
+/** The reading's flag against adult thresholds; for blood pressure the worse of the two values. */
+export function assessVital(reading: Pick<VitalReading, 'type' | 'value' | 'value2' | 'unit'>): VitalFlag | null {
+  const vital = VITALS[reading.type];
+  const first = flagFor(convertVital(reading.type, reading.value, reading.unit), vital.thresholds);
+  const second = vital.paired && reading.value2 !== null ? flagFor(reading.value2, vital.secondThresholds!) : null;
+  if (!first || !second) return first ?? second;
+  return RANK[second] > RANK[first] ? second : first;
+}
+
+/** A series is one vital type, or one named symptom. */
+export const seriesKey = (reading: Pick<VitalReading, 'type' | 'label'>) =>
+  reading.type === 'symptom' ? `symptom:${(reading.label ?? '').toLowerCase()}` : reading.type;
+
+export const seriesLabel = (reading: Pick<VitalReading, 'type' | 'label'>) =>
+  reading.type === 'symptom' ? `${reading.label} severity` : VITALS[reading.type].label;
+
+export interface VitalSummary {
+  key: string;
+  type: VitalType;
+  label: string;
+  /** The unit of the latest reading; every figure below is in it. */
+  unit: string;
+  count: number;
+  abnormal: number;
+  latest: { value: number, value2: number | null, measured_at: string, flag: VitalFlag | null };
+  /** Averages of the earlier and later half of the readings; null with fewer than four. */
+  trend: { earlier: [number, number | null], later: [number, number | null], direction: 'rising' | 'falling' | 'steady' } | null;
+}
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Relative changes smaller than this read as steady.
+const STEADY_WITHIN = 0.03;
+
+/** Per-series counts, latest value and trend, from readings in ascending time order. */
+export function summarizeVitals(readings: VitalReading[]): VitalSummary[] {
+  const series = new Map<string, VitalReading[]>();
+  for (const reading of readings) {
+    const key = seriesKey(reading);
+    series.set(key, [...(series.get(key) ?? []), reading]);
+  }
+
+  return [...series.entries()].map(([key, rows]) => {
+    const last = rows[rows.length - 1];
+    const { decimals } = VITALS[last.type];
+    const inUnit = (r: VitalReading) => convertVital(r.type, r.value, r.unit, last.unit);
+    const halfAverage = (half: VitalReading[]): [number, number | null] => [
+      round(average(half.map(inUnit)), decimals),
+      VITALS[last.type].paired ? round(average(half.map(r => r.value2 ?? 0)), decimals) : null,
+    ];
+
+    let trend: VitalSummary['trend'] = null;
+    if (rows.length >= 4) {
+      const middle = Math.floor(rows.length / 2);
+      const earlier = halfAverage(rows.slice(0, middle));
+      const later = halfAverage(rows.slice(rows.length - middle));
+      const change = earlier[0] === 0 ? later[0] - earlier[0] : (later[0] - earlier[0]) / Math.abs(earlier[0]);
+      trend = { earlier, later, direction: Math.abs(change) < STEADY_WITHIN ? 'steady' : change > 0 ? 'rising' : 'falling' };
+    }
+
+    return {
+      key,
+      type: last.type,
+      label: seriesLabel(last),
+      unit: last.unit,
+      count: rows.length,
+      abnormal: rows.filter(r => assessVital(r) !== null).length,
+      latest: { value: round(inUnit(last), decimals), value2: last.value2, measured_at: last.measured_at, flag: assessVital(last) },
+      trend,
+    };
+  });
+}
+
+const FLAG_LABELS: Record<VitalFlag, string> = { very_low: 'very low', low: 'low', high: 'high', very_high: 'very high' };
+
+export const formatVitalValue = (value: number, value2: number | null, unit: string) =>
+  `${value2 !== null ? `${value}/${value2}` : value}${unit === '/10' ? '/10' : ` ${unit}`}`;
+
+const MAX_ABNORMAL = 8;
+
+/**
+ * The user's logged vitals as a note for the model: per series the number of
+ * readings, the latest, how the later half compares with the earlier half,
+ * and the most recent flagged readings, so questions like "is my blood
+ * pressure getting better?" are answered from their own numbers.
+ */
+export function vitalsContext(readings: VitalReading[], days: number): string | null {
+  if (readings.length === 0) return null;
+  const date = (measuredAt: string) => measuredAt.slice(0, 10);
+
+  const lines = summarizeVitals(readings).map(s => {
+    const latest = `latest ${formatVitalValue(s.latest.value, s.latest.value2, s.unit)} on ${date(s.latest.measured_at)}${s.latest.flag ? ` (${FLAG_LABELS[s.latest.flag]})` : ''}`;
+    const trend = s.trend
+      ? `; average ${formatVitalValue(...s.trend.earlier, s.unit)} in the earlier half, ${formatVitalValue(...s.trend.later, s.unit)} in the later half (${s.trend.direction})`
+      : '';
+    const abnormal = s.abnormal > 0 ? `; ${s.abnormal} outside the usual range` : '';
+    return `- ${s.label}: ${s.count} reading${s.count === 1 ? '' : 's'}, ${latest}${trend}${abnormal}`;
+  });
+
+  const flagged = readings.map(r => ({ reading: r, flag: assessVital(r) })).filter(r => r.flag !== null).slice(-MAX_ABNORMAL).reverse();
+  if (flagged.length > 0) {
+    lines.push(`Recent readings outside the usual range: ${flagged.map(({ reading, flag }) =>
+      `${date(reading.measured_at)} ${seriesLabel(reading).toLowerCase()} ${formatVitalValue(reading.value, reading.value2, reading.unit)} (${FLAG_LABELS[flag!]})`).join('; ')}`);
+  }
+
+  return `Vitals and symptoms the user logged in the last ${days} days (flags use general adult thresholds; use these figures when asked about their readings or trends):\n${lines.join('\n')}`;
+}
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { strFromU8, unzipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import db from '../src/db.ts';
+import { purgeDueAccounts } from '../src/services/accounts.ts';
+import { api, PASSWORD, request, signUp, uploadReport, useServer } from './helpers.ts';
+
+useServer();
+
+const exportArchive = async (token: string) => {
+  const res = await request('GET', '/api/user/export', { token });
+  expect(res.headers.get('content-type')).toBe('application/zip');
+  return unzipSync(new Uint8Array(await res.arrayBuffer()));
+};
+
+const json = (entry: Uint8Array) => JSON.parse(strFromU8(entry));
+
+describe('data export', () => {
+  it('zips every record decrypted, with the original report files', async () => {
+    const { token } = await signUp('export@example.com');
+    const chat = await api('POST', '/api/ai/chat', { token, body: { message: 'Crushing chest pain since lunch' } });
+    await api('POST', '/api/user/medications', { token, body: { name: 'Warfarin', dose: '5mg' } });
+    await api('POST', '/api/user/vitals', { token, body: { type: 'heart_rate', value: 72, unit: 'bpm' } });
+    const { body: { reportId } } = await uploadReport(token, 'bloods.png');
+
+    const files = await exportArchive(token);
+    expect(Object.keys(files)).toEqual(expect.arrayContaining([
+      'profile.json', 'medical-history.json', 'vitals.json', 'reminders.json', 'notifications.json', 'chats.json', 'reports.json', 'activity.json',
+      `reports/${reportId}-bloods.png`,
+    ]));
+    expect(json(files['profile.json']).email).toBe('export@example.com');
+    expect(json(files['medical-history.json']).medications).toMatchObject([{ name: 'Warfarin', dose: '5mg' }]);
+    expect(json(files['vitals.json'])).toMatchObject([{ type: 'heart_rate', value: 72 }]);
+
+    const session = json(files['chats.json']).find((s: { id: number }) => s.id === chat.body.session.id);
+    expect(session.messages.map((m: { content: string }) => m.content)).toEqual(['Crushing chest pain since lunch', chat.body.reply]);
+    expect(session.triage_events).toMatchObject([{ severity: 'emergency' }]);
+
+    const [report] = json(files['reports.json']);
+    expect(report).toMatchObject({ id: reportId, file: `reports/${reportId}-bloods.png` });
+    expect(report.lab_results.map((r: { value: number }) => r.value)).toEqual([6.1, 96]);
+    expect(Buffer.from(files[report.file]).toString('hex')).toBe('89504e470d0a1a0a');
+  });
+
+  it("leaves out other users' data", async () => {
+    const { token } = await signUp('empty@example.com');
+    const files = await exportArchive(token);
+    expect(json(files['chats.json'])).toEqual([]);
+    expect(json(files['reports.json'])).toEqual([]);
+  });
+});
+
+describe('account deletion', () => {
+  it('asks for the password again', async () => {
+    const { token } = await signUp('careful@example.com');
+    const res = await api('DELETE', '/api/user', { token, body: { password: 'not the password' } });
+    expect(res).toEqual({ status: 403, body: { error: 'Incorrect password.', code: 'forbidden' } });
+  });
+
+  it('signs out everywhere and can be cancelled by signing in again', async () => {
+    const { token } = await signUp('undo@example.com');
+    const res = await api('DELETE', '/api/user', { token, body: { password: PASSWORD } });
+    expect(res.body.deletionScheduledAt).toEqual(expect.any(String));
+    expect((await api('GET', '/api/user/profile', { token })).status).toBe(401);
+
+    const again = await api('POST', '/api/auth/login', { body: { email: 'undo@example.com', password: PASSWORD } });
+    expect((await api('POST', '/api/user/cancel-deletion', { token: again.body.token })).body).toEqual({ success: true });
+    expect(db.prepare("SELECT deletion_scheduled_at FROM users WHERE email = 'undo@example.com'").pluck().get()).toBeNull();
+    expect(await purgeDueAccounts(db)).toBe(0);
+  });
+
+  it('purges every row and file once the grace period is over, and keeps the audit log', async () => {
+    const { token, user } = await signUp('gone@example.com');
+    await api('POST', '/api/ai/chat', { token, body: { message: 'Crushing chest pain since lunch' } });
+    await api('POST', '/api/user/vitals', { token, body: { type: 'heart_rate', value: 72, unit: 'bpm' } });
+    await uploadReport(token);
+    const files = path.join(process.env.REPORTS_DIR!, String(user.id));
+    expect(fs.existsSync(files)).toBe(true);
+    await api('DELETE', '/api/user', { token, body: { password: PASSWORD } });
+    db.prepare("UPDATE users SET deletion_scheduled_at = datetime('now', '-1 minute') WHERE id = ?").run(user.id);
+
+    expect(await purgeDueAccounts(db)).toBe(1);
+    const tables = db.prepare("SELECT m.name FROM sqlite_master m JOIN pragma_table_info(m.name) c ON c.name = 'user_id' WHERE m.type = 'table'").pluck().all() as string[];
+    for (const table of [...tables, 'users']) {
+      const column = table === 'users' ? 'id' : 'user_id';
+      expect([table, db.prepare(`SELECT COUNT(*) FROM ${table} WHERE ${column} = ?`).pluck().get(user.id)]).toEqual([table, 0]);
+    }
+    expect(fs.existsSync(files)).toBe(false);
+    expect(db.prepare('SELECT COUNT(*) FROM audit_log WHERE actor_id = ?').pluck().get(user.id)).toBeGreaterThan(0);
+
+    expect((await api('POST', '/api/auth/login', { body: { email: 'gone@example.com', password: PASSWORD } })).status).toBe(401);
+  });
+});
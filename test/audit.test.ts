@@ -0,0 +1,31 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { api, signUp, useServer } from './helpers.ts';
+
+useServer();
+
+describe('audit log', () => {
+  let token: string;
+  beforeAll(async () => {
+    ({ token } = await signUp('audited@example.com'));
+  });
+
+  it('records reads and failed attempts against health records', async () => {
+    await api('GET', '/api/user/profile', { token });
+    await api('GET', '/api/reports/999', { token });
+
+    const activity = await api('GET', '/api/user/activity', { token });
+    expect(activity.body.slice(0, 2)).toMatchObject([
+      { action: 'read', resource: '/api/reports/:id', resource_id: '999', status: 404 },
+      { action: 'read', resource: '/api/user/profile', resource_id: null, status: 200 },
+    ]);
+  });
+
+  it("doesn't record looking at your own activity", async () => {
+    const before = (await api('GET', '/api/user/activity', { token })).body.length;
+    expect((await api('GET', '/api/user/activity', { token })).body).toHaveLength(before);
+  });
+
+  it('only lets admins export the whole log', async () => {
+    expect((await api('GET', '/api/admin/audit-log', { token })).status).toBe(403);
+  });
+});
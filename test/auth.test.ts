@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import db from '../src/db.ts';
+import { api, PASSWORD, signUp, useServer } from './helpers.ts';
+
+useServer();
+
+const refresh = (refreshToken: string) => api('POST', '/api/auth/refresh', { body: { refreshToken } });
+const profile = (token: string) => api('GET', '/api/user/profile', { token });
+const login = (email: string) => api('POST', '/api/auth/login', { body: { email, password: PASSWORD } });
+
+// Moves the session's last rotation out of the grace period for concurrent refreshes.
+const ageLastRotation = (token: string) => {
+  const { sid } = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+  db.prepare("UPDATE auth_sessions SET last_used_at = datetime('now', '-1 minute') WHERE id = ?").run(sid);
+};
+
+describe('refresh tokens', () => {
+  let email: string;
+  let n = 0;
+  const freshAccount = async () => {
+    email = `refresh${n++}@example.com`;
+    return signUp(email);
+  };
+
+  it('rotates the refresh token and issues a working access token', async () => {
+    const first = await freshAccount();
+    const rotated = await refresh(first.refreshToken);
+    expect(rotated.status).toBe(200);
+    expect(rotated.body.refreshToken).not.toBe(first.refreshToken);
+    expect((await profile(rotated.body.token)).body.email).toBe(email);
+    expect((await refresh(rotated.body.refreshToken)).status).toBe(200);
+  });
+
+  it('turns away a rotated-out token moments later without revoking the session', async () => {
+    const first = await freshAccount();
+    const rotated = await refresh(first.refreshToken);
+    expect((await refresh(first.refreshToken)).body.code).toBe('unauthorized');
+    expect((await refresh(rotated.body.refreshToken)).status).toBe(200);
+  });
+
+  it('revokes the session when a rotated-out token is reused later', async () => {
+    const first = await freshAccount();
+    const rotated = await refresh(first.refreshToken);
+    ageLastRotation(rotated.body.token);
+
+    expect((await refresh(first.refreshToken)).status).toBe(401);
+    expect((await refresh(rotated.body.refreshToken)).status).toBe(401);
+    expect((await profile(rotated.body.token)).body).toMatchObject({ code: 'unauthorized', error: 'You have been signed out.' });
+  });
+
+  it('rejects unknown and missing tokens', async () => {
+    expect((await refresh('not-a-token')).status).toBe(401);
+    expect((await api('POST', '/api/auth/refresh', { body: {} })).body.code).toBe('validation_failed');
+  });
+});
+
+describe('logout', () => {
+  it('ends only the current session', async () => {
+    const laptop = await signUp('logout@example.com');
+    const phone = (await login('logout@example.com')).body;
+
+    expect((await api('POST', '/api/auth/logout', { token: laptop.token })).body).toEqual({ success: true });
+    expect((await profile(laptop.token)).status).toBe(401);
+    expect((await refresh(laptop.refreshToken)).status).toBe(401);
+    expect((await profile(phone.token)).status).toBe(200);
+    expect((await refresh(phone.refreshToken)).status).toBe(200);
+  });
+
+  it('ends every session at once', async () => {
+    const laptop = await signUp('logout-all@example.com');
+    const phone = (await login('logout-all@example.com')).body;
+
+    expect((await api('POST', '/api/auth/logout-all', { token: phone.token })).body).toEqual({ success: true, revoked: 2 });
+    for (const session of [laptop, phone]) {
+      expect((await profile(session.token)).status).toBe(401);
+      expect((await refresh(session.refreshToken)).status).toBe(401);
+    }
+  });
+});
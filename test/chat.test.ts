@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { setProvider } from '../src/services/ai.ts';
+import { MockProvider } from '../src/services/providers/index.ts';
+import { api, FailingProvider, signUp, useServer } from './helpers.ts';
+
+useServer();
+
+describe('AI chat proxy', () => {
+  let token: string;
+  beforeAll(async () => {
+    ({ token } = await signUp('chat@example.com'));
+  });
+
+  it('answers through the server-side provider and keeps the turn in a new session', async () => {
+    const res = await api('POST', '/api/ai/chat', { token, body: { message: 'A pounding headache since Tuesday' } });
+    expect(res.status).toBe(200);
+    expect(res.body.reply).toContain('**Mock response**');
+    expect(res.body.session).toMatchObject({ created: true });
+
+    const history = await api('GET', `/api/chat/history?sessionId=${res.body.session.id}`, { token });
+    expect(history.body.map((m: { role: string, content: string }) => [m.role, m.content])).toEqual([
+      ['user', 'A pounding headache since Tuesday'],
+      ['assistant', res.body.reply],
+    ]);
+  });
+
+  it('continues an existing session and refuses one that is not yours', async () => {
+    const first = await api('POST', '/api/ai/chat', { token, body: { message: 'Hello' } });
+    const next = await api('POST', '/api/ai/chat', { token, body: { message: 'And again', sessionId: first.body.session.id } });
+    expect(next.body.session).toMatchObject({ id: first.body.session.id, created: false });
+
+    const { token: other } = await signUp('other@example.com');
+    const res = await api('POST', '/api/ai/chat', { token: other, body: { message: 'Hi', sessionId: first.body.session.id } });
+    expect(res.status).toBe(404);
+  });
+
+  it('only serves signed-in users', async () => {
+    expect((await api('POST', '/api/ai/chat', { body: { message: 'Hello' } })).status).toBe(401);
+    expect((await api('POST', '/api/ai/chat', { token: 'nonsense', body: { message: 'Hello' } })).status).toBe(403);
+  });
+});
+
+describe('red-flag triage', () => {
+  let token: string;
+  beforeAll(async () => {
+    ({ token } = await signUp('triage@example.com'));
+  });
+
+  it('flags a red-flag message and still asks the model', async () => {
+    const res = await api('POST', '/api/ai/chat', { token, body: { message: 'Sudden chest pain going down my arm' } });
+    expect(res.body.triage.severity).toBe('emergency');
+    expect(res.body.triage.matches[0].ruleId).toBe('chest-pain');
+    expect(res.body.reply).toContain('**Mock response**');
+  });
+
+  it('leaves negated symptoms alone', async () => {
+    const res = await api('POST', '/api/ai/chat', { token, body: { message: 'No chest pain, but a pounding headache' } });
+    expect(res.body.triage).toEqual({ severity: 'none', matches: [] });
+  });
+
+  it('falls back to the triage advice when the model is down', async () => {
+    setProvider(new FailingProvider());
+    try {
+      const flagged = await api('POST', '/api/ai/chat', { token, body: { message: 'I think I am having a heart attack' } });
+      expect(flagged.status).toBe(200);
+      expect(flagged.body.reply.split('\n')[0]).toBe('> [!EMERGENCY]');
+      expect((await api('POST', '/api/ai/chat', { token, body: { message: 'A mild cough' } })).status).toBe(502);
+    } finally {
+      setProvider(new MockProvider());
+    }
+  });
+});
+
+describe('medication checks in chat', () => {
+  let token: string;
+  beforeAll(async () => {
+    ({ token } = await signUp('meds@example.com'));
+    expect((await api('POST', '/api/user/medications', { token, body: { name: 'Warfarin', dose: '5mg' } })).status).toBe(200);
+  });
+
+  it('checks medicines named in a message against the medication list', async () => {
+    const res = await api('POST', '/api/ai/chat', { token, body: { message: 'Can I take Advil for this?' } });
+    expect(res.body.interactions.severity).toBe('major');
+    expect(res.body.interactions.warnings[0]).toMatchObject({ ruleId: 'anticoagulant-nsaid', drug: 'Ibuprofen', conflictsWith: 'Warfarin' });
+  });
+
+  it('warns before a conflicting medication is added', async () => {
+    const res = await api('POST', '/api/user/medications/check', { token, body: { name: 'aspirin' } });
+    expect(res.body.warnings.map((w: { conflictsWith: string }) => w.conflictsWith)).toContain('Warfarin');
+  });
+});
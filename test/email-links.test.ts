@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { api, mail, PASSWORD, signUp, useServer } from './helpers.ts';
+
+useServer();
+
+const register = (email: string) =>
+  api('POST', '/api/auth/register', { body: { email, password: PASSWORD, firstName: 'Ann', lastName: 'Lee' } });
+const login = (email: string, password = PASSWORD) => api('POST', '/api/auth/login', { body: { email, password } });
+
+// The token from the newest link of the given kind sent to `email`.
+const linkToken = (email: string, kind: 'verify' | 'reset') => {
+  const message = mail.filter(m => m.to === email).pop()!;
+  return decodeURIComponent(message.text.match(new RegExp(`\\?${kind}=(\\S+)`))![1]);
+};
+
+describe('email verification', () => {
+  it('requires a verified email before signing in', async () => {
+    expect((await register('New@Example.com')).status).toBe(201);
+    expect(await login('new@example.com')).toEqual({
+      status: 403,
+      body: { error: 'Please verify your email address before signing in.', code: 'email_unverified' },
+    });
+  });
+
+  it('accepts each link once, and only the newest one', async () => {
+    await register('links@example.com');
+    const first = linkToken('links@example.com', 'verify');
+    expect((await api('POST', '/api/auth/resend-verification', { body: { email: 'links@example.com' } })).status).toBe(200);
+    const second = linkToken('links@example.com', 'verify');
+
+    expect((await api('POST', '/api/auth/verify-email', { body: { token: first } })).body.code).toBe('invalid_link');
+    expect((await api('POST', '/api/auth/verify-email', { body: { token: second } })).status).toBe(200);
+    expect((await api('POST', '/api/auth/verify-email', { body: { token: second } })).body.code).toBe('invalid_link');
+    expect((await login('links@example.com')).status).toBe(200);
+  });
+
+  it('treats emails that differ only in case as the same account', async () => {
+    await signUp('case@example.com');
+    expect((await register('CASE@example.com')).body.code).toBe('email_taken');
+  });
+});
+
+describe('password reset', () => {
+  it('sets a new password and signs out every session', async () => {
+    const { token } = await signUp('reset@example.com');
+    expect((await api('POST', '/api/auth/forgot-password', { body: { email: 'Reset@example.com' } })).body).toEqual({ success: true });
+
+    const reset = await api('POST', '/api/auth/reset-password', { body: { token: linkToken('reset@example.com', 'reset'), password: 'a brand new secret' } });
+    expect(reset.status).toBe(200);
+    expect((await api('GET', '/api/user/profile', { token })).status).toBe(401);
+    expect((await login('reset@example.com')).status).toBe(401);
+    expect((await login('reset@example.com', 'a brand new secret')).status).toBe(200);
+  });
+
+  it("doesn't reveal whether an account exists", async () => {
+    const sent = mail.length;
+    expect((await api('POST', '/api/auth/forgot-password', { body: { email: 'nobody@example.com' } })).body).toEqual({ success: true });
+    expect(mail).toHaveLength(sent);
+  });
+
+  it('refuses a verification link as a reset link', async () => {
+    await register('mixup@example.com');
+    const res = await api('POST', '/api/auth/reset-password', { body: { token: linkToken('mixup@example.com', 'verify'), password: 'a brand new secret' } });
+    expect(res.body.code).toBe('invalid_link');
+  });
+});
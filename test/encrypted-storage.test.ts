@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import db from '../src/db.ts';
+import { unseal } from '../src/services/encryption.ts';
+import { api, signUp, uploadReport, useServer } from './helpers.ts';
+
+useServer();
+
+// What a database dump would show for one column of the user's rows.
+const stored = (table: string, column: string, userId: number) =>
+  db.prepare(`SELECT ${column} FROM ${table} WHERE user_id = ? ORDER BY id`).pluck().all(userId);
+
+describe('health data at rest', () => {
+  let token: string;
+  let userId: number;
+  beforeAll(async () => {
+    ({ token, user: { id: userId } } = await signUp('sealed@example.com'));
+  });
+
+  it('seals messages and the symptoms a triage rule matched', async () => {
+    const res = await api('POST', '/api/ai/chat', { token, body: { message: 'Crushing chest pain since lunch' } });
+    expect(res.body.triage.severity).toBe('emergency');
+    expect(stored('chat_history', 'content', userId).join(' ')).not.toContain('chest');
+    expect(stored('triage_events', 'matches', userId).join(' ')).not.toContain('chest');
+
+    const event = db.prepare('SELECT matches, key_version FROM triage_events WHERE user_id = ?').get(userId) as { matches: string, key_version: number };
+    expect(JSON.parse(unseal('triage_events', 'matches', userId, event.matches, event.key_version)!)[0])
+      .toMatchObject({ ruleId: 'chest-pain', matched: 'chest pain' });
+  });
+
+  it('seals vitals readings and serves them as numbers', async () => {
+    const reading = await api('POST', '/api/user/vitals', { token, body: { type: 'blood_pressure', value: 152, value2: 97, unit: 'mmHg' } });
+    expect(reading.body).toMatchObject({ value: 152, value2: 97, flag: 'high' });
+    expect(stored('vitals', 'value', userId)).not.toContain(152);
+    expect(stored('vitals', 'value', userId)[0]).toEqual(expect.any(String));
+    expect((await api('GET', '/api/user/vitals', { token })).body[0]).toMatchObject({ value: 152, value2: 97 });
+  });
+
+  it('seals lab result values and keeps the trend queries working', async () => {
+    const { body: { reportId } } = await uploadReport(token);
+    expect(stored('lab_results', 'value', userId)).not.toContain(6.1);
+
+    expect((await api('GET', `/api/reports/${reportId}/lab-results`, { token })).body[0]).toMatchObject({ test_name: 'HbA1c', value: 6.1 });
+    const markers = await api('GET', '/api/reports/markers', { token });
+    expect(markers.body.find((m: { marker: string }) => m.marker === 'hba1c')).toMatchObject({ value: 6.1, count: 1 });
+    expect((await api('GET', '/api/reports/markers/hba1c/series', { token })).body).toMatchObject([{ value: 6.1, out_of_range: 1 }]);
+  });
+});
+
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { openDatabase } from '../src/database.ts';
+import {
+  keyRingFromEnv, reencryptAll, reindexSearch, seal, sealNumber, searchCandidates, setKeyRing, unseal, unsealNumber, wordPrefixes, type KeyRing,
+} from '../src/services/encryption.ts';
+
+const key = () => crypto.randomBytes(32);
+const ring = (current: number, ...versions: [number, Buffer][]): KeyRing => ({ current, keys: new Map(versions) });
+
+afterEach(() => setKeyRing(null));
+
+describe('seal and unseal', () => {
+  const keys = ring(1, [1, key()]);
+
+  it('round-trips a value and leaves null alone', () => {
+    const sealed = seal('chat_history', 'content', 7, 'Headache since Tuesday', keys);
+    expect(sealed).not.toContain('Headache');
+    expect(unseal('chat_history', 'content', 7, sealed, 1, keys)).toBe('Headache since Tuesday');
+    expect(seal('chat_history', 'content', 7, null, keys)).toBeNull();
+  });
+
+  it('uses a fresh IV every time', () => {
+    expect(seal('vitals', 'notes', 1, 'same', keys)).not.toBe(seal('vitals', 'notes', 1, 'same', keys));
+  });
+
+  it('returns plaintext rows as they are', () => {
+    expect(unseal('chat_history', 'content', 7, 'still plain', null, keys)).toBe('still plain');
+  });
+
+  it('refuses a value moved to another owner or column', () => {
+    const sealed = seal('chat_history', 'content', 7, 'private', keys);
+    expect(() => unseal('chat_history', 'content', 8, sealed, 1, keys)).toThrow();
+    expect(() => unseal('medical_reports', 'analysis', 7, sealed, 1, keys)).toThrow();
+  });
+
+  it('round-trips numbers and reads ones stored before their column was sealed', () => {
+    const sealed = sealNumber('vitals', 'value', 7, 98.6, keys);
+    expect(unsealNumber('vitals', 'value', 7, sealed, 1, keys)).toBe(98.6);
+    expect(unsealNumber('vitals', 'value', 7, 98.6, 1, keys)).toBe(98.6);
+    expect(sealNumber('vitals', 'value2', 7, null, keys)).toBeNull();
+  });
+
+  it('needs the key version the value was sealed with', () => {
+    const sealed = seal('chat_history', 'content', 7, 'private', keys);
+    expect(() => unseal('chat_history', 'content', 7, sealed, 2, keys)).toThrow('Encryption key version 2 is not configured');
+  });
+});
+
+describe('keyRingFromEnv', () => {
+  it('uses the highest version unless told otherwise', () => {
+    const spec = `1:${key().toString('base64')},2:${key().toString('base64')}`;
+    expect(keyRingFromEnv({ ENCRYPTION_KEYS: spec, NODE_ENV: 'production' }).current).toBe(2);
+    expect(keyRingFromEnv({ ENCRYPTION_KEYS: spec, ENCRYPTION_KEY_VERSION: '1', NODE_ENV: 'production' }).current).toBe(1);
+  });
+
+  it('requires keys in production and rejects short ones', () => {
+    expect(() => keyRingFromEnv({ NODE_ENV: 'production' })).toThrow('ENCRYPTION_KEYS must be set in production');
+    expect(() => keyRingFromEnv({ ENCRYPTION_KEYS: `1:${crypto.randomBytes(16).toString('base64')}` })).toThrow('must be 32 bytes');
+  });
+});
+
+describe('reencryptAll', () => {
+  it('seals plaintext rows and moves sealed ones onto the current key', () => {
+    const db = openDatabase(':memory:');
+    const old = ring(1, [1, key()]);
+    const rotated = ring(2, [1, old.keys.get(1)!], [2, key()]);
+    db.prepare("INSERT INTO users (email, password) VALUES ('a@example.com', 'x')").run();
+    db.prepare("INSERT INTO chat_sessions (user_id, title) VALUES (1, 'Chat')").run();
+    const insert = db.prepare("INSERT INTO chat_history (user_id, role, content, session_id, key_version) VALUES (1, 'user', ?, 1, ?)");
+    insert.run('plain text', null);
+    insert.run(seal('chat_history', 'content', 1, 'old key', old), 1);
+
+    expect(reencryptAll(db, rotated).chat_history).toBe(2);
+    const rows = db.prepare('SELECT content, key_version FROM chat_history ORDER BY id').all() as { content: string, key_version: number }[];
+    expect(rows.map(r => r.key_version)).toEqual([2, 2]);
+    expect(rows.map(r => unseal('chat_history', 'content', 1, r.content, r.key_version, ring(2, [2, rotated.keys.get(2)!]))))
+      .toEqual(['plain text', 'old key']);
+    expect(reencryptAll(db, rotated).chat_history).toBe(0);
+  });
+
+  it('seals readings left as numbers in rows that are otherwise current', () => {
+    const db = openDatabase(':memory:');
+    const keys = ring(1, [1, key()]);
+    db.prepare("INSERT INTO users (email, password) VALUES ('a@example.com', 'x')").run();
+    db.prepare(`
+      INSERT INTO vitals (user_id, type, value, value2, unit, notes, measured_at, key_version)
+      VALUES (1, 'blood_pressure', 120, 80, 'mmHg', ?, '2026-01-01 08:00:00', 1)
+    `).run(seal('vitals', 'notes', 1, 'after coffee', keys));
+
+    expect(reencryptAll(db, keys).vitals).toBe(1);
+    const row = db.prepare('SELECT value, value2, notes, key_version FROM vitals').get() as { value: string, value2: string, notes: string, key_version: number };
+    expect(unsealNumber('vitals', 'value', 1, row.value, row.key_version, keys)).toBe(120);
+    expect(unsealNumber('vitals', 'value2', 1, row.value2, row.key_version, keys)).toBe(80);
+    expect(unseal('vitals', 'notes', 1, row.notes, row.key_version, keys)).toBe('after coffee');
+    expect(reencryptAll(db, keys).vitals).toBe(0);
+  });
+});
+
+describe('blind search index', () => {
+  it('splits text into word prefixes the way search terms are split', () => {
+    expect([...wordPrefixes('Flu, FLU!')]).toEqual(['f', 'fl', 'flu']);
+    expect(wordPrefixes('electrocardiogram').has('electrocar')).toBe(true);
+    expect(wordPrefixes('electrocardiogram').has('electrocard')).toBe(false);
+  });
+
+  it('finds rows by word prefix per user, newest first, across a key rotation', () => {
+    const db = openDatabase(':memory:');
+    const old = ring(1, [1, key()]);
+    setKeyRing(old);
+    db.prepare("INSERT INTO users (email, password) VALUES ('a@example.com', 'x'), ('b@example.com', 'x')").run();
+    db.prepare("INSERT INTO chat_sessions (user_id, title) VALUES (1, 'Chat'), (2, 'Chat')").run();
+    const insert = db.prepare("INSERT INTO chat_history (user_id, role, content, session_id, key_version) VALUES (?, 'user', ?, ?, 1)");
+    insert.run(1, seal('chat_history', 'content', 1, 'Chest pain at night'), 1);
+    insert.run(1, seal('chat_history', 'content', 1, 'Chesterfield sofa'), 1);
+    insert.run(2, seal('chat_history', 'content', 2, 'Chest pain too'), 2);
+    expect(reindexSearch(db)).toEqual({ message: 3, report: 0 });
+
+    expect(searchCandidates(db, 'message', 1, ['chest'], 10)).toEqual([2, 1]);
+    expect(searchCandidates(db, 'message', 1, ['chest', 'ni'], 10)).toEqual([1]);
+    expect(searchCandidates(db, 'message', 1, ['chest'], 1)).toEqual([2]);
+    expect(searchCandidates(db, 'message', 1, ['sore'], 10)).toEqual([]);
+
+    const rotated = ring(2, [1, old.keys.get(1)!], [2, key()]);
+    setKeyRing(rotated);
+    expect(searchCandidates(db, 'message', 1, ['pain'], 10)).toEqual([1]);
+    expect(reindexSearch(db).message).toBe(3);
+    setKeyRing(ring(2, [2, rotated.keys.get(2)!]));
+    expect(searchCandidates(db, 'message', 1, ['pain'], 10)).toEqual([1]);
+
+    db.prepare('DELETE FROM chat_sessions WHERE user_id = 1').run();
+    expect(db.prepare('SELECT COUNT(*) AS n FROM search_tokens WHERE user_id = 1').get()).toEqual({ n: 0 });
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import db from '../src/db.ts';
+import { setProvider } from '../src/services/ai.ts';
+import { MockProvider } from '../src/services/providers/index.ts';
+import { api, FailingProvider, signUp, uploadReport, useServer } from './helpers.ts';
+
+useServer();
+
+let token: string;
+beforeAll(async () => {
+  ({ token } = await signUp('errors@example.com'));
+});
+
+describe('validation', () => {
+  it('rejects invalid input with the standard error body', async () => {
+    const res = await api('POST', '/api/auth/register', { body: { email: 'not-an-email', password: 'short', firstName: 'A', lastName: 'B' } });
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({
+      error: 'Enter a valid email address',
+      code: 'validation_failed',
+      details: [
+        { path: 'email', message: 'Enter a valid email address' },
+        { path: 'password', message: 'Password must be at least 8 characters' },
+      ],
+    });
+  });
+
+  it('checks route params and query strings too', async () => {
+    expect((await api('GET', '/api/reports/abc', { token })).body).toMatchObject({ code: 'validation_failed', details: [{ path: 'id' }] });
+    expect((await api('GET', `/api/search?q=${'a'.repeat(201)}`, { token })).body).toMatchObject({ code: 'validation_failed', details: [{ path: 'q' }] });
+  });
+
+  it('treats a missing body as empty', async () => {
+    const res = await api('POST', '/api/ai/chat', { token });
+    expect(res.status).toBe(400);
+    expect(res.body.details.map((d: { path: string }) => d.path)).toEqual(['message']);
+  });
+});
+
+describe('AI failures', () => {
+  afterEach(() => setProvider(new MockProvider()));
+
+  it("don't pass the provider's error through", async () => {
+    setProvider(new FailingProvider('LLM server responded 500: {"internal":"stack trace"}'));
+    const res = await api('POST', '/api/ai/chat', { token, body: { message: 'A mild cough' } });
+    expect(res).toEqual({
+      status: 502,
+      body: { error: 'The AI service is unavailable right now. Please try again in a moment.', code: 'ai_unavailable' },
+    });
+  });
+
+  it('report a missing original file as gone rather than an AI failure', async () => {
+    const { body: { reportId } } = await uploadReport(token);
+    db.prepare("UPDATE medical_reports SET stored_path = '999/missing.png' WHERE id = ?").run(reportId);
+
+    const res = await api('POST', `/api/reports/${reportId}/reanalyze`, { token });
+    expect(res).toEqual({ status: 410, body: { error: 'The original file is missing', code: 'gone' } });
+  });
+});
@@ -0,0 +1,74 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterAll, beforeAll, expect } from 'vitest';
+import { app } from '../server.ts';
+import { setProvider } from '../src/services/ai.ts';
+import { setTransport, type MailMessage } from '../src/services/mail/index.ts';
+import { MockProvider } from '../src/services/providers/index.ts';
+
+let server: Server;
+let baseUrl: string;
+
+/** Every message the app has sent, newest last. */
+export const mail: MailMessage[] = [];
+
+/** Serves the app on a free port for the calling test file, with the mock model and a captured mailbox. */
+export function useServer() {
+  beforeAll(async () => {
+    setProvider(new MockProvider());
+    setTransport({ name: 'test', send: async message => { mail.push(message); } });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise(resolve => {
+    server.close(resolve);
+    server.closeAllConnections();
+  }));
+}
+
+export const request = (method: string, path: string, { body, token, signal }: { body?: unknown, token?: string, signal?: AbortSignal } = {}) =>
+  fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal,
+  });
+
+/** A JSON request; resolves to the status and the parsed body. */
+export const api = async (method: string, path: string, options?: { body?: unknown, token?: string }) => {
+  const res = await request(method, path, options);
+  return { status: res.status, body: await res.json() };
+};
+
+export const PASSWORD = 'correct horse battery';
+
+/** Registers, follows the emailed verification link and signs in. */
+export async function signUp(email: string) {
+  expect((await api('POST', '/api/auth/register', { body: { email, password: PASSWORD, firstName: 'Ann', lastName: 'Lee' } })).status).toBe(201);
+  const link = mail.filter(m => m.to === email).pop()!.text.match(/\?verify=(\S+)/)!;
+  expect((await api('POST', '/api/auth/verify-email', { body: { token: decodeURIComponent(link[1]) } })).status).toBe(200);
+  const login = await api('POST', '/api/auth/login', { body: { email, password: PASSWORD } });
+  expect(login.status).toBe(200);
+  return login.body as { token: string, refreshToken: string, user: { id: number } };
+}
+
+/** The mock model with an unreachable chat endpoint. */
+export class FailingProvider extends MockProvider {
+  constructor(private readonly failure = 'LLM server responded 500: upstream detail') {
+    super();
+  }
+
+  async chat(): Promise<string> {
+    throw new Error(this.failure);
+  }
+}
+
+/** Uploads a tiny PNG as a report; the mock model analyzes it. */
+export async function uploadReport(token: string, filename = 'scan.png') {
+  const form = new FormData();
+  form.append('report', new Blob([Buffer.from('89504e470d0a1a0a', 'hex')], { type: 'image/png' }), filename);
+  const res = await fetch(`${baseUrl}/api/reports/upload`, { method: 'POST', headers: { Authorization: `Bearer ${token}` }, body: form });
+  return { status: res.status, body: await res.json() };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { checkInteractions, findDrugs, interactionNote } from '../src/services/interactions/index.ts';
+
+describe('findDrugs', () => {
+  it('finds drugs by generic or brand name', () => {
+    expect(findDrugs('Took two Advil and some warfarin').map(d => d.id)).toEqual(['warfarin', 'ibuprofen']);
+  });
+
+  it('matches whole words only', () => {
+    expect(findDrugs('aspirational goals')).toEqual([]);
+  });
+});
+
+describe('checkInteractions', () => {
+  it('flags a class interaction with a current medication', () => {
+    const check = checkInteractions(['Advil 200mg'], { medications: ['Coumadin'], allergies: [] });
+    expect(check.severity).toBe('major');
+    expect(check.warnings).toHaveLength(1);
+    expect(check.warnings[0]).toMatchObject({ ruleId: 'anticoagulant-nsaid', kind: 'interaction', drug: 'Ibuprofen', conflictsWith: 'Coumadin' });
+  });
+
+  it('checks candidates against each other', () => {
+    const check = checkInteractions(['warfarin', 'naproxen'], { medications: [], allergies: [] });
+    expect(check.warnings.map(w => w.ruleId)).toEqual(['anticoagulant-nsaid']);
+  });
+
+  it('treats a direct allergy as contraindicated and a related one by its cross-reaction', () => {
+    const direct = checkInteractions(['Amoxil'], { medications: [], allergies: ['Penicillin'] });
+    expect(direct.severity).toBe('contraindicated');
+    expect(direct.warnings[0]).toMatchObject({ ruleId: 'allergy:amoxicillin', kind: 'allergy' });
+
+    const cross = checkInteractions(['Keflex'], { medications: [], allergies: ['penicillin'] });
+    expect(cross.warnings.map(w => [w.ruleId, w.severity])).toEqual([['penicillin-cephalosporin', 'moderate']]);
+  });
+
+  it('orders warnings most severe first', () => {
+    const check = checkInteractions(['ibuprofen'], { medications: ['warfarin'], allergies: ['aspirin'] });
+    expect(check.warnings.map(w => w.severity)).toEqual(['major', 'major']);
+    expect(check.severity).toBe('major');
+  });
+
+  it('reports names it does not know as unrecognized', () => {
+    const check = checkInteractions(['Zorbonex'], { medications: ['warfarin'], allergies: [] });
+    expect(check).toEqual({ severity: 'none', warnings: [], unrecognized: ['Zorbonex'] });
+    expect(interactionNote(check)).toBeNull();
+  });
+});
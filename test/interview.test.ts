@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { associatedOptions } from '../src/contracts/interview.ts';
+import { answerProblem, answerStep, assessInterview, assessmentText, previousStep, startInterview } from '../src/services/interview.ts';
+
+describe('interview state machine', () => {
+  it('asks each question in order', () => {
+    let state = startInterview();
+    expect(state.step).toBe('complaint');
+    state = answerStep(state, 'complaint', 'Sore knee');
+    state = answerStep(state, 'location', 'legs_feet');
+    state = answerStep(state, 'onset', 'gradual');
+    state = answerStep(state, 'duration', 'days');
+    state = answerStep(state, 'severity', 3);
+    expect(state.step).toBe('associated');
+    state = answerStep(state, 'associated', []);
+    expect(state.step).toBe('history');
+    state = answerStep(state, 'history', []);
+    expect(state.step).toBe('done');
+    expect(assessInterview(state.answers).level).toBe('self_care');
+  });
+
+  it('skips the history questions once emergency care is called for', () => {
+    let state = startInterview();
+    state = answerStep(state, 'complaint', 'Tight chest');
+    state = answerStep(state, 'location', 'chest');
+    state = answerStep(state, 'onset', 'sudden');
+    state = answerStep(state, 'duration', 'hours');
+    state = answerStep(state, 'severity', 6);
+    state = answerStep(state, 'associated', ['breathless']);
+    expect(state.step).toBe('done');
+    expect(assessInterview(state.answers)).toMatchObject({ level: 'emergency', careSetting: 'emergency_department' });
+  });
+
+  it('goes back to the previous answer and re-asks associated symptoms for a new region', () => {
+    let state = startInterview();
+    state = answerStep(state, 'complaint', 'Pain');
+    state = answerStep(state, 'location', 'chest');
+    state = answerStep(state, 'onset', 'gradual');
+    state = answerStep(state, 'duration', 'days');
+    state = answerStep(state, 'severity', 2);
+    state = answerStep(state, 'associated', ['cold_sweat']);
+
+    const back = previousStep(state);
+    expect(back.step).toBe('associated');
+    expect(back.answers.associated).toEqual(['cold_sweat']);
+
+    const moved = answerStep(state, 'location', 'legs_feet');
+    expect(moved.answers.associated).toBeUndefined();
+    expect(moved.step).toBe('associated');
+  });
+
+  it('only accepts associated symptoms offered for the region', () => {
+    expect(associatedOptions('legs_feet').map(o => o.id)).toContain('leg_swelling');
+    expect(associatedOptions('head').map(o => o.id)).not.toContain('leg_swelling');
+    expect(answerProblem('associated', ['leg_swelling'], { location: 'head' })).toBe('Pick from the listed symptoms');
+    expect(answerProblem('severity', 11, {})).toBe('Rate it from 0 to 10');
+    expect(answerProblem('complaint', '  ', {})).toBe('Describe what is bothering you');
+  });
+});
+
+describe('assessInterview', () => {
+  it('lets the most serious rule win and lists every reason', () => {
+    const result = assessInterview({ location: 'head', severity: 9, duration: 'weeks', associated: ['fever', 'stiff_neck'], history: [] });
+    expect(result.level).toBe('emergency');
+    expect(result.reasons[0]).toBe('Fever with a stiff neck');
+    expect(result.reasons).toContain('Going on for 1-4 weeks');
+  });
+
+  it('adds red flags from the wording of the complaint', () => {
+    const result = assessInterview({ severity: 1 }, [{ label: 'Chest pain', severity: 'emergency' }]);
+    expect(result).toEqual({ level: 'emergency', careSetting: 'emergency_department', reasons: ['Chest pain'] });
+    expect(assessmentText(result).split('\n')[0]).toBe('> [!EMERGENCY]');
+  });
+});
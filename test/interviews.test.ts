@@ -0,0 +1,38 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import db from '../src/db.ts';
+import { api, signUp, useServer } from './helpers.ts';
+
+useServer();
+
+const answers = { complaint: 'Tight chest after my divorce', location: 'chest', onset: 'sudden', duration: 'hours', severity: 6, associated: ['breathless'] };
+
+describe('symptom check routes', () => {
+  let token: string;
+  beforeAll(async () => {
+    ({ token } = await signUp('interview@example.com'));
+  });
+
+  it('assesses and saves a finished symptom check on a new session', async () => {
+    const res = await api('POST', '/api/chat/interviews', { token, body: { answers } });
+    expect(res.status).toBe(200);
+    expect(res.body.interview).toMatchObject({ triage_level: 'emergency', care_setting: 'emergency_department' });
+    expect(res.body.interview.reasons).toContain('Chest symptoms with shortness of breath');
+    expect(res.body.summary.split('\n')[0]).toBe('> [!EMERGENCY]');
+
+    const saved = await api('GET', `/api/chat/interviews?sessionId=${res.body.session.id}`, { token });
+    expect(saved.body.map((i: { answers: unknown }) => i.answers)).toEqual([{ ...answers, history: [] }]);
+  });
+
+  it('names the session after the body region, never the complaint', async () => {
+    const res = await api('POST', '/api/chat/interviews', { token, body: { answers } });
+    expect(res.body.session.title).toBe('Symptom check: chest');
+    expect(db.prepare('SELECT title FROM chat_sessions').pluck().all().join(' ')).not.toContain('divorce');
+    expect(db.prepare('SELECT answers FROM symptom_interviews').pluck().all().join(' ')).not.toContain('divorce');
+  });
+
+  it('rejects associated symptoms the region does not offer', async () => {
+    const res = await api('POST', '/api/chat/interviews', { token, body: { answers: { ...answers, associated: ['leg_swelling'] } } });
+    expect(res.status).toBe(400);
+    expect(res.body).toMatchObject({ code: 'validation_failed', details: [{ path: 'answers.associated', message: 'Pick from the listed symptoms' }] });
+  });
+});
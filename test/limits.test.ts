@@ -0,0 +1,69 @@
+import bcrypt from 'bcryptjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import db from '../src/db.ts';
+import { LOGIN_LOCKOUT, usageDay } from '../src/services/limits.ts';
+import { api, PASSWORD, signUp, useServer } from './helpers.ts';
+
+useServer();
+
+const login = (email: string, password = PASSWORD) => api('POST', '/api/auth/login', { body: { email, password } });
+
+// Every request here comes from one IP; only the limits under test should trip.
+beforeEach(() => {
+  db.prepare("DELETE FROM rate_limits WHERE key LIKE 'ip:%'").run();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('sign-in lockout', () => {
+  it('locks the account after repeated wrong passwords', async () => {
+    await signUp('locked@example.com');
+    const wrong = await login('locked@example.com', 'not the password');
+    for (let i = 1; i < LOGIN_LOCKOUT.maxFailures; i++) await login('locked@example.com', 'not the password');
+
+    const locked = await login('locked@example.com');
+    expect(locked).toEqual(wrong);
+    expect(locked.status).toBe(401);
+    expect(db.prepare("SELECT locked_until IS NOT NULL FROM users WHERE email = 'locked@example.com'").pluck().get()).toBe(1);
+  });
+
+  it('answers an unknown email exactly like a wrong password', async () => {
+    await signUp('known@example.com');
+    expect(await login('nobody@example.com')).toEqual(await login('known@example.com', 'not the password'));
+  });
+
+  it('checks a password hash for unknown emails too', async () => {
+    const compare = vi.spyOn(bcrypt, 'compare');
+    await login('nobody@example.com');
+    expect(compare).toHaveBeenCalledTimes(1);
+  });
+
+  it('limits attempts per email address', async () => {
+    const statuses = [];
+    for (let i = 0; i < 10; i++) statuses.push((await login('target@example.com', 'guess')).status);
+    expect(statuses).toEqual(Array(10).fill(401));
+    const limited = await login('target@example.com', 'guess');
+    expect(limited.status).toBe(429);
+    expect(limited.body).toMatchObject({ code: 'rate_limited', retryAfter: expect.any(Number) });
+  });
+});
+
+describe('daily AI quota', () => {
+  it('turns away chat once the allowance is spent, except for red flags', async () => {
+    const { token, user } = await signUp('quota@example.com');
+    db.prepare('INSERT INTO ai_usage (user_id, day, requests, tokens) VALUES (?, ?, 200, 0)').run(user.id, usageDay());
+
+    const usage = await api('GET', '/api/ai/usage', { token });
+    expect(usage.body.requests).toEqual({ used: 200, limit: 200 });
+
+    const res = await api('POST', '/api/ai/chat', { token, body: { message: 'A mild cough' } });
+    expect(res.status).toBe(429);
+    expect(res.body).toMatchObject({ code: 'rate_limited', error: "You've reached today's AI usage limit. It resets at midnight UTC." });
+
+    const flagged = await api('POST', '/api/ai/chat', { token, body: { message: 'Crushing chest pain' } });
+    expect(flagged.status).toBe(200);
+    expect(flagged.body.reply.split('\n')[0]).toBe('> [!EMERGENCY]');
+  });
+});
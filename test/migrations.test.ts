@@ -0,0 +1,82 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import { appliedMigrations, migrations, pendingMigrations, runMigrations } from '../src/migrations/index.ts';
+
+const fresh = () => {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  return db;
+};
+
+describe('runMigrations', () => {
+  it('applies every migration once, in order', () => {
+    const db = fresh();
+    const applied = runMigrations(db);
+    expect(applied.map(m => m.version)).toEqual(migrations.map((_, i) => i + 1));
+    expect(appliedMigrations(db).map(m => m.name)).toEqual(migrations.map(m => m.name));
+    expect(pendingMigrations(db)).toEqual([]);
+    expect(runMigrations(db)).toEqual([]);
+  });
+
+  it('rolls back a failing migration and stops', () => {
+    const db = fresh();
+    const broken = { version: 99, name: 'broken', up: (d: Database.Database) => {
+      d.exec('CREATE TABLE half_done (id INTEGER)');
+      throw new Error('boom');
+    } };
+    expect(() => runMigrations(db, [...migrations, broken])).toThrow('boom');
+    expect(appliedMigrations(db).map(m => m.version)).not.toContain(99);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'").get()).toBeUndefined();
+  });
+
+  it('keeps the audit log append-only', () => {
+    const db = fresh();
+    runMigrations(db);
+    db.prepare("INSERT INTO audit_log (actor_id, action, resource, status) VALUES (1, 'test', '/api/test', 200)").run();
+    expect(() => db.prepare('UPDATE audit_log SET status = 500').run()).toThrow('audit_log is append-only');
+    expect(() => db.prepare('DELETE FROM audit_log').run()).toThrow('audit_log is append-only');
+  });
+});
+
+describe('017_email_nocase', () => {
+  const upTo = (version: number) => migrations.filter(m => m.version < version);
+  const emailNocase = migrations.find(m => m.name === 'email_nocase')!;
+
+  it('lowercases stored emails and rejects new case clashes', () => {
+    const db = fresh();
+    runMigrations(db, upTo(emailNocase.version));
+    db.prepare("INSERT INTO users (email, password) VALUES ('Ann@Example.com', 'x')").run();
+    runMigrations(db, [emailNocase]);
+    expect(db.prepare('SELECT email FROM users').pluck().get()).toBe('ann@example.com');
+    expect(() => db.prepare("INSERT INTO users (email, password) VALUES ('ANN@example.com', 'x')").run()).toThrow(/UNIQUE/);
+  });
+
+  it('stops and names accounts that differ only in case', () => {
+    const db = fresh();
+    runMigrations(db, upTo(emailNocase.version));
+    db.prepare("INSERT INTO users (email, password) VALUES ('ann@example.com', 'x'), ('Ann@example.com', 'x')").run();
+    expect(() => runMigrations(db, [emailNocase])).toThrow(/ann@example.com \(users (1,2|2,1)\)/);
+    expect(db.prepare('SELECT email FROM users ORDER BY id').pluck().all()).toEqual(['ann@example.com', 'Ann@example.com']);
+  });
+});
+
+describe('020_interview_titles', () => {
+  it('replaces complaint titles of symptom check sessions and leaves renamed and other sessions', () => {
+    const db = fresh();
+    const interviewTitles = migrations.find(m => m.name === 'interview_titles')!;
+    runMigrations(db, migrations.filter(m => m.version < interviewTitles.version));
+    db.prepare("INSERT INTO users (email, password) VALUES ('ann@example.com', 'x')").run();
+    db.prepare(`
+      INSERT INTO chat_sessions (user_id, title) VALUES
+        (1, 'Symptom check: Tight chest after my divorce'), (1, 'Chest worries'), (1, 'Symptom check: my own notes')
+    `).run();
+    db.prepare(`
+      INSERT INTO symptom_interviews (user_id, session_id, answers, triage_level, care_setting, reasons)
+      VALUES (1, 1, '{}', 'urgent', 'urgent_care', '[]'), (1, 2, '{}', 'urgent', 'urgent_care', '[]')
+    `).run();
+
+    runMigrations(db, [interviewTitles]);
+    expect(db.prepare('SELECT title FROM chat_sessions ORDER BY id').pluck().all())
+      .toEqual(['Symptom check', 'Chest worries', 'Symptom check: my own notes']);
+  });
+});
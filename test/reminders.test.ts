@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { openDatabase } from '../src/database.ts';
+import { getKeyRing, seal } from '../src/services/encryption.ts';
+import type { Notice, NotificationChannel } from '../src/services/notifications/index.ts';
+import { doseAdherence, rescheduleReminder, runReminderTick, zonedTime } from '../src/services/reminders.ts';
+
+const setup = () => {
+  const db = openDatabase(':memory:');
+  db.prepare("INSERT INTO users (email, password) VALUES ('a@example.com', 'x')").run();
+  const sent: Notice[] = [];
+  const channel: NotificationChannel = { name: 'test', deliver: async notice => { sent.push(notice); } };
+  const addDose = (times: string, timezone = 'America/New_York') => Number(db.prepare(`
+    INSERT INTO reminders (user_id, kind, title, times, timezone, key_version) VALUES (1, 'dose', ?, ?, ?, ?)
+  `).run(seal('reminders', 'title', 1, 'Metformin'), times, timezone, getKeyRing().current).lastInsertRowid);
+  const statuses = () => db.prepare('SELECT scheduled_for, status FROM reminder_occurrences ORDER BY scheduled_for').all();
+  return { db, sent, channel, addDose, statuses };
+};
+
+describe('zonedTime', () => {
+  it('follows daylight saving time in the reminder time zone', () => {
+    expect(zonedTime('2026-03-07', '08:00', 'America/New_York').toISOString()).toBe('2026-03-07T13:00:00.000Z');
+    expect(zonedTime('2026-03-08', '08:00', 'America/New_York').toISOString()).toBe('2026-03-08T12:00:00.000Z');
+  });
+});
+
+describe('runReminderTick', () => {
+  it('queues dose times up to 36 hours ahead without duplicates', async () => {
+    const { db, channel, addDose, statuses } = setup();
+    addDose('08:00,20:00');
+    const now = new Date('2026-01-10T12:00:00Z');
+    expect(await runReminderTick(db, [channel], now)).toEqual({ queued: 3, missed: 0, sent: 0 });
+    expect(await runReminderTick(db, [channel], now)).toEqual({ queued: 0, missed: 0, sent: 0 });
+    expect(statuses()).toEqual([
+      { scheduled_for: '2026-01-10 13:00:00', status: 'pending' },
+      { scheduled_for: '2026-01-11 01:00:00', status: 'pending' },
+      { scheduled_for: '2026-01-11 13:00:00', status: 'pending' },
+    ]);
+  });
+
+  it('delivers a due occurrence once, then marks it missed when nobody answers', async () => {
+    const { db, sent, channel, addDose, statuses } = setup();
+    addDose('08:00');
+    await runReminderTick(db, [channel], new Date('2026-01-10T12:00:00Z'));
+
+    const due = new Date('2026-01-10T13:00:00Z');
+    expect((await runReminderTick(db, [channel], due)).sent).toBe(1);
+    expect((await runReminderTick(db, [channel], due)).sent).toBe(0);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ userId: 1, title: 'Time for Metformin', url: '/?tab=reminders' });
+    expect(sent[0].body).toContain('8:00 AM dose');
+
+    expect((await runReminderTick(db, [channel], new Date('2026-01-11T01:30:00Z'))).missed).toBe(1);
+    expect(statuses()[0]).toEqual({ scheduled_for: '2026-01-10 13:00:00', status: 'missed' });
+  });
+
+  it('drops unanswered future occurrences when a reminder is paused', async () => {
+    const { db, channel, addDose, statuses } = setup();
+    const id = addDose('08:00,20:00');
+    const now = new Date('2026-01-10T12:00:00Z');
+    await runReminderTick(db, [channel], now);
+    db.prepare('UPDATE reminders SET active = 0 WHERE id = ?').run(id);
+    expect(rescheduleReminder(db, id, now)).toBe(0);
+    expect(statuses()).toEqual([]);
+  });
+});
+
+describe('doseAdherence', () => {
+  it('counts taken doses against taken, skipped and missed ones', async () => {
+    const { db, channel, addDose } = setup();
+    addDose('08:00,20:00');
+    await runReminderTick(db, [channel], new Date('2026-01-10T12:00:00Z'));
+    const answer = db.prepare('UPDATE reminder_occurrences SET status = ? WHERE scheduled_for = ?');
+    answer.run('taken', '2026-01-10 13:00:00');
+    answer.run('skipped', '2026-01-11 01:00:00');
+    answer.run('taken', '2026-01-11 13:00:00');
+
+    const adherence = doseAdherence(db, 1, 7, new Date('2026-01-12T00:00:00Z'));
+    expect(adherence).toMatchObject({ days: 7, taken: 2, skipped: 1, missed: 0, percentage: 67 });
+    expect(adherence.reminders).toEqual([{ reminderId: 1, title: 'Metformin', taken: 2, skipped: 1, missed: 0, percentage: 67 }]);
+  });
+});
@@ -0,0 +1,44 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { HIGHLIGHT_END, HIGHLIGHT_START } from '../src/services/search.ts';
+import { api, signUp, uploadReport, useServer } from './helpers.ts';
+
+useServer();
+
+const mark = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+
+describe('search', () => {
+  let token: string;
+  beforeAll(async () => {
+    ({ token } = await signUp('search@example.com'));
+    await api('POST', '/api/ai/chat', { token, body: { message: 'A pounding headache since Tuesday' } });
+    expect((await uploadReport(token, 'bloods.png')).status).toBe(200);
+  });
+
+  it('finds messages by word prefix and highlights the match', async () => {
+    const res = await api('GET', '/api/search?q=pound', { token });
+    expect(res.body.reports).toEqual([]);
+    const user = res.body.messages.find((m: { role: string }) => m.role === 'user');
+    expect(res.body.messages).toHaveLength(2);
+    expect(user.snippet).toContain(`A ${mark('pounding')} headache`);
+  });
+
+  it('needs every term to match', async () => {
+    expect((await api('GET', '/api/search?q=headache+tues', { token })).body.messages).toHaveLength(2);
+    expect((await api('GET', '/api/search?q=headache+zebra', { token })).body.messages).toEqual([]);
+  });
+
+  it('finds report analyses', async () => {
+    const res = await api('GET', '/api/search?q=mock+analysis', { token });
+    expect(res.body.reports).toMatchObject([{ filename: 'bloods.png' }]);
+    expect(res.body.reports[0].snippet).toContain(`${mark('Mock')} ${mark('analysis')}`);
+  });
+
+  it('returns nothing for an empty query', async () => {
+    expect((await api('GET', '/api/search?q=', { token })).body).toEqual({ messages: [], reports: [] });
+  });
+
+  it("never returns another user's rows", async () => {
+    const { token: other } = await signUp('other@example.com');
+    expect((await api('GET', '/api/search?q=pound', { token: other })).body).toEqual({ messages: [], reports: [] });
+  });
+});
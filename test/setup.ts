@@ -0,0 +1,10 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+// User ids start at 1 in every file's database, so each file keeps its report files apart.
+const reportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'myhealthai-test-reports-'));
+process.env.REPORTS_DIR = reportsDir;
+
+afterAll(() => fs.rmSync(reportsDir, { recursive: true, force: true }));
@@ -0,0 +1,68 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import db from '../src/db.ts';
+import { setProvider } from '../src/services/ai.ts';
+import { MockProvider, type GenerateOptions } from '../src/services/providers/index.ts';
+import { api, request, signUp, useServer } from './helpers.ts';
+
+useServer();
+
+// Sends the first words, then holds the stream open until the client goes away.
+class StallingProvider extends MockProvider {
+  async *streamChat(_messages: unknown, options: GenerateOptions = {}) {
+    yield 'The first ';
+    yield 'few words';
+    await new Promise(resolve => options.signal?.addEventListener('abort', resolve));
+  }
+}
+
+const parseEvents = (text: string) => text.trim().split('\n\n').map(block => {
+  const [event, data] = block.split('\n');
+  return { event: event.replace('event: ', ''), data: JSON.parse(data.replace('data: ', '')) };
+});
+
+const waitFor = async <T>(check: () => T | undefined) => {
+  for (let i = 0; i < 50; i++) {
+    const value = check();
+    if (value !== undefined) return value;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error('Timed out');
+};
+
+describe('streamed chat', () => {
+  let token: string;
+  beforeAll(async () => {
+    ({ token } = await signUp('stream@example.com'));
+  });
+
+  afterEach(() => setProvider(new MockProvider()));
+
+  it('sends the session, triage, deltas and done as events, then saves the reply', async () => {
+    const res = await request('POST', '/api/ai/chat/stream', { token, body: { message: 'Crushing chest pain' } });
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    const events = parseEvents(await res.text());
+
+    expect(events.map(e => e.event).filter((e, i, all) => all.indexOf(e) === i)).toEqual(['session', 'triage', 'delta', 'done']);
+    const reply = events.filter(e => e.event === 'delta').map(e => e.data.text).join('');
+    expect(events.at(-1)!.data).toEqual({ reply, partial: false, severity: 'emergency' });
+
+    const history = await api('GET', `/api/chat/history?sessionId=${events[0].data.id}`, { token });
+    expect(history.body.map((m: { content: string }) => m.content)).toEqual(['Crushing chest pain', reply]);
+  });
+
+  it('saves what arrived as a partial reply when the client disconnects', async () => {
+    setProvider(new StallingProvider());
+    const controller = new AbortController();
+    const res = await request('POST', '/api/ai/chat/stream', { token, body: { message: 'Tell me about sleep' }, signal: controller.signal });
+
+    const reader = res.body!.getReader();
+    let received = '';
+    while (!received.includes('few words')) received += new TextDecoder().decode((await reader.read()).value);
+    controller.abort();
+
+    const sessionId = parseEvents(received.slice(0, received.lastIndexOf('\n\n')))[0].data.id;
+    await waitFor(() => db.prepare("SELECT 1 FROM chat_history WHERE session_id = ? AND role = 'assistant'").get(sessionId));
+    const history = await api('GET', `/api/chat/history?sessionId=${sessionId}`, { token });
+    expect(history.body.at(-1)).toMatchObject({ role: 'assistant', content: 'The first few words', partial: 1 });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { triageFallbackReply, triageMessage } from '../src/services/triage/index.ts';
+
+describe('triageMessage', () => {
+  it('flags red-flag phrases at their severity', () => {
+    const result = triageMessage('I have crushing chest pain and feel sick');
+    expect(result.severity).toBe('emergency');
+    expect(result.matches.map(m => m.ruleId)).toEqual(['chest-pain']);
+    expect(result.matches[0].matched).toBe('chest pain');
+  });
+
+  it('ignores negated phrases', () => {
+    expect(triageMessage('No chest pain, just a cough').severity).toBe('none');
+    expect(triageMessage("I don't have chest pain").severity).toBe('none');
+    expect(triageMessage('Never fainted in my life').severity).toBe('none');
+  });
+
+  it('only negates within a few words', () => {
+    expect(triageMessage('Not at all sure what this chest pain is').severity).toBe('emergency');
+    expect(triageMessage('Not really any chest pain').severity).toBe('none');
+  });
+
+  it("doesn't carry negation across clauses or contrasts", () => {
+    expect(triageMessage('No fever but chest pain since this morning').severity).toBe('emergency');
+    expect(triageMessage('No fever. Chest pain since this morning').severity).toBe('emergency');
+  });
+
+  it('treats curly apostrophes like straight ones', () => {
+    expect(triageMessage('I don’t have chest pain').severity).toBe('none');
+  });
+
+  it('matches whole words only', () => {
+    expect(triageMessage('The strokes of the brush were uneven').matches).toEqual([]);
+  });
+});
+
+describe('triageFallbackReply', () => {
+  it('writes emergencies as a callout', () => {
+    const reply = triageFallbackReply(triageMessage('I think I am having a heart attack'));
+    expect(reply.split('\n')[0]).toBe('> [!EMERGENCY]');
+    expect(reply).toContain('**Chest pain:**');
+  });
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config';
+
+// Every test file gets its own in-memory database and the offline model, so
+// nothing touches health.db, the network or a real mailbox. Report files go
+// to a temporary directory per file (see test/setup.ts).
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    setupFiles: ['test/setup.ts'],
+    env: {
+      DATABASE_PATH: ':memory:',
+      LLM_PROVIDER: 'mock',
+      NOTIFICATION_CHANNELS: 'in-app',
+      TRIAGE_RULES_PATH: '',
+      DRUG_INTERACTIONS_PATH: '',
+    },
+  },
+});